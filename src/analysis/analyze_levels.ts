@@ -0,0 +1,32 @@
+/// <reference types="node" />
+import { LEVELS } from 'src/app/level';
+import { analyzeLevel } from 'src/app/level_analysis';
+
+/** Prints each level's analysis and what's unfair about it. */
+function analyzeLevels(): void {
+    let numLevelsWithWarnings = 0;
+    for (const level of LEVELS) {
+        const analysis = analyzeLevel(level);
+        const teamSummaries = analysis.teams.map((team, teamIndex) => {
+            const moves = team.movesToEnemyFlag != null
+                ? `${team.movesToEnemyFlag} moves`
+                : 'walled off';
+            return `team ${teamIndex + 1} ${moves}, ` +
+                `${team.exposedPlacementTiles.length}/` +
+                `${team.placementTiles.length} placement tiles exposed`;
+        });
+        console.log(
+            `${level.name}: ${teamSummaries.join('; ')}; ` +
+            `${analysis.chokePoints.length} choke points`);
+        for (const warning of analysis.warnings) {
+            console.log(`  ${warning}`);
+        }
+        if (analysis.warnings.length) {
+            numLevelsWithWarnings++;
+        }
+    }
+    console.log(
+        `${numLevelsWithWarnings} of ${LEVELS.length} levels have warnings`);
+}
+
+analyzeLevels();
@@ -11,6 +11,7 @@ export enum ActionType {
     AIM = 'AIM',
     SHOOT = 'SHOOT',
     HEAL = 'HEAL',
+    OVERWATCH = 'OVERWATCH',
     END_CHARACTER_TURN = 'END_CHARACTER_TURN',
 }
 
@@ -48,13 +49,18 @@ export interface ShootAction {
     readonly type: ActionType.SHOOT;
 }
 
+/** Locks the aim of a character in the OVERWATCH state. */
+export interface OverwatchAction {
+    readonly type: ActionType.OVERWATCH;
+}
+
 export interface HealAction {
     readonly type: ActionType.HEAL;
     readonly healAmount: number;
 }
 
 export type Action = SelectCharacterClassAction |
-    EndCharacterTurnAction | ShootAction | HealAction |
+    EndCharacterTurnAction | ShootAction | OverwatchAction | HealAction |
     SelectTileAction | SelectCharacterAction |
     SelectCharacterStateAction | AimAction;
 
@@ -1,21 +1,24 @@
-import { Action, ActionType, EndCharacterTurnAction, ShootAction, SelectCharacterStateAction, SelectTileAction, AimAction, SelectCharacterClassAction, HealAction } from 'src/app/actions';
+import { Action, ActionType, EndCharacterTurnAction, ShootAction, SelectCharacterStateAction, SelectTileAction, AimAction, SelectCharacterClassAction, HealAction, OverwatchAction } from 'src/app/actions';
 import { Point } from 'src/app/math/point';
 import { GameState, GamePhase, SelectedCharacterState } from 'src/app/game_state';
 import { Character } from 'src/app/game_objects/character';
 import { Grid, pathTo } from 'src/app/grid';
-import { getProjectileTarget, getRayForShot, getRayForShot2 } from 'src/app/target_finder';
+import { getProjectileTarget, getProjectileTargetsPath, getRayForShot, getRayForShot2 } from 'src/app/target_finder';
 import { Target } from './math/target';
+import { getHitChanceForTarget } from './cover';
+import { ProjectileDetailsType, getSprayAimAngles } from './shot_info';
 import { CharacterSettings, ASSAULT_CHARACTER_SETTINGS, SCOUT_CHARACTER_SETTINGS, CharacterAbilityType, HealAbility } from './character_settings';
 import { AiDifficulty } from './game_settings';
-import { randomElement } from './math/random';
+import { randomElement, Random } from './math/random';
 import { LOGGER, LogType } from 'src/app/logger';
+import { LastKnownPositions } from 'src/app/last_known_positions';
 
 interface AiSettings {
     /** If true, simply chooses any optimal tile instead of always the first. */
     readonly randomizeMovement: boolean;
     readonly maxAngleRandomization: number;
 
-    // Just delete... ?
+    /** If true, sees every enemy, even through walls. */
     readonly ignoresFogOfWar: boolean;
     readonly characterClass: CharacterSettings;
     readonly heals: boolean;
@@ -77,19 +80,40 @@ export class Ai {
     readonly difficulty: AiDifficulty;
     readonly settings: AiSettings;
     readonly teamIndex: number;
+    private readonly random: Random;
     private actionQueue: OnGetNextAction[];
     private characterIndexToPriority: Map<number, Priority>;
-
-    constructor({ teamIndex, difficulty }: { teamIndex: number; difficulty: AiDifficulty; }) {
+    /** Where enemies that went out of sight were last seen. */
+    readonly lastKnownPositions: LastKnownPositions;
+
+    constructor({ teamIndex, difficulty, seed }: {
+        teamIndex: number;
+        difficulty: AiDifficulty;
+        /** Usually the match's seed. */
+        seed: number;
+    }) {
         this.teamIndex = teamIndex;
         this.difficulty = difficulty;
+        this.random = new Random(seed, `ai${teamIndex}`);
         this.log(`AI created on ${difficulty} difficulty`);
         this.settings = difficultyToSettings.get(difficulty)!;
         this.actionQueue = [];
         this.characterIndexToPriority = new Map();
+        this.lastKnownPositions = new LastKnownPositions();
     }
 
     getNextAction(gameState: GameState): Action {
+        this.lastKnownPositions.update({
+            enemies: gameState.getAliveCharacters().filter((character) => {
+                return !gameState.areAllies(character.teamIndex, this.teamIndex);
+            }),
+            isCharacterVisible: (character: Character) => {
+                return this.isEnemyVisible(character, gameState);
+            },
+            isTileVisible: (tile: Point) => {
+                return gameState.isTileVisibleByTeamIndex(tile, this.teamIndex);
+            },
+        });
         if (this.actionQueue.length === 0) {
             this.actionQueue = this.getActionsForGameState(gameState);
         }
@@ -106,6 +130,15 @@ export class Ai {
         return nextAction;
     }
 
+    /** Where the AI's dice left off, saved with a match to continue. */
+    getRandomState(): number {
+        return this.random.getState();
+    }
+
+    setRandomState(state: number): void {
+        this.random.setState(state);
+    }
+
     private getActionsForGameState(gameState: GameState): OnGetNextAction[] {
         if (gameState.gamePhase === GamePhase.CHARACTER_PLACEMENT) {
             return this.placeCharacter(gameState);
@@ -119,9 +152,10 @@ export class Ai {
             this.assignPriority(selectedCharacter.index, gameState);
         }
         const selectedCharacterState = gameState.selectedCharacterState;
-        const isFlagCarrier =
-            selectedCharacter.tileCoords
-                .equals(gameState.getEnemyFlag().tileCoords);
+        const isFlagCarrier = gameState.getEnemyFlags()
+            .some((flag) => {
+                return flag.tileCoords.equals(selectedCharacter.tileCoords);
+            });
         if (isFlagCarrier && !selectedCharacter.hasMoved) {
             return this.getActionsForFlagCarrrier(selectedCharacter, gameState);
         }
@@ -164,6 +198,14 @@ export class Ai {
             };
             return [heal];
         }
+        if (selectedCharacter.canShoot()) {
+            const overwatchTile =
+                this.getOverwatchTargetTile(selectedCharacter, gameState);
+            if (overwatchTile != null) {
+                return this.getOverwatchSequence(
+                    selectedCharacter, overwatchTile);
+            }
+        }
         const endTurn = (gameState: GameState) => {
             const endTurnAction: EndCharacterTurnAction = {
                 type: ActionType.END_CHARACTER_TURN,
@@ -173,6 +215,85 @@ export class Ai {
         return [endTurn];
     }
 
+    /**
+     * Where to point overwatch when there's nothing to shoot at, ie the
+     * closest enemy in sight, else where one was last seen, or where
+     * defenders expect enemies from.
+     */
+    private getOverwatchTargetTile(
+        character: Character, gameState: GameState): Point | null {
+        const enemyTiles = this.getVisibleEnemies(gameState)
+            .map((enemy) => enemy.tileCoords);
+        if (enemyTiles.length > 0) {
+            return getTileClosestTo(enemyTiles, character.tileCoords);
+        }
+        const ghostTiles = this.lastKnownPositions.getGhosts()
+            .map((ghost) => ghost.tile);
+        if (ghostTiles.length > 0) {
+            return getTileClosestTo(ghostTiles, character.tileCoords);
+        }
+        const priority = this.characterIndexToPriority.get(character.index);
+        if (priority === Priority.DEFEND) {
+            return gameState.getObjectiveTile(character.tileCoords);
+        }
+        return null;
+    }
+
+    private getOverwatchSequence(
+        character: Character, targetTile: Point): OnGetNextAction[] {
+        const startOverwatch = (gameState: GameState) => {
+            const startOverwatchAction: SelectCharacterStateAction = {
+                type: ActionType.SELECT_CHARACTER_STATE,
+                state: SelectedCharacterState.OVERWATCH,
+            };
+            return startOverwatchAction;
+        };
+        const thenAim = (gameState: GameState) => {
+            const direction = getTileCenterCanvas(targetTile)
+                .subtract(getTileCenterCanvas(character.tileCoords))
+                .normalize();
+            const aimAction: AimAction = {
+                type: ActionType.AIM,
+                aimAngleClockwiseRadians: direction.getPointRotationRadians(),
+            };
+            return aimAction;
+        };
+        const thenSetOverwatch = (gameState: GameState) => {
+            const overwatchAction: OverwatchAction = {
+                type: ActionType.OVERWATCH,
+            };
+            return overwatchAction;
+        };
+        return [startOverwatch, thenAim, thenSetOverwatch];
+    }
+
+    /**
+     * Number of enemy overwatchers the AI knows of that would
+     * fire on the selected character moving to the tile.
+     */
+    private getOverwatchExposure(tile: Point, gameState: GameState): number {
+        const mover = gameState.selectedCharacter;
+        if (mover == null) {
+            return 0;
+        }
+        const knownOverwatchers = this.getVisibleEnemies(gameState)
+            .filter((enemy) => enemy.isOnOverwatch());
+        if (knownOverwatchers.length === 0) {
+            return 0;
+        }
+        const reactingOverwatchers = new Set<Character>();
+        const path = getPathToLocation(mover.tileCoords, tile, gameState);
+        for (const pathTile of path) {
+            for (const overwatcher of gameState
+                .getOverwatchersReactingTo(mover, pathTile)) {
+                if (knownOverwatchers.indexOf(overwatcher) !== -1) {
+                    reactingOverwatchers.add(overwatcher);
+                }
+            }
+        }
+        return reactingOverwatchers.size;
+    }
+
     private placeCharacter(gameState: GameState): OnGetNextAction[] {
         const characterIndex = gameState.getActiveSquad().length;
         this.assignPriority(characterIndex, gameState);
@@ -195,12 +316,14 @@ export class Ai {
             } else {
                 optimalTiles =
                     this.getClosestSelectableTileToLocationWithFewestDirectHits(
-                        gameState.getEnemyFlag().tileCoords, gameState);
+                        gameState.getObjectiveTile(
+                            gameState.getActiveTeamFlag().tileCoords),
+                        gameState);
             }
             if (optimalTiles.length > 0) {
                 let selection = optimalTiles[0];
                 if (this.settings.randomizeMovement) {
-                    selection = randomElement(optimalTiles);
+                    selection = randomElement(optimalTiles, this.random);
                 }
                 const action: SelectTileAction = {
                     type: ActionType.SELECT_TILE,
@@ -260,18 +383,19 @@ export class Ai {
                     }
                     characterMoveTargetTile = best[0].tile;
                     if (this.settings.randomizeMovement) {
-                        characterMoveTargetTile = randomElement(best).tile;
+                        characterMoveTargetTile =
+                            randomElement(best, this.random).tile;
                     }
                 }
                 else {
                     characterMoveTargetTile = gameState.enemyHasFlag()
                         ? gameState.getActiveTeamFlag().tileCoords
-                        : gameState.getEnemyFlag().tileCoords;
+                        : gameState.getObjectiveTile(character.tileCoords);
                 }
             } else {
                 characterMoveTargetTile = gameState.enemyHasFlag()
                     ? gameState.getActiveTeamFlag().tileCoords
-                    : gameState.getEnemyFlag().tileCoords;
+                    : gameState.getObjectiveTile(character.tileCoords);
             }
             const safeMove =
                 this.getSafeMoveTowardsLocation(
@@ -296,8 +420,11 @@ export class Ai {
                     };
                     return endTurnAction;
                 }
-                const tileAndDirectHits:
-                    Array<{ tile: Point; directHits: number; }> = [];
+                const tileAndDirectHits: Array<{
+                    tile: Point;
+                    directHits: number;
+                    overwatchExposure: number;
+                }> = [];
                 for (const selectableTile of gameState.selectableTiles) {
                     const tileCenterCanvas =
                         getTileCenterCanvas(selectableTile);
@@ -307,12 +434,17 @@ export class Ai {
                     tileAndDirectHits.push({
                         tile: selectableTile,
                         directHits: directHitDetails.length,
+                        overwatchExposure: this.getOverwatchExposure(
+                            selectableTile, gameState),
                     });
                 }
                 let optimalTiles: Point[] = [];
                 const enemies = this.getVisibleEnemies(gameState);
                 const bestTileAndHits = tileAndDirectHits
                     .filter((tileAndHit) => {
+                        if (tileAndHit.overwatchExposure > 0) {
+                            return false;
+                        }
                         return tileAndHit.directHits === 1
                             || (tileAndHit.directHits === 2
                                 && characterIsFullyHealed);
@@ -328,7 +460,8 @@ export class Ai {
                                     return (enemy.tileCoords
                                         .manhattanDistanceTo(
                                             selectedCharacter.tileCoords)
-                                        <= selectedCharacter.settings.maxSight);
+                                        <= gameState
+                                            .getSight(selectedCharacter));
                                 });
                             if (enemies.length === 0
                                 || enemiesInSight.length === 0) {
@@ -363,7 +496,8 @@ export class Ai {
                                 }
                                 targetTile = best[0].tile;
                                 if (this.settings.randomizeMovement) {
-                                    targetTile = randomElement(best).tile;
+                                    targetTile =
+                                        randomElement(best, this.random).tile;
                                 }
                             }
                         } else {
@@ -398,18 +532,21 @@ export class Ai {
                             const possibleTiles = best.map((b) => b.tile);
                             targetTile = possibleTiles[0];
                             if (this.settings.randomizeMovement) {
-                                targetTile = randomElement(possibleTiles);
+                                targetTile =
+                                    randomElement(possibleTiles, this.random);
                             }
                         }
                         else {
                             targetTile = gameState.enemyHasFlag()
                                 ? gameState.getActiveTeamFlag().tileCoords
-                                : gameState.getEnemyFlag().tileCoords;
+                                : gameState.getObjectiveTile(
+                                    character.tileCoords);
                         }
                     } else {
                         targetTile = gameState.enemyHasFlag()
                             ? gameState.getActiveTeamFlag().tileCoords
-                            : gameState.getEnemyFlag().tileCoords;
+                            : gameState.getObjectiveTile(
+                                character.tileCoords);
                     }
                     if (targetTile != null) {
                         optimalTiles =
@@ -420,7 +557,7 @@ export class Ai {
 
                 let selection = optimalTiles[0];
                 if (this.settings.randomizeMovement) {
-                    selection = randomElement(optimalTiles);
+                    selection = randomElement(optimalTiles, this.random);
                 }
                 if (selection == null) {
                     const endTurnAction: EndCharacterTurnAction = {
@@ -460,7 +597,7 @@ export class Ai {
                     tileLocation, gameState);
             let selection = bestTiles[0];
             if (this.settings.randomizeMovement) {
-                selection = randomElement(bestTiles);
+                selection = randomElement(bestTiles, this.random);
             }
             if (selection == null) {
                 const endTurnAction: EndCharacterTurnAction = {
@@ -489,8 +626,10 @@ export class Ai {
             const pathToLocation =
                 getPathToLocation(selectableTile, tileLocation, gameState);
             const tileCenterCanvas = getTileCenterCanvas(selectableTile)
+            // Walking into overwatch fire counts as being in direct sight.
             const directHits = this.getEnemyTargetsInDirectSight(
-                tileCenterCanvas, gameState).length;
+                tileCenterCanvas, gameState).length
+                + this.getOverwatchExposure(selectableTile, gameState);
             if (directHits < bestTile.directHits
                 || (directHits === bestTile.directHits
                     && pathToLocation.length < bestTile.distance)) {
@@ -516,7 +655,8 @@ export class Ai {
             }
         }
 
-        // Then pick weakest, tie break by distance.
+        // Then pick weakest, counting cover against them,
+        // tie break by distance.
         const enemyCharacters = gameState.getEnemyCharacters();
         let best: { shot: ShotDetails, targetHealth: number, distance: number } | null = null;
         for (const shot of shots) {
@@ -526,7 +666,10 @@ export class Ai {
                 throw new Error(
                     `Expected a character at shot: ${JSON.stringify(shot)}`);
             }
-            const targetHealth = targetCharacter.health;
+            const hitChance =
+                getHitChanceForTarget(shot.target, gameState.obstacles);
+            // Cover makes targets about as good as tougher.
+            const targetHealth = targetCharacter.health / hitChance;
             const distance =
                 targetCharacter.tileCoords.manhattanDistanceTo(fromTile);
             if ((best == null)
@@ -552,7 +695,7 @@ export class Ai {
         };
         const thenAim = (gameState: GameState) => {
             const randomAimAdjustment =
-                Math.random()
+                this.random.next()
                 * this.settings.maxAngleRandomization
                 * - this.settings.maxAngleRandomization / 2;
             const aim =
@@ -578,7 +721,6 @@ export class Ai {
 
     private getEnemyTargetsInDirectSight(
         fromCanvas: Point, gameState: GameState): ShotDetails[] {
-        const fromTile = Grid.getTileFromCanvasCoords(fromCanvas);
         const shots: ShotDetails[] = [];
         const visibleEnemies = this.getVisibleEnemies(gameState);
         for (const enemy of visibleEnemies) {
@@ -586,14 +728,11 @@ export class Ai {
             const direction = enemyCenter.subtract(fromCanvas).normalize();
             const aimAngleClockwiseRadians =
                 direction.getPointRotationRadians();
-            const target = getProjectileTarget({
-                ray: getRayForShot2(fromCanvas, aimAngleClockwiseRadians),
-                characters: gameState.getAliveCharacters(),
-                obstacles: gameState.obstacles,
-                fromTeamIndex: this.teamIndex,
-                startTile: fromTile,
-            });
-            if (target.tile.equals(enemy.tileCoords)) {
+            const target = this.getShotTarget(
+                fromCanvas, aimAngleClockwiseRadians, gameState);
+            if (target.tile.equals(enemy.tileCoords)
+                && !this.wouldHitAllies(
+                    fromCanvas, aimAngleClockwiseRadians, gameState)) {
                 shots.push({
                     aimAngleClockwiseRadians,
                     target,
@@ -603,16 +742,108 @@ export class Ai {
         return shots;
     }
 
-    private getVisibleEnemies(gameState: GameState): Character[] {
-        return gameState.getEnemyCharacters().filter((enemy) => {
-            if (this.settings.ignoresFogOfWar) {
+    /**
+     * Where a shot by the selected character from the given spot stops,
+     * as far as the AI can tell, ie ignoring enemies it can't see.
+     */
+    private getShotTarget(
+        fromCanvas: Point,
+        aimAngleClockwiseRadians: number,
+        gameState: GameState): Target {
+
+        return getProjectileTarget({
+            grid: gameState.grid,
+            ray: getRayForShot2(fromCanvas, aimAngleClockwiseRadians),
+            characters: this.getShootableCharacters(gameState),
+            obstacles: gameState.obstacles,
+            startTile: Grid.getTileFromCanvasCoords(fromCanvas),
+        });
+    }
+
+    /**
+     * Characters the selected character's shots can stop on,
+     * as far as the AI can tell.
+     */
+    private getShootableCharacters(gameState: GameState): Character[] {
+        const shooter = gameState.selectedCharacter;
+        return gameState.getTargetableCharacters(this.teamIndex)
+            .filter((character) => {
+                return character !== shooter
+                    && (gameState.areAllies(
+                        character.teamIndex, this.teamIndex)
+                        || this.isEnemyVisible(character, gameState));
+            });
+    }
+
+    /**
+     * Whether any projectile of the selected character's gun,
+     * or its splash damage, would hit its own squad or allies.
+     */
+    private wouldHitAllies(
+        fromCanvas: Point,
+        aimAngleClockwiseRadians: number,
+        gameState: GameState): boolean {
+
+        if (!gameState.isFriendlyFireOn()) {
+            return false;
+        }
+        // Unset while placing, where it's the class about to be placed.
+        const shooter = gameState.selectedCharacter;
+        const fromTile = Grid.getTileFromCanvasCoords(fromCanvas);
+        const gun = shooter != null
+            ? shooter.settings.gun
+            : this.settings.characterClass.gun;
+        const allyTiles = [fromTile, ...gameState.getAliveCharacters()
+            .filter((character) => {
+                return character !== shooter
+                    && gameState.areAllies(character.teamIndex, this.teamIndex);
+            })
+            .map((character) => character.tileCoords)];
+        const projectileDetails = gun.projectileDetails;
+        const splashRadius =
+            projectileDetails.type === ProjectileDetailsType.SPLASH
+                ? projectileDetails.damageManhattanDistanceRadius
+                : 0;
+        const characters = this.getShootableCharacters(gameState);
+        const aimAngles = getSprayAimAngles(gun, aimAngleClockwiseRadians);
+        for (const aimAngle of aimAngles) {
+            // Followed through ricochets, like RulesEngine resolves shots.
+            const targets = getProjectileTargetsPath({
+                grid: gameState.grid,
+                ray: getRayForShot2(fromCanvas, aimAngle),
+                startingTileCoords: fromTile,
+                numRicochets: projectileDetails.numRicochets,
+                characters,
+                obstacles: gameState.obstacles,
+            });
+            const target = targets[targets.length - 1];
+            if (target.isTargetGridBorder
+                && projectileDetails.type === ProjectileDetailsType.BULLET) {
+                continue;
+            }
+            const hitsAlly = allyTiles.some((tile) => {
+                return tile.manhattanDistanceTo(target.tile) <= splashRadius;
+            });
+            if (hitsAlly) {
                 return true;
             }
-            return gameState.isTileVisibleByTeamIndex(
-                enemy.tileCoords, this.teamIndex);
+        }
+        return false;
+    }
+
+    private getVisibleEnemies(gameState: GameState): Character[] {
+        return gameState.getEnemyCharacters().filter((enemy) => {
+            return this.isEnemyVisible(enemy, gameState);
         });
     }
 
+    private isEnemyVisible(enemy: Character, gameState: GameState): boolean {
+        if (this.settings.ignoresFogOfWar) {
+            return true;
+        }
+        return gameState.isCharacterVisibleByTeamIndex(enemy, this.teamIndex);
+    }
+
     private assignPriority(characterIndex: number, gameState: GameState): void {
         const priority = this.getNextPriority(gameState);
         this.log(`AI: Assigning priority: ${priority}`);
@@ -634,7 +865,10 @@ export class Ai {
                 const priority = this.characterIndexToPriority.get(character.index);
                 return priority != null && priority === Priority.DEFEND;
             }).length;
-        if (defenders < desiredDefenders) {
+        // Nothing to defend if the objective keeps the flag from being taken.
+        const canLoseFlag =
+            gameState.objective.canTakeFlag(gameState.getActiveTeamFlag());
+        if (canLoseFlag && defenders < desiredDefenders) {
             return Priority.DEFEND;
         }
         const snaggers = gameState.getActiveSquad()
@@ -0,0 +1,155 @@
+import { Point } from 'src/app/math/point';
+import { Grid } from 'src/app/grid';
+import { CONTROLS, Key } from 'src/app/controls';
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 4;
+/** Zoom multiplier per pixel the mouse wheel scrolls. */
+const WHEEL_ZOOM_RATE = 1.002;
+/** In canvas pixels per ms, so it feels the same at any zoom. */
+const KEY_PAN_SPEED = .5;
+
+const PAN_KEYS_TO_DIRECTION: Map<Key, Point> = new Map([
+    [Key.LEFT_ARROW, new Point(-1, 0)],
+    [Key.UP_ARROW, new Point(0, -1)],
+    [Key.RIGHT_ARROW, new Point(1, 0)],
+    [Key.DOWN_ARROW, new Point(0, 1)],
+]);
+
+/**
+ * Which part of the board is drawn in the game area, panned with the
+ * arrow keys or by dragging and zoomed with the mouse wheel.
+ * At the minimum zoom the whole board fits, as it's scaled by the grid.
+ */
+export class Camera {
+    private readonly grid: Grid;
+    private zoom: number;
+    /** Board coords drawn at the center of the game area. */
+    private center: Point;
+
+    constructor(grid: Grid) {
+        this.grid = grid;
+        this.reset();
+        // Drop drags and scrolls from before, ie in menus.
+        CONTROLS.handleDrag();
+        CONTROLS.handleWheel();
+    }
+
+    reset(): void {
+        this.zoom = MIN_ZOOM;
+        this.center = new Point(this.grid.width / 2, this.grid.height / 2);
+    }
+
+    /**
+     * Pans and zooms per the controls. Arrow keys bound to something
+     * else, ie stepping through replays, don't pan.
+     * @param canDragPan false while dragging does something else,
+     *     ie paints in the level creator.
+     */
+    update(elapsedMs: number, canDragPan = true): void {
+        let keyDirection = new Point(0, 0);
+        const assignedControlMap = CONTROLS.getAssignedControlMap();
+        for (const [key, direction] of PAN_KEYS_TO_DIRECTION) {
+            if (!assignedControlMap.has(key) && CONTROLS.isKeyDown(key)) {
+                keyDirection = keyDirection.add(direction);
+            }
+        }
+        const keyPanCanvas =
+            keyDirection.multiplyScaler(KEY_PAN_SPEED * elapsedMs);
+        // Dragging moves the board along with the mouse.
+        const dragCanvas = CONTROLS.handleDrag();
+        const dragPanCanvas = canDragPan
+            ? dragCanvas.multiplyScaler(-1)
+            : new Point(0, 0);
+        this.pan(keyPanCanvas.add(dragPanCanvas));
+
+        const wheelDelta = CONTROLS.handleWheel();
+        const mouseCanvas = CONTROLS.getMouseCanvasCoords();
+        if (wheelDelta !== 0 && isInGameArea(mouseCanvas)) {
+            this.zoomAt(mouseCanvas, Math.pow(WHEEL_ZOOM_RATE, -wheelDelta));
+        }
+    }
+
+    /** @param deltaCanvas how far to move the view, in canvas pixels. */
+    pan(deltaCanvas: Point): void {
+        this.center = this.clampCenter(
+            this.center.add(deltaCanvas.multiplyScaler(1 / this.getScale())));
+    }
+
+    /** Zooms in by the factor, keeping the board under the point still. */
+    zoomAt(canvasCoords: Point, factor: number): void {
+        const boardCoordsBefore =
+            this.getBoardCoordsFromCanvasCoords(canvasCoords);
+        this.zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, this.zoom * factor));
+        const boardCoordsAfter =
+            this.getBoardCoordsFromCanvasCoords(canvasCoords);
+        this.center = this.clampCenter(
+            this.center.add(boardCoordsBefore.subtract(boardCoordsAfter)));
+    }
+
+    /** Canvas pixels per board pixel. */
+    getScale(): number {
+        return this.grid.getScale() * this.zoom;
+    }
+
+    /** Canvas coords of the board's top left. */
+    getOffset(): Point {
+        return getGameAreaCenter()
+            .subtract(this.center.multiplyScaler(this.getScale()));
+    }
+
+    /**
+     * Sets the context up to draw game objects on the board,
+     * clipped to the game area.
+     */
+    applyTransform(context: CanvasRenderingContext2D): void {
+        context.beginPath();
+        context.rect(0, 0, Grid.GAME_WIDTH, Grid.GAME_HEIGHT);
+        context.clip();
+        const scale = this.getScale();
+        const offset = this.getOffset();
+        context.setTransform(scale, 0, 0, scale, offset.x, offset.y);
+    }
+
+    /** Board coords game objects use for canvas coords, ie the mouse's. */
+    getBoardCoordsFromCanvasCoords(canvasCoords: Point): Point {
+        return canvasCoords.subtract(this.getOffset())
+            .multiplyScaler(1 / this.getScale());
+    }
+
+    /** Tile drawn at the canvas coords, ie under the mouse. */
+    getTileAtCanvasCoords(canvasCoords: Point): Point {
+        return Grid.getTileFromCanvasCoords(
+            this.getBoardCoordsFromCanvasCoords(canvasCoords));
+    }
+
+    /**
+     * Keeps the board filling the game area along each axis it's
+     * zoomed past, and centered along the others.
+     */
+    private clampCenter(center: Point): Point {
+        const scale = this.getScale();
+        const clampAxis = (
+            value: number, boardSize: number, gameAreaSize: number) => {
+
+            const halfVisible = gameAreaSize / scale / 2;
+            if (2 * halfVisible >= boardSize) {
+                return boardSize / 2;
+            }
+            return Math.min(
+                boardSize - halfVisible, Math.max(halfVisible, value));
+        };
+        return new Point(
+            clampAxis(center.x, this.grid.width, Grid.GAME_WIDTH),
+            clampAxis(center.y, this.grid.height, Grid.GAME_HEIGHT));
+    }
+}
+
+function getGameAreaCenter(): Point {
+    return new Point(Grid.GAME_WIDTH / 2, Grid.GAME_HEIGHT / 2);
+}
+
+function isInGameArea(canvasCoords: Point): boolean {
+    return canvasCoords.x < Grid.GAME_WIDTH
+        && canvasCoords.y < Grid.GAME_HEIGHT;
+}
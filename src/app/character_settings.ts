@@ -173,6 +173,7 @@ const SNIPER_RIFLE: Gun = {
         type: ProjectileDetailsType.BULLET,
         numRicochets: 5,
         damage: 8,
+        obstacleDamage: 4,
         projectileSpeed: Grid.TILE_SIZE / 60,
         color: DEFAULT_BULLET_COLOR,
         shape: {
@@ -7,6 +7,9 @@ export enum EventType {
     KeyPress,
 }
 
+/** How far the mouse moves while pressed before it's a drag, not a click. */
+const MIN_DRAG_DISTANCE = 5;
+
 enum KeyPressState {
     NOT_STARTED,
     READY,
@@ -97,6 +100,13 @@ class Controls {
     private mouseCanvasCoords: Point = new Point(0, 0);
     private isMouseDownInternal: boolean = false;
     private hasClickInternal: boolean = false;
+    /** Where the mouse was pressed, to tell drags from clicks. */
+    private mouseDownCanvasCoords: Point | null = null;
+    private isDraggingInternal: boolean = false;
+    /** Mouse movement while dragging, since it was last handled. */
+    private dragDelta: Point = new Point(0, 0);
+    /** Pixels scrolled since last handled, positive is down. */
+    private wheelDelta: number = 0;
 
     constructor() {
         const allKeys = Object.keys(Key)
@@ -122,19 +132,48 @@ class Controls {
             const canvasCoords = new Point(
                 event.clientX - canvasRect.left,
                 event.clientY - canvasRect.top);
-            if (isPointInCanvas(canvasCoords)) {
-                this.mouseCanvasCoords = canvasCoords;
+            if (!isPointInCanvas(canvasCoords)) {
+                return;
+            }
+            // Released outside the canvas.
+            if (event.buttons === 0) {
+                this.mouseDownCanvasCoords = null;
+                this.isDraggingInternal = false;
+            }
+            if (this.mouseDownCanvasCoords != null
+                && !this.isDraggingInternal
+                && canvasCoords.distanceTo(this.mouseDownCanvasCoords)
+                > MIN_DRAG_DISTANCE) {
+                this.isDraggingInternal = true;
+                this.dragDelta = canvasCoords
+                    .subtract(this.mouseDownCanvasCoords);
+            } else if (this.isDraggingInternal) {
+                this.dragDelta = this.dragDelta
+                    .add(canvasCoords.subtract(this.mouseCanvasCoords));
             }
+            this.mouseCanvasCoords = canvasCoords;
         };
         canvas.onmousedown = (event: MouseEvent) => {
             this.isMouseDownInternal = true;
+            this.mouseDownCanvasCoords = this.mouseCanvasCoords;
+            this.isDraggingInternal = false;
         };
         canvas.onmouseup = (event: MouseEvent) => {
             this.isMouseDownInternal = false;
+            this.mouseDownCanvasCoords = null;
         };
         canvas.onclick = (event: MouseEvent) => {
+            // Releasing a drag isn't a click.
+            if (this.isDraggingInternal) {
+                this.isDraggingInternal = false;
+                return;
+            }
             this.hasClickInternal = true;
         };
+        canvas.onwheel = (event: WheelEvent) => {
+            event.preventDefault();
+            this.wheelDelta += event.deltaY;
+        };
     }
 
     hasClick(): boolean {
@@ -159,6 +198,20 @@ class Controls {
         return this.isMouseDownInternal;
     }
 
+    /** Returns how far the mouse was dragged since last called. */
+    handleDrag(): Point {
+        const dragDelta = this.dragDelta;
+        this.dragDelta = new Point(0, 0);
+        return dragDelta;
+    }
+
+    /** Returns how far the mouse wheel scrolled since last called. */
+    handleWheel(): number {
+        const wheelDelta = this.wheelDelta;
+        this.wheelDelta = 0;
+        return wheelDelta;
+    }
+
     isKeyDown(key: Key): boolean {
         const isDown = this.keyMap.get(key);
         if (isDown == null) {
@@ -192,6 +245,10 @@ class Controls {
 
     getStringForKey(key: Key): string {
         switch (key) {
+            case Key.BACKSPACE:
+                return 'Backspace';
+            case Key.ENTER:
+                return 'Enter';
             case Key.SHIFT:
                 return 'Shift';
             case Key.A:
@@ -285,6 +342,7 @@ class Controls {
 }
 
 export enum Key {
+    BACKSPACE = 8,
     ENTER = 13,
     SHIFT = 16,
     SPACE = 32,
@@ -0,0 +1,78 @@
+import { Point } from 'src/app/math/point';
+import { Grid } from 'src/app/grid';
+import { Obstacle, ObstacleType } from 'src/app/game_objects/obstacle';
+import { Target } from 'src/app/math/target';
+
+export enum CoverType {
+    NONE = 'NONE',
+    HALF = 'HALF',
+    FULL = 'FULL',
+}
+
+/** Chance that a shot hits a character behind each type of cover. */
+const COVER_TYPE_TO_HIT_CHANCE = new Map<CoverType, number>([
+    [CoverType.NONE, 1],
+    [CoverType.HALF, .65],
+    [CoverType.FULL, .4],
+]);
+
+/**
+ * How directly an adjacent obstacle has to face the shooter
+ * to give cover, ie within 60 degrees.
+ */
+const MIN_COVER_FACING_DOT = .5;
+
+const ADJACENT_DIRECTIONS = [
+    new Point(1, 0),
+    new Point(-1, 0),
+    new Point(0, 1),
+    new Point(0, -1),
+];
+
+/**
+ * Best cover a character at the tile has from a shot coming from the
+ * canvas coords, given by obstacles next to it on the shooter's side.
+ */
+export function getCover(params: {
+    tile: Point;
+    fromCanvas: Point;
+    obstacles: Obstacle[];
+}): CoverType {
+    const { tile, obstacles } = params;
+    const tileCenter = Grid.getCanvasFromTileCoords(tile).add(Grid.HALF_TILE);
+    const toShooter = params.fromCanvas.subtract(tileCenter).normalize();
+    let cover = CoverType.NONE;
+    for (const direction of ADJACENT_DIRECTIONS) {
+        if (direction.dot(toShooter) < MIN_COVER_FACING_DOT) {
+            continue;
+        }
+        const adjacentTile = tile.add(direction);
+        const obstacle = obstacles
+            .find((obstacle) => obstacle.tileCoords.equals(adjacentTile));
+        if (obstacle == null) {
+            continue;
+        }
+        if (obstacle.type === ObstacleType.WALL) {
+            return CoverType.FULL;
+        }
+        cover = CoverType.HALF;
+    }
+    return cover;
+}
+
+export function getHitChance(cover: CoverType): number {
+    return COVER_TYPE_TO_HIT_CHANCE.get(cover)!;
+}
+
+/**
+ * Chance that a projectile stopping on a character at the target hits
+ * it. Ricochets are covered against from where they bounced.
+ */
+export function getHitChanceForTarget(
+    target: Target, obstacles: Obstacle[]): number {
+    return getHitChance(getCover({
+        tile: target.tile,
+        fromCanvas: target.ray.startPt,
+        obstacles,
+    }));
+}
@@ -0,0 +1,101 @@
+import { Point } from 'src/app/math/point';
+import { Grid } from 'src/app/grid';
+
+/** Slack for comparing slopes, which are fractions of small integers. */
+const EPSILON = 1e-9;
+
+/**
+ * Maps a (depth, column) pair scanned outwards from the origin
+ * to a tile, one per cardinal direction.
+ */
+type QuadrantTransform = (origin: Point, depth: number, col: number) => Point;
+
+const QUADRANT_TRANSFORMS: QuadrantTransform[] = [
+    (origin, depth, col) => new Point(origin.x + col, origin.y - depth),
+    (origin, depth, col) => new Point(origin.x + col, origin.y + depth),
+    (origin, depth, col) => new Point(origin.x + depth, origin.y + col),
+    (origin, depth, col) => new Point(origin.x - depth, origin.y + col),
+];
+
+interface Row {
+    readonly depth: number;
+    startSlope: number;
+    readonly endSlope: number;
+}
+
+/**
+ * Tiles seen from the origin within a manhattan distance, using
+ * symmetric shadowcasting so A sees B exactly when B sees A.
+ * Tiles that block sight are seen, but not past.
+ */
+export function getFieldOfView(params: {
+    grid: Grid;
+    origin: Point;
+    maxDistance: number;
+    blocksSight: (tile: Point) => boolean;
+}): Point[] {
+    const { grid, origin, maxDistance } = params;
+    const visibleTiles: Map<string, Point> = new Map();
+    const reveal = (tile: Point) => {
+        if (grid.inbounds(tile)
+            && tile.manhattanDistanceTo(origin) <= maxDistance) {
+            visibleTiles.set(tile.toString(), tile);
+        }
+    };
+    // Out of bounds is treated like a wall.
+    const isWall = (tile: Point) => {
+        return !grid.inbounds(tile) || params.blocksSight(tile);
+    };
+    reveal(origin);
+    for (const transform of QUADRANT_TRANSFORMS) {
+        const scan = (row: Row): void => {
+            if (row.depth > maxDistance) {
+                return;
+            }
+            // Round ties towards the center of the row.
+            const minCol =
+                Math.floor(row.depth * row.startSlope + .5 + EPSILON);
+            const maxCol =
+                Math.ceil(row.depth * row.endSlope - .5 - EPSILON);
+            let wasWall: boolean | null = null;
+            for (let col = minCol; col <= maxCol; col++) {
+                const tile = transform(origin, row.depth, col);
+                const isTileWall = isWall(tile);
+                if (isTileWall || isSymmetric(row, col)) {
+                    reveal(tile);
+                }
+                if (wasWall === true && !isTileWall) {
+                    row.startSlope = getSlope(row.depth, col);
+                }
+                if (wasWall === false && isTileWall) {
+                    scan({
+                        depth: row.depth + 1,
+                        startSlope: row.startSlope,
+                        endSlope: getSlope(row.depth, col),
+                    });
+                }
+                wasWall = isTileWall;
+            }
+            if (wasWall === false) {
+                scan({
+                    depth: row.depth + 1,
+                    startSlope: row.startSlope,
+                    endSlope: row.endSlope,
+                });
+            }
+        };
+        scan({ depth: 1, startSlope: -1, endSlope: 1 });
+    }
+    return [...visibleTiles.values()];
+}
+
+/** Slope of the edge of the tile nearest the start of the row. */
+function getSlope(depth: number, col: number): number {
+    return (2 * col - 1) / (2 * depth);
+}
+
+/** Whether the center of the tile is between the row's slopes. */
+function isSymmetric(row: Row, col: number): boolean {
+    return col >= row.depth * row.startSlope - EPSILON
+        && col <= row.depth * row.endSlope + EPSILON;
+}
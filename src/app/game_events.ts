@@ -0,0 +1,197 @@
+import { Point } from 'src/app/math/point';
+import { Target } from 'src/app/math/target';
+import { GamePhase, SelectedCharacterState } from 'src/app/game_state';
+import { ProjectileDetails } from 'src/app/shot_info';
+import { Character } from 'src/app/game_objects/character';
+import { Flag } from 'src/app/game_objects/flag';
+import { Obstacle } from 'src/app/game_objects/obstacle';
+
+/**
+ * Things that happened as the result of applying an Action.
+ * Produced by the RulesEngine, consumed by renderers/animators.
+ */
+export enum GameEventType {
+    TURN_STARTED = 'TURN_STARTED',
+    CHARACTER_PLACED = 'CHARACTER_PLACED',
+    CHARACTER_SPAWNED = 'CHARACTER_SPAWNED',
+    CHARACTER_STATE_CHANGED = 'CHARACTER_STATE_CHANGED',
+    CHARACTER_MOVED = 'CHARACTER_MOVED',
+    CHARACTER_HEALED = 'CHARACTER_HEALED',
+    OVERWATCH_SET = 'OVERWATCH_SET',
+    OVERWATCH_TRIGGERED = 'OVERWATCH_TRIGGERED',
+    PROJECTILE_FIRED = 'PROJECTILE_FIRED',
+    SHOT_MISSED = 'SHOT_MISSED',
+    DAMAGE_DEALT = 'DAMAGE_DEALT',
+    CHARACTER_KILLED = 'CHARACTER_KILLED',
+    OBSTACLE_DAMAGED = 'OBSTACLE_DAMAGED',
+    OBSTACLE_DESTROYED = 'OBSTACLE_DESTROYED',
+    FLAG_TAKEN = 'FLAG_TAKEN',
+    FLAG_RETURNED = 'FLAG_RETURNED',
+    FLAG_CAPTURED = 'FLAG_CAPTURED',
+    OBJECTIVE_PROGRESSED = 'OBJECTIVE_PROGRESSED',
+    TEAM_ELIMINATED = 'TEAM_ELIMINATED',
+    GAME_OVER = 'GAME_OVER',
+}
+
+export enum VictoryType {
+    ELIMINATION = 'ELIMINATION',
+    FLAG_CAPTURED = 'FLAG_CAPTURED',
+    HILL_HELD = 'HILL_HELD',
+    VIP_ESCAPED = 'VIP_ESCAPED',
+    VIP_KILLED = 'VIP_KILLED',
+    DEFENDED = 'DEFENDED',
+}
+
+export interface TurnStartedEvent {
+    readonly type: GameEventType.TURN_STARTED;
+    readonly teamIndex: number;
+    readonly gamePhase: GamePhase;
+}
+
+export interface CharacterPlacedEvent {
+    readonly type: GameEventType.CHARACTER_PLACED;
+    readonly character: Character;
+}
+
+export interface CharacterSpawnedEvent {
+    readonly type: GameEventType.CHARACTER_SPAWNED;
+    readonly character: Character;
+}
+
+export interface CharacterStateChangedEvent {
+    readonly type: GameEventType.CHARACTER_STATE_CHANGED;
+    readonly character: Character;
+    readonly state: SelectedCharacterState;
+}
+
+/** Moves interrupted by overwatch fire are split up at each interruption. */
+export interface CharacterMovedEvent {
+    readonly type: GameEventType.CHARACTER_MOVED;
+    readonly character: Character;
+    readonly fromTile: Point;
+    /** Tiles walked through, excluding `fromTile`. */
+    readonly path: Point[];
+    /** Set if the character carried an enemy flag along the path. */
+    readonly carriedFlag?: Flag;
+}
+
+export interface CharacterHealedEvent {
+    readonly type: GameEventType.CHARACTER_HEALED;
+    readonly character: Character;
+    readonly healAmount: number;
+    readonly health: number;
+}
+
+export interface OverwatchSetEvent {
+    readonly type: GameEventType.OVERWATCH_SET;
+    readonly character: Character;
+}
+
+/** Followed by the projectiles of the reaction shot. */
+export interface OverwatchTriggeredEvent {
+    readonly type: GameEventType.OVERWATCH_TRIGGERED;
+    readonly character: Character;
+    /** Moving enemy that walked into the overwatch cone. */
+    readonly target: Character;
+}
+
+export interface ProjectileFiredEvent {
+    readonly type: GameEventType.PROJECTILE_FIRED;
+    readonly fromTeamIndex: number;
+    readonly projectileDetails: ProjectileDetails;
+    readonly targets: Target[];
+    /**
+     * Consequences of the projectile reaching its final target.
+     * Already applied to game state, but should be presented on impact.
+     */
+    readonly impacts: GameEvent[];
+}
+
+/** A projectile passed a character in cover without hitting them. */
+export interface ShotMissedEvent {
+    readonly type: GameEventType.SHOT_MISSED;
+    readonly character: Character;
+    readonly hitChance: number;
+}
+
+export interface DamageDealtEvent {
+    readonly type: GameEventType.DAMAGE_DEALT;
+    readonly character: Character;
+    readonly damage: number;
+    /** Health of the character after the damage was dealt. */
+    readonly health: number;
+}
+
+export interface CharacterKilledEvent {
+    readonly type: GameEventType.CHARACTER_KILLED;
+    readonly character: Character;
+}
+
+export interface ObstacleDamagedEvent {
+    readonly type: GameEventType.OBSTACLE_DAMAGED;
+    readonly obstacle: Obstacle;
+    readonly damage: number;
+    /** Health of the obstacle after the damage was dealt. */
+    readonly health: number;
+}
+
+/** The obstacle has already been removed from the game state. */
+export interface ObstacleDestroyedEvent {
+    readonly type: GameEventType.OBSTACLE_DESTROYED;
+    readonly obstacle: Obstacle;
+}
+
+export interface FlagTakenEvent {
+    readonly type: GameEventType.FLAG_TAKEN;
+    readonly flag: Flag;
+    readonly character: Character;
+}
+
+export interface FlagReturnedEvent {
+    readonly type: GameEventType.FLAG_RETURNED;
+    readonly flag: Flag;
+    readonly character: Character;
+}
+
+/**
+ * Brought back to the capturing team's flag without winning the match,
+ * so the flag has already gone back to its start.
+ */
+export interface FlagCapturedEvent {
+    readonly type: GameEventType.FLAG_CAPTURED;
+    readonly flag: Flag;
+    readonly character: Character;
+}
+
+/** Captures, turns holding the hill or the like changed. */
+export interface ObjectiveProgressedEvent {
+    readonly type: GameEventType.OBJECTIVE_PROGRESSED;
+    /** What the HUD shows for the objective now. */
+    readonly status: string[];
+}
+
+export interface TeamEliminatedEvent {
+    readonly type: GameEventType.TEAM_ELIMINATED;
+    readonly teamIndex: number;
+}
+
+export interface GameOverEvent {
+    readonly type: GameEventType.GAME_OVER;
+    readonly winningTeamIndex: number;
+    /** The winning team and its allies, who share the victory. */
+    readonly winningTeamIndices: number[];
+    readonly victoryType: VictoryType;
+}
+
+export type GameEvent = TurnStartedEvent | CharacterPlacedEvent |
+    CharacterSpawnedEvent | CharacterStateChangedEvent | CharacterMovedEvent |
+    CharacterHealedEvent | OverwatchSetEvent | OverwatchTriggeredEvent |
+    ProjectileFiredEvent | ShotMissedEvent | DamageDealtEvent |
+    CharacterKilledEvent | ObstacleDamagedEvent | ObstacleDestroyedEvent |
+    FlagTakenEvent | FlagReturnedEvent | FlagCapturedEvent |
+    ObjectiveProgressedEvent | TeamEliminatedEvent | GameOverEvent;
+
+/** Used for exhaustive GameEvent checking. */
+export function throwBadEvent(event: never): never {
+    throw new Error('Event not handled');
+}
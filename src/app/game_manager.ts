@@ -1,82 +1,142 @@
 import { RENDER_SETTINGS } from 'src/app/render_settings';
-import { Grid, bfs, pathTo } from 'src/app/grid';
-import { Point, pointFromSerialized, containsPoint } from 'src/app/math/point';
-import { CONTROLS, ControlMap, ControlParams, EventType, Key, numberToKey, numberToOrdinal } from 'src/app/controls';
+import { Grid } from 'src/app/grid';
+import { Point } from 'src/app/math/point';
+import { CONTROLS } from 'src/app/controls';
 import { THEME } from 'src/app/theme';
-import { LEVELS } from 'src/app/level';
-import { GameSettings, MatchType, AiDifficulty } from 'src/app/game_settings';
-import { Ray, LineSegment, detectRayLineSegmentCollision } from 'src/app/math/collision_detection';
-import { ShotInfo, ProjectileDetailsType, Bullet, ProjectileDetails, SplashDamage } from 'src/app/shot_info';
-import { Action, ActionType, throwBadAction, HealAction, EndCharacterTurnAction, ShootAction, SelectCharacterStateAction, AimAction, SelectTileAction, SelectCharacterAction, SelectCharacterClassAction } from 'src/app/actions';
-import { CharacterSettings, HealAbility, ASSAULT_CHARACTER_SETTINGS, ClassType, CHARACTER_CLASSES, CharacterAbilityType } from 'src/app/character_settings';
-import { Flag } from 'src/app/game_objects/flag';
+import { Level } from 'src/app/level';
+import { GameSettings, ControllerType, getTeamController } from 'src/app/game_settings';
+import { ProjectileDetailsType } from 'src/app/shot_info';
+import { Action } from 'src/app/actions';
 import { Projectile } from 'src/app/game_objects/projectile';
-import { ParticleSystem, ParticleShape, ParticleSystemParams } from 'src/app/game_objects/particle_system';
-import { Hud, TextType, Duration } from 'src/app/hud';
+import { ParticleSystem } from 'src/app/game_objects/particle_system';
 import { Obstacle } from 'src/app/game_objects/obstacle';
+import { Hud, TextType, Duration } from 'src/app/hud';
 import { Character } from 'src/app/game_objects/character';
 import { Ai } from 'src/app/ai';
-import { GamePhase, SelectedCharacterState, GameState } from 'src/app/game_state';
+import { GamePhase, GameState } from 'src/app/game_state';
 import { GameModeManager } from 'src/app/game_mode_manager';
-import { getRayForShot, getProjectileTargetsPath, mapTilePathToTargetsPath } from 'src/app/target_finder';
-import { Target } from 'src/app/math/target';
+import { mapTilePathToTargetsPath } from 'src/app/target_finder';
 import { AnimationState } from 'src/app/animation_state';
-import { getGrenadeSmokeParticleSystemParams, getGrenadeBurstParticleSystemParams, getBulletParticleSystemParams, getHealParticleSystemParams } from './particle_system_theme';
-import { Spawner } from './game_objects/spawner';
+import { Random } from 'src/app/math/random';
+import { RulesEngine } from 'src/app/rules_engine';
+import { RecordedAction, saveLastReplay, serializeAction, deserializeAction } from 'src/app/replay';
+import { SavedMatch, saveMatch, clearSavedMatch, serializeGhosts, deserializeGhosts } from 'src/app/saved_match';
+import { GameEvent, GameEventType, VictoryType, ProjectileFiredEvent, throwBadEvent } from 'src/app/game_events';
+import { OnlineMatch } from 'src/app/online/relay_connection';
+import { ClientMessageType, ServerMessage, ServerMessageType, hashGameState, throwBadServerMessage } from 'src/app/online/protocol';
+import { getGrenadeSmokeParticleSystemParams, getGrenadeBurstParticleSystemParams, getBulletParticleSystemParams, getHealParticleSystemParams, getDebrisParticleSystemParams } from './particle_system_theme';
 import { InputManager } from './input_manager';
-import { LOGGER, LogType } from './logger';
+import { LastKnownPositions } from './last_known_positions';
+import { Visibility } from './visibility';
+import { Camera } from './camera';
 
 import BlackWoodTexture from 'src/assets/img/black_wood_texture.jpg';
 import { Texture } from './texture';
 
-const ALLOW_ELIMINATION_VICTORY_WITH_SPAWNERS = false;
-const DEFAULT_HUMAN_TEAM_INDEX = 0;
-
 export class GameManager implements GameModeManager {
 
     private readonly canvas: HTMLCanvasElement;
     private readonly context: CanvasRenderingContext2D;
-    private readonly levelIndex: number;
+    private readonly level: Level;
     private readonly gameSettings: GameSettings;
     private readonly blackWoodTexture = new Texture(BlackWoodTexture);
     private readonly onExitGameCallback:
         (winningTeamIndex: number) => void;
+    /** Spectators (ie replays) don't control any team. */
+    private readonly isSpectator: boolean;
+    private readonly campaignLevelIndex?: number;
+    /** Playtests from the level creator aren't saved to be continued. */
+    private readonly isPlaytest: boolean;
+    /** Set for online matches, where the opponent plays remotely. */
+    private readonly online?: OnlineMatch;
+    /** Consumed by the first game, restarting starts from scratch. */
+    private savedMatch?: SavedMatch;
 
     private isGameOver: boolean;
     private isPaused: boolean;
     private winningTeamIndex: number;
     private hud: Hud;
     private inputManager: InputManager;
-    private onAnimationDone: (() => void) | null = null;
+    private rulesEngine: RulesEngine;
     private gameState: GameState;
+    /** Kept across restarts, as the board stays the same. */
+    private camera: Camera;
 
-    private selectedCharacterSettings: CharacterSettings;
+    /** Events from the rules engine that haven't been animated yet. */
+    private pendingEvents: GameEvent[];
+    /** Health as of the last presented event. */
+    private characterToDisplayedHealth: Map<Character, number>;
+    /**
+     * Obstacles as of the last presented event, as destroyed
+     * ones are removed from the game state before impact.
+     */
+    private displayedObstacles: Obstacle[];
+    private obstacleToDisplayedHealth: Map<Obstacle, number>;
+    private projectileToImpacts: Map<Projectile, GameEvent[]>;
     private projectiles: Projectile[];
     private particleSystems: ParticleSystem[];
+    private particleRandom: Random;
+    /** For each human team, where it last saw enemies under fog of war. */
+    private teamIndexToLastKnownPositions: Map<number, LastKnownPositions>;
 
+    /** Per the settings, even for spectators. */
+    private teamIndexToIsHuman: boolean[];
     private teamIndexToIsAi: boolean[];
     private ais: Ai[];
 
+    /** Game time since the match started, used to timestamp actions. */
+    private gameTimeMs: number;
+    private recordedActions: RecordedAction[];
+
     constructor(
         canvas: HTMLCanvasElement,
         context: CanvasRenderingContext2D,
         params: {
             gameSettings: GameSettings;
-            levelIndex: number;
+            level: Level;
             onExitGameCallback: (winningTeamIndex: number) => void;
+            isSpectator?: boolean;
+            /** Stored with the match if it's saved on quitting. */
+            campaignLevelIndex?: number;
+            savedMatch?: SavedMatch;
+            online?: OnlineMatch;
+            isPlaytest?: boolean;
+            /** To keep the view from a previous game, ie replays seeking. */
+            camera?: Camera;
         }) {
 
         this.canvas = canvas;
         this.context = context;
         this.gameSettings = params.gameSettings;
-        this.levelIndex = params.levelIndex;
+        this.level = params.level;
         this.onExitGameCallback = params.onExitGameCallback;
+        this.isSpectator = params.isSpectator === true;
+        this.campaignLevelIndex = params.campaignLevelIndex;
+        this.savedMatch = params.savedMatch;
+        this.online = params.online;
+        this.isPlaytest = params.isPlaytest === true;
         this.resetGame();
+        this.camera = params.camera != null
+            ? params.camera
+            : new Camera(this.gameState.grid);
+        if (this.online != null) {
+            this.online.connection.setListener({
+                onMessage: (message: ServerMessage) => {
+                    this.onServerMessage(message);
+                },
+                onConnectionChange: (isConnected: boolean) => {
+                    this.onConnectionChange(isConnected);
+                },
+            });
+            if (this.online.actions.length > 0) {
+                this.resync(this.online.actions);
+            }
+        }
     }
 
     isAnimating(): boolean {
         const animatables: { animationState: AnimationState }[] = [
-            ...this.gameState.getAliveCharacters(),
+            ...this.getDisplayedCharacters(),
             ...this.projectiles];
         return animatables
             .some((animatable) => {
@@ -84,12 +144,42 @@ export class GameManager implements GameModeManager {
             });
     }
 
+    /** Whether all actions so far have been presented. */
+    isIdle(): boolean {
+        return !this.isAnimating() && this.pendingEvents.length === 0;
+    }
+
+    /** Immediately finishes animations and presents pending events. */
+    skipAnimations(): void {
+        while (!this.isIdle()) {
+            for (const character of this.getDisplayedCharacters()) {
+                if (character.animationState.isAnimating) {
+                    character.skipAnimation();
+                }
+            }
+            for (const projectile of this.projectiles) {
+                if (!projectile.isDead) {
+                    projectile.setIsDead();
+                    this.presentImpacts(projectile);
+                }
+            }
+            this.projectiles = [];
+            this.presentPendingEvents();
+        }
+    }
+
+    getCamera(): Camera {
+        return this.camera;
+    }
+
     update(elapsedMs: number): void {
         this.inputManager.update(elapsedMs);
+        this.camera.update(elapsedMs);
 
         if (this.isPaused) {
             return;
         }
+        this.gameTimeMs += elapsedMs;
 
         for (const particleSystem of this.particleSystems) {
             particleSystem.update(elapsedMs);
@@ -104,7 +194,7 @@ export class GameManager implements GameModeManager {
             .filter((projectile) => {
                 return !projectile.isDead || !projectile.isTrailGone();
             });
-        for (const character of this.gameState.getAliveCharacters()) {
+        for (const character of this.getDisplayedCharacters()) {
             character.update(elapsedMs);
             if (character.animationState.isAnimating
                 && this.shouldSkipAnimation(character)) {
@@ -112,24 +202,13 @@ export class GameManager implements GameModeManager {
             }
         }
         this.hud.update(elapsedMs);
+        this.presentPendingEvents();
+        this.updateLastKnownPositions();
 
-        if (!this.isAnimating() && this.onAnimationDone != null) {
-            this.onAnimationDone();
-            this.onAnimationDone = null;
-        }
-
-        if (this.gameState.gamePhase !== GamePhase.CHARACTER_PLACEMENT
-            && this.gameState.getActiveSquad()
-                .filter(character => {
-                    return !character.isTurnOver();
-                }).length === 0) {
-            // Should automatically skip turn with delay 
-            // when team is out of characters but need update 
-            // loop to run for spawners...
-            return;
-        }
-
-        if (this.isAiTurn() && !this.isAnimating()) {
+        if (this.isAiTurn()
+            && !this.rulesEngine.getIsGameOver()
+            && !this.isAnimating()
+            && this.pendingEvents.length === 0) {
             const nextAction = this.getCurrentTurnAi()
                 .getNextAction(this.getGameState());
             this.onAction(nextAction);
@@ -143,83 +222,61 @@ export class GameManager implements GameModeManager {
         if (projectile.isDead || !projectile.isAtFinalTarget()) {
             return;
         }
-        const finalTarget = projectile.getCurrentTarget();
-        const hitPositionCanvas = finalTarget.canvasCoords;
+        const hitPositionCanvas = projectile.getCurrentTarget().canvasCoords;
         if (projectile.projectileDetails.type === ProjectileDetailsType.SPLASH) {
-            const splashDamage = projectile.projectileDetails;
             this.particleSystems.push(new ParticleSystem(
-                getGrenadeSmokeParticleSystemParams(hitPositionCanvas)));
+                getGrenadeSmokeParticleSystemParams(hitPositionCanvas),
+                this.particleRandom));
             this.particleSystems.push(new ParticleSystem(
-                getGrenadeBurstParticleSystemParams(hitPositionCanvas)));
-            const hitTiles = bfs({
-                startTile: finalTarget.tile,
-                maxDepth: splashDamage.damageManhattanDistanceRadius,
-                isAvailable: (tile: Point) => {
-                    return true;
-                },
-                canGoThrough: (tile: Point) => {
-                    return true;
-                },
-            });
-            for (const hitTile of hitTiles) {
-                const targetCharacter = this.gameState.getAliveCharacters()
-                    .find((character) => character.tileCoords.equals(hitTile));
-                if (targetCharacter) {
-                    const manhattanDistance = targetCharacter.tileCoords
-                        .manhattanDistanceTo(finalTarget.tile);
-                    const damageReduction =
-                        Math.pow(
-                            splashDamage.tilesAwayDamageReduction,
-                            manhattanDistance);
-                    const damage = splashDamage.damage * damageReduction
-                    targetCharacter.health -= damage;
-                }
-            }
+                getGrenadeBurstParticleSystemParams(hitPositionCanvas),
+                this.particleRandom));
         } else {
-            const targetCharacter = this.gameState.getAliveCharacters()
-                .find((character) => {
-                    return character.tileCoords.equals(finalTarget.tile);
-                });
-            if (targetCharacter
-                && targetCharacter !== this.gameState.selectedCharacter!
-                // Avoid edge case ;) where bullet hits wall and
-                // not actually the character at the tile specified
-                && !finalTarget.isTargetGridBorder) {
-
-                // Assumes friendly fire check occurred in 'fireShot'.
-                targetCharacter.health -= projectile.projectileDetails.damage;
-            }
             this.particleSystems.push(new ParticleSystem(
-                getBulletParticleSystemParams(hitPositionCanvas)));
+                getBulletParticleSystemParams(hitPositionCanvas),
+                this.particleRandom));
         }
         projectile.setIsDead();
+        this.presentImpacts(projectile);
+    }
 
-        // Recalculate other projectile targets 
-        // as they may have been going towards a
-        // now destroyed character or obstacle.
-        for (const otherProjectile of this.projectiles
-            .filter((otherOtherProjectile) => !otherOtherProjectile.isDead)) {
-            // const canvasCoords =
-            //     otherProjectile.animationState.currentCenterCanvas;
-            const currentRay = otherProjectile.getCurrentTarget().ray;
-            const newTargets = getProjectileTargetsPath({
-                ray: currentRay,
-                startingTileCoords:
-                    Grid.getTileFromCanvasCoords(currentRay.startPt),
-                fromTeamIndex: otherProjectile.fromTeamIndex,
-                numRicochets: otherProjectile.getNumRicochetsLeft(),
-                characters: this.gameState.getAliveCharacters(),
-                obstacles: this.gameState.obstacles,
+    private updateLastKnownPositions(): void {
+        if (!this.gameState.isFogOfWarOn()) {
+            return;
+        }
+        for (const [teamIndex, lastKnownPositions]
+            of this.teamIndexToLastKnownPositions) {
+            const visibility = new Visibility(this.gameState, teamIndex);
+            lastKnownPositions.update({
+                enemies: this.getDisplayedCharacters().filter((character) => {
+                    return !this.gameState
+                        .areAllies(character.teamIndex, teamIndex);
+                }),
+                isCharacterVisible: (character: Character) => {
+                    return visibility.isCharacterVisible(
+                        character, character.getCurrentTile());
+                },
+                isTileVisible: (tile: Point) => {
+                    return visibility.isTileVisible(tile);
+                },
+                getTile: (character: Character) => {
+                    return character.getCurrentTile();
+                },
             });
-            otherProjectile.setNewTargets(newTargets);
         }
     }
 
+    private presentImpacts(projectile: Projectile): void {
+        for (const impact of this.projectileToImpacts.get(projectile)!) {
+            this.presentEvent(impact);
+        }
+        this.projectileToImpacts.delete(projectile);
+    }
+
     private shouldSkipAnimation(character: Character): boolean {
         if (!this.isAiTurn()) {
             return false;
         }
-        if (this.gameState.settings.matchType === MatchType.AI_VS_AI) {
+        if (this.teamIndexToIsHuman.indexOf(true) === -1) {
             return true;
         }
         // TODO check if ai charcter's path is completely out of sight.
@@ -228,30 +285,32 @@ export class GameManager implements GameModeManager {
 
     render(): void {
         const context = this.context;
-        context.fillStyle = THEME.gridBackgroundColor;
+        const grid = this.gameState.grid;
         context.clearRect(
             0, 0,
             RENDER_SETTINGS.canvasWidth,
             RENDER_SETTINGS.canvasHeight);
-        context.fillRect(
-            0, 0,
-            RENDER_SETTINGS.canvasWidth,
-            RENDER_SETTINGS.canvasHeight);
 
+        // Board, as seen by the camera.
+        context.save();
+        this.camera.applyTransform(context);
+        context.fillStyle = THEME.gridBackgroundColor;
+        context.fillRect(0, 0, grid.width, grid.height);
         if (THEME.isUsingTextures) {
             this.blackWoodTexture.tryDrawing({
                 context,
                 sourceX: 0, sourceY: 0,
                 sourceWidth: Grid.GAME_WIDTH, sourceHeight: Grid.GAME_HEIGHT,
                 canvasX: 0, canvasY: 0,
-                canvasWidth: Grid.GAME_WIDTH,
-                canvasHeight: Grid.GAME_HEIGHT,
+                canvasWidth: grid.width,
+                canvasHeight: grid.height,
             });
         }
 
         if (this.gameState.selectableTiles != null
-            && this.gameState.selectableTiles.length) {
-            if (!this.isAiTurn()) {
+            && this.gameState.selectableTiles.length
+            && this.pendingEvents.length === 0) {
+            if (this.isLocalTurn()) {
                 for (const availableTile of this.gameState.selectableTiles) {
                     const tileCanvasTopLeft =
                         Grid.getCanvasFromTileCoords(availableTile);
@@ -263,7 +322,7 @@ export class GameManager implements GameModeManager {
             }
             // Indicate hovered tile.
             const mouseTileCoords =
-                Grid.getTileFromCanvasCoords(
+                this.camera.getTileAtCanvasCoords(
                     CONTROLS.getMouseCanvasCoords());
             if (this.gameState.selectableTiles
                 .find((tile) => tile.equals(mouseTileCoords))) {
@@ -275,22 +334,33 @@ export class GameManager implements GameModeManager {
                     Grid.TILE_SIZE, Grid.TILE_SIZE);
             }
         }
-        for (const obstacle of this.gameState.obstacles) {
-            obstacle.render(context);
+        for (const terrain of this.gameState.terrain) {
+            terrain.render(context);
+        }
+        this.renderObjectiveZone(context);
+        for (const obstacle of this.displayedObstacles) {
+            obstacle.render(
+                context, this.obstacleToDisplayedHealth.get(obstacle));
         }
         for (const flag of this.gameState.flags) {
-            flag.render(this.context);
+            if (this.getLocalVisibility().isFlagVisible(flag)) {
+                flag.render(this.context);
+            }
         }
-        for (const character of this.gameState.getAliveCharacters()) {
+        for (const character of this.getDisplayedCharacters()) {
             if (this.shouldRenderCharacter(character)) {
-                character.render(this.context);
+                character.render(
+                    this.context,
+                    this.characterToDisplayedHealth.get(character)!);
             }
         }
+        this.renderVip(context);
         for (const spawner of this.gameState.spawners) {
             spawner.render(this.context);
         }
         if (this.gameState.selectedCharacter != null
-            && !this.isAiTurn()) {
+            && this.isLocalTurn()
+            && this.pendingEvents.length === 0) {
             const tileCanvasTopLeft = Grid.getCanvasFromTileCoords(
                 this.gameState.selectedCharacter.tileCoords);
             context.strokeStyle = THEME.selectedCharacterOutlineColor;
@@ -310,384 +380,513 @@ export class GameManager implements GameModeManager {
             }
         }
         this.renderFogOfWar(this.context);
+        this.renderLastKnownPositions(this.context);
+        context.restore();
+
         this.hud.render();
         this.inputManager.render();
     }
 
     private shouldRenderCharacter(character: Character): boolean {
-        if (!this.gameState.isFogOfWarOn()) {
-            return true;
-        }
-        if (this.gameState.settings.matchType === MatchType.PLAYER_VS_PLAYER_LOCAL
-            || this.gameState.settings.matchType === MatchType.AI_VS_AI) {
-            // TODO - implement 'pass device' screen.
-            return this.gameState.isTileVisibleByTeamIndex(
-                character.tileCoords, this.gameState.currentTeamIndex);
-        }
-
-        // In player vs AI, always render from player perspective
-        if (character.teamIndex === DEFAULT_HUMAN_TEAM_INDEX) {
-            return true;
-        } else {
-            const animatingCharacterTile = Grid.getTileFromCanvasCoords(
-                character.animationState.currentCenterCanvas);
-            return this.gameState
-                .isTileVisibleByTeamIndex(animatingCharacterTile,
-                    DEFAULT_HUMAN_TEAM_INDEX);
-        }
+        return this.getLocalVisibility().isAnimatingCharacterVisible(character);
     }
 
     private shouldRenderObjectAtTile(tile: Point): boolean {
-        if (!this.gameState.isFogOfWarOn()) {
-            return true;
+        return this.getLocalVisibility().isTileVisible(tile);
+    }
+
+    /** Tiles like the hill to hold, under everything on them. */
+    private renderObjectiveZone(context: CanvasRenderingContext2D): void {
+        context.fillStyle = THEME.objectiveZoneColor;
+        for (const tile of this.gameState.objective.getZoneTiles()) {
+            const tileCanvasTopLeft = Grid.getCanvasFromTileCoords(tile);
+            context.fillRect(
+                tileCanvasTopLeft.x, tileCanvasTopLeft.y,
+                Grid.TILE_SIZE, Grid.TILE_SIZE);
         }
-        if (this.gameState.settings.matchType === MatchType.PLAYER_VS_PLAYER_LOCAL
-            || this.gameState.settings.matchType === MatchType.AI_VS_AI) {
-            // TODO - implement 'pass device' screen.
-            return this.gameState.isTileVisibleByTeamIndex(
-                tile, this.gameState.currentTeamIndex);
+    }
+
+    /** Ringed so both sides can tell who to escort or stop. */
+    private renderVip(context: CanvasRenderingContext2D): void {
+        const vip = this.gameState.objective.getVip(this.gameState);
+        if (vip == null
+            || this.getDisplayedCharacters().indexOf(vip) === -1
+            || !this.shouldRenderCharacter(vip)) {
+            return;
         }
-        // In player vs AI, always render from player perspective
-        return this.gameState.isTileVisibleByTeamIndex(
-            tile,
-            DEFAULT_HUMAN_TEAM_INDEX);
+        const center = vip.animationState.currentCenterCanvas;
+        context.strokeStyle = THEME.vipOutlineColor;
+        context.lineWidth = 3;
+        context.beginPath();
+        context.arc(
+            center.x, center.y, Grid.TILE_SIZE * .4, 0, 2 * Math.PI);
+        context.stroke();
     }
 
     private renderFogOfWar(context: CanvasRenderingContext2D): void {
         if (!this.gameState.isFogOfWarOn()) {
             return;
         }
-        let visibleTiles: Point[] = [];
-        if (this.gameState.settings.matchType === MatchType.PLAYER_VS_PLAYER_LOCAL
-            || this.gameState.settings.matchType === MatchType.AI_VS_AI) {
-            visibleTiles =
-                this.gameState.getTilesVisibleByTeamIndex(
-                    this.gameState.currentTeamIndex);
-        } else if (
-            this.gameState.settings.matchType === MatchType.PLAYER_VS_AI) {
-            visibleTiles = this.gameState
-                .getTilesVisibleByTeamIndex(DEFAULT_HUMAN_TEAM_INDEX);
-        }
+        let visibleTiles = this.getLocalVisibility().getVisibleTiles();
         if (this.gameState.gamePhase === GamePhase.CHARACTER_PLACEMENT
-            && !this.isAiTurn()) {
+            && this.isLocalTurn()) {
             visibleTiles = visibleTiles
                 .concat(this.gameState.selectableTiles);
         }
         context.fillStyle = THEME.fogColor;
-        for (let x = 0; x < Grid.TILES_WIDE; x++) {
-            for (let y = 0; y < Grid.TILES_TALL; y++) {
-                const tile = new Point(x, y);
-                const isVisible = visibleTiles
-                    .find((visibleTile) => visibleTile.equals(tile));
-                if (isVisible) {
-                    continue;
-                }
-                const canvasTopLeft = Grid.getCanvasFromTileCoords(tile);
-                context.fillRect(
-                    canvasTopLeft.x, canvasTopLeft.y,
-                    Grid.TILE_SIZE, Grid.TILE_SIZE);
+        for (const tile of this.gameState.grid.getTiles()) {
+            const isVisible = visibleTiles
+                .find((visibleTile) => visibleTile.equals(tile));
+            if (isVisible) {
+                continue;
             }
+            const canvasTopLeft = Grid.getCanvasFromTileCoords(tile);
+            context.fillRect(
+                canvasTopLeft.x, canvasTopLeft.y,
+                Grid.TILE_SIZE, Grid.TILE_SIZE);
+        }
+    }
+
+    private renderLastKnownPositions(
+        context: CanvasRenderingContext2D): void {
+        if (!this.gameState.isFogOfWarOn()) {
+            return;
+        }
+        const lastKnownPositions =
+            this.teamIndexToLastKnownPositions.get(this.getLocalTeamIndex());
+        if (lastKnownPositions != null) {
+            lastKnownPositions.render(context);
         }
     }
 
     destroy(): void {
         if (this.inputManager) this.inputManager.clear();
+        if (!this.isSpectator
+            && this.recordedActions
+            && this.recordedActions.length > 0) {
+            saveLastReplay({
+                level: this.level,
+                settings: this.gameSettings,
+                actions: this.recordedActions,
+            });
+        }
     }
 
     onAction(action: Action): void {
-        if (this.isPaused) {
+        if (this.isPaused || this.rulesEngine.getIsGameOver()) {
+            return;
+        }
+        if (this.online != null) {
+            this.sendOnlineAction(action);
+            return;
+        }
+        this.applyAction(action);
+    }
+
+    private applyAction(action: Action): void {
+        this.pendingEvents.push(...this.rulesEngine.applyAction(action));
+        this.recordedActions.push({ action, timestampMs: this.gameTimeMs });
+        this.presentPendingEvents();
+    }
+
+    /** Actions only count once they've reached the relay server. */
+    private sendOnlineAction(action: Action): void {
+        const online = this.online!;
+        if (this.gameState.currentTeamIndex !== online.teamIndex) {
+            return;
+        }
+        const isSent = online.connection.send({
+            type: ClientMessageType.ACTION,
+            actionIndex: this.recordedActions.length,
+            action: serializeAction(action),
+        });
+        if (!isSent) {
+            this.hud.setText(
+                `Can't act while reconnecting`,
+                TextType.TOAST,
+                Duration.SHORT);
             return;
         }
-        const activeSquad = this.gameState.getActiveSquad();
-        switch (action.type) {
-            case ActionType.SHOOT:
-                if (this.gameState.selectedCharacter == null) {
-                    throw new Error(
-                        `Selected character is null on FIRE action`);
+        this.applyAction(action);
+        this.sendStateHash();
+    }
+
+    private sendStateHash(): void {
+        this.online!.connection.send({
+            type: ClientMessageType.STATE_HASH,
+            actionCount: this.recordedActions.length,
+            hash: hashGameState(this.rulesEngine.getSerializedState()),
+        });
+    }
+
+    private onServerMessage(message: ServerMessage): void {
+        switch (message.type) {
+            case ServerMessageType.MATCH_STARTED:
+                // Rejoined after reconnecting, catch up on missed actions.
+                const actions = message.actions.map(deserializeAction);
+                if (actions.length < this.recordedActions.length) {
+                    this.resync(actions);
+                    break;
                 }
-                const shotInfos = this.gameState.selectedCharacter.shoot();
-                for (const shotInfo of shotInfos) {
-                    this.fireShot(shotInfo);
-                    // Next turn logic runs when projectile dies.
-                    this.addOnAnimationDoneCallback(
-                        this.onProjectileAnimationOver);
+                for (const action of
+                    actions.slice(this.recordedActions.length)) {
+                    this.applyAction(action);
                 }
+                this.sendStateHash();
                 break;
-            case ActionType.HEAL:
-                if (this.gameState.selectedCharacter == null) {
-                    throw new Error(
-                        `Selected character is null on HEAL action`);
+            case ServerMessageType.ACTION:
+                if (message.actionIndex !== this.recordedActions.length) {
+                    // Missed or out of order, fetch the whole match.
+                    this.online!.connection.rejoin();
+                    break;
+                }
+                this.applyAction(deserializeAction(message.action));
+                this.sendStateHash();
+                break;
+            case ServerMessageType.ACTION_REJECTED:
+            case ServerMessageType.DESYNC:
+                this.resync(message.actions.map(deserializeAction));
+                this.hud.setText(
+                    'Out of sync with opponent, resynced',
+                    TextType.TOAST,
+                    Duration.SHORT);
+                break;
+            case ServerMessageType.OPPONENT_DISCONNECTED:
+                this.hud.setText(
+                    'Opponent disconnected, waiting for them to reconnect',
+                    TextType.SUBTITLE,
+                    Duration.LONG);
+                break;
+            case ServerMessageType.OPPONENT_RECONNECTED:
+                this.hud.setText(
+                    'Opponent reconnected',
+                    TextType.SUBTITLE,
+                    Duration.SHORT);
+                break;
+            case ServerMessageType.OPPONENT_LEFT:
+                this.hud.setText(
+                    'Opponent left the match',
+                    TextType.SUBTITLE,
+                    Duration.LONG);
+                break;
+            case ServerMessageType.ERROR:
+                this.hud.setText(
+                    message.message, TextType.TOAST, Duration.LONG);
+                break;
+            case ServerMessageType.LOBBY_CREATED:
+                break;
+            default:
+                throwBadServerMessage(message);
+        }
+    }
+
+    private onConnectionChange(isConnected: boolean): void {
+        if (!isConnected) {
+            this.hud.setText(
+                'Connection lost, reconnecting...',
+                TextType.SUBTITLE,
+                Duration.LONG);
+        }
+    }
+
+    /**
+     * Restarts the match and replays `actions` without animating,
+     * ie to match the relay server's record of the match.
+     */
+    private resync(actions: Action[]): void {
+        this.resetGame();
+        for (const action of actions) {
+            this.applyAction(action);
+            this.skipAnimations();
+        }
+        if (this.online != null) {
+            this.sendStateHash();
+        }
+    }
+
+    /**
+     * Presents queued events in order, waiting for
+     * animations from earlier events to finish.
+     */
+    private presentPendingEvents(): void {
+        while (this.pendingEvents.length > 0 && !this.isAnimating()) {
+            const event = this.pendingEvents.shift()!;
+            this.presentEvent(event);
+            // Projectiles from the same shot (ie spray) fly together.
+            while (event.type === GameEventType.PROJECTILE_FIRED
+                && this.pendingEvents.length > 0
+                && this.pendingEvents[0].type
+                === GameEventType.PROJECTILE_FIRED) {
+                this.presentEvent(this.pendingEvents.shift()!);
+            }
+        }
+    }
+
+    private presentEvent(event: GameEvent): void {
+        // Game state is kept up to date either way, only what the local
+        // team is told depends on it.
+        const isVisible = this.getLocalVisibility().isEventVisible(event);
+        switch (event.type) {
+            case GameEventType.TURN_STARTED:
+                const teamName = this.gameState.getTeamName(event.teamIndex);
+                this.hud.setText(
+                    `${teamName} team turn`, TextType.TITLE, Duration.LONG);
+                if (event.gamePhase === GamePhase.CHARACTER_PLACEMENT) {
+                    const teamMaxSquadSize =
+                        this.gameSettings.teamIndexToSquadSize
+                            .get(event.teamIndex)!;
+                    this.hud.setText(
+                        `Place squad members ` +
+                        `(${teamMaxSquadSize} remaining) `,
+                        TextType.SUBTITLE,
+                        Duration.LONG);
+                    if (this.isTeamLocal(event.teamIndex)) {
+                        this.initControls(
+                            () => this.inputManager.initForCharacterPlacement());
+                    } else {
+                        this.initControls(
+                            () => this.inputManager.initDefaultControls());
+                    }
+                }
+                break;
+            case GameEventType.CHARACTER_PLACED:
+            case GameEventType.CHARACTER_SPAWNED:
+                this.characterToDisplayedHealth
+                    .set(event.character, event.character.health);
+                break;
+            case GameEventType.CHARACTER_STATE_CHANGED:
+                if (this.isTeamLocal(event.character.teamIndex)) {
+                    this.initControls(
+                        () => this.inputManager.initForSelectedCharacterState());
+                } else {
+                    this.initControls(
+                        () => this.inputManager.initDefaultControls());
+                }
+                break;
+            case GameEventType.CHARACTER_MOVED:
+                const character = event.character;
+                character.animateMovement(
+                    event.fromTile,
+                    mapTilePathToTargetsPath(event.fromTile, event.path));
+                if (event.carriedFlag) {
+                    event.carriedFlag.setIsTaken(() => {
+                        return character.animationState.currentCenterCanvas
+                            .subtract(Grid.HALF_TILE);
+                    });
+                }
+                this.initControls(
+                    () => this.inputManager.initDefaultControls());
+                break;
+            case GameEventType.CHARACTER_HEALED:
+                this.characterToDisplayedHealth
+                    .set(event.character, event.health);
+                if (!isVisible) {
+                    break;
                 }
-                this.gameState.selectedCharacter
-                    .regenHealth(action.healAmount);
-                this.gameState.selectedCharacter
-                    .useAbility(CharacterAbilityType.HEAL);
                 const characterCenter =
-                    Grid.getCanvasFromTileCoords(
-                        this.gameState.selectedCharacter.tileCoords)
+                    Grid.getCanvasFromTileCoords(event.character.tileCoords)
                         .add(Grid.HALF_TILE);
                 this.particleSystems.push(new ParticleSystem(
-                    getHealParticleSystemParams(characterCenter)));
-                this.checkCharacterTurnOver();
+                    getHealParticleSystemParams(characterCenter),
+                    this.particleRandom));
                 break;
-            case ActionType.END_CHARACTER_TURN:
-                if (this.gameState.selectedCharacter == null) {
-                    throw new Error(
-                        `Selected character is null on ` +
-                        `END_CHARACTER_TURN action`);
+            case GameEventType.OVERWATCH_SET:
+                if (isVisible) {
+                    this.hud.setText(
+                        `${this.gameState.getTeamName(event.character.teamIndex)} ` +
+                        `unit ${event.character.index + 1} is on overwatch.`,
+                        TextType.TOAST,
+                        Duration.SHORT);
                 }
-                this.gameState.selectedCharacter.setTurnOver();
-                this.onCharacterTurnOver();
                 break;
-            case ActionType.AIM:
-                if (this.gameState.selectedCharacter == null) {
-                    throw new Error(
-                        `No selected character when trying to aim`);
+            case GameEventType.OVERWATCH_TRIGGERED:
+                if (isVisible) {
+                    this.hud.setText(
+                        `Overwatch fire!`,
+                        TextType.SUBTITLE,
+                        Duration.SHORT);
                 }
-                this.gameState.selectedCharacter
-                    .setAim(action.aimAngleClockwiseRadians);
                 break;
-            case ActionType.SELECT_TILE:
-                if (!this.gameState.selectableTiles
-                    .find((tile) => tile.equals(action.tile))) {
-                    throw new Error(
-                        `Invalid tile selection: ${action.tile.toString()}`);
+            case GameEventType.PROJECTILE_FIRED:
+                this.fireProjectile(event);
+                this.initControls(
+                    () => this.inputManager.initDefaultControls());
+                break;
+            case GameEventType.SHOT_MISSED:
+                if (isVisible) {
+                    this.hud.setText(
+                        `Missed! Target was in cover ` +
+                        `(${Math.round(event.hitChance * 100)}% to hit).`,
+                        TextType.TOAST,
+                        Duration.SHORT);
                 }
-                if (this.gameState.gamePhase === GamePhase.COMBAT) {
-                    if (this.gameState.selectedCharacter == null) {
-                        throw new Error(
-                            `Selected character is null on ` +
-                            `SELECT_TILE action in combat phase`);
-                    }
-                    this.gameState.selectableTiles = [];
-                    if (this.gameState.selectedCharacterState
-                        === SelectedCharacterState.MOVING) {
-                        this.handleCharacterMovement(action.tile);
-                    } else if (this.gameState.selectedCharacterState
-                        === SelectedCharacterState.THROWING_GRENADE) {
-                        const grenadeDetails = {
-                            splashDamage: this.gameState.selectedCharacter
-                                .getGrenadeAbility().splashDamage,
-                            tile: action.tile,
-                        };
-                        this.gameState.selectedCharacter
-                            .useAbility(CharacterAbilityType.THROW_GRENADE);
-                        this.throwGrenade(grenadeDetails);
-                    }
-                } else {
-                    const squadIndex = activeSquad.length;
-                    this.gameState.characters.push(new Character({
-                        startCoords: action.tile,
-                        teamIndex: this.gameState.currentTeamIndex,
-                        index: squadIndex,
-                        settings: this.selectedCharacterSettings,
-                        gameDelegate: this.gameDelegate,
-                    }));
-                    const teamMaxSquadSize =
-                        this.gameSettings.teamIndexToSquadSize
-                            .get(this.gameState.currentTeamIndex)!;
-                    if (activeSquad.length + 1 === teamMaxSquadSize) {
-                        // Placed all characters, end turn.
-                        this.nextTurn();
-                    } else {
-                        this.gameState.selectableTiles =
-                            this.gameState.selectableTiles
-                                .filter((availableTile) => {
-                                    return !availableTile.equals(action.tile);
-                                });
-                    }
+                break;
+            case GameEventType.DAMAGE_DEALT:
+                this.characterToDisplayedHealth
+                    .set(event.character, event.health);
+                break;
+            case GameEventType.CHARACTER_KILLED:
+                // Hidden once displayed health drops to zero.
+                break;
+            case GameEventType.OBSTACLE_DAMAGED:
+                this.obstacleToDisplayedHealth
+                    .set(event.obstacle, event.health);
+                this.particleSystems.push(new ParticleSystem(
+                    getDebrisParticleSystemParams(
+                        Grid.getCanvasFromTileCoords(event.obstacle.tileCoords)
+                            .add(Grid.HALF_TILE),
+                        /* isDestroyed= */ false),
+                    this.particleRandom));
+                break;
+            case GameEventType.OBSTACLE_DESTROYED:
+                this.displayedObstacles = this.displayedObstacles
+                    .filter((obstacle) => obstacle !== event.obstacle);
+                this.particleSystems.push(new ParticleSystem(
+                    getDebrisParticleSystemParams(
+                        Grid.getCanvasFromTileCoords(event.obstacle.tileCoords)
+                            .add(Grid.HALF_TILE),
+                        /* isDestroyed= */ true),
+                    this.particleRandom));
+                break;
+            case GameEventType.FLAG_TAKEN:
+                if (!isVisible) {
+                    break;
                 }
+                this.hud.setText(
+                    `${this.gameState.getTeamName(event.character.teamIndex)} ` +
+                    `team has taken the ` +
+                    `${this.gameState.getTeamName(event.flag.teamIndex)} flag.`,
+                    TextType.SUBTITLE,
+                    Duration.SHORT);
                 break;
-            case ActionType.SELECT_CHARACTER:
-                const character = activeSquad
-                    .find((character) => {
-                        return character.index === action.characterIndex;
-                    });
-                if (character == null) {
-                    throw new Error(
-                        `Can't find character in SELECT_CHARACTER action. ` +
-                        `cur team index: ${this.gameState.currentTeamIndex}; ` +
-                        ` charIndex: ${action.characterIndex}`);
+            case GameEventType.FLAG_RETURNED:
+                if (!isVisible) {
+                    break;
                 }
-                if (character.isTurnOver() || !character.isAlive()) {
-                    throw new Error(
-                        `Selected character is dead or turn is over.`);
+                this.hud.setText(
+                    `${this.gameState.getTeamName(event.character.teamIndex)} ` +
+                    `team has returned their flag.`,
+                    TextType.SUBTITLE,
+                    Duration.SHORT);
+                break;
+            case GameEventType.FLAG_CAPTURED:
+                // Back at its start, not following the capturer around.
+                event.flag.setDropped();
+                if (!isVisible) {
+                    break;
                 }
-                this.gameState.selectedCharacter!.cancelAiming();
-                this.setSelectedCharacter(action.characterIndex);
+                this.hud.setText(
+                    `${this.gameState.getTeamName(event.character.teamIndex)} ` +
+                    `team has captured the ` +
+                    `${this.gameState.getTeamName(event.flag.teamIndex)} flag.`,
+                    TextType.SUBTITLE,
+                    Duration.SHORT);
                 break;
-            case ActionType.SELECT_CHARACTER_STATE:
-                this.setSelectedCharacterState(action.state);
+            case GameEventType.OBJECTIVE_PROGRESSED:
+                this.hud.setObjectiveStatus(event.status);
                 break;
-            case ActionType.SELECT_CHARACTER_CLASS:
-                this.selectedCharacterSettings = action.class;
+            case GameEventType.TEAM_ELIMINATED:
+                this.hud.setText(
+                    `${this.gameState.getTeamName(event.teamIndex)} ` +
+                    `team has been eliminated.`,
+                    TextType.SUBTITLE,
+                    Duration.SHORT);
+                break;
+            case GameEventType.GAME_OVER:
+                const winningTeamNames = event.winningTeamIndices
+                    .map((teamIndex) => this.gameState.getTeamName(teamIndex));
+                const winningTeams = winningTeamNames.length > 1
+                    ? `${winningTeamNames.join(' and ')} teams have`
+                    : `${winningTeamNames[0]} team has`;
+                const victoryTypeToSubtitle = new Map([
+                    [VictoryType.ELIMINATION, 'elimanted all oponents.'],
+                    [VictoryType.FLAG_CAPTURED, 'snagged the flag.'],
+                    [VictoryType.HILL_HELD, 'held the hill.'],
+                    [VictoryType.VIP_ESCAPED, 'escorted the VIP out.'],
+                    [VictoryType.VIP_KILLED, 'taken out the VIP.'],
+                    [VictoryType.DEFENDED, 'defended their flag.'],
+                ]);
+                this.setGameOver(
+                    event.winningTeamIndex,
+                    `${winningTeams} ` +
+                    `${victoryTypeToSubtitle.get(event.victoryType)!}`);
                 break;
             default:
-                throwBadAction(action);
+                throwBadEvent(event);
         }
     }
 
-    private gameDelegate = {
-        getCurrentAimPath: (params: {
-            ray: Ray;
-            startingTileCoords: Point;
-            fromTeamIndex: number;
-            numRicochets: number;
-        }) => {
-            const visibleEnemyCharacters =
-                this.gameState.getAliveCharacters();
-            if (this.gameState.settings.hasFogOfWar) {
-                visibleEnemyCharacters.filter((character) => {
-                    return this.gameState.isTileVisibleByTeamIndex(
-                        character.tileCoords,
-                        this.gameState.currentTeamIndex);
-                });
-            }
-            return getProjectileTargetsPath({
-                ...params,
-                characters: visibleEnemyCharacters,
-                obstacles: this.gameState.obstacles,
-            });
-        }
-    };
+    private fireProjectile(event: ProjectileFiredEvent): void {
+        const projectile = new Projectile({
+            context: this.context,
+            projectileDetails: event.projectileDetails,
+            targets: [...event.targets],
+            fromTeamIndex: event.fromTeamIndex,
+        });
+        this.projectiles.push(projectile);
+        this.projectileToImpacts.set(projectile, event.impacts);
+    }
 
-    private checkGameOver(): void {
-        if (!ALLOW_ELIMINATION_VICTORY_WITH_SPAWNERS
-            && this.gameState.spawners.length > 0) {
-            // TODO - assumes spawners only appear for ai
-            const numHumanCharacters =
-                this.gameState.getCharactersForTeamIndex(
-                    DEFAULT_HUMAN_TEAM_INDEX)
-                    .length;
-            if (numHumanCharacters !== 0) {
-                return;
-            }
-        }
-        let winningTeam: string | null = null;
-        let winningTeamIndex = -1;
-        if (this.gameState.getEnemyCharacters().length === 0) {
-            winningTeamIndex = this.gameState.currentTeamIndex;
-            winningTeam = this.gameState.getActiveTeamName();
-        }
-        else if (this.gameState.getActiveSquad().length === 0) {
-            winningTeam = this.gameState.getEnemyTeamName();
-            winningTeamIndex =
-                (1 + this.gameState.currentTeamIndex)
-                % this.gameSettings.numTeams;
-        }
-        if (winningTeam != null) {
-            this.setGameOver(
-                winningTeamIndex,
-                `${winningTeam} has elimanted all oponents.`);
-        }
+    /** Characters that have been presented and are still alive. */
+    private getDisplayedCharacters(): Character[] {
+        return this.gameState.characters.filter((character) => {
+            const displayedHealth =
+                this.characterToDisplayedHealth.get(character);
+            return displayedHealth != null && displayedHealth > 0;
+        });
     }
 
-    private checkCharacterTurnOver(): void {
-        if (this.gameState.selectedCharacter!.isTurnOver()) {
-            this.onCharacterTurnOver();
-        } else {
-            this.setSelectedCharacterState(
-                SelectedCharacterState.AWAITING);
+    private isAiTurn(): boolean {
+        if (this.isGameOver) {
+            return false;
         }
+        return this.teamIndexToIsAi[this.gameState.currentTeamIndex];
     }
 
-    /** 
-     * Checks if there's another squad 
-     * member still active, or advances turn if not. 
-     */
-    private onCharacterTurnOver(): void {
-        const squad = this.gameState.getActiveSquad();
-        const activeSquadMember = squad.find(
-            (character: Character) => {
-                return !character.isTurnOver() && character.isAlive();
-            });
-        if (activeSquadMember) {
-            this.setSelectedCharacter(activeSquadMember.index);
-        } else {
-            this.nextTurn();
+    /** Whether the opponent is taking their turn on another client. */
+    private isRemoteTurn(): boolean {
+        if (this.isGameOver || this.online == null) {
+            return false;
         }
+        return this.gameState.currentTeamIndex !== this.online.teamIndex;
     }
 
-    private nextTurn(): void {
-        if (this.gameState.gamePhase === GamePhase.CHARACTER_PLACEMENT) {
-            const nextTeamIndex = this.gameState.currentTeamIndex + 1;
-            if (nextTeamIndex < this.gameSettings.numTeams) {
-                this.gameState.currentTeamIndex += 1;
-                this.initCharacterPlacementTurn();
-            } else {
-                this.gameState.gamePhase = GamePhase.COMBAT;
-                this.advanceToNextCombatTurn();
-            }
-        } else {
-            this.advanceToNextCombatTurn();
-        }
+    private isLocalTurn(): boolean {
+        return !this.isAiTurn() && !this.isRemoteTurn();
     }
 
-    private isAiTurn(): boolean {
-        if (this.isGameOver) {
+    private isTeamLocal(teamIndex: number): boolean {
+        if (this.teamIndexToIsAi[teamIndex]) {
             return false;
         }
-        return this.teamIndexToIsAi[this.gameState.currentTeamIndex];
+        return this.online == null || teamIndex === this.online.teamIndex;
     }
 
-    private initCharacterPlacementTurn(): void {
-        this.gameState.selectableTiles =
-            this.getAvailableTilesForCharacterPlacement();
-        const teamName = this.gameState.getActiveTeamName();
-        const teamMaxSquadSize = this.gameSettings.teamIndexToSquadSize
-            .get(this.gameState.currentTeamIndex)!;
-        this.hud.setText(
-            `${teamName} team turn`, TextType.TITLE, Duration.LONG);
-        this.hud.setText(
-            `Place squad members (${teamMaxSquadSize} remaining) `,
-            TextType.SUBTITLE,
-            Duration.LONG);
-        if (!this.isAiTurn()) {
-            this.inputManager.initForCharacterPlacement();
-        } else {
-            this.inputManager.initDefaultControls();
+    /**
+     * Team whose view is rendered. Humans sharing a device see
+     * the current team's view, or the last human team's on AI turns.
+     * TODO - implement 'pass device' screen.
+     */
+    private getLocalTeamIndex(): number {
+        if (this.online != null) {
+            return this.online.teamIndex;
         }
-    }
-
-    private advanceToNextCombatTurn(): void {
         const currentTeamIndex = this.gameState.currentTeamIndex;
-        // Spawn at end of turns.
-        for (const spawner of this.gameState.spawners) {
-            if (spawner.teamIndex === currentTeamIndex) {
-                spawner.advanceTurn();
-                const allEnemyCharacters = this.gameState.characters
-                    .filter((character) =>
-                        character.teamIndex === currentTeamIndex);
-                const newCharacterIndex = allEnemyCharacters.length;
-                if (spawner.checkAndHandleRespawn()) {
-                    const character = new Character({
-                        startCoords: spawner.tileCoords,
-                        teamIndex: this.gameState.currentTeamIndex,
-                        index: newCharacterIndex,
-                        settings: this.selectedCharacterSettings,
-                        gameDelegate: this.gameDelegate,
-                    });
-                    this.gameState.characters.push(character);
-                }
+        if (this.teamIndexToIsHuman[currentTeamIndex]) {
+            return currentTeamIndex;
+        }
+        for (let i = currentTeamIndex - 1; i >= 0; i--) {
+            if (this.teamIndexToIsHuman[i]) {
+                return i;
             }
         }
+        const humanTeamIndex = this.teamIndexToIsHuman.lastIndexOf(true);
+        return humanTeamIndex !== -1 ? humanTeamIndex : currentTeamIndex;
+    }
 
-        this.gameState.currentTeamIndex =
-            (this.gameState.currentTeamIndex + 1)
-            % this.gameSettings.numTeams;
-        const squad = this.gameState.getActiveSquad();
-        if (squad.length === 0) {
-            this.advanceToNextCombatTurn();
-            return;
-        }
-        for (const character of squad) {
-            character.resetTurnState();
-        }
-        const teamName = this.gameState.getActiveTeamName();
-        this.setSelectedCharacter(
-            this.gameState.getFirstCharacterIndex());
-        this.hud.setText(
-            `${teamName} team turn`, TextType.TITLE, Duration.LONG);
+    /** What the local team may see, see getLocalTeamIndex. */
+    private getLocalVisibility(): Visibility {
+        return new Visibility(this.gameState, this.getLocalTeamIndex());
     }
 
     private getCurrentTurnAi(): Ai {
@@ -701,73 +900,19 @@ export class GameManager implements GameModeManager {
         return this.gameState;
     }
 
-    private addOnAnimationDoneCallback(callback: () => void): void {
-        this.onAnimationDone = callback;
-        this.inputManager.initDefaultControls();
-    }
-
-    private handleCharacterMovement(toTile: Point): void {
-        const character = this.gameState.selectedCharacter!;
-        const manhattandDistanceAway =
-            character.tileCoords.manhattanDistanceTo(toTile);
-        if (manhattandDistanceAway > character.settings.maxMovesPerTurn) {
-            throw new Error(
-                `Invalid character movement location (too far): ` +
-                `start: ${character.tileCoords.toString()}, ` +
-                `end: ${toTile.toString()}`);
-        }
-        const tilePath =
-            this.gameState.getPath({
-                from: character.tileCoords,
-                to: toTile,
-            });
-        const targets: Target[] =
-            mapTilePathToTargetsPath(character.tileCoords, tilePath);
-        const enemyFlag = this.gameState.getEnemyFlag();
-        const activeTeamFlag = this.gameState.getActiveTeamFlag();
-        const characterHasEnemyFlag =
-            character.tileCoords.equals(enemyFlag.tileCoords);
-        character.moveTo(toTile, targets);
-        this.addOnAnimationDoneCallback(() => {
-            if (activeTeamFlag.isAtStart() && enemyFlag.tileCoords
-                .equals(activeTeamFlag.tileCoords)) {
-                this.setGameOver(
-                    this.gameState.currentTeamIndex,
-                    `${this.gameState.getActiveTeamName()} ` +
-                    `team has snagged the flag.`);
-                return;
-            }
-            this.checkCharacterTurnOver();
-        });
-        if (characterHasEnemyFlag) {
-            enemyFlag.setIsTaken(() => {
-                return character.animationState.currentCenterCanvas
-                    .subtract(Grid.HALF_TILE);
-            });
-            enemyFlag.tileCoords = toTile;
-
-        } else if (enemyFlag.tileCoords.equals(toTile)) {
-            this.hud.setText(
-                `${this.gameState.getActiveTeamName()} ` +
-                `team has taken the flag.`,
-                TextType.SUBTITLE,
-                Duration.SHORT);
-        }
-        if (!activeTeamFlag.isAtStart()
-            && activeTeamFlag.tileCoords.equals(toTile)) {
-            activeTeamFlag.returnToStart();
-            this.hud.setText(
-                `${this.gameState.getActiveTeamName()} ` +
-                `team has returned their flag.`,
-                TextType.SUBTITLE,
-                Duration.SHORT);
+    /** Skipped for spectators, who control the game from outside. */
+    private initControls(init: () => void): void {
+        if (!this.isSpectator) {
+            init();
         }
     }
 
     private setGameOver(
         winningTeamIndex: number, subtitle: string): void {
-        this.inputManager.initGameOverControls();
-        this.togglePause();
+        if (!this.isSpectator) {
+            this.inputManager.initGameOverControls();
+            this.togglePause();
+        }
         this.isGameOver = true;
         this.winningTeamIndex = winningTeamIndex;
         this.hud.setText(
@@ -780,272 +925,69 @@ export class GameManager implements GameModeManager {
             Duration.LONG);
     }
 
-    private fireShot(shotInfo: ShotInfo): void {
-        const ray = getRayForShot(shotInfo);
-        const numRicochets =
-            shotInfo.projectileDetails.type === ProjectileDetailsType.BULLET
-                ? shotInfo.projectileDetails.numRicochets
-                : 0;
-        const targetsPath = getProjectileTargetsPath({
-            ray,
-            startingTileCoords: shotInfo.fromTileCoords,
-            fromTeamIndex: shotInfo.fromTeamIndex,
-            numRicochets,
-            characters: this.gameState.getAliveCharacters(),
-            obstacles: this.gameState.obstacles,
-        });
-
-        LOGGER.log(
-            LogType.TARGET_FINDING,
-            `Targets: ${JSON.stringify(targetsPath)}`);
-        this.projectiles.push(new Projectile({
-            context: this.context,
-            projectileDetails: shotInfo.projectileDetails,
-            targets: targetsPath,
-            fromTeamIndex: shotInfo.fromTeamIndex,
-        }));
-    }
-
-    private throwGrenade(details: {
-        tile: Point;
-        splashDamage: SplashDamage
-    }): void {
-        const fromTile = this.gameState.selectedCharacter!.tileCoords;
-        const fromCanvasCoords =
-            Grid.getCanvasFromTileCoords(fromTile).add(Grid.HALF_TILE);
-        const targetTile = details.tile;
-        const targetCanvasCoords =
-            Grid.getCanvasFromTileCoords(targetTile).add(Grid.HALF_TILE);
-        const direction =
-            targetCanvasCoords.subtract(fromCanvasCoords).normalize();
-        const ray = new Ray(fromCanvasCoords, direction);
-        const target: Target = {
-            canvasCoords: targetCanvasCoords,
-            ray,
-            tile: targetTile,
-            maxDistance: targetCanvasCoords.distanceTo(fromCanvasCoords),
-        };
-        const shotInfo: ShotInfo = {
-            fromTeamIndex: this.gameState.selectedCharacter!.teamIndex,
-            fromCanvasCoords,
-            fromTileCoords: fromTile,
-            aimAngleRadiansClockwise: direction.getPointRotationRadians(),
-            projectileDetails: details.splashDamage,
-        };
-        const proj = new Projectile({
-            context: this.context,
-            projectileDetails: shotInfo.projectileDetails,
-            targets: [target],
-            fromTeamIndex: shotInfo.fromTeamIndex,
-        });
-        this.projectiles.push(proj);
-        this.addOnAnimationDoneCallback(this.onProjectileAnimationOver);
-    }
-
-    private onProjectileAnimationOver = () => {
-        this.checkGameOver();
-        if (!this.isGameOver) {
-            this.checkCharacterTurnOver();
-        }
-    };
-
-    private getAvailableTilesForCharacterPlacement(): Point[] {
-        const flagCoords =
-            this.gameState.getActiveTeamFlag().tileCoords;
-        const maxDistFromFlag = this.gameSettings.maxSpawnDistanceFromFlag;
-        const availableTiles = bfs({
-            startTile: flagCoords,
-            maxDepth: maxDistFromFlag,
-            isAvailable: (tile: Point): boolean => {
-                return !this.isTileOccupied(tile)
-                    && !tile.equals(flagCoords);
-            },
-            canGoThrough: (tile: Point): boolean => {
-                // Can go through other players, just not obstacles.
-                return !this.gameState.tileHasObstacle(tile);
-            },
-        });
-        return availableTiles;
-    }
-
-    private getAvailableTilesForCharacterMovement(): Point[] {
-        if (this.gameState.selectedCharacter == null) {
-            throw new Error(
-                `No character selected in `
-                + `getAvailableTilesForCharacterMovement`);
-        }
-        const ownFlag = this.gameState.getActiveTeamFlag();
-        const ownFlagCoords =
-            this.gameState.getActiveTeamFlag().tileCoords;
-        const currentCoords =
-            this.gameState.selectedCharacter.tileCoords;
-        const maxMoves =
-            this.gameState.selectedCharacter.settings.maxMovesPerTurn;
-        const isAvailable = (tile: Point): boolean => {
-            if (!this.isTileOccupied(tile)) {
-                if (this.gameState.selectedCharacter!.tileCoords
-                    .equals(this.gameState.getEnemyFlag().tileCoords)) {
-                    return true;
-                }
-                if (ownFlag.isAtStart() && tile.equals(ownFlagCoords)) {
-                    return false;
-                }
-                return true;
-            }
-            return false;
-        };
-        const canGoThrough = (tile: Point): boolean => {
-            // Characters can go through tiles occupied by squad members.
-            // but they can't stop there.
-            return isAvailable(tile)
-                || this.gameState.isSquadMemberAtTile(tile);
-        };
-        const availableTiles = bfs({
-            startTile: currentCoords,
-            maxDepth: maxMoves,
-            isAvailable,
-            canGoThrough,
-        });
-        return availableTiles;
-    }
-
-    private getAvailableTilesForThrowingGrenade(): Point[] {
-        if (this.gameState.selectedCharacter == null) {
-            throw new Error(
-                `No character selected in ` +
-                `getAvailableTilesForThrowingGrenade`);
-        }
-        const ownFlagCoords = this.gameState.getActiveTeamFlag();
-        const currentCoords = this.gameState.selectedCharacter.tileCoords;
-        const maxDist = this.gameState.selectedCharacter.
-            getGrenadeAbility().maxManhattanDistance;
-        const isAvailable = (tile: Point): boolean => {
-            return !this.gameState.tileHasObstacle(tile)
-                && !tile.equals(currentCoords)
-                && !this.gameState.isSquadMemberAtTile(tile);
-        };
-        const canGoThrough = (tile: Point): boolean => {
-            // Grenades can go over any tile.
-            return Grid.inbounds(tile);
-        };
-        const availableTiles = bfs({
-            startTile: currentCoords,
-            maxDepth: maxDist,
-            isAvailable,
-            canGoThrough,
-        });
-        return availableTiles;
-    }
-
-    private setSelectedCharacter(index: number): void {
-        const character = this.gameState.getActiveSquad()
-            .find((character) => character.index === index)!;
-        if (character.isTurnOver()) {
-            this.hud.setText(
-                `Unit ${index + 1}'s turn is over.`,
-                TextType.TOAST, Duration.SHORT);
-            return;
-        }
-        this.gameState.selectedCharacter = character;
-        this.setSelectedCharacterState(
-            SelectedCharacterState.AWAITING);
-    }
-
-    private setSelectedCharacterState(state: SelectedCharacterState) {
-        if (this.gameState.selectedCharacter == null) {
-            throw new Error(
-                `There needs to be a selected character ` +
-                `before calling setSelectedCharacterState`);
-        }
-        this.gameState.selectedCharacterState = state;
-
-        switch (state) {
-            case SelectedCharacterState.AWAITING:
-                this.gameState.selectableTiles = [];
-                this.gameState.selectedCharacter.cancelAiming();
-                break;
-            case SelectedCharacterState.MOVING:
-                this.gameState.selectableTiles =
-                    this.getAvailableTilesForCharacterMovement();
-                break;
-            case SelectedCharacterState.AIMING:
-                this.gameState.selectedCharacter.startAiming();
-                break;
-            case SelectedCharacterState.THROWING_GRENADE:
-                this.gameState.selectableTiles =
-                    this.getAvailableTilesForThrowingGrenade();
-                break;
-            default:
-                throw new Error(`Unknown selected character state`);
-        }
-
-        if (this.isAiTurn()) {
-            this.inputManager.initDefaultControls();
-        } else {
-            this.inputManager.initForSelectedCharacterState();
-        }
-    }
-
-    /** 
-     * Whether a tile contains an obstacle or character. 
-     * Tiles with flags are NOT considered occupied. 
-     */
-    private isTileOccupied(tileCoords: Point): boolean {
-        const potentialObstacle = this.gameState.obstacles.find(
-            (obstacle: Obstacle) => {
-                return obstacle.tileCoords.equals(tileCoords);
-            });
-        const potentialCharacter =
-            this.gameState.getAliveCharacters()
-                .find((character) => {
-                    return character.isAlive()
-                        && character.tileCoords.equals(tileCoords);
-                });
-        const potentialSpawner = this.gameState.spawners
-            .find((spawner) => spawner.tileCoords.equals(tileCoords));
-        return potentialObstacle != null
-            || potentialCharacter != null
-            || potentialSpawner != null;
-    }
-
     private resetGame = (): void => {
         this.destroy();
-        this.gameState = new GameState(this.gameSettings);
-        this.loadLevel();
+        this.rulesEngine = new RulesEngine({
+            settings: this.gameSettings,
+            level: this.level,
+        });
+        this.gameState = this.rulesEngine.gameState;
         this.isGameOver = false;
         this.isPaused = false;
-        this.onAnimationDone = null;
+        this.gameTimeMs = 0;
+        this.recordedActions = [];
         this.winningTeamIndex = -1;
-        this.gameState.gamePhase = GamePhase.CHARACTER_PLACEMENT;
-        this.selectedCharacterSettings = CHARACTER_CLASSES[0];
-        this.gameState.characters = [];
+        this.pendingEvents = [];
+        this.characterToDisplayedHealth = new Map();
+        this.projectileToImpacts = new Map();
         this.projectiles = [];
         this.particleSystems = [];
+        this.particleRandom =
+            new Random(this.gameSettings.seed, 'particles');
         this.ais = [];
+        this.teamIndexToLastKnownPositions = new Map();
+        this.teamIndexToIsHuman = [];
         this.teamIndexToIsAi = [];
-        const matchType = this.gameSettings.matchType;
         for (let i = 0; i < this.gameSettings.numTeams; i++) {
-            let isAi = i !== 0;
-            if (matchType === MatchType.AI_VS_AI) {
-                isAi = true;
-            } else if (matchType === MatchType.PLAYER_VS_PLAYER_LOCAL) {
-                isAi = false;
+            const controller = getTeamController(this.gameSettings, i);
+            this.teamIndexToIsHuman.push(
+                controller.type === ControllerType.HUMAN);
+            if (controller.type === ControllerType.HUMAN) {
+                this.teamIndexToLastKnownPositions
+                    .set(i, new LastKnownPositions());
             }
-            this.teamIndexToIsAi.push(isAi);
-            if (isAi) {
+            let isAi = false;
+            if (controller.type === ControllerType.AI && !this.isSpectator) {
+                isAi = true;
                 this.ais.push(new Ai({
                     teamIndex: i,
-                    difficulty: this.gameState.settings.aiDifficulty,
+                    difficulty: controller.aiDifficulty,
+                    seed: this.gameSettings.seed,
                 }));
             }
+            this.teamIndexToIsAi.push(isAi);
         }
         this.hud = new Hud(this.context);
         this.inputManager = new InputManager(this.context, {
             isPaused: () => this.isPaused,
             getGameState: () => this.getGameState(),
+            getCamera: () => this.camera,
             onAction: (action: Action) => { this.onAction(action); },
-            onRestart: () => { this.resetGame(); },
+            onRestart: () => {
+                if (this.online != null) {
+                    this.hud.setText(
+                        `Online matches can't be restarted`,
+                        TextType.TOAST,
+                        Duration.SHORT);
+                    return;
+                }
+                this.resetGame();
+            },
             onQuit: () => {
+                if (this.online != null) {
+                    this.online.connection.close();
+                }
+                this.trySavingMatch();
                 this.onExitGameCallback(this.winningTeamIndex);
             },
             onTogglePause: () => { this.togglePause(); },
@@ -1053,43 +995,87 @@ export class GameManager implements GameModeManager {
                 this.hud.setText(text, TextType.TOAST, Duration.SHORT);
             },
         });
+        if (this.savedMatch != null) {
+            this.recordedActions = [...this.savedMatch.replay.actions];
+            this.gameTimeMs = this.savedMatch.gameTimeMs;
+            this.pendingEvents.push(
+                ...this.rulesEngine.resume(this.savedMatch.state));
+            for (const [teamIndex, randomState]
+                of this.savedMatch.state.aiRandomStates || []) {
+                const ai = this.ais.find((ai) => ai.teamIndex === teamIndex);
+                if (ai != null) {
+                    ai.setRandomState(randomState);
+                }
+            }
+            const teamIndexToLastKnownPositions =
+                new Map(this.getTeamLastKnownPositions());
+            for (const [teamIndex, ghosts]
+                of this.savedMatch.state.teamGhosts || []) {
+                const lastKnownPositions =
+                    teamIndexToLastKnownPositions.get(teamIndex);
+                if (lastKnownPositions != null) {
+                    lastKnownPositions.restore(
+                        deserializeGhosts(ghosts, this.gameState));
+                }
+            }
+            this.savedMatch = undefined;
+            clearSavedMatch();
+        } else {
+            this.pendingEvents.push(...this.rulesEngine.start());
+        }
+        this.hud.setObjectiveStatus(
+            this.gameState.objective.getStatus(this.gameState));
+        this.displayedObstacles = [...this.gameState.obstacles];
+        this.obstacleToDisplayedHealth = new Map();
+        for (const obstacle of this.displayedObstacles) {
+            if (obstacle.health != null) {
+                this.obstacleToDisplayedHealth
+                    .set(obstacle, obstacle.health);
+            }
+        }
+        this.presentPendingEvents();
+    }
 
-        // 0th team goes first...
-        this.gameState.currentTeamIndex = -1;
-        this.nextTurn();
+    /** Of human teams and AIs, which each remember what they saw. */
+    private getTeamLastKnownPositions(): Array<[number, LastKnownPositions]> {
+        return [
+            ...this.teamIndexToLastKnownPositions.entries(),
+            ...this.ais.map((ai): [number, LastKnownPositions] => {
+                return [ai.teamIndex, ai.lastKnownPositions];
+            }),
+        ];
     }
 
-    private loadLevel(): void {
-        const level = LEVELS[this.levelIndex];
-        const blueFlag = new Flag({
-            tileCoords: pointFromSerialized(level.data.blueFlag),
-            teamIndex: 0,
-        });
-        const redFlag = new Flag({
-            tileCoords: pointFromSerialized(level.data.redFlag),
-            teamIndex: 1,
-        });
-        this.gameState.flags = [blueFlag, redFlag];
-        this.gameState.obstacles =
-            level.data.obstacles.map((serializedPt) => {
-                return new Obstacle(
-                    pointFromSerialized(serializedPt));
-            });
-        this.gameState.spawners = [];
-        if (this.gameState.settings.hasSpawners) {
-            const aiDifficultyToSpawnDelays = new Map([
-                [AiDifficulty.WEAK, 8],
-                [AiDifficulty.MEDIUM, 6],
-                [AiDifficulty.STRONG, 5],
-            ]);
-            const params = {
-                tileCoords: pointFromSerialized(level.aiSpawner),
-                teamIndex: 1,
-                turnsBetweenSpawns: aiDifficultyToSpawnDelays
-                    .get(this.gameState.settings.aiDifficulty)!,
-            };
-            this.gameState.spawners.push(new Spawner(params));
+    /** Saves unfinished matches so they can be continued later. */
+    private trySavingMatch(): void {
+        if (this.isSpectator
+            || this.isPlaytest
+            || this.online != null
+            || this.rulesEngine.getIsGameOver()) {
+            return;
         }
+        saveMatch({
+            replay: {
+                level: this.level,
+                settings: this.gameSettings,
+                actions: this.recordedActions,
+            },
+            gameTimeMs: this.gameTimeMs,
+            state: {
+                ...this.rulesEngine.getSerializedState(),
+                aiRandomStates: this.ais.map((ai) => {
+                    return [ai.teamIndex, ai.getRandomState()];
+                }),
+                teamGhosts: this.getTeamLastKnownPositions()
+                    .map(([teamIndex, lastKnownPositions]) => {
+                        return [
+                            teamIndex,
+                            serializeGhosts(lastKnownPositions.getGhosts()),
+                        ];
+                    }),
+            },
+            campaignLevelIndex: this.campaignLevelIndex,
+        });
     }
 
     private togglePause(): void {
@@ -2,7 +2,7 @@ import { Point } from 'src/app/math/point';
 import { Grid } from 'src/app/grid';
 import { THEME } from 'src/app/theme';
 import { LineSegment, Ray } from 'src/app/math/collision_detection';
-import { ShotInfo, ProjectileDetailsType } from 'src/app/shot_info';
+import { ShotInfo, ProjectileDetailsType, getSprayAimAngles } from 'src/app/shot_info';
 import { ActionType } from 'src/app/actions';
 import { CharacterAbility, CharacterSettings, CharacterAbilityState, ThrowGrenadeAbility, ClassType, CharacterAbilityType } from 'src/app/character_settings';
 import { AnimationState } from 'src/app/animation_state';
@@ -13,13 +13,21 @@ const TWO_PI = Math.PI * 2;
 
 const CHARACTER_CIRCLE_RADIUS = Grid.TILE_SIZE / 4;
 
-interface GameDelegate {
+/** Overwatch reacts to enemies this far off either side of the aim. */
+const OVERWATCH_CONE_HALF_ANGLE_RADIANS = Math.PI / 8;
+
+export interface GameDelegate {
     getCurrentAimPath(params: {
         ray: Ray;
         startingTileCoords: Point;
         fromTeamIndex: number;
         numRicochets: number;
     }): Target[];
+    /**
+     * Chance a shot along the aim path hits the character it
+     * stops on, given their cover. 1 if it doesn't stop on one.
+     */
+    getHitChance(aimPath: Target[]): number;
 }
 
 /** Represents one squad member on a team. */
@@ -35,14 +43,22 @@ export class Character {
     isFinishedWithTurn: boolean;
 
     private isAiming: boolean;
+    /** Whether the aim is for an overwatch cone rather than a shot. */
+    private isAimingOverwatch: boolean;
     private aimAngleRadiansClockwise: number;
     private aimPath: Target[];
+    private aimHitChance: number;
 
     // Game-state.
     health: number;
     tileCoords: Point;
     characterAbilityTypeToAbilityState:
         Map<CharacterAbilityType, CharacterAbilityState>;
+    /**
+     * Set while on overwatch, until the character
+     * reacts once or its team's next turn.
+     */
+    overwatchAngleRadiansClockwise?: number;
     animationState: AnimationState;
     gameDelegate: GameDelegate;
 
@@ -82,13 +98,21 @@ export class Character {
                 .set(extraAction.abilityType, actionState);
         }
         this.isAiming = false;
+        this.isAimingOverwatch = false;
         this.aimAngleRadiansClockwise = 0;
         this.calculateTargetPath();
 
         this.resetTurnState();
     }
 
-    render(context: CanvasRenderingContext2D): void {
+    /**
+     * `displayedHealth` lets the game show health as of the last presented
+     * event, which can lag behind the rules while projectiles are in flight.
+     */
+    render(
+        context: CanvasRenderingContext2D,
+        displayedHealth: number = this.health): void {
+
         const tileTopLeftCanvas =
             this.animationState.currentCenterCanvas.subtract(Grid.HALF_TILE);
         const tileCenterCanvas = this.animationState.currentCenterCanvas;
@@ -120,7 +144,7 @@ export class Character {
         // Health bar.
         const healthBarHeight = Grid.TILE_SIZE / 10;
         const healthBarWidth = 2 * CHARACTER_CIRCLE_RADIUS + healthBarHeight;
-        const fractionHealthLeft = this.health / this.settings.maxHealth;
+        const fractionHealthLeft = displayedHealth / this.settings.maxHealth;
         const healthBarTopLeft = tileCenterCanvas
             .add(new Point(
                 -healthBarWidth / 2,
@@ -130,7 +154,7 @@ export class Character {
         context.fillRect(
             healthBarTopLeft.x, healthBarTopLeft.y,
             remainingHealthWidth, healthBarHeight);
-        if (this.health !== this.settings.maxHealth) {
+        if (displayedHealth !== this.settings.maxHealth) {
             context.fillStyle = THEME.lostHealthBarColor;
             context.fillRect(
                 healthBarTopLeft.x + remainingHealthWidth,
@@ -255,6 +279,13 @@ export class Character {
                 break;
         }
 
+        if (this.overwatchAngleRadiansClockwise != null) {
+            this.renderOverwatchCone(
+                context, this.overwatchAngleRadiansClockwise);
+        } else if (this.isAiming && this.isAimingOverwatch) {
+            this.renderOverwatchCone(context, this.aimAngleRadiansClockwise);
+        }
+
         // Aim indicator.
         if (!this.isAiming) {
             return;
@@ -284,6 +315,32 @@ export class Character {
             }
         }
         context.stroke();
+        if (this.aimHitChance < 1) {
+            // Target is in cover.
+            context.fillStyle = THEME.aimIndicatorColor;
+            context.font = `12px fantasy`;
+            context.fillText(
+                `${Math.round(this.aimHitChance * 100)}%`,
+                startPt.x + Grid.TILE_SIZE / 8,
+                startPt.y - Grid.TILE_SIZE / 8);
+        }
+    }
+
+    private renderOverwatchCone(
+        context: CanvasRenderingContext2D, angle: number): void {
+
+        const center = this.animationState.currentCenterCanvas;
+        context.fillStyle = THEME.overwatchConeColor;
+        context.beginPath();
+        context.moveTo(center.x, center.y);
+        context.arc(
+            center.x,
+            center.y,
+            this.getOverwatchRange(),
+            angle - OVERWATCH_CONE_HALF_ANGLE_RADIANS,
+            angle + OVERWATCH_CONE_HALF_ANGLE_RADIANS);
+        context.closePath();
+        context.fill();
     }
 
     getCurrentTile(): Point {
@@ -294,18 +351,25 @@ export class Character {
             this.animationState.currentCenterCanvas);
     }
 
-    moveTo(tileCoords: Point, targetsPath: Target[]): void {
+    moveTo(tileCoords: Point): void {
         if (this.isFinishedWithTurn || this.hasMoved) {
             throw new Error(`Already moved.`);
         }
+        this.tileCoords = tileCoords;
+        this.hasMoved = true;
+        this.checkAndSetTurnOver();
+    }
+
+    /** Animates walking from `fromTile` along `targetsPath`. */
+    animateMovement(fromTile: Point, targetsPath: Target[]): void {
+        if (targetsPath.length === 0) {
+            return;
+        }
         this.animationState.currentCenterCanvas =
-            Grid.getCanvasFromTileCoords(this.tileCoords).add(Grid.HALF_TILE);
+            Grid.getCanvasFromTileCoords(fromTile).add(Grid.HALF_TILE);
         this.animationState.currentTarget = targetsPath.shift()!;
-        this.tileCoords = tileCoords;
         this.animationState.remainingTargets = targetsPath;
         this.animationState.isAnimating = true;
-        this.hasMoved = true;
-        this.checkAndSetTurnOver();
     }
 
     // TODO - look into sharing the animation update logic.
@@ -365,6 +429,60 @@ export class Character {
 
     cancelAiming(): void {
         this.isAiming = false;
+        this.isAimingOverwatch = false;
+    }
+
+    startAimingOverwatch(): void {
+        this.startAiming();
+        this.isAimingOverwatch = true;
+    }
+
+    /** Uses up the character's shot, and with it the rest of its turn. */
+    setOverwatch(): void {
+        if (!this.isAimingOverwatch) {
+            throw new Error(`Not aiming overwatch.`);
+        }
+        this.overwatchAngleRadiansClockwise = this.aimAngleRadiansClockwise;
+        this.hasShot = true;
+        this.setTurnOver();
+    }
+
+    isOnOverwatch(): boolean {
+        return this.overwatchAngleRadiansClockwise != null;
+    }
+
+    /** Whether the center of the tile is inside the overwatch cone. */
+    isInOverwatchCone(tile: Point): boolean {
+        if (this.overwatchAngleRadiansClockwise == null) {
+            return false;
+        }
+        const fromCanvas =
+            Grid.getCanvasFromTileCoords(this.tileCoords).add(Grid.HALF_TILE);
+        const toCanvas =
+            Grid.getCanvasFromTileCoords(tile).add(Grid.HALF_TILE);
+        const distance = fromCanvas.distanceTo(toCanvas);
+        if (distance === 0 || distance > this.getOverwatchRange()) {
+            return false;
+        }
+        const angle =
+            toCanvas.subtract(fromCanvas).normalize().getPointRotationRadians();
+        let angleOffset =
+            Math.abs(angle - this.overwatchAngleRadiansClockwise) % TWO_PI;
+        if (angleOffset > Math.PI) {
+            angleOffset = TWO_PI - angleOffset;
+        }
+        return angleOffset <= OVERWATCH_CONE_HALF_ANGLE_RADIANS;
+    }
+
+    /** Ends overwatch with a shot at the given angle. */
+    takeOverwatchShot(aimAngleRadiansClockwise: number): ShotInfo[] {
+        this.overwatchAngleRadiansClockwise = undefined;
+        this.aimAngleRadiansClockwise = aimAngleRadiansClockwise;
+        return this.getCurrentShotInfo();
+    }
+
+    private getOverwatchRange(): number {
+        return this.settings.maxSight * Grid.TILE_SIZE;
     }
 
     setAim(angle: number): void {
@@ -375,6 +493,11 @@ export class Character {
         return this.aimAngleRadiansClockwise;
     }
 
+    /** Where the aim preview goes, as far as the aiming team can tell. */
+    getAimPath(): Target[] {
+        return this.aimPath;
+    }
+
     private calculateTargetPath(): void {
         this.aimPath = this.gameDelegate.getCurrentAimPath({
             ray: getRayForShot(this.getCurrentShotInfo()[0]),
@@ -382,6 +505,7 @@ export class Character {
             fromTeamIndex: this.teamIndex,
             numRicochets: this.settings.gun.projectileDetails.numRicochets,
         });
+        this.aimHitChance = this.gameDelegate.getHitChance(this.aimPath);
     }
 
     shoot(): ShotInfo[] {
@@ -404,31 +528,17 @@ export class Character {
         // Shoot from center of tile.
         const tileCenter =
             Grid.getCanvasFromTileCoords(this.tileCoords).add(Grid.HALF_TILE);
-        const straightShotInfo: ShotInfo = {
-            fromTeamIndex: this.teamIndex,
-            fromTileCoords: this.tileCoords,
-            fromCanvasCoords: tileCenter,
-            aimAngleRadiansClockwise: this.aimAngleRadiansClockwise,
-            projectileDetails: this.settings.gun.projectileDetails,
-        };
-        const shotInfos: ShotInfo[] = [straightShotInfo];
-        if (this.settings.gun.spray) {
-            const spray = this.settings.gun.spray;
-            while (shotInfos.length < spray.projectiles) {
-                const offsetDirection = shotInfos.length % 2 === 0 ? 1 : -1;
-                const aimAngle =
-                    this.aimAngleRadiansClockwise
-                    + spray.offsetAngleRadians * offsetDirection;
-                shotInfos.push({
-                    fromTeamIndex: this.teamIndex,
-                    fromTileCoords: this.tileCoords,
-                    fromCanvasCoords: tileCenter,
-                    aimAngleRadiansClockwise: aimAngle,
-                    projectileDetails: this.settings.gun.projectileDetails,
-                });
-            }
-        }
-        return shotInfos;
+        const aimAngles = getSprayAimAngles(
+            this.settings.gun, this.aimAngleRadiansClockwise);
+        return aimAngles.map((aimAngle): ShotInfo => {
+            return {
+                fromTeamIndex: this.teamIndex,
+                fromTileCoords: this.tileCoords,
+                fromCanvasCoords: tileCenter,
+                aimAngleRadiansClockwise: aimAngle,
+                projectileDetails: this.settings.gun.projectileDetails,
+            };
+        });
     }
 
     getGrenadeAbility(): ThrowGrenadeAbility {
@@ -520,10 +630,11 @@ export class Character {
 
     setTurnOver(): void {
         this.isFinishedWithTurn = true;
-        this.isAiming = false;
+        this.cancelAiming();
     }
 
     resetTurnState(): void {
+        this.overwatchAngleRadiansClockwise = undefined;
         this.hasMoved = false;
         this.hasShot = false;
         this.extraAbilities = [];
@@ -565,11 +676,9 @@ export class Character {
 
     private getCharacterColor(): string {
         if (this.isFinishedWithTurn) {
-            return this.teamIndex === 0 ?
-                THEME.blueCharacterDoneColor : THEME.redCharacterDoneColor;
+            return THEME.teamColors[this.teamIndex].characterDoneColor;
         }
-        return this.teamIndex === 0 ?
-            THEME.blueCharacterReadyColor : THEME.redCharacterReadyColor;
+        return THEME.teamColors[this.teamIndex].characterReadyColor;
     }
 
     canShoot(): boolean {
@@ -69,9 +69,7 @@ export class Flag {
         // Flag.
         const rightMargin = leftMargin;
         const height = Grid.TILE_SIZE * .36;
-        context.fillStyle = this.teamIndex === 0
-            ? THEME.blueFlagColor
-            : THEME.redFlagColor;
+        context.fillStyle = THEME.teamColors[this.teamIndex].flagColor;
         context.fillRect(
             tileCanvasTopLeft.x + leftMargin + flagPoleWidth,
             tileCanvasTopLeft.y + topMargin,
@@ -6,25 +6,87 @@ import { LineSegment } from 'src/app/math/collision_detection';
 import WhiteDrywallTexture from 'src/assets/img/white_drywall_texture.jpg';
 import { Texture } from '../texture';
 
+export enum ObstacleType {
+    /** Blocks movement and projectiles. */
+    WALL = 'WALL',
+    /** Blocks movement, projectiles pass over it. */
+    HALF_COVER = 'HALF_COVER',
+}
+
+/** Health of destructible obstacles of each type. */
+const OBSTACLE_TYPE_TO_MAX_HEALTH = new Map<ObstacleType, number>([
+    [ObstacleType.WALL, 20],
+    [ObstacleType.HALF_COVER, 10],
+]);
+
 export class Obstacle {
     tileCoords: Point;
-    texture: Texture = new Texture(WhiteDrywallTexture);
+    readonly type: ObstacleType;
+    /** Unset for obstacles that can't be destroyed. */
+    health?: number;
+    /** Loaded on first render so obstacles can exist without a DOM. */
+    private texture?: Texture;
+
+    constructor(
+        tileCoords: Point,
+        type = ObstacleType.WALL,
+        isDestructible = false) {
 
-    constructor(tileCoords: Point) {
         this.tileCoords = tileCoords;
+        this.type = type;
+        if (isDestructible) {
+            this.health = this.getMaxHealth();
+        }
+    }
+
+    blocksProjectiles(): boolean {
+        return this.type === ObstacleType.WALL;
+    }
+
+    /** Half cover is low enough to see over. */
+    blocksSight(): boolean {
+        return this.type === ObstacleType.WALL;
+    }
+
+    isDestructible(): boolean {
+        return this.health != null;
+    }
+
+    isDestroyed(): boolean {
+        return this.health != null && this.health <= 0;
+    }
+
+    getMaxHealth(): number {
+        return OBSTACLE_TYPE_TO_MAX_HEALTH.get(this.type)!;
     }
 
     update(elapsedMs: number) {
 
     }
 
-    render(context: CanvasRenderingContext2D): void {
+    /**
+     * `displayedHealth` lets the game show damage as of the last presented
+     * event, which can lag behind the rules while projectiles are in flight.
+     */
+    render(
+        context: CanvasRenderingContext2D,
+        displayedHealth: number | undefined = this.health): void {
+
         const tileCanvasTopLeft = Grid.getCanvasFromTileCoords(this.tileCoords);
-        context.fillStyle = THEME.obstacleColor;
-        context.fillRect(
-            tileCanvasTopLeft.x, tileCanvasTopLeft.y,
-            Grid.TILE_SIZE, Grid.TILE_SIZE);
-        if (THEME.isUsingTextures) {
+        // Half cover is inset so it reads as lower than walls.
+        const inset = this.type === ObstacleType.HALF_COVER
+            ? Grid.TILE_SIZE * .15
+            : 0;
+        const topLeft = tileCanvasTopLeft.add(new Point(inset, inset));
+        const size = Grid.TILE_SIZE - 2 * inset;
+        context.fillStyle = this.type === ObstacleType.HALF_COVER
+            ? THEME.halfCoverColor
+            : THEME.obstacleColor;
+        context.fillRect(topLeft.x, topLeft.y, size, size);
+        if (THEME.isUsingTextures && this.type === ObstacleType.WALL) {
+            if (this.texture == null) {
+                this.texture = new Texture(WhiteDrywallTexture);
+            }
             this.texture.tryDrawing({
                 context,
                 sourceX: tileCanvasTopLeft.x, sourceY: tileCanvasTopLeft.y,
@@ -34,6 +96,42 @@ export class Obstacle {
                 canvasHeight: Grid.TILE_SIZE,
             });
         }
+        if (displayedHealth != null) {
+            this.renderDamage(context, topLeft, size, displayedHealth);
+        }
+    }
+
+    /** Outlines destructible obstacles and cracks them as they wear down. */
+    private renderDamage(
+        context: CanvasRenderingContext2D,
+        topLeft: Point,
+        size: number,
+        displayedHealth: number): void {
+
+        context.strokeStyle = THEME.destructibleObstacleColor;
+        context.lineWidth = 2;
+        context.strokeRect(topLeft.x + 1, topLeft.y + 1, size - 2, size - 2);
+        const fractionLost = 1 - displayedHealth / this.getMaxHealth();
+        // A crack from the center to a corner per quarter of health lost.
+        const numCracks = Math.ceil(fractionLost * 4);
+        const center = topLeft.add(new Point(size / 2, size / 2));
+        const corners = [
+            topLeft,
+            topLeft.add(new Point(size, size)),
+            topLeft.add(new Point(size, 0)),
+            topLeft.add(new Point(0, size)),
+        ];
+        context.lineWidth = 1;
+        context.beginPath();
+        for (let i = 0; i < numCracks && i < corners.length; i++) {
+            // Jag halfway so cracks don't look like an X.
+            const halfway = center.add(corners[i]).multiplyScaler(.5)
+                .add(new Point(size / 10, 0));
+            context.moveTo(center.x, center.y);
+            context.lineTo(halfway.x, halfway.y);
+            context.lineTo(corners[i].x, corners[i].y);
+        }
+        context.stroke();
     }
 
     // TODO - cache after first construction.
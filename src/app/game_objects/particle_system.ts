@@ -2,12 +2,14 @@ import { Point } from 'src/app/math/point';
 import { lerp } from 'src/app/math/lerp';
 import { lerpColors, hexStringToColor, colorToString } from 'src/app/color';
 import { Grid } from 'src/app/grid';
+import { Random } from 'src/app/math/random';
 
 export enum ParticleShape {
     CIRCLE = 'Circle',
     ELLIPSE = 'Ellipse',
     LINE = 'Line',
     PLUS = 'Plus',
+    SQUARE = 'Square',
 }
 
 interface Particle {
@@ -67,7 +69,7 @@ export class ParticleSystem {
 
     params: ParticleSystemParams;
 
-    constructor(params: ParticleSystemParams) {
+    constructor(params: ParticleSystemParams, random: Random) {
         this.params = params;
         this.particles = [];
 
@@ -85,17 +87,17 @@ export class ParticleSystem {
             const speed = lerp(
                 params.minParticleSpeed,
                 params.maxParticleSpeed,
-                Math.random());
+                random.next());
             const lifetimeMs = lerp(
                 params.minLifetimeMs,
                 params.maxLifetimeMs,
-                Math.random());
+                random.next());
             const color = lerpColors(
                 hexStringToColor(params.colorA),
                 hexStringToColor(params.colorB),
-                Math.random());
+                random.next());
             const radius =
-                lerp(params.minRadius, params.maxRadius, Math.random());
+                lerp(params.minRadius, params.maxRadius, random.next());
             // Only give ellipses a rotation.
             const rotationRadians = this.params.shape === ParticleShape.ELLIPSE
                 ? direction.getPointRotationRadians()
@@ -192,6 +194,13 @@ export class ParticleSystem {
                         verticalStart.x, verticalStart.y,
                         halfThickness * 2, radius * 2);
                     break;
+                case ParticleShape.SQUARE:
+                    context.fillStyle = particle.color;
+                    context.fillRect(
+                        particleCenter.x - particle.radius,
+                        particleCenter.y - particle.radius,
+                        particle.radius * 2, particle.radius * 2);
+                    break;
             }
 
         });
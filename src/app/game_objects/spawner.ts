@@ -7,7 +7,7 @@ export class Spawner {
     readonly tileCoords: Point;
     readonly teamIndex: number;
     readonly turnsBetweenSpawns: number;
-    private turnsSinceLastSpawn: number;
+    turnsSinceLastSpawn: number;
 
     constructor(params: {
         readonly tileCoords: Point;
@@ -37,9 +37,8 @@ export class Spawner {
     }
 
     render(context: CanvasRenderingContext2D): void {
-        context.strokeStyle = this.teamIndex === 0
-            ? THEME.blueCharacterReadyColor
-            : THEME.redCharacterReadyColor;
+        context.strokeStyle =
+            THEME.teamColors[this.teamIndex].characterReadyColor;
 
         const tileCanvasCenter =
             Grid.getCanvasFromTileCoords(this.tileCoords).add(Grid.HALF_TILE);
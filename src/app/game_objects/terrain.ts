@@ -0,0 +1,90 @@
+import { Point } from 'src/app/math/point';
+import { Grid } from 'src/app/grid';
+import { THEME } from 'src/app/theme';
+
+/** Ground tiles that characters can stand on, unlike obstacles. */
+export enum TerrainType {
+    /** Slows movement. */
+    MUD = 'MUD',
+    /** Slows movement even more. */
+    WATER = 'WATER',
+    /** Hides characters under fog of war unless enemies are next to them. */
+    TALL_GRASS = 'TALL_GRASS',
+    /** Extends the sight of characters on it. */
+    HIGH_GROUND = 'HIGH_GROUND',
+}
+
+/** Moves it takes to walk into a tile of each type. */
+const TERRAIN_TYPE_TO_MOVEMENT_COST = new Map<TerrainType, number>([
+    [TerrainType.MUD, 2],
+    [TerrainType.WATER, 3],
+    [TerrainType.TALL_GRASS, 1],
+    [TerrainType.HIGH_GROUND, 1],
+]);
+
+const HIGH_GROUND_SIGHT_BONUS = 2;
+
+export class Terrain {
+    readonly tileCoords: Point;
+    readonly type: TerrainType;
+
+    constructor(tileCoords: Point, type: TerrainType) {
+        this.tileCoords = tileCoords;
+        this.type = type;
+    }
+
+    getMovementCost(): number {
+        return TERRAIN_TYPE_TO_MOVEMENT_COST.get(this.type)!;
+    }
+
+    getSightBonus(): number {
+        return this.type === TerrainType.HIGH_GROUND
+            ? HIGH_GROUND_SIGHT_BONUS
+            : 0;
+    }
+
+    hidesCharacters(): boolean {
+        return this.type === TerrainType.TALL_GRASS;
+    }
+
+    render(context: CanvasRenderingContext2D): void {
+        const tileCanvasTopLeft = Grid.getCanvasFromTileCoords(this.tileCoords);
+        context.fillStyle = getTerrainColor(this.type);
+        context.fillRect(
+            tileCanvasTopLeft.x, tileCanvasTopLeft.y,
+            Grid.TILE_SIZE, Grid.TILE_SIZE);
+        if (this.type === TerrainType.TALL_GRASS) {
+            // Blades of grass.
+            context.strokeStyle = THEME.terrainDetailColor;
+            context.lineWidth = 1;
+            context.beginPath();
+            for (let i = 1; i < 4; i++) {
+                const x = tileCanvasTopLeft.x + i * Grid.TILE_SIZE / 4;
+                const bottom = tileCanvasTopLeft.y + .8 * Grid.TILE_SIZE;
+                context.moveTo(x, bottom);
+                context.lineTo(
+                    x + Grid.TILE_SIZE / 16, bottom - .3 * Grid.TILE_SIZE);
+            }
+            context.stroke();
+        } else if (this.type === TerrainType.HIGH_GROUND) {
+            // Ridge along the top.
+            context.fillStyle = THEME.terrainDetailColor;
+            context.fillRect(
+                tileCanvasTopLeft.x, tileCanvasTopLeft.y,
+                Grid.TILE_SIZE, Grid.TILE_SIZE / 8);
+        }
+    }
+}
+
+export function getTerrainColor(type: TerrainType): string {
+    switch (type) {
+        case TerrainType.MUD:
+            return THEME.mudColor;
+        case TerrainType.WATER:
+            return THEME.waterColor;
+        case TerrainType.TALL_GRASS:
+            return THEME.tallGrassColor;
+        case TerrainType.HIGH_GROUND:
+            return THEME.highGroundColor;
+    }
+}
@@ -1,7 +1,11 @@
+import { ObjectiveSettings } from 'src/app/objectives';
+
 export enum MatchType {
     PLAYER_VS_PLAYER_LOCAL,
     PLAYER_VS_AI,
     AI_VS_AI,
+    /** Each team plays from its own client, via the relay server. */
+    PLAYER_VS_PLAYER_ONLINE,
 }
 
 export enum AiDifficulty {
@@ -10,6 +14,19 @@ export enum AiDifficulty {
     STRONG = 'Strong',
 }
 
+export enum ControllerType {
+    HUMAN = 'HUMAN',
+    AI = 'AI',
+}
+
+/** Who plays a team. */
+export type TeamController = {
+    readonly type: ControllerType.HUMAN;
+} | {
+    readonly type: ControllerType.AI;
+    readonly aiDifficulty: AiDifficulty;
+};
+
 export interface GameSettings {
     matchType: MatchType;
     teamIndexToSquadSize: Map<number, number>;
@@ -22,10 +39,39 @@ export interface GameSettings {
     numTeams: number;
     hasFogOfWar: boolean;
     hasSpawners: boolean;
+    /** Whether shots and splash damage also hit allies. */
+    friendlyFire: boolean;
+    /** Seeds all randomness in a match so it can be reproduced. */
+    seed: number;
+    /**
+     * Indexed by team. Unset to use the controllers
+     * implied by the match type.
+     */
+    teamControllers?: TeamController[];
+    /**
+     * Alliance of each team, indexed by team. Allies win together,
+     * share vision and can't take each other's flags.
+     * Unset for every team to fight on its own.
+     */
+    teamAlliances?: number[];
+    /** Unset to use the level's, or capture the flag if it has none. */
+    objective?: ObjectiveSettings;
 }
 
+/** Free-for-all matches go up to this many teams. */
+export const MAX_NUM_TEAMS = 4;
+
 const EQUAL_DEFAULT_SQUAD_SIZE = 4;
 
+/** Squad sizes players pick from, of the first team and then the others. */
+export const SQUAD_SIZE_OPTIONS: Array<[number, number]> = [
+    [2, 2],
+    [EQUAL_DEFAULT_SQUAD_SIZE, EQUAL_DEFAULT_SQUAD_SIZE],
+    [8, 8],
+    [12, 12],
+    [8, 24],
+];
+
 export const DEFAULT_GAME_SETTINGS: GameSettings = {
     matchType: MatchType.PLAYER_VS_PLAYER_LOCAL,
     teamIndexToSquadSize: new Map([
@@ -37,4 +83,46 @@ export const DEFAULT_GAME_SETTINGS: GameSettings = {
     numTeams: 2,
     hasFogOfWar: false,
     hasSpawners: false,
-}
\ No newline at end of file
+    friendlyFire: false,
+    seed: 0,
+}
+
+/** Squads bigger than this get more room to be placed in. */
+const LARGE_SQUAD_SIZE = 16;
+
+export function getMaxSpawnDistanceFromFlag(squadSize: number): number {
+    return squadSize > LARGE_SQUAD_SIZE
+        ? LARGE_SQUAD_SIZE
+        : DEFAULT_GAME_SETTINGS.maxSpawnDistanceFromFlag;
+}
+
+export function getTeamController(
+    settings: GameSettings, teamIndex: number): TeamController {
+
+    if (settings.teamControllers != null) {
+        return settings.teamControllers[teamIndex];
+    }
+    const ai: TeamController = {
+        type: ControllerType.AI,
+        aiDifficulty: settings.aiDifficulty,
+    };
+    switch (settings.matchType) {
+        case MatchType.PLAYER_VS_PLAYER_LOCAL:
+        case MatchType.PLAYER_VS_PLAYER_ONLINE:
+            return { type: ControllerType.HUMAN };
+        case MatchType.PLAYER_VS_AI:
+            return teamIndex === 0 ? { type: ControllerType.HUMAN } : ai;
+        case MatchType.AI_VS_AI:
+            return ai;
+        default:
+            throw new Error(`Unknown match type: ${settings.matchType}`);
+    }
+}
+
+export function getTeamAlliance(
+    settings: GameSettings, teamIndex: number): number {
+
+    return settings.teamAlliances != null
+        ? settings.teamAlliances[teamIndex]
+        : teamIndex;
+}
@@ -1,10 +1,14 @@
 import { Point } from 'src/app/math/point';
 import { Flag } from 'src/app/game_objects/flag';
 import { Obstacle } from 'src/app/game_objects/obstacle';
+import { Terrain } from 'src/app/game_objects/terrain';
 import { Character } from 'src/app/game_objects/character';
 import { pathTo, Grid } from 'src/app/grid';
-import { GameSettings } from './game_settings';
+import { GameSettings, getTeamAlliance } from './game_settings';
 import { Spawner } from './game_objects/spawner';
+import { getProjectileTarget, getRayForShot2 } from 'src/app/target_finder';
+import { getFieldOfView } from 'src/app/field_of_view';
+import { Objective, createObjective } from 'src/app/objectives';
 
 export enum GamePhase {
     // Setup.
@@ -18,15 +22,30 @@ export enum SelectedCharacterState {
     MOVING = 'MOVING',
     AIMING = 'AIMING',
     THROWING_GRENADE = 'THROWING_GRENADE',
+    /** Aiming the cone to react to enemy movement in. */
+    OVERWATCH = 'OVERWATCH',
 }
 
 
 const DEFAULT_FLAG_VISIBILITY = 2;
 
+/** What a team sees from, changes invalidate its cached visibility. */
+interface TeamVisibility {
+    readonly viewersKey: string;
+    readonly obstacles: Obstacle[];
+    readonly visibleTiles: Set<string>;
+}
+
+/** Indexed by team index. */
+const TEAM_NAMES = ['Blue', 'Red', 'Yellow', 'Purple'];
+
 export class GameState {
     readonly settings: GameSettings;
     gamePhase: GamePhase;
+    /** Sized by the level. */
+    grid: Grid;
     obstacles: Obstacle[];
+    terrain: Terrain[];
     characters: Character[];
     spawners: Spawner[];
     flags: Flag[];
@@ -34,15 +53,26 @@ export class GameState {
     selectableTiles: Point[];
     selectedCharacter?: Character;
     selectedCharacterState?: SelectedCharacterState;
+    /** Teams knocked out of the match, in the order they were. */
+    eliminatedTeamIndices: number[];
+    /** What wins the match, set from the settings or the level. */
+    objective: Objective;
+    private readonly teamIndexToVisibility: Map<number, TeamVisibility>;
 
     constructor(settings: GameSettings) {
         this.gamePhase = GamePhase.CHARACTER_PLACEMENT;
         this.settings = settings;
+        this.grid = new Grid();
         this.obstacles = [];
+        this.terrain = [];
         this.characters = [];
         this.flags = [];
+        this.spawners = [];
         this.currentTeamIndex = 0;
         this.selectableTiles = [];
+        this.eliminatedTeamIndices = [];
+        this.objective = createObjective(settings.objective, settings.numTeams);
+        this.teamIndexToVisibility = new Map();
     }
 
     isFogOfWarOn(): boolean {
@@ -50,35 +80,117 @@ export class GameState {
             && this.settings.hasFogOfWar === true;
     }
 
+    isFriendlyFireOn(): boolean {
+        return this.settings.friendlyFire != null
+            && this.settings.friendlyFire === true;
+    }
+
+    /** Allies share vision, which walls block. */
     isTileVisibleByTeamIndex(tile: Point, teamIndex: number): boolean {
-        for (const character of this.getCharactersForTeamIndex(teamIndex)) {
-            if (character.getCurrentTile().manhattanDistanceTo(tile)
-                <= character.settings.maxSight) {
-                return true;
+        return this.getVisibleTileStrings(teamIndex).has(tile.toString());
+    }
+
+    /**
+     * Tiles seen by the team's characters and flags and their allies'.
+     * Cached until any of them move or the obstacles change, so it's
+     * usually only recomputed a few times a turn.
+     */
+    private getVisibleTileStrings(teamIndex: number): Set<string> {
+        const viewers: Array<{ tile: Point; sight: number }> = [];
+        for (const character of this.getAliveCharacters()) {
+            if (this.areAllies(character.teamIndex, teamIndex)) {
+                viewers.push({
+                    tile: character.getCurrentTile(),
+                    sight: this.getSight(character),
+                });
             }
         }
-        const distToTeamFlag =
-            this.getFlagForTeamIndex(teamIndex).getCurrentTile()
-                .manhattanDistanceTo(tile);
-        if (distToTeamFlag <= DEFAULT_FLAG_VISIBILITY) {
-            return true;
+        for (const flag of this.flags) {
+            if (this.areAllies(flag.teamIndex, teamIndex)) {
+                viewers.push({
+                    tile: flag.getCurrentTile(),
+                    sight: DEFAULT_FLAG_VISIBILITY,
+                });
+            }
         }
-        return false;
-    }
-
-    getTilesVisibleByTeamIndex(teamIndex: number): Point[] {
-        const visibleTiles: Point[] = [];
-        for (let x = 0; x < Grid.TILES_WIDE; x++) {
-            for (let y = 0; y < Grid.TILES_TALL; y++) {
-                const tile = new Point(x, y);
-                if (this.isTileVisibleByTeamIndex(tile, teamIndex)) {
-                    visibleTiles.push(tile);
-                }
+        const viewersKey = viewers
+            .map((viewer) => `${viewer.tile.toString()}:${viewer.sight}`)
+            .join();
+        const cached = this.teamIndexToVisibility.get(teamIndex);
+        // Destroying an obstacle replaces the list.
+        if (cached != null
+            && cached.viewersKey === viewersKey
+            && cached.obstacles === this.obstacles) {
+            return cached.visibleTiles;
+        }
+        const sightBlockingTiles = new Set(this.obstacles
+            .filter((obstacle) => obstacle.blocksSight())
+            .map((obstacle) => obstacle.tileCoords.toString()));
+        const visibleTiles: Set<string> = new Set();
+        for (const viewer of viewers) {
+            const fieldOfView = getFieldOfView({
+                grid: this.grid,
+                origin: viewer.tile,
+                maxDistance: viewer.sight,
+                blocksSight: (tile: Point) => {
+                    return sightBlockingTiles.has(tile.toString());
+                },
+            });
+            for (const tile of fieldOfView) {
+                visibleTiles.add(tile.toString());
             }
         }
+        this.teamIndexToVisibility.set(teamIndex, {
+            viewersKey,
+            obstacles: this.obstacles,
+            visibleTiles,
+        });
         return visibleTiles;
     }
 
+    /**
+     * Characters are seen in visible tiles, except in tall grass where
+     * the team or an ally has to be next to them. Allies are always seen.
+     * @param tile defaults to the character's tile, set while animating.
+     */
+    isCharacterVisibleByTeamIndex(
+        character: Character,
+        teamIndex: number,
+        tile: Point = character.tileCoords): boolean {
+
+        if (this.areAllies(character.teamIndex, teamIndex)) {
+            return true;
+        }
+        if (!this.isTileVisibleByTeamIndex(tile, teamIndex)) {
+            return false;
+        }
+        const terrain = this.getTerrainAtTile(tile);
+        if (terrain == null || !terrain.hidesCharacters()) {
+            return true;
+        }
+        return this.getAliveCharacters().some((other) => {
+            return this.areAllies(other.teamIndex, teamIndex)
+                && other.getCurrentTile().manhattanDistanceTo(tile) <= 1;
+        });
+    }
+
+    /** Max manhattan distance the character sees, from where it stands. */
+    getSight(character: Character): number {
+        const terrain = this.getTerrainAtTile(character.getCurrentTile());
+        return character.settings.maxSight
+            + (terrain != null ? terrain.getSightBonus() : 0);
+    }
+
+    getTerrainAtTile(tile: Point): Terrain | undefined {
+        return this.terrain.find((terrain) => terrain.tileCoords.equals(tile));
+    }
+
+    /** Moves it takes to walk into the tile. */
+    getMovementCost(tile: Point): number {
+        const terrain = this.getTerrainAtTile(tile);
+        return terrain != null ? terrain.getMovementCost() : 1;
+    }
+
     getFirstCharacterIndex(): number {
         const squad = this.getActiveSquad()
             .filter((character) => !character.isTurnOver());
@@ -100,27 +212,46 @@ export class GameState {
     }
 
     getActiveTeamName(): string {
-        switch (this.currentTeamIndex) {
-            case 0:
-                return 'Blue';
-            case 1:
-                return 'Red';
-            default:
-                throw new Error(
-                    `Unsupported number of teams: ${this.currentTeamIndex}`);
+        return this.getTeamName(this.currentTeamIndex);
+    }
+
+    getTeamName(teamIndex: number): string {
+        if (teamIndex < 0 || teamIndex >= TEAM_NAMES.length) {
+            throw new Error(`Unsupported team index: ${teamIndex}`);
         }
+        return TEAM_NAMES[teamIndex];
+    }
+
+    isTeamEliminated(teamIndex: number): boolean {
+        return this.eliminatedTeamIndices.indexOf(teamIndex) !== -1;
     }
 
-    getEnemyTeamName(): string {
-        switch (this.currentTeamIndex) {
-            case 1:
-                return 'Blue';
-            case 0:
-                return 'Red';
-            default:
-                throw new Error(
-                    `Unsupported number of teams: ${this.currentTeamIndex}`);
+    /** Teams still in the match, in turn order. */
+    getRemainingTeamIndices(): number[] {
+        const teamIndices: number[] = [];
+        for (let i = 0; i < this.settings.numTeams; i++) {
+            if (!this.isTeamEliminated(i)) {
+                teamIndices.push(i);
+            }
         }
+        return teamIndices;
+    }
+
+    /** Teams are their own allies. */
+    areAllies(teamIndex: number, otherTeamIndex: number): boolean {
+        return getTeamAlliance(this.settings, teamIndex)
+            === getTeamAlliance(this.settings, otherTeamIndex);
+    }
+
+    /**
+     * Alive characters that shots from the team can hit,
+     * which includes allies when friendly fire is on.
+     */
+    getTargetableCharacters(teamIndex: number): Character[] {
+        return this.getAliveCharacters().filter((character) => {
+            return this.isFriendlyFireOn()
+                || !this.areAllies(character.teamIndex, teamIndex);
+        });
     }
 
     getActiveSquad(): Character[] {
@@ -129,8 +260,9 @@ export class GameState {
     }
 
     getEnemyCharacters(): Character[] {
-        return this.getAliveCharacters()
-            .filter((character) => character.teamIndex !== this.currentTeamIndex);
+        return this.getAliveCharacters().filter((character) => {
+            return !this.areAllies(character.teamIndex, this.currentTeamIndex);
+        });
     }
 
     getActiveTeamFlag(): Flag {
@@ -138,9 +270,40 @@ export class GameState {
             .find((flag) => flag.teamIndex === this.currentTeamIndex)!;
     }
 
-    getEnemyFlag(): Flag {
-        return this.flags
-            .find((flag) => flag.teamIndex !== this.currentTeamIndex)!;
+    /**
+     * Flags the active team can capture, ie of teams still in
+     * the match that aren't allies, if the objective allows it.
+     */
+    getEnemyFlags(): Flag[] {
+        return this.flags.filter((flag) => {
+            return !this.areAllies(flag.teamIndex, this.currentTeamIndex)
+                && !this.isTeamEliminated(flag.teamIndex)
+                && this.objective.canTakeFlag(flag);
+        });
+    }
+
+    getClosestEnemyFlag(tile: Point): Flag {
+        const enemyFlags = this.getEnemyFlags();
+        let closestFlag = enemyFlags[0];
+        for (const flag of enemyFlags) {
+            if (flag.tileCoords.manhattanDistanceTo(tile)
+                < closestFlag.tileCoords.manhattanDistanceTo(tile)) {
+                closestFlag = flag;
+            }
+        }
+        return closestFlag;
+    }
+
+    /**
+     * Where the active team should head from the tile, for
+     * its objective or else the closest enemy flag.
+     */
+    getObjectiveTile(tile: Point): Point {
+        const targetTile = this.objective
+            .getTargetTile(this, this.currentTeamIndex, tile);
+        return targetTile != null
+            ? targetTile
+            : this.getClosestEnemyFlag(tile).tileCoords;
     }
 
     tileHasObstacle(tile: Point): boolean {
@@ -149,16 +312,21 @@ export class GameState {
     }
 
     enemyHasFlag(): boolean {
-        const teamFlagCoords = this.getActiveTeamFlag().tileCoords;
+        const teamFlag = this.getActiveTeamFlag();
+        if (!this.objective.canTakeFlag(teamFlag)) {
+            return false;
+        }
+        const teamFlagCoords = teamFlag.tileCoords;
         return this.getEnemyCharacters()
             .find((character) => character.tileCoords.equals(teamFlagCoords)) != null;
     }
 
 
     teamHasFlag(): boolean {
-        const enemyFlagCoords = this.getEnemyFlag().tileCoords;
-        return this.getActiveSquad()
-            .find((character) => character.tileCoords.equals(enemyFlagCoords)) != null;
+        return this.getEnemyFlags().some((flag) => {
+            return this.getActiveSquad()
+                .find((character) => character.tileCoords.equals(flag.tileCoords)) != null;
+        });
     }
 
     getPath({ from, to }: { from: Point; to: Point }): Point[] {
@@ -166,13 +334,36 @@ export class GameState {
             return !this.tileHasObstacle(tile);
         };
         return pathTo({
+            grid: this.grid,
             startTile: from,
             endTile: to,
             isAvailable: isObstacleFree,
             canGoThrough: isObstacleFree,
+            getCost: (tile: Point) => this.getMovementCost(tile),
         });
     }
 
+    /**
+     * Whether a tile contains an obstacle, character or spawner.
+     * Tiles with flags are NOT considered occupied.
+     */
+    isTileOccupied(tileCoords: Point): boolean {
+        const potentialObstacle = this.obstacles.find(
+            (obstacle: Obstacle) => {
+                return obstacle.tileCoords.equals(tileCoords);
+            });
+        const potentialCharacter =
+            this.getAliveCharacters()
+                .find((character) => {
+                    return character.tileCoords.equals(tileCoords);
+                });
+        const potentialSpawner = this.spawners
+            .find((spawner) => spawner.tileCoords.equals(tileCoords));
+        return potentialObstacle != null
+            || potentialCharacter != null
+            || potentialSpawner != null;
+    }
+
     isSquadMemberAtTile(tile: Point): boolean {
         const squad = this.getActiveSquad();
         return squad.find((squadMember: Character) => {
@@ -182,6 +373,37 @@ export class GameState {
         }) != null;
     }
 
+    /**
+     * Enemies on overwatch that would fire at the character if it
+     * walked into the tile, ie it's in their cone with a clear shot.
+     */
+    getOverwatchersReactingTo(mover: Character, tile: Point): Character[] {
+        const moverCenter =
+            Grid.getCanvasFromTileCoords(tile).add(Grid.HALF_TILE);
+        return this.getAliveCharacters().filter((character) => {
+            if (!character.isOnOverwatch()
+                || this.areAllies(character.teamIndex, mover.teamIndex)
+                || !character.isInOverwatchCone(tile)) {
+                return false;
+            }
+            const fromCanvas = Grid.getCanvasFromTileCoords(
+                character.tileCoords).add(Grid.HALF_TILE);
+            const aimAngle = moverCenter.subtract(fromCanvas)
+                .normalize().getPointRotationRadians();
+            const target = getProjectileTarget({
+                grid: this.grid,
+                ray: getRayForShot2(fromCanvas, aimAngle),
+                startTile: character.tileCoords,
+                obstacles: this.obstacles,
+                characters: this.getTargetableCharacters(character.teamIndex)
+                    .filter((other) => other !== character && other !== mover),
+            });
+            // Nothing else is hit before reaching the mover's tile.
+            return target.maxDistance
+                >= fromCanvas.distanceTo(moverCenter) - Grid.HALF_TILE.x;
+        });
+    }
+
     getCharactersForTeamIndex(teamIndex: number): Character[] {
         return this.getAliveCharacters().filter((character) => {
             return character.teamIndex === teamIndex;
@@ -3,22 +3,45 @@ import { UP, DOWN, LEFT, RIGHT } from 'src/app/math/direction';
 import { RENDER_SETTINGS } from 'src/app/render_settings';
 
 /** 
- * Constants and utilities for a grid of tiles. 
+ * Constants and utilities for a grid of tiles, sized per level.
  * Does not/should not store 'map' data (state).
  */
 export class Grid {
 
     static readonly BUTTON_PANE_WIDTH = 240;
     static readonly BUTTON_PANE_HEIGHT = RENDER_SETTINGS.canvasHeight;
+    /** Canvas area the board is drawn in, scaled to fit. */
     static readonly GAME_WIDTH =
         RENDER_SETTINGS.canvasWidth - Grid.BUTTON_PANE_WIDTH;
     static readonly GAME_HEIGHT = RENDER_SETTINGS.canvasHeight;
     static readonly TILE_SIZE = 40;
-    static readonly TILES_WIDE = Grid.GAME_WIDTH / Grid.TILE_SIZE;
-    static readonly TILES_TALL = Grid.GAME_HEIGHT / Grid.TILE_SIZE;
+    /** Size of levels that don't set their own, which fits unscaled. */
+    static readonly DEFAULT_TILES_WIDE = Grid.GAME_WIDTH / Grid.TILE_SIZE;
+    static readonly DEFAULT_TILES_TALL = Grid.GAME_HEIGHT / Grid.TILE_SIZE;
     static readonly HALF_TILE =
         new Point(Grid.TILE_SIZE / 2, Grid.TILE_SIZE / 2);
 
+    readonly tilesWide: number;
+    readonly tilesTall: number;
+    /**
+     * Size of the board in the canvas coords game objects use,
+     * before it's scaled to fit the game area.
+     */
+    readonly width: number;
+    readonly height: number;
+    /** One point per tile, by tile index, for searches. */
+    private tiles: Point[] | null = null;
+
+    constructor(
+        tilesWide = Grid.DEFAULT_TILES_WIDE,
+        tilesTall = Grid.DEFAULT_TILES_TALL) {
+
+        this.tilesWide = tilesWide;
+        this.tilesTall = tilesTall;
+        this.width = tilesWide * Grid.TILE_SIZE;
+        this.height = tilesTall * Grid.TILE_SIZE;
+    }
+
     static getCanvasFromTileCoords(tileCoords: Point): Point {
         return new Point(
             tileCoords.x * Grid.TILE_SIZE,
@@ -31,12 +54,12 @@ export class Grid {
             Math.floor(canvasCoords.y / Grid.TILE_SIZE));
     }
 
-    static inbounds(tileCoords: Point): boolean {
-        return tileCoords.x >= 0 && tileCoords.x < Grid.TILES_WIDE &&
-            tileCoords.y >= 0 && tileCoords.y < Grid.TILES_TALL;
+    inbounds(tileCoords: Point): boolean {
+        return tileCoords.x >= 0 && tileCoords.x < this.tilesWide &&
+            tileCoords.y >= 0 && tileCoords.y < this.tilesTall;
     }
 
-    static getAdjacentTiles(tileCoords: Point): Point[] {
+    getAdjacentTiles(tileCoords: Point): Point[] {
         const result: Point[] = [];
 
         const upAdjacent = tileCoords.add(UP);
@@ -44,121 +67,261 @@ export class Grid {
         const leftAdjacent = tileCoords.add(LEFT);
         const rightAdjacent = tileCoords.add(RIGHT);
 
-        if (Grid.inbounds(upAdjacent)) result.push(upAdjacent);
-        if (Grid.inbounds(downAdjacent)) result.push(downAdjacent);
-        if (Grid.inbounds(leftAdjacent)) result.push(leftAdjacent);
-        if (Grid.inbounds(rightAdjacent)) result.push(rightAdjacent);
+        if (this.inbounds(upAdjacent)) result.push(upAdjacent);
+        if (this.inbounds(downAdjacent)) result.push(downAdjacent);
+        if (this.inbounds(leftAdjacent)) result.push(leftAdjacent);
+        if (this.inbounds(rightAdjacent)) result.push(rightAdjacent);
 
         return result;
     }
+
+    /** Every tile, row by row, ie by tile index. */
+    getTiles(): Point[] {
+        if (this.tiles == null) {
+            this.tiles = [];
+            for (let y = 0; y < this.tilesTall; y++) {
+                for (let x = 0; x < this.tilesWide; x++) {
+                    this.tiles.push(new Point(x, y));
+                }
+            }
+        }
+        return this.tiles;
+    }
+
+    getTileIndex(tile: Point): number {
+        return tile.y * this.tilesWide + tile.x;
+    }
+
+    /** Same order as getAdjacentTiles. */
+    getAdjacentTileIndices(tileIndex: number): number[] {
+        const x = tileIndex % this.tilesWide;
+        const y = Math.floor(tileIndex / this.tilesWide);
+        const adjacentTileIndices: number[] = [];
+        if (y > 0) adjacentTileIndices.push(tileIndex - this.tilesWide);
+        if (y < this.tilesTall - 1) {
+            adjacentTileIndices.push(tileIndex + this.tilesWide);
+        }
+        if (x > 0) adjacentTileIndices.push(tileIndex - 1);
+        if (x < this.tilesWide - 1) adjacentTileIndices.push(tileIndex + 1);
+        return adjacentTileIndices;
+    }
+
+    /** Scale the board fits the game area at, before the camera zooms. */
+    getScale(): number {
+        return Math.min(
+            Grid.GAME_WIDTH / this.width,
+            Grid.GAME_HEIGHT / this.height);
+    }
 }
 
-interface QueuedTile {
-    depth: number;
-    coords: Point;
+/**
+ * Min-heap of tile indices by depth. Ties are dequeued in the order
+ * they were queued, so equal costs are explored breadth first.
+ */
+class TileQueue {
+    private tileIndices: number[] = [];
+    private depths: number[] = [];
+    private priorities: number[] = [];
+    private queuedOrders: number[] = [];
+    private numQueued = 0;
+
+    get length(): number {
+        return this.tileIndices.length;
+    }
+
+    /** @param priority orders the queue, defaults to the depth. */
+    push(tileIndex: number, depth: number, priority = depth): void {
+        this.tileIndices.push(tileIndex);
+        this.depths.push(depth);
+        this.priorities.push(priority);
+        this.queuedOrders.push(this.numQueued++);
+        let child = this.tileIndices.length - 1;
+        while (child > 0) {
+            const parent = (child - 1) >> 1;
+            if (!this.isBefore(child, parent)) {
+                break;
+            }
+            this.swap(child, parent);
+            child = parent;
+        }
+    }
+
+    /** Tile index and depth of the first queued tile. */
+    pop(): { tileIndex: number; depth: number } {
+        const popped = {
+            tileIndex: this.tileIndices[0],
+            depth: this.depths[0],
+        };
+        const last = this.tileIndices.length - 1;
+        this.swap(0, last);
+        this.tileIndices.pop();
+        this.depths.pop();
+        this.priorities.pop();
+        this.queuedOrders.pop();
+        let parent = 0;
+        while (true) {
+            const left = 2 * parent + 1;
+            const right = left + 1;
+            let first = parent;
+            if (left < last && this.isBefore(left, first)) {
+                first = left;
+            }
+            if (right < last && this.isBefore(right, first)) {
+                first = right;
+            }
+            if (first === parent) {
+                break;
+            }
+            this.swap(parent, first);
+            parent = first;
+        }
+        return popped;
+    }
+
+    private isBefore(a: number, b: number): boolean {
+        if (this.priorities[a] !== this.priorities[b]) {
+            return this.priorities[a] < this.priorities[b];
+        }
+        return this.queuedOrders[a] < this.queuedOrders[b];
+    }
+
+    private swap(a: number, b: number): void {
+        swapElements(this.tileIndices, a, b);
+        swapElements(this.depths, a, b);
+        swapElements(this.priorities, a, b);
+        swapElements(this.queuedOrders, a, b);
+    }
 }
 
+function swapElements(array: number[], a: number, b: number): void {
+    const temp = array[a];
+    array[a] = array[b];
+    array[b] = temp;
+}
+
+/**
+ * Tiles reachable from the start within `maxDepth`. With `getCost`,
+ * depth is the total cost of the tiles moved into instead of steps.
+ */
 export function bfs(params: {
+    grid: Grid;
     startTile: Point;
     maxDepth: number;
+    /** Whether the tile can be ended on, ie isn't occupied. */
     isAvailable: (tile: Point) => boolean;
     canGoThrough: (tile: Point) => boolean;
+    /** Cost of moving into the tile, 1 if unset. */
+    getCost?: (tile: Point) => number;
 }): Point[] {
 
-    const { startTile, maxDepth, isAvailable, canGoThrough } = params;
-    const availableTiles: Map<string, Point> = new Map();
-    const queue: QueuedTile[] =
-        Grid.getAdjacentTiles(startTile)
-            .concat(startTile)
-            .map((tile) => {
-                return {
-                    depth: 1,
-                    coords: tile,
-                };
-            });
+    const { grid, startTile, maxDepth, isAvailable, canGoThrough } = params;
+    const getCost = params.getCost || (() => 1);
+    const tiles = grid.getTiles();
+    const queuedDepths = new Float64Array(tiles.length).fill(Infinity);
+    const isExpanded = new Uint8Array(tiles.length);
+    const availableTiles: Point[] = [];
+    const queue = new TileQueue();
+    const enqueue = (tileIndex: number, depth: number) => {
+        if (depth > maxDepth || queuedDepths[tileIndex] <= depth) {
+            return;
+        }
+        queuedDepths[tileIndex] = depth;
+        queue.push(tileIndex, depth);
+    };
+    const startTileIndex = grid.getTileIndex(startTile);
+    for (const tileIndex of grid.getAdjacentTileIndices(startTileIndex)) {
+        enqueue(tileIndex, getCost(tiles[tileIndex]));
+    }
+    enqueue(startTileIndex, 1);
     while (queue.length) {
-        const queuedTile = queue.shift()!;
-        if (queuedTile.depth > maxDepth || !canGoThrough(queuedTile.coords)) {
+        const { tileIndex, depth } = queue.pop();
+        const tile = tiles[tileIndex];
+        if (isExpanded[tileIndex] || !canGoThrough(tile)) {
             continue;
         }
-        if (isAvailable(queuedTile.coords)) {
-            availableTiles.set(queuedTile.coords.toString(), queuedTile.coords);
+        // Shallowest depth is dequeued first.
+        isExpanded[tileIndex] = 1;
+        if (isAvailable(tile)) {
+            availableTiles.push(tile);
         }
-        for (const adjacentTile of Grid.getAdjacentTiles(queuedTile.coords)) {
-            if ([...availableTiles.values()]
-                .find((tile) => tile.equals(adjacentTile))) continue;
-            queue.push({
-                depth: queuedTile.depth + 1,
-                coords: adjacentTile,
-            });
+        for (const adjacentTileIndex
+            of grid.getAdjacentTileIndices(tileIndex)) {
+            if (isExpanded[adjacentTileIndex]) continue;
+            enqueue(
+                adjacentTileIndex,
+                depth + getCost(tiles[adjacentTileIndex]));
         }
     }
 
-    return [...availableTiles.values()];
-}
-
-interface PathedTile {
-    parent: Point;
-    coords: Point;
+    return availableTiles;
 }
 
+/**
+ * Cheapest path from the start to the end tile, excluding the start,
+ * found with A*. Every tile costs 1 to move into unless `getCost` is
+ * given, which can't be less than 1 for the path to be the cheapest.
+ */
 export function pathTo(params: {
+    grid: Grid;
     startTile: Point;
     endTile: Point;
+    /** Whether the tile can be moved into, ie isn't occupied. */
     isAvailable: (tile: Point) => boolean;
     canGoThrough: (tile: Point) => boolean;
+    /** Cost of moving into the tile, 1 if unset. */
+    getCost?: (tile: Point) => number;
 }): Point[] {
 
-    const { startTile, endTile, isAvailable, canGoThrough } = params;
-    const pathedTiles: Map<string, PathedTile> = new Map();
-    const queue: PathedTile[] =
-        [startTile]
-            .map((tile) => {
-                return {
-                    parent: startTile,
-                    coords: tile,
-                };
-            });
+    const { grid, startTile, endTile, isAvailable, canGoThrough } = params;
+    const getCost = params.getCost || (() => 1);
+    const tiles = grid.getTiles();
+    const queuedDepths = new Float64Array(tiles.length).fill(Infinity);
+    const parentTileIndices = new Int32Array(tiles.length).fill(-1);
+    const isExpanded = new Uint8Array(tiles.length);
+    const startTileIndex = grid.getTileIndex(startTile);
+    const endTileIndex = grid.getTileIndex(endTile);
+    const queue = new TileQueue();
+    queue.push(startTileIndex, 0, startTile.manhattanDistanceTo(endTile));
+    queuedDepths[startTileIndex] = 0;
     let hasFoundEnd = false;
-    while (!hasFoundEnd) {
-        const queuedTile = queue.shift()!;
-        if (!canGoThrough(queuedTile.coords)) {
+    while (queue.length > 0) {
+        const { tileIndex, depth } = queue.pop();
+        if (isExpanded[tileIndex] || !canGoThrough(tiles[tileIndex])) {
             continue;
         }
-        if (isAvailable(queuedTile.coords)
-            && !pathedTiles.has(queuedTile.coords.toString())) {
-            pathedTiles.set(queuedTile.coords.toString(), queuedTile);
-        }
-        if (queuedTile.coords.equals(endTile)) {
+        isExpanded[tileIndex] = 1;
+        if (tileIndex === endTileIndex) {
             hasFoundEnd = true;
             break;
         }
-        for (const adjacentTile of Grid.getAdjacentTiles(queuedTile.coords)) {
-            const alreadyVisitedAdjacentTile =
-                pathedTiles.has(adjacentTile.toString());
-            const alreadyQueued =
-                queue.find((pathed) => pathed.coords.equals(adjacentTile)) != null;
-            if (!alreadyVisitedAdjacentTile
-                && !alreadyQueued && isAvailable(adjacentTile)) {
-                queue.push({
-                    parent: queuedTile.coords,
-                    coords: adjacentTile,
-                });
+        for (const adjacentTileIndex
+            of grid.getAdjacentTileIndices(tileIndex)) {
+            const adjacentTile = tiles[adjacentTileIndex];
+            if (isExpanded[adjacentTileIndex] || !isAvailable(adjacentTile)) {
+                continue;
+            }
+            const adjacentDepth = depth + getCost(adjacentTile);
+            if (queuedDepths[adjacentTileIndex] <= adjacentDepth) {
+                continue;
             }
+            queuedDepths[adjacentTileIndex] = adjacentDepth;
+            parentTileIndices[adjacentTileIndex] = tileIndex;
+            queue.push(
+                adjacentTileIndex,
+                adjacentDepth,
+                adjacentDepth + adjacentTile.manhattanDistanceTo(endTile));
         }
     }
+    if (!hasFoundEnd) {
+        throw new Error(
+            `No path from ${startTile.toString()} to ${endTile.toString()}`);
+    }
 
-    const getPathedTile = (tile: Point): PathedTile => {
-        return [...pathedTiles.values()].find((pathedTile: PathedTile) => {
-            return pathedTile.coords.equals(tile);
-        })!;
-    };
-    const endPathedTile = getPathedTile(endTile);
-    let current = endPathedTile;
     const path: Point[] = [];
-    while (!current.coords.equals(startTile)) {
-        path.push(current.coords);
-        current = getPathedTile(current.parent);
+    let current = endTileIndex;
+    while (current !== startTileIndex) {
+        path.push(tiles[current]);
+        current = parentTileIndices[current];
     }
     return path.reverse();
 }
@@ -190,7 +353,7 @@ export function getTilesOnLineBetween(a: Point, b: Point): Point[] {
     // Move from a to b using (half the) normalized direction vector.
     // Add tiles until b is reached.
     let curPt = aPlusHalf.add(aToB);
-    const maxIters = Math.max(Grid.TILES_TALL, Grid.TILES_WIDE);
+    const maxIters = 4 * a.manhattanDistanceTo(b);
     let iters = 0;
     while (!tileAtPt(curPt).equals(b) && iters < maxIters) {
         points.push(tileAtPt(curPt));
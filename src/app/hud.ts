@@ -39,6 +39,8 @@ const textTypeToRenderSettings = new Map<TextType, TextRenderSettings>([
         topMargin: 7 * Grid.GAME_HEIGHT / 8,
     }],
 ]);
+const OBJECTIVE_STATUS_FONT_SIZE = 20;
+const OBJECTIVE_STATUS_MARGIN = 8;
 
 export class Hud {
 
@@ -57,12 +59,16 @@ export class Hud {
     private toastMsLeft: number;
     private toastDuration: Duration;
 
+    /** Stays up all match, unlike the other text. */
+    private objectiveStatus: string[];
+
     constructor(context: CanvasRenderingContext2D) {
         this.context = context;
         this.isShowingControlMap = false;
         this.titleMsLeft = -1;
         this.subtitleMsLeft = -1;
         this.toastMsLeft = -1;
+        this.objectiveStatus = [];
     }
 
     update(elapsedMs: number): void {
@@ -78,6 +84,7 @@ export class Hud {
     }
 
     render(): void {
+        this.renderObjectiveStatus();
         if (this.titleMsLeft > 0) {
             if (!this.titleText) {
                 throw new Error(
@@ -131,6 +138,11 @@ export class Hud {
         }
     }
 
+    /** One line each, in the top left corner. */
+    setObjectiveStatus(status: string[]): void {
+        this.objectiveStatus = status;
+    }
+
     clearText(textType: TextType): void {
         switch (textType) {
             case TextType.TITLE:
@@ -148,6 +160,18 @@ export class Hud {
         }
     }
 
+    private renderObjectiveStatus(): void {
+        this.context.fillStyle = THEME.hudTextColor;
+        this.context.font = `${OBJECTIVE_STATUS_FONT_SIZE}px fantasy`;
+        this.objectiveStatus.forEach((line, index) => {
+            this.context.fillText(
+                line,
+                OBJECTIVE_STATUS_MARGIN,
+                (index + 1) * (OBJECTIVE_STATUS_FONT_SIZE
+                    + OBJECTIVE_STATUS_MARGIN));
+        });
+    }
+
     private renderText(
         text: string,
         textRenderSettings: TextRenderSettings,
@@ -2,11 +2,12 @@ import { ControlMap, EventType, Key, ControlParams, numberToKey, numberToOrdinal
 import { ButtonPanel } from './button_panel';
 import { Point } from './math/point';
 import { GameState, SelectedCharacterState } from './game_state';
-import { SelectCharacterStateAction, ActionType, Action, HealAction, AimAction, EndCharacterTurnAction, ShootAction, SelectTileAction, SelectCharacterClassAction, SelectCharacterAction } from './actions';
+import { SelectCharacterStateAction, ActionType, Action, HealAction, AimAction, EndCharacterTurnAction, ShootAction, OverwatchAction, SelectTileAction, SelectCharacterClassAction, SelectCharacterAction } from './actions';
 import { CharacterAbilityType, ClassType, CHARACTER_CLASSES, CharacterSettings, CharacterAbility, CharacterAbilityState } from './character_settings';
 import { Grid } from './grid';
 import { Gun, ProjectileDetailsType } from './shot_info';
 import { Character } from './game_objects/character';
+import { Camera } from './camera';
 
 interface ClickHandler {
     onClick: (tile: Point) => void;
@@ -21,8 +22,11 @@ const TOGGLE_AIM_KEY = Key.A;
 const AIM_COUNTERCLOCKWISE_KEY = Key.S;
 const AIM_CLOCKWISE_KEY = Key.D;
 const SLOWER_AIM = Key.SHIFT;
+const AIM_ANGLE_RADIANS_DELTA = Math.PI / 64;
 const SHOOT_KEY = Key.F;
 const HEAL_KEY = Key.H;
+/** Used to start and cancel aiming overwatch. */
+const TOGGLE_OVERWATCH_KEY = Key.O;
 const TOGGLE_THROW_GRENADE_KEY = Key.T;
 const END_TURN_KEY = Key.E;
 
@@ -36,6 +40,7 @@ const KEYS_TO_CHARACTER_CLASS_TYPE: Map<Key, ClassType> = new Map([
 interface GameManagerDelegate {
     isPaused(): boolean;
     getGameState(): GameState;
+    getCamera(): Camera;
     onAction(action: Action): void;
     onQuit(): void;
     onRestart(): void;
@@ -75,8 +80,8 @@ export class InputManager {
             const clickedButtonPanel = this.buttonPanel.tryClick(clickCanvas);
 
             if (!clickedButtonPanel) {
-                const mouseTileCoords =
-                    Grid.getTileFromCanvasCoords(clickCanvas);
+                const mouseTileCoords = this.delegate.getCamera()
+                    .getTileAtCanvasCoords(clickCanvas);
                 if (this.gameClickHandler != null) {
                     this.gameClickHandler.onClick(mouseTileCoords);
                 }
@@ -125,7 +130,6 @@ export class InputManager {
         this.addDefaultControls();
         this.addSwitchSquadMemberControls();
 
-        const AIM_ANGLE_RADIANS_DELTA = Math.PI / 64;
         const buttonInfos: ControlParams[] = [];
         let headerTextLines: string[] = [];
         switch (gameState.selectedCharacterState) {
@@ -158,6 +162,18 @@ export class InputManager {
                         },
                         eventType: EventType.KeyPress,
                     });
+                    buttonInfos.push({
+                        key: TOGGLE_OVERWATCH_KEY,
+                        name: 'Overwatch',
+                        func: () => {
+                            const action: SelectCharacterStateAction = {
+                                type: ActionType.SELECT_CHARACTER_STATE,
+                                state: SelectedCharacterState.OVERWATCH,
+                            };
+                            delegate.onAction(action);
+                        },
+                        eventType: EventType.KeyPress,
+                    });
                 }
                 for (const extraAbility of
                     gameState.selectedCharacter.extraAbilities) {
@@ -231,62 +247,46 @@ export class InputManager {
                     },
                     eventType: EventType.KeyPress,
                 });
+                buttonInfos.push(...this.getAimButtonInfos());
                 buttonInfos.push({
-                    key: AIM_COUNTERCLOCKWISE_KEY,
-                    name: 'Aim CCW',
+                    key: SHOOT_KEY,
+                    name: 'Fire',
                     func: () => {
                         if (gameState.selectedCharacter == null) {
                             throw new Error(
-                                `There's no selected character when aiming CCW.`);
-                        }
-                        let aimOffset = - AIM_ANGLE_RADIANS_DELTA;
-                        if (CONTROLS.isKeyDown(SLOWER_AIM)) {
-                            aimOffset += AIM_ANGLE_RADIANS_DELTA / 2;
-                        }
-                        const newAim =
-                            gameState.selectedCharacter.getAim() + aimOffset;
-                        const aimAction: AimAction = {
-                            type: ActionType.AIM,
-                            aimAngleClockwiseRadians: newAim,
+                                `There's no selected character when canceling shooting.`);
                         }
-                        delegate.onAction(aimAction);
+                        const fireAction: ShootAction = {
+                            type: ActionType.SHOOT,
+                        };
+                        delegate.onAction(fireAction);
                     },
-                    eventType: EventType.KeyDown,
+                    eventType: EventType.KeyPress,
                 });
+                break;
+            case SelectedCharacterState.OVERWATCH:
+                headerTextLines = ['Adjust overwatch cone'];
                 buttonInfos.push({
-                    key: AIM_CLOCKWISE_KEY,
-                    name: 'Aim CC',
+                    key: TOGGLE_OVERWATCH_KEY,
+                    name: 'Cancel',
                     func: () => {
-                        if (gameState.selectedCharacter == null) {
-                            throw new Error(
-                                `There's no selected character when aiming CC.`);
-                        }
-                        let aimOffset = AIM_ANGLE_RADIANS_DELTA;
-                        if (CONTROLS.isKeyDown(SLOWER_AIM)) {
-                            aimOffset -= AIM_ANGLE_RADIANS_DELTA / 2;
-                        }
-                        const newAim =
-                            gameState.selectedCharacter.getAim() + aimOffset;
-                        const aimAction: AimAction = {
-                            type: ActionType.AIM,
-                            aimAngleClockwiseRadians: newAim,
-                        }
-                        delegate.onAction(aimAction);
+                        const action: SelectCharacterStateAction = {
+                            type: ActionType.SELECT_CHARACTER_STATE,
+                            state: SelectedCharacterState.AWAITING,
+                        };
+                        delegate.onAction(action);
                     },
-                    eventType: EventType.KeyDown,
+                    eventType: EventType.KeyPress,
                 });
+                buttonInfos.push(...this.getAimButtonInfos());
                 buttonInfos.push({
                     key: SHOOT_KEY,
-                    name: 'Fire',
+                    name: 'Set overwatch',
                     func: () => {
-                        if (gameState.selectedCharacter == null) {
-                            throw new Error(
-                                `There's no selected character when canceling shooting.`);
-                        }
-                        const fireAction: ShootAction = {
-                            type: ActionType.SHOOT,
+                        const overwatchAction: OverwatchAction = {
+                            type: ActionType.OVERWATCH,
                         };
-                        delegate.onAction(fireAction);
+                        delegate.onAction(overwatchAction);
                     },
                     eventType: EventType.KeyPress,
                 });
@@ -342,6 +342,58 @@ export class InputManager {
         }
     }
 
+    /** Rotates the aim of the selected character. */
+    private getAimButtonInfos(): ControlParams[] {
+        const delegate = this.delegate;
+        const gameState = delegate.getGameState();
+        const aimButtonInfos: ControlParams[] = [];
+        aimButtonInfos.push({
+            key: AIM_COUNTERCLOCKWISE_KEY,
+            name: 'Aim CCW',
+            func: () => {
+                if (gameState.selectedCharacter == null) {
+                    throw new Error(
+                        `There's no selected character when aiming CCW.`);
+                }
+                let aimOffset = - AIM_ANGLE_RADIANS_DELTA;
+                if (CONTROLS.isKeyDown(SLOWER_AIM)) {
+                    aimOffset += AIM_ANGLE_RADIANS_DELTA / 2;
+                }
+                const newAim =
+                    gameState.selectedCharacter.getAim() + aimOffset;
+                const aimAction: AimAction = {
+                    type: ActionType.AIM,
+                    aimAngleClockwiseRadians: newAim,
+                }
+                delegate.onAction(aimAction);
+            },
+            eventType: EventType.KeyDown,
+        });
+        aimButtonInfos.push({
+            key: AIM_CLOCKWISE_KEY,
+            name: 'Aim CC',
+            func: () => {
+                if (gameState.selectedCharacter == null) {
+                    throw new Error(
+                        `There's no selected character when aiming CC.`);
+                }
+                let aimOffset = AIM_ANGLE_RADIANS_DELTA;
+                if (CONTROLS.isKeyDown(SLOWER_AIM)) {
+                    aimOffset -= AIM_ANGLE_RADIANS_DELTA / 2;
+                }
+                const newAim =
+                    gameState.selectedCharacter.getAim() + aimOffset;
+                const aimAction: AimAction = {
+                    type: ActionType.AIM,
+                    aimAngleClockwiseRadians: newAim,
+                }
+                delegate.onAction(aimAction);
+            },
+            eventType: EventType.KeyDown,
+        });
+        return aimButtonInfos;
+    }
+
     private tryPlacingCharacter(tileCoords: Point): void {
         if (!this.delegate.getGameState().selectableTiles
             .find((tile) => tile.equals(tileCoords))) {
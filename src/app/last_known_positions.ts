@@ -0,0 +1,110 @@
+import { Point } from 'src/app/math/point';
+import { Grid } from 'src/app/grid';
+import { Character } from 'src/app/game_objects/character';
+import { THEME } from 'src/app/theme';
+
+const GHOST_RADIUS = Grid.TILE_SIZE / 4;
+const GHOST_ALPHA = .5;
+
+/** Where an enemy was last seen. */
+export interface Ghost {
+    readonly character: Character;
+    readonly tile: Point;
+}
+
+/**
+ * Remembers where a team last saw each enemy, until the enemy is seen
+ * again, their last known tile is seen empty or they're eliminated.
+ */
+export class LastKnownPositions {
+    private characterToTile: Map<Character, Point>;
+    private visibleCharacters: Set<Character>;
+
+    constructor() {
+        this.characterToTile = new Map();
+        this.visibleCharacters = new Set();
+    }
+
+    /**
+     * Call whenever what the team sees might have changed.
+     * @param enemies alive enemies, seen or not.
+     */
+    update(params: {
+        enemies: Character[];
+        isCharacterVisible: (character: Character) => boolean;
+        isTileVisible: (tile: Point) => boolean;
+        /** Where a visible enemy is seen, defaults to its tile. */
+        getTile?: (character: Character) => Point;
+    }): void {
+        const { enemies } = params;
+        for (const character of [...this.characterToTile.keys()]) {
+            if (enemies.indexOf(character) === -1) {
+                this.characterToTile.delete(character);
+            }
+        }
+        this.visibleCharacters.clear();
+        for (const enemy of enemies) {
+            if (params.isCharacterVisible(enemy)) {
+                this.visibleCharacters.add(enemy);
+                this.characterToTile.set(
+                    enemy,
+                    params.getTile != null
+                        ? params.getTile(enemy)
+                        : enemy.tileCoords);
+                continue;
+            }
+            const lastKnownTile = this.characterToTile.get(enemy);
+            if (lastKnownTile != null && params.isTileVisible(lastKnownTile)) {
+                this.characterToTile.delete(enemy);
+            }
+        }
+    }
+
+    /** Replaces what's remembered, ie when a saved match is continued. */
+    restore(ghosts: Ghost[]): void {
+        this.characterToTile =
+            new Map(ghosts.map(({ character, tile }) => [character, tile]));
+        this.visibleCharacters.clear();
+    }
+
+    /** Last known positions of enemies not currently seen. */
+    getGhosts(): Ghost[] {
+        const ghosts: Ghost[] = [];
+        for (const [character, tile] of this.characterToTile) {
+            if (!this.visibleCharacters.has(character)) {
+                ghosts.push({ character, tile });
+            }
+        }
+        return ghosts;
+    }
+
+    render(context: CanvasRenderingContext2D): void {
+        for (const ghost of this.getGhosts()) {
+            const tileCenterCanvas =
+                Grid.getCanvasFromTileCoords(ghost.tile).add(Grid.HALF_TILE);
+            context.globalAlpha = GHOST_ALPHA;
+            context.strokeStyle =
+                THEME.teamColors[ghost.character.teamIndex].characterReadyColor;
+            context.lineWidth = 2;
+            context.setLineDash([4, 4]);
+            context.beginPath();
+            context.arc(
+                tileCenterCanvas.x,
+                tileCenterCanvas.y,
+                GHOST_RADIUS,
+                0,
+                Math.PI * 2);
+            context.stroke();
+            context.setLineDash([]);
+            context.fillStyle = THEME.characterTextColor;
+            const fontSize = 12;
+            context.font = `${fontSize}px fantasy`;
+            const textWidth = context.measureText('?').width;
+            context.fillText(
+                '?',
+                tileCenterCanvas.x - textWidth / 2,
+                tileCenterCanvas.y + fontSize / 3);
+            context.globalAlpha = 1;
+        }
+    }
+}
@@ -1,35 +1,78 @@
 import { Point } from 'src/app/math/point';
+import { TerrainType } from 'src/app/game_objects/terrain';
+import { Grid } from 'src/app/grid';
+import { ObjectiveSettings, ObjectiveType } from 'src/app/objectives';
 
-interface SerializedPoint {
+export interface SerializedPoint {
     x: number;
     y: number;
 }
 
+export interface SerializedTerrain extends SerializedPoint {
+    type: TerrainType;
+}
+
 export interface LevelData {
-    redFlag: SerializedPoint;
-    blueFlag: SerializedPoint;
+    /** In tiles, defaults to Grid.DEFAULT_TILES_WIDE. */
+    width?: number;
+    /** In tiles, defaults to Grid.DEFAULT_TILES_TALL. */
+    height?: number;
+    /** Indexed by team, so the level supports up to this many teams. */
+    flags: SerializedPoint[];
     obstacles: SerializedPoint[];
+    /** Obstacles that block movement but not shots. */
+    halfCovers?: SerializedPoint[];
+    /** Tiles of the obstacles and half covers that can be destroyed. */
+    destructibles?: SerializedPoint[];
+    terrain?: SerializedTerrain[];
+    /** Used instead of the default spawners, if the match has spawners. */
+    spawners?: SerializedSpawner[];
+    /**
+     * Tiles each team places its characters on, indexed by team.
+     * Teams without any place them near their flag.
+     */
+    spawnZones?: SerializedPoint[][];
+    /** Played instead of capture the flag, unless the match sets one. */
+    objective?: ObjectiveSettings;
+}
+
+export interface SerializedSpawner extends SerializedPoint {
+    teamIndex: number;
+    turnsBetweenSpawns: number;
+}
+
+/** Settings the free play menu switches to when the level is picked. */
+export interface LevelSettings {
+    /** Of the first team, then the others. */
+    squadSizes: [number, number];
+    hasFogOfWar: boolean;
+    hasSpawners: boolean;
+}
+
+export function getLevelGrid(levelData: LevelData): Grid {
+    return new Grid(levelData.width, levelData.height);
 }
 
-// TODO - custom game settings with level
 export interface Level {
     name: string;
+    /** Set for levels made by players. */
+    author?: string;
     data: LevelData;
     aiSpawner: SerializedPoint;
+    settings?: LevelSettings;
 }
 
 
 const blank: Level = {
     name: 'Blank',
-    data: { "redFlag": { "x": 0, "y": 8 }, "blueFlag": { "x": 19, "y": 8 }, "obstacles": [] },
+    data: { "flags": [{ "x": 19, "y": 8 }, { "x": 0, "y": 8 }], "obstacles": [] },
     aiSpawner: { "x": 0, "y": 12 },
 };
 
 const diagonal: Level = {
     name: 'Diagonal',
     data: {
-        redFlag: { x: 0, y: 19 },
-        blueFlag: { x: 19, y: 0 },
+        flags: [{ x: 19, y: 0 }, { x: 0, y: 19 }],
         obstacles: [
             { x: 16, y: 18 },
             { x: 16, y: 17 },
@@ -119,81 +162,109 @@ const diagonal: Level = {
 
 const horizontal: Level = {
     name: 'Horizontal',
-    data: { "redFlag": { "x": 10, "y": 19 }, "blueFlag": { "x": 9, "y": 0 }, "obstacles": [{ "x": 2, "y": 17 }, { "x": 3, "y": 17 }, { "x": 5, "y": 17 }, { "x": 6, "y": 17 }, { "x": 7, "y": 17 }, { "x": 10, "y": 17 }, { "x": 13, "y": 17 }, { "x": 14, "y": 17 }, { "x": 17, "y": 17 }, { "x": 8, "y": 17 }, { "x": 9, "y": 17 }, { "x": 11, "y": 17 }, { "x": 12, "y": 17 }, { "x": 16, "y": 17 }, { "x": 17, "y": 2 }, { "x": 16, "y": 2 }, { "x": 14, "y": 2 }, { "x": 13, "y": 2 }, { "x": 12, "y": 2 }, { "x": 11, "y": 2 }, { "x": 10, "y": 2 }, { "x": 9, "y": 2 }, { "x": 8, "y": 2 }, { "x": 7, "y": 2 }, { "x": 6, "y": 2 }, { "x": 5, "y": 2 }, { "x": 3, "y": 2 }, { "x": 2, "y": 2 }, { "x": 3, "y": 5 }, { "x": 4, "y": 5 }, { "x": 5, "y": 5 }, { "x": 14, "y": 5 }, { "x": 15, "y": 5 }, { "x": 16, "y": 5 }, { "x": 14, "y": 15 }, { "x": 15, "y": 15 }, { "x": 16, "y": 15 }, { "x": 4, "y": 15 }, { "x": 5, "y": 15 }, { "x": 3, "y": 15 }, { "x": 6, "y": 15 }, { "x": 13, "y": 15 }, { "x": 13, "y": 5 }, { "x": 6, "y": 5 }, { "x": 1, "y": 9 }, { "x": 1, "y": 10 }, { "x": 0, "y": 9 }, { "x": 1, "y": 8 }, { "x": 19, "y": 9 }, { "x": 18, "y": 9 }, { "x": 18, "y": 8 }, { "x": 18, "y": 10 }, { "x": 2, "y": 8 }, { "x": 17, "y": 8 }, { "x": 18, "y": 11 }, { "x": 1, "y": 11 }, { "x": 4, "y": 11 }, { "x": 5, "y": 11 }, { "x": 6, "y": 11 }, { "x": 7, "y": 11 }, { "x": 8, "y": 11 }, { "x": 8, "y": 12 }, { "x": 11, "y": 12 }, { "x": 11, "y": 11 }, { "x": 12, "y": 11 }, { "x": 13, "y": 11 }, { "x": 15, "y": 11 }, { "x": 14, "y": 11 }, { "x": 9, "y": 9 }, { "x": 10, "y": 9 }, { "x": 11, "y": 9 }, { "x": 8, "y": 9 }, { "x": 9, "y": 15 }, { "x": 10, "y": 15 }, { "x": 9, "y": 5 }, { "x": 10, "y": 5 }, { "x": 8, "y": 7 }, { "x": 7, "y": 7 }, { "x": 6, "y": 7 }, { "x": 11, "y": 7 }, { "x": 12, "y": 7 }, { "x": 13, "y": 7 }] },
+    data: { "flags": [{ "x": 9, "y": 0 }, { "x": 10, "y": 19 }], "obstacles": [{ "x": 2, "y": 17 }, { "x": 3, "y": 17 }, { "x": 5, "y": 17 }, { "x": 6, "y": 17 }, { "x": 7, "y": 17 }, { "x": 10, "y": 17 }, { "x": 13, "y": 17 }, { "x": 14, "y": 17 }, { "x": 17, "y": 17 }, { "x": 8, "y": 17 }, { "x": 9, "y": 17 }, { "x": 11, "y": 17 }, { "x": 12, "y": 17 }, { "x": 16, "y": 17 }, { "x": 17, "y": 2 }, { "x": 16, "y": 2 }, { "x": 14, "y": 2 }, { "x": 13, "y": 2 }, { "x": 12, "y": 2 }, { "x": 11, "y": 2 }, { "x": 10, "y": 2 }, { "x": 9, "y": 2 }, { "x": 8, "y": 2 }, { "x": 7, "y": 2 }, { "x": 6, "y": 2 }, { "x": 5, "y": 2 }, { "x": 3, "y": 2 }, { "x": 2, "y": 2 }, { "x": 3, "y": 5 }, { "x": 4, "y": 5 }, { "x": 5, "y": 5 }, { "x": 14, "y": 5 }, { "x": 15, "y": 5 }, { "x": 16, "y": 5 }, { "x": 14, "y": 15 }, { "x": 15, "y": 15 }, { "x": 16, "y": 15 }, { "x": 4, "y": 15 }, { "x": 5, "y": 15 }, { "x": 3, "y": 15 }, { "x": 6, "y": 15 }, { "x": 13, "y": 15 }, { "x": 13, "y": 5 }, { "x": 6, "y": 5 }, { "x": 1, "y": 9 }, { "x": 1, "y": 10 }, { "x": 0, "y": 9 }, { "x": 1, "y": 8 }, { "x": 19, "y": 9 }, { "x": 18, "y": 9 }, { "x": 18, "y": 8 }, { "x": 18, "y": 10 }, { "x": 2, "y": 8 }, { "x": 17, "y": 8 }, { "x": 18, "y": 11 }, { "x": 1, "y": 11 }, { "x": 4, "y": 11 }, { "x": 5, "y": 11 }, { "x": 6, "y": 11 }, { "x": 7, "y": 11 }, { "x": 8, "y": 11 }, { "x": 8, "y": 12 }, { "x": 11, "y": 12 }, { "x": 11, "y": 11 }, { "x": 12, "y": 11 }, { "x": 13, "y": 11 }, { "x": 15, "y": 11 }, { "x": 14, "y": 11 }, { "x": 9, "y": 9 }, { "x": 10, "y": 9 }, { "x": 11, "y": 9 }, { "x": 8, "y": 9 }, { "x": 9, "y": 15 }, { "x": 10, "y": 15 }, { "x": 9, "y": 5 }, { "x": 10, "y": 5 }, { "x": 8, "y": 7 }, { "x": 7, "y": 7 }, { "x": 6, "y": 7 }, { "x": 11, "y": 7 }, { "x": 12, "y": 7 }, { "x": 13, "y": 7 }] },
 
     aiSpawner: { "x": 10, "y": 18 },
 };
 
 const paths: Level = {
     name: 'Paths',
-    data: { "redFlag": { "x": 0, "y": 19 }, "blueFlag": { "x": 19, "y": 0 }, "obstacles": [{ "x": 17, "y": 1 }, { "x": 17, "y": 2 }, { "x": 18, "y": 2 }, { "x": 1, "y": 17 }, { "x": 2, "y": 17 }, { "x": 2, "y": 18 }, { "x": 1, "y": 16 }, { "x": 3, "y": 18 }, { "x": 16, "y": 1 }, { "x": 18, "y": 3 }, { "x": 16, "y": 5 }, { "x": 15, "y": 6 }, { "x": 14, "y": 7 }, { "x": 13, "y": 8 }, { "x": 14, "y": 3 }, { "x": 13, "y": 4 }, { "x": 12, "y": 5 }, { "x": 11, "y": 6 }, { "x": 10, "y": 7 }, { "x": 10, "y": 6 }, { "x": 11, "y": 5 }, { "x": 12, "y": 4 }, { "x": 13, "y": 3 }, { "x": 14, "y": 8 }, { "x": 15, "y": 7 }, { "x": 16, "y": 6 }, { "x": 13, "y": 9 }, { "x": 12, "y": 9 }, { "x": 3, "y": 14 }, { "x": 5, "y": 16 }, { "x": 6, "y": 16 }, { "x": 3, "y": 13 }, { "x": 4, "y": 13 }, { "x": 6, "y": 15 }, { "x": 7, "y": 15 }, { "x": 7, "y": 14 }, { "x": 4, "y": 12 }, { "x": 8, "y": 14 }, { "x": 8, "y": 13 }, { "x": 5, "y": 12 }, { "x": 5, "y": 11 }, { "x": 6, "y": 11 }, { "x": 6, "y": 10 }, { "x": 9, "y": 13 }, { "x": 9, "y": 12 }, { "x": 7, "y": 10 }, { "x": 9, "y": 10 }, { "x": 9, "y": 9 }, { "x": 10, "y": 9 }, { "x": 10, "y": 10 }, { "x": 16, "y": 9 }, { "x": 7, "y": 7 }, { "x": 7, "y": 6 }, { "x": 6, "y": 6 }, { "x": 6, "y": 5 }, { "x": 5, "y": 5 }, { "x": 12, "y": 12 }, { "x": 12, "y": 13 }, { "x": 13, "y": 13 }, { "x": 13, "y": 14 }, { "x": 14, "y": 14 }, { "x": 14, "y": 15 }, { "x": 15, "y": 15 }, { "x": 5, "y": 4 }, { "x": 4, "y": 4 }, { "x": 15, "y": 18 }, { "x": 16, "y": 18 }, { "x": 16, "y": 17 }, { "x": 17, "y": 17 }, { "x": 17, "y": 16 }, { "x": 18, "y": 16 }, { "x": 18, "y": 15 }, { "x": 2, "y": 2 }, { "x": 3, "y": 2 }, { "x": 3, "y": 1 }, { "x": 4, "y": 1 }, { "x": 2, "y": 3 }, { "x": 1, "y": 3 }, { "x": 1, "y": 4 }, { "x": 16, "y": 10 }, { "x": 17, "y": 11 }, { "x": 16, "y": 12 }, { "x": 16, "y": 13 }, { "x": 3, "y": 6 }, { "x": 3, "y": 7 }, { "x": 2, "y": 8 }, { "x": 3, "y": 9 }, { "x": 3, "y": 10 }, { "x": 18, "y": 9 }, { "x": 19, "y": 9 }, { "x": 19, "y": 8 }, { "x": 0, "y": 10 }, { "x": 1, "y": 10 }, { "x": 1, "y": 11 }, { "x": 8, "y": 4 }, { "x": 7, "y": 3 }, { "x": 10, "y": 3 }, { "x": 11, "y": 2 }, { "x": 12, "y": 1 }, { "x": 6, "y": 2 }, { "x": 11, "y": 15 }, { "x": 12, "y": 16 }, { "x": 13, "y": 17 }, { "x": 9, "y": 16 }, { "x": 8, "y": 17 }, { "x": 7, "y": 18 }, { "x": 9, "y": 0 }, { "x": 10, "y": 19 }] },
+    data: { "flags": [{ "x": 19, "y": 0 }, { "x": 0, "y": 19 }], "obstacles": [{ "x": 17, "y": 1 }, { "x": 17, "y": 2 }, { "x": 18, "y": 2 }, { "x": 1, "y": 17 }, { "x": 2, "y": 17 }, { "x": 2, "y": 18 }, { "x": 1, "y": 16 }, { "x": 3, "y": 18 }, { "x": 16, "y": 1 }, { "x": 18, "y": 3 }, { "x": 16, "y": 5 }, { "x": 15, "y": 6 }, { "x": 14, "y": 7 }, { "x": 13, "y": 8 }, { "x": 14, "y": 3 }, { "x": 13, "y": 4 }, { "x": 12, "y": 5 }, { "x": 11, "y": 6 }, { "x": 10, "y": 7 }, { "x": 10, "y": 6 }, { "x": 11, "y": 5 }, { "x": 12, "y": 4 }, { "x": 13, "y": 3 }, { "x": 14, "y": 8 }, { "x": 15, "y": 7 }, { "x": 16, "y": 6 }, { "x": 13, "y": 9 }, { "x": 12, "y": 9 }, { "x": 3, "y": 14 }, { "x": 5, "y": 16 }, { "x": 6, "y": 16 }, { "x": 3, "y": 13 }, { "x": 4, "y": 13 }, { "x": 6, "y": 15 }, { "x": 7, "y": 15 }, { "x": 7, "y": 14 }, { "x": 4, "y": 12 }, { "x": 8, "y": 14 }, { "x": 8, "y": 13 }, { "x": 5, "y": 12 }, { "x": 5, "y": 11 }, { "x": 6, "y": 11 }, { "x": 6, "y": 10 }, { "x": 9, "y": 13 }, { "x": 9, "y": 12 }, { "x": 7, "y": 10 }, { "x": 9, "y": 10 }, { "x": 9, "y": 9 }, { "x": 10, "y": 9 }, { "x": 10, "y": 10 }, { "x": 16, "y": 9 }, { "x": 7, "y": 7 }, { "x": 7, "y": 6 }, { "x": 6, "y": 6 }, { "x": 6, "y": 5 }, { "x": 5, "y": 5 }, { "x": 12, "y": 12 }, { "x": 12, "y": 13 }, { "x": 13, "y": 13 }, { "x": 13, "y": 14 }, { "x": 14, "y": 14 }, { "x": 14, "y": 15 }, { "x": 15, "y": 15 }, { "x": 5, "y": 4 }, { "x": 4, "y": 4 }, { "x": 15, "y": 18 }, { "x": 16, "y": 18 }, { "x": 16, "y": 17 }, { "x": 17, "y": 17 }, { "x": 17, "y": 16 }, { "x": 18, "y": 16 }, { "x": 18, "y": 15 }, { "x": 2, "y": 2 }, { "x": 3, "y": 2 }, { "x": 3, "y": 1 }, { "x": 4, "y": 1 }, { "x": 2, "y": 3 }, { "x": 1, "y": 3 }, { "x": 1, "y": 4 }, { "x": 16, "y": 10 }, { "x": 17, "y": 11 }, { "x": 16, "y": 12 }, { "x": 16, "y": 13 }, { "x": 3, "y": 6 }, { "x": 3, "y": 7 }, { "x": 2, "y": 8 }, { "x": 3, "y": 9 }, { "x": 3, "y": 10 }, { "x": 18, "y": 9 }, { "x": 19, "y": 9 }, { "x": 19, "y": 8 }, { "x": 0, "y": 10 }, { "x": 1, "y": 10 }, { "x": 1, "y": 11 }, { "x": 8, "y": 4 }, { "x": 7, "y": 3 }, { "x": 10, "y": 3 }, { "x": 11, "y": 2 }, { "x": 12, "y": 1 }, { "x": 6, "y": 2 }, { "x": 11, "y": 15 }, { "x": 12, "y": 16 }, { "x": 13, "y": 17 }, { "x": 9, "y": 16 }, { "x": 8, "y": 17 }, { "x": 7, "y": 18 }, { "x": 9, "y": 0 }, { "x": 10, "y": 19 }] },
 
     aiSpawner: { "x": 1, "y": 18 },
 };
 
 const symmetry: Level = {
     name: 'Symmetry',
-    data: { "redFlag": { "x": 0, "y": 19 }, "blueFlag": { "x": 19, "y": 0 }, "obstacles": [{ "x": 16, "y": 1 }, { "x": 16, "y": 2 }, { "x": 16, "y": 3 }, { "x": 17, "y": 3 }, { "x": 18, "y": 3 }, { "x": 13, "y": 0 }, { "x": 13, "y": 1 }, { "x": 13, "y": 3 }, { "x": 13, "y": 2 }, { "x": 15, "y": 6 }, { "x": 16, "y": 6 }, { "x": 17, "y": 6 }, { "x": 18, "y": 6 }, { "x": 19, "y": 6 }, { "x": 12, "y": 7 }, { "x": 13, "y": 8 }, { "x": 11, "y": 6 }, { "x": 11, "y": 5 }, { "x": 11, "y": 4 }, { "x": 11, "y": 3 }, { "x": 11, "y": 2 }, { "x": 14, "y": 8 }, { "x": 15, "y": 8 }, { "x": 16, "y": 8 }, { "x": 17, "y": 8 }, { "x": 19, "y": 10 }, { "x": 17, "y": 10 }, { "x": 18, "y": 10 }, { "x": 16, "y": 10 }, { "x": 14, "y": 10 }, { "x": 15, "y": 10 }, { "x": 13, "y": 10 }, { "x": 10, "y": 9 }, { "x": 10, "y": 10 }, { "x": 9, "y": 10 }, { "x": 9, "y": 9 }, { "x": 7, "y": 12 }, { "x": 8, "y": 13 }, { "x": 8, "y": 14 }, { "x": 8, "y": 15 }, { "x": 8, "y": 16 }, { "x": 8, "y": 17 }, { "x": 6, "y": 11 }, { "x": 5, "y": 11 }, { "x": 4, "y": 11 }, { "x": 2, "y": 11 }, { "x": 3, "y": 11 }, { "x": 0, "y": 13 }, { "x": 1, "y": 13 }, { "x": 2, "y": 13 }, { "x": 3, "y": 13 }, { "x": 4, "y": 13 }, { "x": 6, "y": 15 }, { "x": 6, "y": 16 }, { "x": 6, "y": 17 }, { "x": 6, "y": 18 }, { "x": 6, "y": 19 }, { "x": 3, "y": 16 }, { "x": 2, "y": 16 }, { "x": 1, "y": 16 }, { "x": 3, "y": 17 }, { "x": 3, "y": 18 }, { "x": 10, "y": 13 }, { "x": 10, "y": 14 }, { "x": 10, "y": 15 }, { "x": 10, "y": 16 }, { "x": 10, "y": 17 }, { "x": 10, "y": 18 }, { "x": 10, "y": 19 }, { "x": 11, "y": 11 }, { "x": 12, "y": 12 }, { "x": 13, "y": 13 }, { "x": 14, "y": 14 }, { "x": 12, "y": 13 }, { "x": 13, "y": 12 }, { "x": 13, "y": 14 }, { "x": 14, "y": 13 }, { "x": 13, "y": 15 }, { "x": 13, "y": 16 }, { "x": 14, "y": 16 }, { "x": 15, "y": 16 }, { "x": 15, "y": 15 }, { "x": 16, "y": 16 }, { "x": 16, "y": 15 }, { "x": 16, "y": 14 }, { "x": 15, "y": 14 }, { "x": 15, "y": 13 }, { "x": 16, "y": 13 }, { "x": 14, "y": 15 }, { "x": 16, "y": 17 }, { "x": 17, "y": 17 }, { "x": 17, "y": 16 }, { "x": 8, "y": 8 }, { "x": 7, "y": 7 }, { "x": 6, "y": 7 }, { "x": 6, "y": 6 }, { "x": 7, "y": 6 }, { "x": 6, "y": 5 }, { "x": 6, "y": 4 }, { "x": 6, "y": 3 }, { "x": 5, "y": 3 }, { "x": 4, "y": 3 }, { "x": 3, "y": 3 }, { "x": 3, "y": 4 }, { "x": 3, "y": 5 }, { "x": 3, "y": 6 }, { "x": 4, "y": 6 }, { "x": 5, "y": 6 }, { "x": 5, "y": 4 }, { "x": 4, "y": 4 }, { "x": 5, "y": 5 }, { "x": 4, "y": 5 }, { "x": 3, "y": 2 }, { "x": 2, "y": 3 }, { "x": 2, "y": 2 }, { "x": 0, "y": 0 }, { "x": 19, "y": 19 }, { "x": 13, "y": 19 }, { "x": 19, "y": 13 }, { "x": 6, "y": 0 }, { "x": 0, "y": 6 }, { "x": 6, "y": 9 }, { "x": 5, "y": 9 }, { "x": 4, "y": 9 }, { "x": 3, "y": 9 }, { "x": 1, "y": 9 }, { "x": 2, "y": 9 }, { "x": 0, "y": 9 }, { "x": 9, "y": 6 }, { "x": 9, "y": 5 }, { "x": 9, "y": 4 }, { "x": 9, "y": 3 }, { "x": 9, "y": 2 }, { "x": 9, "y": 1 }, { "x": 9, "y": 0 }] },
+    data: { "flags": [{ "x": 19, "y": 0 }, { "x": 0, "y": 19 }], "obstacles": [{ "x": 16, "y": 1 }, { "x": 16, "y": 2 }, { "x": 16, "y": 3 }, { "x": 17, "y": 3 }, { "x": 18, "y": 3 }, { "x": 13, "y": 0 }, { "x": 13, "y": 1 }, { "x": 13, "y": 3 }, { "x": 13, "y": 2 }, { "x": 15, "y": 6 }, { "x": 16, "y": 6 }, { "x": 17, "y": 6 }, { "x": 18, "y": 6 }, { "x": 19, "y": 6 }, { "x": 12, "y": 7 }, { "x": 13, "y": 8 }, { "x": 11, "y": 6 }, { "x": 11, "y": 5 }, { "x": 11, "y": 4 }, { "x": 11, "y": 3 }, { "x": 11, "y": 2 }, { "x": 14, "y": 8 }, { "x": 15, "y": 8 }, { "x": 16, "y": 8 }, { "x": 17, "y": 8 }, { "x": 19, "y": 10 }, { "x": 17, "y": 10 }, { "x": 18, "y": 10 }, { "x": 16, "y": 10 }, { "x": 14, "y": 10 }, { "x": 15, "y": 10 }, { "x": 13, "y": 10 }, { "x": 10, "y": 9 }, { "x": 10, "y": 10 }, { "x": 9, "y": 10 }, { "x": 9, "y": 9 }, { "x": 7, "y": 12 }, { "x": 8, "y": 13 }, { "x": 8, "y": 14 }, { "x": 8, "y": 15 }, { "x": 8, "y": 16 }, { "x": 8, "y": 17 }, { "x": 6, "y": 11 }, { "x": 5, "y": 11 }, { "x": 4, "y": 11 }, { "x": 2, "y": 11 }, { "x": 3, "y": 11 }, { "x": 0, "y": 13 }, { "x": 1, "y": 13 }, { "x": 2, "y": 13 }, { "x": 3, "y": 13 }, { "x": 4, "y": 13 }, { "x": 6, "y": 15 }, { "x": 6, "y": 16 }, { "x": 6, "y": 17 }, { "x": 6, "y": 18 }, { "x": 6, "y": 19 }, { "x": 3, "y": 16 }, { "x": 2, "y": 16 }, { "x": 1, "y": 16 }, { "x": 3, "y": 17 }, { "x": 3, "y": 18 }, { "x": 10, "y": 13 }, { "x": 10, "y": 14 }, { "x": 10, "y": 15 }, { "x": 10, "y": 16 }, { "x": 10, "y": 17 }, { "x": 10, "y": 18 }, { "x": 10, "y": 19 }, { "x": 11, "y": 11 }, { "x": 12, "y": 12 }, { "x": 13, "y": 13 }, { "x": 14, "y": 14 }, { "x": 12, "y": 13 }, { "x": 13, "y": 12 }, { "x": 13, "y": 14 }, { "x": 14, "y": 13 }, { "x": 13, "y": 15 }, { "x": 13, "y": 16 }, { "x": 14, "y": 16 }, { "x": 15, "y": 16 }, { "x": 15, "y": 15 }, { "x": 16, "y": 16 }, { "x": 16, "y": 15 }, { "x": 16, "y": 14 }, { "x": 15, "y": 14 }, { "x": 15, "y": 13 }, { "x": 16, "y": 13 }, { "x": 14, "y": 15 }, { "x": 16, "y": 17 }, { "x": 17, "y": 17 }, { "x": 17, "y": 16 }, { "x": 8, "y": 8 }, { "x": 7, "y": 7 }, { "x": 6, "y": 7 }, { "x": 6, "y": 6 }, { "x": 7, "y": 6 }, { "x": 6, "y": 5 }, { "x": 6, "y": 4 }, { "x": 6, "y": 3 }, { "x": 5, "y": 3 }, { "x": 4, "y": 3 }, { "x": 3, "y": 3 }, { "x": 3, "y": 4 }, { "x": 3, "y": 5 }, { "x": 3, "y": 6 }, { "x": 4, "y": 6 }, { "x": 5, "y": 6 }, { "x": 5, "y": 4 }, { "x": 4, "y": 4 }, { "x": 5, "y": 5 }, { "x": 4, "y": 5 }, { "x": 3, "y": 2 }, { "x": 2, "y": 3 }, { "x": 2, "y": 2 }, { "x": 0, "y": 0 }, { "x": 19, "y": 19 }, { "x": 13, "y": 19 }, { "x": 19, "y": 13 }, { "x": 6, "y": 0 }, { "x": 0, "y": 6 }, { "x": 6, "y": 9 }, { "x": 5, "y": 9 }, { "x": 4, "y": 9 }, { "x": 3, "y": 9 }, { "x": 1, "y": 9 }, { "x": 2, "y": 9 }, { "x": 0, "y": 9 }, { "x": 9, "y": 6 }, { "x": 9, "y": 5 }, { "x": 9, "y": 4 }, { "x": 9, "y": 3 }, { "x": 9, "y": 2 }, { "x": 9, "y": 1 }, { "x": 9, "y": 0 }] },
 
     aiSpawner: { "x": 2, "y": 17 },
 };
 
 const squares: Level = {
     name: 'Squares',
-    data: { "redFlag": { "x": 0, "y": 19 }, "blueFlag": { "x": 19, "y": 0 }, "obstacles": [{ "x": 17, "y": 2 }, { "x": 16, "y": 2 }, { "x": 16, "y": 3 }, { "x": 17, "y": 3 }, { "x": 12, "y": 7 }, { "x": 8, "y": 10 }, { "x": 8, "y": 11 }, { "x": 9, "y": 11 }, { "x": 1, "y": 17 }, { "x": 2, "y": 18 }, { "x": 2, "y": 17 }, { "x": 16, "y": 1 }, { "x": 17, "y": 1 }, { "x": 18, "y": 2 }, { "x": 18, "y": 3 }, { "x": 1, "y": 16 }, { "x": 2, "y": 16 }, { "x": 3, "y": 16 }, { "x": 3, "y": 17 }, { "x": 3, "y": 18 }, { "x": 5, "y": 14 }, { "x": 5, "y": 13 }, { "x": 5, "y": 12 }, { "x": 6, "y": 12 }, { "x": 7, "y": 12 }, { "x": 7, "y": 13 }, { "x": 7, "y": 14 }, { "x": 6, "y": 14 }, { "x": 6, "y": 13 }, { "x": 10, "y": 8 }, { "x": 11, "y": 9 }, { "x": 11, "y": 8 }, { "x": 12, "y": 6 }, { "x": 13, "y": 7 }, { "x": 13, "y": 6 }, { "x": 13, "y": 5 }, { "x": 14, "y": 5 }, { "x": 14, "y": 6 }, { "x": 14, "y": 7 }, { "x": 12, "y": 5 }, { "x": 12, "y": 12 }, { "x": 12, "y": 13 }, { "x": 12, "y": 14 }, { "x": 13, "y": 14 }, { "x": 14, "y": 14 }, { "x": 14, "y": 13 }, { "x": 14, "y": 12 }, { "x": 13, "y": 12 }, { "x": 13, "y": 13 }, { "x": 13, "y": 9 }, { "x": 13, "y": 10 }, { "x": 14, "y": 10 }, { "x": 14, "y": 9 }, { "x": 9, "y": 13 }, { "x": 9, "y": 14 }, { "x": 10, "y": 14 }, { "x": 10, "y": 13 }, { "x": 15, "y": 12 }, { "x": 15, "y": 13 }, { "x": 15, "y": 14 }, { "x": 15, "y": 15 }, { "x": 14, "y": 15 }, { "x": 13, "y": 15 }, { "x": 12, "y": 15 }, { "x": 13, "y": 17 }, { "x": 14, "y": 17 }, { "x": 14, "y": 18 }, { "x": 13, "y": 18 }, { "x": 17, "y": 13 }, { "x": 17, "y": 14 }, { "x": 18, "y": 14 }, { "x": 18, "y": 13 }, { "x": 17, "y": 17 }, { "x": 17, "y": 18 }, { "x": 18, "y": 18 }, { "x": 18, "y": 17 }, { "x": 7, "y": 7 }, { "x": 7, "y": 6 }, { "x": 7, "y": 5 }, { "x": 7, "y": 4 }, { "x": 4, "y": 4 }, { "x": 4, "y": 5 }, { "x": 4, "y": 6 }, { "x": 4, "y": 7 }, { "x": 5, "y": 7 }, { "x": 6, "y": 7 }, { "x": 6, "y": 6 }, { "x": 5, "y": 6 }, { "x": 6, "y": 5 }, { "x": 5, "y": 5 }, { "x": 5, "y": 4 }, { "x": 6, "y": 4 }, { "x": 5, "y": 9 }, { "x": 6, "y": 9 }, { "x": 6, "y": 10 }, { "x": 5, "y": 10 }, { "x": 9, "y": 6 }, { "x": 10, "y": 6 }, { "x": 10, "y": 5 }, { "x": 9, "y": 5 }, { "x": 6, "y": 2 }, { "x": 6, "y": 1 }, { "x": 5, "y": 1 }, { "x": 5, "y": 2 }, { "x": 2, "y": 5 }, { "x": 1, "y": 5 }, { "x": 1, "y": 6 }, { "x": 2, "y": 6 }, { "x": 2, "y": 2 }, { "x": 1, "y": 2 }, { "x": 1, "y": 1 }, { "x": 2, "y": 1 }, { "x": 9, "y": 2 }, { "x": 10, "y": 2 }, { "x": 10, "y": 1 }, { "x": 9, "y": 1 }, { "x": 17, "y": 9 }, { "x": 17, "y": 10 }, { "x": 18, "y": 10 }, { "x": 18, "y": 9 }, { "x": 2, "y": 9 }, { "x": 1, "y": 9 }, { "x": 1, "y": 10 }, { "x": 2, "y": 10 }, { "x": 9, "y": 17 }, { "x": 10, "y": 17 }, { "x": 10, "y": 18 }, { "x": 9, "y": 18 }, { "x": 16, "y": 5 }, { "x": 17, "y": 6 }, { "x": 18, "y": 7 }, { "x": 12, "y": 1 }, { "x": 13, "y": 2 }, { "x": 14, "y": 3 }, { "x": 1, "y": 12 }, { "x": 2, "y": 13 }, { "x": 3, "y": 14 }, { "x": 5, "y": 16 }, { "x": 6, "y": 17 }, { "x": 7, "y": 18 }, { "x": 5, "y": 19 }, { "x": 0, "y": 14 }, { "x": 19, "y": 5 }, { "x": 14, "y": 0 }, { "x": 9, "y": 10 }, { "x": 10, "y": 9 }] },
+    data: { "flags": [{ "x": 19, "y": 0 }, { "x": 0, "y": 19 }], "obstacles": [{ "x": 17, "y": 2 }, { "x": 16, "y": 2 }, { "x": 16, "y": 3 }, { "x": 17, "y": 3 }, { "x": 12, "y": 7 }, { "x": 8, "y": 10 }, { "x": 8, "y": 11 }, { "x": 9, "y": 11 }, { "x": 1, "y": 17 }, { "x": 2, "y": 18 }, { "x": 2, "y": 17 }, { "x": 16, "y": 1 }, { "x": 17, "y": 1 }, { "x": 18, "y": 2 }, { "x": 18, "y": 3 }, { "x": 1, "y": 16 }, { "x": 2, "y": 16 }, { "x": 3, "y": 16 }, { "x": 3, "y": 17 }, { "x": 3, "y": 18 }, { "x": 5, "y": 14 }, { "x": 5, "y": 13 }, { "x": 5, "y": 12 }, { "x": 6, "y": 12 }, { "x": 7, "y": 12 }, { "x": 7, "y": 13 }, { "x": 7, "y": 14 }, { "x": 6, "y": 14 }, { "x": 6, "y": 13 }, { "x": 10, "y": 8 }, { "x": 11, "y": 9 }, { "x": 11, "y": 8 }, { "x": 12, "y": 6 }, { "x": 13, "y": 7 }, { "x": 13, "y": 6 }, { "x": 13, "y": 5 }, { "x": 14, "y": 5 }, { "x": 14, "y": 6 }, { "x": 14, "y": 7 }, { "x": 12, "y": 5 }, { "x": 12, "y": 12 }, { "x": 12, "y": 13 }, { "x": 12, "y": 14 }, { "x": 13, "y": 14 }, { "x": 14, "y": 14 }, { "x": 14, "y": 13 }, { "x": 14, "y": 12 }, { "x": 13, "y": 12 }, { "x": 13, "y": 13 }, { "x": 13, "y": 9 }, { "x": 13, "y": 10 }, { "x": 14, "y": 10 }, { "x": 14, "y": 9 }, { "x": 9, "y": 13 }, { "x": 9, "y": 14 }, { "x": 10, "y": 14 }, { "x": 10, "y": 13 }, { "x": 15, "y": 12 }, { "x": 15, "y": 13 }, { "x": 15, "y": 14 }, { "x": 15, "y": 15 }, { "x": 14, "y": 15 }, { "x": 13, "y": 15 }, { "x": 12, "y": 15 }, { "x": 13, "y": 17 }, { "x": 14, "y": 17 }, { "x": 14, "y": 18 }, { "x": 13, "y": 18 }, { "x": 17, "y": 13 }, { "x": 17, "y": 14 }, { "x": 18, "y": 14 }, { "x": 18, "y": 13 }, { "x": 17, "y": 17 }, { "x": 17, "y": 18 }, { "x": 18, "y": 18 }, { "x": 18, "y": 17 }, { "x": 7, "y": 7 }, { "x": 7, "y": 6 }, { "x": 7, "y": 5 }, { "x": 7, "y": 4 }, { "x": 4, "y": 4 }, { "x": 4, "y": 5 }, { "x": 4, "y": 6 }, { "x": 4, "y": 7 }, { "x": 5, "y": 7 }, { "x": 6, "y": 7 }, { "x": 6, "y": 6 }, { "x": 5, "y": 6 }, { "x": 6, "y": 5 }, { "x": 5, "y": 5 }, { "x": 5, "y": 4 }, { "x": 6, "y": 4 }, { "x": 5, "y": 9 }, { "x": 6, "y": 9 }, { "x": 6, "y": 10 }, { "x": 5, "y": 10 }, { "x": 9, "y": 6 }, { "x": 10, "y": 6 }, { "x": 10, "y": 5 }, { "x": 9, "y": 5 }, { "x": 6, "y": 2 }, { "x": 6, "y": 1 }, { "x": 5, "y": 1 }, { "x": 5, "y": 2 }, { "x": 2, "y": 5 }, { "x": 1, "y": 5 }, { "x": 1, "y": 6 }, { "x": 2, "y": 6 }, { "x": 2, "y": 2 }, { "x": 1, "y": 2 }, { "x": 1, "y": 1 }, { "x": 2, "y": 1 }, { "x": 9, "y": 2 }, { "x": 10, "y": 2 }, { "x": 10, "y": 1 }, { "x": 9, "y": 1 }, { "x": 17, "y": 9 }, { "x": 17, "y": 10 }, { "x": 18, "y": 10 }, { "x": 18, "y": 9 }, { "x": 2, "y": 9 }, { "x": 1, "y": 9 }, { "x": 1, "y": 10 }, { "x": 2, "y": 10 }, { "x": 9, "y": 17 }, { "x": 10, "y": 17 }, { "x": 10, "y": 18 }, { "x": 9, "y": 18 }, { "x": 16, "y": 5 }, { "x": 17, "y": 6 }, { "x": 18, "y": 7 }, { "x": 12, "y": 1 }, { "x": 13, "y": 2 }, { "x": 14, "y": 3 }, { "x": 1, "y": 12 }, { "x": 2, "y": 13 }, { "x": 3, "y": 14 }, { "x": 5, "y": 16 }, { "x": 6, "y": 17 }, { "x": 7, "y": 18 }, { "x": 5, "y": 19 }, { "x": 0, "y": 14 }, { "x": 19, "y": 5 }, { "x": 14, "y": 0 }, { "x": 9, "y": 10 }, { "x": 10, "y": 9 }] },
 
     aiSpawner: { "x": 1, "y": 18 },
 };
 
 const corners: Level = {
     name: 'Corners',
-    data: { "redFlag": { "x": 0, "y": 19 }, "blueFlag": { "x": 19, "y": 0 }, "obstacles": [{ "x": 17, "y": 1 }, { "x": 18, "y": 2 }, { "x": 14, "y": 1 }, { "x": 15, "y": 1 }, { "x": 15, "y": 2 }, { "x": 18, "y": 4 }, { "x": 17, "y": 4 }, { "x": 18, "y": 5 }, { "x": 15, "y": 4 }, { "x": 14, "y": 4 }, { "x": 15, "y": 5 }, { "x": 12, "y": 7 }, { "x": 11, "y": 7 }, { "x": 12, "y": 8 }, { "x": 4, "y": 14 }, { "x": 4, "y": 15 }, { "x": 5, "y": 15 }, { "x": 1, "y": 17 }, { "x": 2, "y": 18 }, { "x": 1, "y": 15 }, { "x": 1, "y": 14 }, { "x": 2, "y": 15 }, { "x": 4, "y": 18 }, { "x": 4, "y": 17 }, { "x": 5, "y": 18 }, { "x": 7, "y": 12 }, { "x": 7, "y": 11 }, { "x": 8, "y": 12 }, { "x": 9, "y": 9 }, { "x": 10, "y": 10 }, { "x": 15, "y": 16 }, { "x": 16, "y": 15 }, { "x": 18, "y": 19 }, { "x": 19, "y": 18 }, { "x": 16, "y": 16 }, { "x": 19, "y": 19 }, { "x": 3, "y": 3 }, { "x": 3, "y": 4 }, { "x": 4, "y": 3 }, { "x": 0, "y": 1 }, { "x": 0, "y": 0 }, { "x": 1, "y": 0 }, { "x": 19, "y": 16 }, { "x": 18, "y": 16 }, { "x": 19, "y": 15 }, { "x": 15, "y": 19 }, { "x": 16, "y": 19 }, { "x": 16, "y": 18 }, { "x": 0, "y": 3 }, { "x": 0, "y": 4 }, { "x": 1, "y": 3 }, { "x": 3, "y": 6 }, { "x": 3, "y": 7 }, { "x": 4, "y": 7 }, { "x": 15, "y": 12 }, { "x": 16, "y": 12 }, { "x": 16, "y": 13 }, { "x": 13, "y": 16 }, { "x": 12, "y": 16 }, { "x": 12, "y": 15 }, { "x": 13, "y": 18 }, { "x": 12, "y": 18 }, { "x": 12, "y": 19 }, { "x": 18, "y": 13 }, { "x": 18, "y": 12 }, { "x": 19, "y": 12 }, { "x": 3, "y": 1 }, { "x": 3, "y": 0 }, { "x": 4, "y": 0 }, { "x": 0, "y": 7 }, { "x": 1, "y": 7 }, { "x": 1, "y": 6 }, { "x": 6, "y": 1 }, { "x": 7, "y": 1 }, { "x": 7, "y": 0 }, { "x": 7, "y": 3 }, { "x": 6, "y": 3 }, { "x": 7, "y": 4 }, { "x": 7, "y": 6 }, { "x": 6, "y": 7 }, { "x": 12, "y": 13 }, { "x": 13, "y": 12 }, { "x": 6, "y": 6 }, { "x": 13, "y": 13 }, { "x": 15, "y": 10 }, { "x": 16, "y": 10 }, { "x": 15, "y": 9 }, { "x": 18, "y": 10 }, { "x": 19, "y": 10 }, { "x": 19, "y": 9 }, { "x": 0, "y": 10 }, { "x": 0, "y": 9 }, { "x": 1, "y": 9 }, { "x": 3, "y": 9 }, { "x": 4, "y": 9 }, { "x": 4, "y": 10 }, { "x": 7, "y": 15 }, { "x": 8, "y": 15 }, { "x": 8, "y": 14 }, { "x": 7, "y": 17 }, { "x": 8, "y": 17 }, { "x": 8, "y": 18 }, { "x": 12, "y": 2 }, { "x": 11, "y": 2 }, { "x": 11, "y": 1 }, { "x": 11, "y": 4 }, { "x": 12, "y": 4 }, { "x": 11, "y": 5 }, { "x": 16, "y": 7 }, { "x": 17, "y": 7 }, { "x": 17, "y": 8 }, { "x": 2, "y": 11 }, { "x": 2, "y": 12 }, { "x": 3, "y": 12 }, { "x": 10, "y": 13 }, { "x": 9, "y": 6 }, { "x": 9, "y": 3 }, { "x": 10, "y": 16 }] },
+    data: { "flags": [{ "x": 19, "y": 0 }, { "x": 0, "y": 19 }], "obstacles": [{ "x": 17, "y": 1 }, { "x": 18, "y": 2 }, { "x": 14, "y": 1 }, { "x": 15, "y": 1 }, { "x": 15, "y": 2 }, { "x": 18, "y": 4 }, { "x": 17, "y": 4 }, { "x": 18, "y": 5 }, { "x": 15, "y": 4 }, { "x": 14, "y": 4 }, { "x": 15, "y": 5 }, { "x": 12, "y": 7 }, { "x": 11, "y": 7 }, { "x": 12, "y": 8 }, { "x": 4, "y": 14 }, { "x": 4, "y": 15 }, { "x": 5, "y": 15 }, { "x": 1, "y": 17 }, { "x": 2, "y": 18 }, { "x": 1, "y": 15 }, { "x": 1, "y": 14 }, { "x": 2, "y": 15 }, { "x": 4, "y": 18 }, { "x": 4, "y": 17 }, { "x": 5, "y": 18 }, { "x": 7, "y": 12 }, { "x": 7, "y": 11 }, { "x": 8, "y": 12 }, { "x": 9, "y": 9 }, { "x": 10, "y": 10 }, { "x": 15, "y": 16 }, { "x": 16, "y": 15 }, { "x": 18, "y": 19 }, { "x": 19, "y": 18 }, { "x": 16, "y": 16 }, { "x": 19, "y": 19 }, { "x": 3, "y": 3 }, { "x": 3, "y": 4 }, { "x": 4, "y": 3 }, { "x": 0, "y": 1 }, { "x": 0, "y": 0 }, { "x": 1, "y": 0 }, { "x": 19, "y": 16 }, { "x": 18, "y": 16 }, { "x": 19, "y": 15 }, { "x": 15, "y": 19 }, { "x": 16, "y": 19 }, { "x": 16, "y": 18 }, { "x": 0, "y": 3 }, { "x": 0, "y": 4 }, { "x": 1, "y": 3 }, { "x": 3, "y": 6 }, { "x": 3, "y": 7 }, { "x": 4, "y": 7 }, { "x": 15, "y": 12 }, { "x": 16, "y": 12 }, { "x": 16, "y": 13 }, { "x": 13, "y": 16 }, { "x": 12, "y": 16 }, { "x": 12, "y": 15 }, { "x": 13, "y": 18 }, { "x": 12, "y": 18 }, { "x": 12, "y": 19 }, { "x": 18, "y": 13 }, { "x": 18, "y": 12 }, { "x": 19, "y": 12 }, { "x": 3, "y": 1 }, { "x": 3, "y": 0 }, { "x": 4, "y": 0 }, { "x": 0, "y": 7 }, { "x": 1, "y": 7 }, { "x": 1, "y": 6 }, { "x": 6, "y": 1 }, { "x": 7, "y": 1 }, { "x": 7, "y": 0 }, { "x": 7, "y": 3 }, { "x": 6, "y": 3 }, { "x": 7, "y": 4 }, { "x": 7, "y": 6 }, { "x": 6, "y": 7 }, { "x": 12, "y": 13 }, { "x": 13, "y": 12 }, { "x": 6, "y": 6 }, { "x": 13, "y": 13 }, { "x": 15, "y": 10 }, { "x": 16, "y": 10 }, { "x": 15, "y": 9 }, { "x": 18, "y": 10 }, { "x": 19, "y": 10 }, { "x": 19, "y": 9 }, { "x": 0, "y": 10 }, { "x": 0, "y": 9 }, { "x": 1, "y": 9 }, { "x": 3, "y": 9 }, { "x": 4, "y": 9 }, { "x": 4, "y": 10 }, { "x": 7, "y": 15 }, { "x": 8, "y": 15 }, { "x": 8, "y": 14 }, { "x": 7, "y": 17 }, { "x": 8, "y": 17 }, { "x": 8, "y": 18 }, { "x": 12, "y": 2 }, { "x": 11, "y": 2 }, { "x": 11, "y": 1 }, { "x": 11, "y": 4 }, { "x": 12, "y": 4 }, { "x": 11, "y": 5 }, { "x": 16, "y": 7 }, { "x": 17, "y": 7 }, { "x": 17, "y": 8 }, { "x": 2, "y": 11 }, { "x": 2, "y": 12 }, { "x": 3, "y": 12 }, { "x": 10, "y": 13 }, { "x": 9, "y": 6 }, { "x": 9, "y": 3 }, { "x": 10, "y": 16 }] },
 
     aiSpawner: { "x": 1, "y": 18 },
 };
 
 const spotted: Level = {
     name: 'Spotted',
-    data: { "redFlag": { "x": 0, "y": 19 }, "blueFlag": { "x": 19, "y": 0 }, "obstacles": [{ "x": 1, "y": 1 }, { "x": 2, "y": 2 }, { "x": 3, "y": 3 }, { "x": 9, "y": 9 }, { "x": 10, "y": 10 }, { "x": 11, "y": 11 }, { "x": 17, "y": 17 }, { "x": 18, "y": 18 }, { "x": 8, "y": 8 }, { "x": 16, "y": 16 }, { "x": 10, "y": 9 }, { "x": 11, "y": 8 }, { "x": 9, "y": 10 }, { "x": 8, "y": 11 }, { "x": 6, "y": 13 }, { "x": 5, "y": 14 }, { "x": 13, "y": 6 }, { "x": 14, "y": 5 }, { "x": 16, "y": 3 }, { "x": 17, "y": 2 }, { "x": 3, "y": 16 }, { "x": 2, "y": 17 }, { "x": 1, "y": 17 }, { "x": 2, "y": 18 }, { "x": 18, "y": 2 }, { "x": 17, "y": 1 }, { "x": 13, "y": 5 }, { "x": 14, "y": 6 }, { "x": 5, "y": 13 }, { "x": 6, "y": 14 }, { "x": 8, "y": 16 }, { "x": 9, "y": 17 }, { "x": 11, "y": 19 }, { "x": 3, "y": 11 }, { "x": 2, "y": 10 }, { "x": 0, "y": 8 }, { "x": 0, "y": 7 }, { "x": 12, "y": 19 }, { "x": 11, "y": 3 }, { "x": 10, "y": 2 }, { "x": 16, "y": 8 }, { "x": 17, "y": 9 }, { "x": 19, "y": 11 }, { "x": 19, "y": 12 }, { "x": 8, "y": 0 }, { "x": 7, "y": 0 }, { "x": 13, "y": 13 }, { "x": 14, "y": 14 }, { "x": 6, "y": 6 }, { "x": 5, "y": 5 }, { "x": 4, "y": 7 }, { "x": 3, "y": 8 }, { "x": 7, "y": 4 }, { "x": 8, "y": 3 }, { "x": 8, "y": 4 }, { "x": 7, "y": 3 }, { "x": 4, "y": 8 }, { "x": 3, "y": 7 }, { "x": 12, "y": 15 }, { "x": 11, "y": 15 }, { "x": 11, "y": 16 }, { "x": 12, "y": 16 }, { "x": 15, "y": 12 }, { "x": 16, "y": 12 }, { "x": 16, "y": 11 }, { "x": 15, "y": 11 }, { "x": 13, "y": 10 }, { "x": 10, "y": 13 }, { "x": 6, "y": 9 }, { "x": 9, "y": 6 }, { "x": 2, "y": 1 }, { "x": 1, "y": 2 }, { "x": 2, "y": 3 }, { "x": 3, "y": 2 }, { "x": 16, "y": 17 }, { "x": 17, "y": 18 }, { "x": 18, "y": 17 }, { "x": 17, "y": 16 }, { "x": 1, "y": 7 }, { "x": 12, "y": 18 }, { "x": 18, "y": 12 }, { "x": 7, "y": 1 }, { "x": 5, "y": 18 }, { "x": 6, "y": 19 }, { "x": 1, "y": 14 }, { "x": 0, "y": 13 }, { "x": 18, "y": 5 }, { "x": 19, "y": 6 }, { "x": 13, "y": 1 }, { "x": 12, "y": 0 }, { "x": 0, "y": 5 }, { "x": 0, "y": 6 }, { "x": 1, "y": 6 }, { "x": 18, "y": 13 }, { "x": 19, "y": 14 }, { "x": 19, "y": 13 }, { "x": 6, "y": 0 }, { "x": 6, "y": 1 }, { "x": 5, "y": 0 }, { "x": 13, "y": 18 }, { "x": 13, "y": 19 }, { "x": 14, "y": 19 }] },
+    data: { "flags": [{ "x": 19, "y": 0 }, { "x": 0, "y": 19 }, { "x": 0, "y": 0 }, { "x": 19, "y": 19 }], "obstacles": [{ "x": 1, "y": 1 }, { "x": 2, "y": 2 }, { "x": 3, "y": 3 }, { "x": 9, "y": 9 }, { "x": 10, "y": 10 }, { "x": 11, "y": 11 }, { "x": 17, "y": 17 }, { "x": 18, "y": 18 }, { "x": 8, "y": 8 }, { "x": 16, "y": 16 }, { "x": 10, "y": 9 }, { "x": 11, "y": 8 }, { "x": 9, "y": 10 }, { "x": 8, "y": 11 }, { "x": 6, "y": 13 }, { "x": 5, "y": 14 }, { "x": 13, "y": 6 }, { "x": 14, "y": 5 }, { "x": 16, "y": 3 }, { "x": 17, "y": 2 }, { "x": 3, "y": 16 }, { "x": 2, "y": 17 }, { "x": 1, "y": 17 }, { "x": 2, "y": 18 }, { "x": 18, "y": 2 }, { "x": 17, "y": 1 }, { "x": 13, "y": 5 }, { "x": 14, "y": 6 }, { "x": 5, "y": 13 }, { "x": 6, "y": 14 }, { "x": 8, "y": 16 }, { "x": 9, "y": 17 }, { "x": 11, "y": 19 }, { "x": 3, "y": 11 }, { "x": 2, "y": 10 }, { "x": 0, "y": 8 }, { "x": 0, "y": 7 }, { "x": 12, "y": 19 }, { "x": 11, "y": 3 }, { "x": 10, "y": 2 }, { "x": 16, "y": 8 }, { "x": 17, "y": 9 }, { "x": 19, "y": 11 }, { "x": 19, "y": 12 }, { "x": 8, "y": 0 }, { "x": 7, "y": 0 }, { "x": 13, "y": 13 }, { "x": 14, "y": 14 }, { "x": 6, "y": 6 }, { "x": 5, "y": 5 }, { "x": 4, "y": 7 }, { "x": 3, "y": 8 }, { "x": 7, "y": 4 }, { "x": 8, "y": 3 }, { "x": 8, "y": 4 }, { "x": 7, "y": 3 }, { "x": 4, "y": 8 }, { "x": 3, "y": 7 }, { "x": 12, "y": 15 }, { "x": 11, "y": 15 }, { "x": 11, "y": 16 }, { "x": 12, "y": 16 }, { "x": 15, "y": 12 }, { "x": 16, "y": 12 }, { "x": 16, "y": 11 }, { "x": 15, "y": 11 }, { "x": 13, "y": 10 }, { "x": 10, "y": 13 }, { "x": 6, "y": 9 }, { "x": 9, "y": 6 }, { "x": 2, "y": 1 }, { "x": 1, "y": 2 }, { "x": 2, "y": 3 }, { "x": 3, "y": 2 }, { "x": 16, "y": 17 }, { "x": 17, "y": 18 }, { "x": 18, "y": 17 }, { "x": 17, "y": 16 }, { "x": 1, "y": 7 }, { "x": 12, "y": 18 }, { "x": 18, "y": 12 }, { "x": 7, "y": 1 }, { "x": 5, "y": 18 }, { "x": 6, "y": 19 }, { "x": 1, "y": 14 }, { "x": 0, "y": 13 }, { "x": 18, "y": 5 }, { "x": 19, "y": 6 }, { "x": 13, "y": 1 }, { "x": 12, "y": 0 }, { "x": 0, "y": 5 }, { "x": 0, "y": 6 }, { "x": 1, "y": 6 }, { "x": 18, "y": 13 }, { "x": 19, "y": 14 }, { "x": 19, "y": 13 }, { "x": 6, "y": 0 }, { "x": 6, "y": 1 }, { "x": 5, "y": 0 }, { "x": 13, "y": 18 }, { "x": 13, "y": 19 }, { "x": 14, "y": 19 }] },
 
     aiSpawner: { "x": 1, "y": 18 },
 };
 
 const entropy: Level = {
     name: 'Entropy',
-    data: { "redFlag": { "x": 0, "y": 19 }, "blueFlag": { "x": 19, "y": 0 }, "obstacles": [{ "x": 16, "y": 3 }, { "x": 15, "y": 5 }, { "x": 16, "y": 7 }, { "x": 13, "y": 5 }, { "x": 11, "y": 3 }, { "x": 5, "y": 4 }, { "x": 5, "y": 7 }, { "x": 10, "y": 10 }, { "x": 11, "y": 11 }, { "x": 8, "y": 3 }, { "x": 11, "y": 6 }, { "x": 14, "y": 9 }, { "x": 13, "y": 10 }, { "x": 8, "y": 6 }, { "x": 7, "y": 6 }, { "x": 6, "y": 11 }, { "x": 6, "y": 13 }, { "x": 3, "y": 11 }, { "x": 2, "y": 5 }, { "x": 5, "y": 5 }, { "x": 9, "y": 10 }, { "x": 10, "y": 14 }, { "x": 4, "y": 10 }, { "x": 3, "y": 8 }, { "x": 0, "y": 10 }, { "x": 2, "y": 14 }, { "x": 6, "y": 15 }, { "x": 6, "y": 18 }, { "x": 3, "y": 18 }, { "x": 1, "y": 16 }, { "x": 0, "y": 17 }, { "x": 5, "y": 18 }, { "x": 4, "y": 14 }, { "x": 4, "y": 13 }, { "x": 4, "y": 17 }, { "x": 12, "y": 16 }, { "x": 13, "y": 13 }, { "x": 10, "y": 17 }, { "x": 8, "y": 17 }, { "x": 8, "y": 13 }, { "x": 11, "y": 14 }, { "x": 11, "y": 16 }, { "x": 9, "y": 19 }, { "x": 16, "y": 18 }, { "x": 14, "y": 14 }, { "x": 15, "y": 16 }, { "x": 14, "y": 18 }, { "x": 18, "y": 15 }, { "x": 16, "y": 12 }, { "x": 18, "y": 13 }, { "x": 15, "y": 13 }, { "x": 15, "y": 11 }, { "x": 16, "y": 10 }, { "x": 10, "y": 7 }, { "x": 8, "y": 8 }, { "x": 7, "y": 11 }, { "x": 7, "y": 7 }, { "x": 12, "y": 8 }, { "x": 13, "y": 9 }, { "x": 15, "y": 9 }, { "x": 19, "y": 7 }, { "x": 18, "y": 8 }, { "x": 17, "y": 5 }, { "x": 17, "y": 2 }, { "x": 17, "y": 1 }, { "x": 13, "y": 1 }, { "x": 11, "y": 2 }, { "x": 13, "y": 3 }, { "x": 11, "y": 1 }, { "x": 8, "y": 1 }, { "x": 7, "y": 2 }, { "x": 4, "y": 1 }, { "x": 4, "y": 0 }, { "x": 2, "y": 1 }, { "x": 2, "y": 3 }, { "x": 0, "y": 4 }, { "x": 1, "y": 7 }, { "x": 1, "y": 9 }, { "x": 2, "y": 10 }, { "x": 1, "y": 12 }, { "x": 6, "y": 14 }, { "x": 12, "y": 14 }, { "x": 14, "y": 17 }, { "x": 8, "y": 16 }, { "x": 7, "y": 13 }, { "x": 10, "y": 11 }, { "x": 4, "y": 6 }, { "x": 3, "y": 9 }, { "x": 5, "y": 8 }, { "x": 6, "y": 4 }, { "x": 12, "y": 5 }, { "x": 17, "y": 3 }, { "x": 19, "y": 6 }, { "x": 19, "y": 8 }, { "x": 18, "y": 14 }, { "x": 19, "y": 14 }, { "x": 17, "y": 18 }, { "x": 15, "y": 18 }, { "x": 13, "y": 18 }, { "x": 1, "y": 13 }, { "x": 0, "y": 0 }, { "x": 13, "y": 0 }, { "x": 7, "y": 8 }, { "x": 8, "y": 9 }, { "x": 9, "y": 9 }, { "x": 11, "y": 12 }, { "x": 13, "y": 14 }, { "x": 15, "y": 12 }, { "x": 15, "y": 14 }, { "x": 16, "y": 11 }, { "x": 16, "y": 9 }, { "x": 10, "y": 6 }, { "x": 11, "y": 5 }, { "x": 14, "y": 16 }, { "x": 10, "y": 16 }, { "x": 3, "y": 10 }, { "x": 0, "y": 9 }, { "x": 2, "y": 9 }, { "x": 3, "y": 6 }] },
+    data: { "flags": [{ "x": 19, "y": 0 }, { "x": 0, "y": 19 }], "obstacles": [{ "x": 16, "y": 3 }, { "x": 15, "y": 5 }, { "x": 16, "y": 7 }, { "x": 13, "y": 5 }, { "x": 11, "y": 3 }, { "x": 5, "y": 4 }, { "x": 5, "y": 7 }, { "x": 10, "y": 10 }, { "x": 11, "y": 11 }, { "x": 8, "y": 3 }, { "x": 11, "y": 6 }, { "x": 14, "y": 9 }, { "x": 13, "y": 10 }, { "x": 8, "y": 6 }, { "x": 7, "y": 6 }, { "x": 6, "y": 11 }, { "x": 6, "y": 13 }, { "x": 3, "y": 11 }, { "x": 2, "y": 5 }, { "x": 5, "y": 5 }, { "x": 9, "y": 10 }, { "x": 10, "y": 14 }, { "x": 4, "y": 10 }, { "x": 3, "y": 8 }, { "x": 0, "y": 10 }, { "x": 2, "y": 14 }, { "x": 6, "y": 15 }, { "x": 6, "y": 18 }, { "x": 3, "y": 18 }, { "x": 1, "y": 16 }, { "x": 0, "y": 17 }, { "x": 5, "y": 18 }, { "x": 4, "y": 14 }, { "x": 4, "y": 13 }, { "x": 4, "y": 17 }, { "x": 12, "y": 16 }, { "x": 13, "y": 13 }, { "x": 10, "y": 17 }, { "x": 8, "y": 17 }, { "x": 8, "y": 13 }, { "x": 11, "y": 14 }, { "x": 11, "y": 16 }, { "x": 9, "y": 19 }, { "x": 16, "y": 18 }, { "x": 14, "y": 14 }, { "x": 15, "y": 16 }, { "x": 14, "y": 18 }, { "x": 18, "y": 15 }, { "x": 16, "y": 12 }, { "x": 18, "y": 13 }, { "x": 15, "y": 13 }, { "x": 15, "y": 11 }, { "x": 16, "y": 10 }, { "x": 10, "y": 7 }, { "x": 8, "y": 8 }, { "x": 7, "y": 11 }, { "x": 7, "y": 7 }, { "x": 12, "y": 8 }, { "x": 13, "y": 9 }, { "x": 15, "y": 9 }, { "x": 19, "y": 7 }, { "x": 18, "y": 8 }, { "x": 17, "y": 5 }, { "x": 17, "y": 2 }, { "x": 17, "y": 1 }, { "x": 13, "y": 1 }, { "x": 11, "y": 2 }, { "x": 13, "y": 3 }, { "x": 11, "y": 1 }, { "x": 8, "y": 1 }, { "x": 7, "y": 2 }, { "x": 4, "y": 1 }, { "x": 4, "y": 0 }, { "x": 2, "y": 1 }, { "x": 2, "y": 3 }, { "x": 0, "y": 4 }, { "x": 1, "y": 7 }, { "x": 1, "y": 9 }, { "x": 2, "y": 10 }, { "x": 1, "y": 12 }, { "x": 6, "y": 14 }, { "x": 12, "y": 14 }, { "x": 14, "y": 17 }, { "x": 8, "y": 16 }, { "x": 7, "y": 13 }, { "x": 10, "y": 11 }, { "x": 4, "y": 6 }, { "x": 3, "y": 9 }, { "x": 5, "y": 8 }, { "x": 6, "y": 4 }, { "x": 12, "y": 5 }, { "x": 17, "y": 3 }, { "x": 19, "y": 6 }, { "x": 19, "y": 8 }, { "x": 18, "y": 14 }, { "x": 19, "y": 14 }, { "x": 17, "y": 18 }, { "x": 15, "y": 18 }, { "x": 13, "y": 18 }, { "x": 1, "y": 13 }, { "x": 0, "y": 0 }, { "x": 13, "y": 0 }, { "x": 7, "y": 8 }, { "x": 8, "y": 9 }, { "x": 9, "y": 9 }, { "x": 11, "y": 12 }, { "x": 13, "y": 14 }, { "x": 15, "y": 12 }, { "x": 15, "y": 14 }, { "x": 16, "y": 11 }, { "x": 16, "y": 9 }, { "x": 10, "y": 6 }, { "x": 11, "y": 5 }, { "x": 14, "y": 16 }, { "x": 10, "y": 16 }, { "x": 3, "y": 10 }, { "x": 0, "y": 9 }, { "x": 2, "y": 9 }, { "x": 3, "y": 6 }] },
 
     aiSpawner: { "x": 1, "y": 18 },
 };
 
 const sliced: Level = {
     name: 'Sliced',
-    data: { "redFlag": { "x": 0, "y": 19 }, "blueFlag": { "x": 19, "y": 0 }, "obstacles": [{ "x": 17, "y": 2 }, { "x": 16, "y": 3 }, { "x": 14, "y": 5 }, { "x": 15, "y": 4 }, { "x": 2, "y": 17 }, { "x": 3, "y": 16 }, { "x": 4, "y": 15 }, { "x": 5, "y": 14 }, { "x": 2, "y": 13 }, { "x": 3, "y": 12 }, { "x": 4, "y": 11 }, { "x": 5, "y": 10 }, { "x": 13, "y": 2 }, { "x": 12, "y": 3 }, { "x": 11, "y": 4 }, { "x": 10, "y": 5 }, { "x": 7, "y": 12 }, { "x": 8, "y": 11 }, { "x": 9, "y": 10 }, { "x": 10, "y": 9 }, { "x": 11, "y": 8 }, { "x": 12, "y": 7 }, { "x": 6, "y": 17 }, { "x": 7, "y": 16 }, { "x": 8, "y": 15 }, { "x": 9, "y": 14 }, { "x": 17, "y": 6 }, { "x": 16, "y": 7 }, { "x": 15, "y": 8 }, { "x": 14, "y": 9 }, { "x": 6, "y": 6 }, { "x": 5, "y": 7 }, { "x": 4, "y": 8 }, { "x": 3, "y": 9 }, { "x": 7, "y": 5 }, { "x": 8, "y": 4 }, { "x": 9, "y": 3 }, { "x": 13, "y": 13 }, { "x": 14, "y": 12 }, { "x": 15, "y": 11 }, { "x": 16, "y": 10 }, { "x": 12, "y": 14 }, { "x": 11, "y": 15 }, { "x": 10, "y": 16 }, { "x": 11, "y": 11 }, { "x": 11, "y": 12 }, { "x": 12, "y": 11 }, { "x": 7, "y": 8 }, { "x": 8, "y": 8 }, { "x": 8, "y": 7 }, { "x": 10, "y": 19 }, { "x": 11, "y": 18 }, { "x": 12, "y": 17 }, { "x": 13, "y": 16 }, { "x": 15, "y": 14 }, { "x": 16, "y": 13 }, { "x": 17, "y": 12 }, { "x": 18, "y": 11 }, { "x": 9, "y": 0 }, { "x": 8, "y": 1 }, { "x": 7, "y": 2 }, { "x": 6, "y": 3 }, { "x": 4, "y": 5 }, { "x": 3, "y": 6 }, { "x": 2, "y": 7 }, { "x": 1, "y": 8 }, { "x": 15, "y": 17 }, { "x": 16, "y": 16 }, { "x": 4, "y": 2 }, { "x": 3, "y": 3 }, { "x": 3, "y": 0 }, { "x": 2, "y": 1 }, { "x": 1, "y": 2 }, { "x": 16, "y": 19 }, { "x": 17, "y": 18 }, { "x": 18, "y": 17 }, { "x": 0, "y": 12 }, { "x": 1, "y": 11 }, { "x": 18, "y": 9 }, { "x": 19, "y": 8 }, { "x": 6, "y": 19 }, { "x": 2, "y": 19 }, { "x": 17, "y": 0 }, { "x": 13, "y": 0 }, { "x": 0, "y": 6 }, { "x": 1, "y": 5 }, { "x": 18, "y": 14 }, { "x": 19, "y": 13 }, { "x": 19, "y": 5 }, { "x": 18, "y": 4 }, { "x": 1, "y": 15 }, { "x": 0, "y": 14 }] },
+    data: { "flags": [{ "x": 19, "y": 0 }, { "x": 0, "y": 19 }], "obstacles": [{ "x": 17, "y": 2 }, { "x": 16, "y": 3 }, { "x": 14, "y": 5 }, { "x": 15, "y": 4 }, { "x": 2, "y": 17 }, { "x": 3, "y": 16 }, { "x": 4, "y": 15 }, { "x": 5, "y": 14 }, { "x": 2, "y": 13 }, { "x": 3, "y": 12 }, { "x": 4, "y": 11 }, { "x": 5, "y": 10 }, { "x": 13, "y": 2 }, { "x": 12, "y": 3 }, { "x": 11, "y": 4 }, { "x": 10, "y": 5 }, { "x": 7, "y": 12 }, { "x": 8, "y": 11 }, { "x": 9, "y": 10 }, { "x": 10, "y": 9 }, { "x": 11, "y": 8 }, { "x": 12, "y": 7 }, { "x": 6, "y": 17 }, { "x": 7, "y": 16 }, { "x": 8, "y": 15 }, { "x": 9, "y": 14 }, { "x": 17, "y": 6 }, { "x": 16, "y": 7 }, { "x": 15, "y": 8 }, { "x": 14, "y": 9 }, { "x": 6, "y": 6 }, { "x": 5, "y": 7 }, { "x": 4, "y": 8 }, { "x": 3, "y": 9 }, { "x": 7, "y": 5 }, { "x": 8, "y": 4 }, { "x": 9, "y": 3 }, { "x": 13, "y": 13 }, { "x": 14, "y": 12 }, { "x": 15, "y": 11 }, { "x": 16, "y": 10 }, { "x": 12, "y": 14 }, { "x": 11, "y": 15 }, { "x": 10, "y": 16 }, { "x": 11, "y": 11 }, { "x": 11, "y": 12 }, { "x": 12, "y": 11 }, { "x": 7, "y": 8 }, { "x": 8, "y": 8 }, { "x": 8, "y": 7 }, { "x": 10, "y": 19 }, { "x": 11, "y": 18 }, { "x": 12, "y": 17 }, { "x": 13, "y": 16 }, { "x": 15, "y": 14 }, { "x": 16, "y": 13 }, { "x": 17, "y": 12 }, { "x": 18, "y": 11 }, { "x": 9, "y": 0 }, { "x": 8, "y": 1 }, { "x": 7, "y": 2 }, { "x": 6, "y": 3 }, { "x": 4, "y": 5 }, { "x": 3, "y": 6 }, { "x": 2, "y": 7 }, { "x": 1, "y": 8 }, { "x": 15, "y": 17 }, { "x": 16, "y": 16 }, { "x": 4, "y": 2 }, { "x": 3, "y": 3 }, { "x": 3, "y": 0 }, { "x": 2, "y": 1 }, { "x": 1, "y": 2 }, { "x": 16, "y": 19 }, { "x": 17, "y": 18 }, { "x": 18, "y": 17 }, { "x": 0, "y": 12 }, { "x": 1, "y": 11 }, { "x": 18, "y": 9 }, { "x": 19, "y": 8 }, { "x": 6, "y": 19 }, { "x": 2, "y": 19 }, { "x": 17, "y": 0 }, { "x": 13, "y": 0 }, { "x": 0, "y": 6 }, { "x": 1, "y": 5 }, { "x": 18, "y": 14 }, { "x": 19, "y": 13 }, { "x": 19, "y": 5 }, { "x": 18, "y": 4 }, { "x": 1, "y": 15 }, { "x": 0, "y": 14 }] },
 
     aiSpawner: { "x": 1, "y": 18 },
 };
 
 const pockets: Level = {
     name: 'Pockets',
-    data: { "redFlag": { "x": 10, "y": 19 }, "blueFlag": { "x": 10, "y": 0 }, "obstacles": [{ "x": 7, "y": 1 }, { "x": 7, "y": 2 }, { "x": 7, "y": 3 }, { "x": 7, "y": 4 }, { "x": 8, "y": 4 }, { "x": 9, "y": 4 }, { "x": 10, "y": 4 }, { "x": 11, "y": 4 }, { "x": 12, "y": 4 }, { "x": 13, "y": 4 }, { "x": 13, "y": 3 }, { "x": 13, "y": 2 }, { "x": 13, "y": 1 }, { "x": 7, "y": 17 }, { "x": 7, "y": 18 }, { "x": 7, "y": 16 }, { "x": 7, "y": 15 }, { "x": 8, "y": 15 }, { "x": 9, "y": 15 }, { "x": 10, "y": 15 }, { "x": 12, "y": 15 }, { "x": 11, "y": 15 }, { "x": 13, "y": 15 }, { "x": 13, "y": 16 }, { "x": 13, "y": 17 }, { "x": 13, "y": 18 }, { "x": 7, "y": 8 }, { "x": 6, "y": 8 }, { "x": 5, "y": 8 }, { "x": 4, "y": 8 }, { "x": 5, "y": 13 }, { "x": 5, "y": 12 }, { "x": 5, "y": 11 }, { "x": 6, "y": 11 }, { "x": 7, "y": 11 }, { "x": 8, "y": 11 }, { "x": 9, "y": 11 }, { "x": 9, "y": 12 }, { "x": 9, "y": 13 }, { "x": 12, "y": 11 }, { "x": 12, "y": 13 }, { "x": 12, "y": 12 }, { "x": 13, "y": 11 }, { "x": 14, "y": 11 }, { "x": 15, "y": 11 }, { "x": 16, "y": 11 }, { "x": 16, "y": 12 }, { "x": 16, "y": 13 }, { "x": 3, "y": 11 }, { "x": 2, "y": 11 }, { "x": 1, "y": 11 }, { "x": 3, "y": 12 }, { "x": 3, "y": 13 }, { "x": 3, "y": 14 }, { "x": 3, "y": 15 }, { "x": 3, "y": 16 }, { "x": 3, "y": 17 }, { "x": 2, "y": 17 }, { "x": 1, "y": 17 }, { "x": 17, "y": 2 }, { "x": 18, "y": 2 }, { "x": 16, "y": 2 }, { "x": 16, "y": 3 }, { "x": 16, "y": 4 }, { "x": 16, "y": 5 }, { "x": 16, "y": 6 }, { "x": 16, "y": 7 }, { "x": 16, "y": 8 }, { "x": 17, "y": 8 }, { "x": 18, "y": 8 }, { "x": 14, "y": 6 }, { "x": 14, "y": 7 }, { "x": 14, "y": 8 }, { "x": 13, "y": 8 }, { "x": 12, "y": 8 }, { "x": 11, "y": 8 }, { "x": 10, "y": 8 }, { "x": 10, "y": 7 }, { "x": 10, "y": 6 }, { "x": 7, "y": 7 }, { "x": 7, "y": 6 }, { "x": 3, "y": 8 }, { "x": 3, "y": 7 }, { "x": 3, "y": 6 }, { "x": 18, "y": 18 }, { "x": 17, "y": 18 }, { "x": 16, "y": 18 }, { "x": 16, "y": 17 }, { "x": 16, "y": 16 }, { "x": 16, "y": 15 }, { "x": 17, "y": 15 }, { "x": 18, "y": 15 }, { "x": 3, "y": 4 }, { "x": 4, "y": 4 }, { "x": 4, "y": 1 }, { "x": 3, "y": 1 }, { "x": 2, "y": 1 }, { "x": 2, "y": 4 }, { "x": 4, "y": 2 }, { "x": 4, "y": 3 }, { "x": 1, "y": 1 }, { "x": 1, "y": 4 }, { "x": 0, "y": 7 }, { "x": 0, "y": 8 }, { "x": 19, "y": 11 }, { "x": 19, "y": 12 }, { "x": 19, "y": 13 }, { "x": 0, "y": 6 }, { "x": 0, "y": 19 }, { "x": 19, "y": 0 }] },
+    data: { "flags": [{ "x": 10, "y": 0 }, { "x": 10, "y": 19 }], "obstacles": [{ "x": 7, "y": 1 }, { "x": 7, "y": 2 }, { "x": 7, "y": 3 }, { "x": 7, "y": 4 }, { "x": 8, "y": 4 }, { "x": 9, "y": 4 }, { "x": 10, "y": 4 }, { "x": 11, "y": 4 }, { "x": 12, "y": 4 }, { "x": 13, "y": 4 }, { "x": 13, "y": 3 }, { "x": 13, "y": 2 }, { "x": 13, "y": 1 }, { "x": 7, "y": 17 }, { "x": 7, "y": 18 }, { "x": 7, "y": 16 }, { "x": 7, "y": 15 }, { "x": 8, "y": 15 }, { "x": 9, "y": 15 }, { "x": 10, "y": 15 }, { "x": 12, "y": 15 }, { "x": 11, "y": 15 }, { "x": 13, "y": 15 }, { "x": 13, "y": 16 }, { "x": 13, "y": 17 }, { "x": 13, "y": 18 }, { "x": 7, "y": 8 }, { "x": 6, "y": 8 }, { "x": 5, "y": 8 }, { "x": 4, "y": 8 }, { "x": 5, "y": 13 }, { "x": 5, "y": 12 }, { "x": 5, "y": 11 }, { "x": 6, "y": 11 }, { "x": 7, "y": 11 }, { "x": 8, "y": 11 }, { "x": 9, "y": 11 }, { "x": 9, "y": 12 }, { "x": 9, "y": 13 }, { "x": 12, "y": 11 }, { "x": 12, "y": 13 }, { "x": 12, "y": 12 }, { "x": 13, "y": 11 }, { "x": 14, "y": 11 }, { "x": 15, "y": 11 }, { "x": 16, "y": 11 }, { "x": 16, "y": 12 }, { "x": 16, "y": 13 }, { "x": 3, "y": 11 }, { "x": 2, "y": 11 }, { "x": 1, "y": 11 }, { "x": 3, "y": 12 }, { "x": 3, "y": 13 }, { "x": 3, "y": 14 }, { "x": 3, "y": 15 }, { "x": 3, "y": 16 }, { "x": 3, "y": 17 }, { "x": 2, "y": 17 }, { "x": 1, "y": 17 }, { "x": 17, "y": 2 }, { "x": 18, "y": 2 }, { "x": 16, "y": 2 }, { "x": 16, "y": 3 }, { "x": 16, "y": 4 }, { "x": 16, "y": 5 }, { "x": 16, "y": 6 }, { "x": 16, "y": 7 }, { "x": 16, "y": 8 }, { "x": 17, "y": 8 }, { "x": 18, "y": 8 }, { "x": 14, "y": 6 }, { "x": 14, "y": 7 }, { "x": 14, "y": 8 }, { "x": 13, "y": 8 }, { "x": 12, "y": 8 }, { "x": 11, "y": 8 }, { "x": 10, "y": 8 }, { "x": 10, "y": 7 }, { "x": 10, "y": 6 }, { "x": 7, "y": 7 }, { "x": 7, "y": 6 }, { "x": 3, "y": 8 }, { "x": 3, "y": 7 }, { "x": 3, "y": 6 }, { "x": 18, "y": 18 }, { "x": 17, "y": 18 }, { "x": 16, "y": 18 }, { "x": 16, "y": 17 }, { "x": 16, "y": 16 }, { "x": 16, "y": 15 }, { "x": 17, "y": 15 }, { "x": 18, "y": 15 }, { "x": 3, "y": 4 }, { "x": 4, "y": 4 }, { "x": 4, "y": 1 }, { "x": 3, "y": 1 }, { "x": 2, "y": 1 }, { "x": 2, "y": 4 }, { "x": 4, "y": 2 }, { "x": 4, "y": 3 }, { "x": 1, "y": 1 }, { "x": 1, "y": 4 }, { "x": 0, "y": 7 }, { "x": 0, "y": 8 }, { "x": 19, "y": 11 }, { "x": 19, "y": 12 }, { "x": 19, "y": 13 }, { "x": 0, "y": 6 }, { "x": 0, "y": 19 }, { "x": 19, "y": 0 }] },
 
     aiSpawner: { "x": 10, "y": 16 },
 };
 
 const raid: Level = {
     name: 'Raid',
-    data: { "redFlag": { "x": 1, "y": 14 }, "blueFlag": { "x": 5, "y": 18 }, "obstacles": [{ "x": 2, "y": 15 }, { "x": 3, "y": 15 }, { "x": 3, "y": 16 }, { "x": 3, "y": 17 }, { "x": 3, "y": 18 }, { "x": 2, "y": 19 }, { "x": 2, "y": 18 }, { "x": 2, "y": 17 }, { "x": 2, "y": 16 }, { "x": 1, "y": 16 }, { "x": 0, "y": 17 }, { "x": 1, "y": 17 }, { "x": 1, "y": 18 }, { "x": 0, "y": 19 }, { "x": 4, "y": 15 }, { "x": 3, "y": 14 }, { "x": 4, "y": 14 }, { "x": 4, "y": 16 }, { "x": 3, "y": 13 }, { "x": 4, "y": 13 }, { "x": 3, "y": 12 }, { "x": 4, "y": 12 }, { "x": 3, "y": 11 }, { "x": 4, "y": 11 }, { "x": 5, "y": 11 }, { "x": 5, "y": 12 }, { "x": 5, "y": 13 }, { "x": 6, "y": 14 }, { "x": 5, "y": 14 }, { "x": 5, "y": 15 }, { "x": 5, "y": 16 }, { "x": 4, "y": 17 }, { "x": 6, "y": 15 }, { "x": 6, "y": 16 }, { "x": 7, "y": 14 }, { "x": 8, "y": 14 }, { "x": 9, "y": 14 }, { "x": 9, "y": 15 }, { "x": 9, "y": 16 }, { "x": 7, "y": 16 }, { "x": 8, "y": 16 }, { "x": 8, "y": 15 }, { "x": 7, "y": 15 }, { "x": 0, "y": 18 }, { "x": 1, "y": 19 }, { "x": 4, "y": 10 }, { "x": 5, "y": 10 }, { "x": 5, "y": 9 }, { "x": 10, "y": 15 }, { "x": 10, "y": 14 }, { "x": 11, "y": 14 }, { "x": 10, "y": 12 }, { "x": 11, "y": 11 }, { "x": 12, "y": 10 }, { "x": 13, "y": 9 }, { "x": 10, "y": 11 }, { "x": 11, "y": 10 }, { "x": 12, "y": 9 }, { "x": 7, "y": 9 }, { "x": 8, "y": 8 }, { "x": 9, "y": 7 }, { "x": 10, "y": 6 }, { "x": 9, "y": 8 }, { "x": 8, "y": 9 }, { "x": 10, "y": 7 }, { "x": 11, "y": 6 }, { "x": 11, "y": 5 }, { "x": 14, "y": 8 }, { "x": 13, "y": 8 }, { "x": 7, "y": 12 }, { "x": 7, "y": 13 }, { "x": 6, "y": 13 }, { "x": 6, "y": 12 }, { "x": 13, "y": 6 }, { "x": 13, "y": 5 }, { "x": 14, "y": 6 }, { "x": 15, "y": 4 }, { "x": 15, "y": 3 }, { "x": 16, "y": 4 }, { "x": 16, "y": 1 }, { "x": 17, "y": 2 }, { "x": 18, "y": 3 }, { "x": 18, "y": 2 }, { "x": 17, "y": 1 }, { "x": 12, "y": 3 }, { "x": 13, "y": 3 }, { "x": 13, "y": 2 }, { "x": 12, "y": 2 }, { "x": 16, "y": 6 }, { "x": 16, "y": 7 }, { "x": 17, "y": 7 }, { "x": 17, "y": 6 }, { "x": 3, "y": 7 }, { "x": 4, "y": 6 }, { "x": 5, "y": 5 }, { "x": 6, "y": 4 }, { "x": 7, "y": 3 }, { "x": 8, "y": 2 }, { "x": 3, "y": 10 }, { "x": 4, "y": 9 }, { "x": 5, "y": 8 }, { "x": 3, "y": 6 }, { "x": 4, "y": 5 }, { "x": 5, "y": 4 }, { "x": 6, "y": 3 }, { "x": 7, "y": 2 }, { "x": 14, "y": 15 }, { "x": 15, "y": 14 }, { "x": 16, "y": 13 }, { "x": 17, "y": 12 }, { "x": 13, "y": 16 }, { "x": 12, "y": 16 }, { "x": 13, "y": 15 }, { "x": 14, "y": 14 }, { "x": 15, "y": 13 }, { "x": 16, "y": 12 }, { "x": 17, "y": 11 }, { "x": 2, "y": 3 }, { "x": 2, "y": 2 }, { "x": 2, "y": 1 }, { "x": 3, "y": 1 }, { "x": 4, "y": 1 }, { "x": 3, "y": 2 }, { "x": 1, "y": 4 }, { "x": 1, "y": 3 }, { "x": 1, "y": 2 }, { "x": 1, "y": 1 }, { "x": 18, "y": 18 }, { "x": 17, "y": 18 }, { "x": 16, "y": 18 }, { "x": 15, "y": 18 }, { "x": 18, "y": 17 }, { "x": 18, "y": 16 }, { "x": 18, "y": 15 }, { "x": 17, "y": 16 }, { "x": 16, "y": 17 }, { "x": 17, "y": 17 }, { "x": 8, "y": 11 }, { "x": 7, "y": 11 }, { "x": 8, "y": 12 }] },
+    data: { "flags": [{ "x": 5, "y": 18 }, { "x": 1, "y": 14 }], "obstacles": [{ "x": 2, "y": 15 }, { "x": 3, "y": 15 }, { "x": 3, "y": 16 }, { "x": 3, "y": 17 }, { "x": 3, "y": 18 }, { "x": 2, "y": 19 }, { "x": 2, "y": 18 }, { "x": 2, "y": 17 }, { "x": 2, "y": 16 }, { "x": 1, "y": 16 }, { "x": 0, "y": 17 }, { "x": 1, "y": 17 }, { "x": 1, "y": 18 }, { "x": 0, "y": 19 }, { "x": 4, "y": 15 }, { "x": 3, "y": 14 }, { "x": 4, "y": 14 }, { "x": 4, "y": 16 }, { "x": 3, "y": 13 }, { "x": 4, "y": 13 }, { "x": 3, "y": 12 }, { "x": 4, "y": 12 }, { "x": 3, "y": 11 }, { "x": 4, "y": 11 }, { "x": 5, "y": 11 }, { "x": 5, "y": 12 }, { "x": 5, "y": 13 }, { "x": 6, "y": 14 }, { "x": 5, "y": 14 }, { "x": 5, "y": 15 }, { "x": 5, "y": 16 }, { "x": 4, "y": 17 }, { "x": 6, "y": 15 }, { "x": 6, "y": 16 }, { "x": 7, "y": 14 }, { "x": 8, "y": 14 }, { "x": 9, "y": 14 }, { "x": 9, "y": 15 }, { "x": 9, "y": 16 }, { "x": 7, "y": 16 }, { "x": 8, "y": 16 }, { "x": 8, "y": 15 }, { "x": 7, "y": 15 }, { "x": 0, "y": 18 }, { "x": 1, "y": 19 }, { "x": 4, "y": 10 }, { "x": 5, "y": 10 }, { "x": 5, "y": 9 }, { "x": 10, "y": 15 }, { "x": 10, "y": 14 }, { "x": 11, "y": 14 }, { "x": 10, "y": 12 }, { "x": 11, "y": 11 }, { "x": 12, "y": 10 }, { "x": 13, "y": 9 }, { "x": 10, "y": 11 }, { "x": 11, "y": 10 }, { "x": 12, "y": 9 }, { "x": 7, "y": 9 }, { "x": 8, "y": 8 }, { "x": 9, "y": 7 }, { "x": 10, "y": 6 }, { "x": 9, "y": 8 }, { "x": 8, "y": 9 }, { "x": 10, "y": 7 }, { "x": 11, "y": 6 }, { "x": 11, "y": 5 }, { "x": 14, "y": 8 }, { "x": 13, "y": 8 }, { "x": 7, "y": 12 }, { "x": 7, "y": 13 }, { "x": 6, "y": 13 }, { "x": 6, "y": 12 }, { "x": 13, "y": 6 }, { "x": 13, "y": 5 }, { "x": 14, "y": 6 }, { "x": 15, "y": 4 }, { "x": 15, "y": 3 }, { "x": 16, "y": 4 }, { "x": 16, "y": 1 }, { "x": 17, "y": 2 }, { "x": 18, "y": 3 }, { "x": 18, "y": 2 }, { "x": 17, "y": 1 }, { "x": 12, "y": 3 }, { "x": 13, "y": 3 }, { "x": 13, "y": 2 }, { "x": 12, "y": 2 }, { "x": 16, "y": 6 }, { "x": 16, "y": 7 }, { "x": 17, "y": 7 }, { "x": 17, "y": 6 }, { "x": 3, "y": 7 }, { "x": 4, "y": 6 }, { "x": 5, "y": 5 }, { "x": 6, "y": 4 }, { "x": 7, "y": 3 }, { "x": 8, "y": 2 }, { "x": 3, "y": 10 }, { "x": 4, "y": 9 }, { "x": 5, "y": 8 }, { "x": 3, "y": 6 }, { "x": 4, "y": 5 }, { "x": 5, "y": 4 }, { "x": 6, "y": 3 }, { "x": 7, "y": 2 }, { "x": 14, "y": 15 }, { "x": 15, "y": 14 }, { "x": 16, "y": 13 }, { "x": 17, "y": 12 }, { "x": 13, "y": 16 }, { "x": 12, "y": 16 }, { "x": 13, "y": 15 }, { "x": 14, "y": 14 }, { "x": 15, "y": 13 }, { "x": 16, "y": 12 }, { "x": 17, "y": 11 }, { "x": 2, "y": 3 }, { "x": 2, "y": 2 }, { "x": 2, "y": 1 }, { "x": 3, "y": 1 }, { "x": 4, "y": 1 }, { "x": 3, "y": 2 }, { "x": 1, "y": 4 }, { "x": 1, "y": 3 }, { "x": 1, "y": 2 }, { "x": 1, "y": 1 }, { "x": 18, "y": 18 }, { "x": 17, "y": 18 }, { "x": 16, "y": 18 }, { "x": 15, "y": 18 }, { "x": 18, "y": 17 }, { "x": 18, "y": 16 }, { "x": 18, "y": 15 }, { "x": 17, "y": 16 }, { "x": 16, "y": 17 }, { "x": 17, "y": 17 }, { "x": 8, "y": 11 }, { "x": 7, "y": 11 }, { "x": 8, "y": 12 }] },
 
     aiSpawner: { "x": 1, "y": 13 },
 };
 
 const arena: Level = {
     name: 'Arena',
-    data: { "redFlag": { "x": 0, "y": 19 }, "blueFlag": { "x": 19, "y": 0 }, "obstacles": [{ "x": 1, "y": 14 }, { "x": 2, "y": 14 }, { "x": 2, "y": 15 }, { "x": 3, "y": 15 }, { "x": 3, "y": 16 }, { "x": 4, "y": 16 }, { "x": 4, "y": 17 }, { "x": 5, "y": 17 }, { "x": 5, "y": 18 }, { "x": 0, "y": 9 }, { "x": 1, "y": 9 }, { "x": 1, "y": 10 }, { "x": 2, "y": 10 }, { "x": 2, "y": 11 }, { "x": 10, "y": 19 }, { "x": 10, "y": 18 }, { "x": 9, "y": 18 }, { "x": 9, "y": 17 }, { "x": 8, "y": 17 }, { "x": 16, "y": 3 }, { "x": 16, "y": 4 }, { "x": 15, "y": 3 }, { "x": 17, "y": 4 }, { "x": 17, "y": 5 }, { "x": 18, "y": 5 }, { "x": 15, "y": 2 }, { "x": 14, "y": 2 }, { "x": 14, "y": 1 }, { "x": 17, "y": 8 }, { "x": 17, "y": 9 }, { "x": 18, "y": 9 }, { "x": 18, "y": 10 }, { "x": 19, "y": 10 }, { "x": 11, "y": 2 }, { "x": 10, "y": 2 }, { "x": 10, "y": 1 }, { "x": 9, "y": 1 }, { "x": 9, "y": 0 }, { "x": 6, "y": 9 }, { "x": 6, "y": 12 }, { "x": 9, "y": 6 }, { "x": 12, "y": 6 }, { "x": 7, "y": 13 }, { "x": 13, "y": 7 }, { "x": 14, "y": 14 }, { "x": 15, "y": 15 }, { "x": 16, "y": 16 }, { "x": 17, "y": 17 }, { "x": 5, "y": 5 }, { "x": 4, "y": 4 }, { "x": 3, "y": 3 }, { "x": 2, "y": 2 }, { "x": 10, "y": 13 }, { "x": 13, "y": 10 }] },
+    data: { "flags": [{ "x": 19, "y": 0 }, { "x": 0, "y": 19 }, { "x": 0, "y": 0 }, { "x": 19, "y": 19 }], "obstacles": [{ "x": 1, "y": 14 }, { "x": 2, "y": 14 }, { "x": 2, "y": 15 }, { "x": 3, "y": 15 }, { "x": 3, "y": 16 }, { "x": 4, "y": 16 }, { "x": 4, "y": 17 }, { "x": 5, "y": 17 }, { "x": 5, "y": 18 }, { "x": 0, "y": 9 }, { "x": 1, "y": 9 }, { "x": 1, "y": 10 }, { "x": 2, "y": 10 }, { "x": 2, "y": 11 }, { "x": 10, "y": 19 }, { "x": 10, "y": 18 }, { "x": 9, "y": 18 }, { "x": 9, "y": 17 }, { "x": 8, "y": 17 }, { "x": 16, "y": 3 }, { "x": 16, "y": 4 }, { "x": 15, "y": 3 }, { "x": 17, "y": 4 }, { "x": 17, "y": 5 }, { "x": 18, "y": 5 }, { "x": 15, "y": 2 }, { "x": 14, "y": 2 }, { "x": 14, "y": 1 }, { "x": 17, "y": 8 }, { "x": 17, "y": 9 }, { "x": 18, "y": 9 }, { "x": 18, "y": 10 }, { "x": 19, "y": 10 }, { "x": 11, "y": 2 }, { "x": 10, "y": 2 }, { "x": 10, "y": 1 }, { "x": 9, "y": 1 }, { "x": 9, "y": 0 }, { "x": 6, "y": 9 }, { "x": 6, "y": 12 }, { "x": 9, "y": 6 }, { "x": 12, "y": 6 }, { "x": 7, "y": 13 }, { "x": 13, "y": 7 }, { "x": 14, "y": 14 }, { "x": 15, "y": 15 }, { "x": 16, "y": 16 }, { "x": 17, "y": 17 }, { "x": 5, "y": 5 }, { "x": 4, "y": 4 }, { "x": 3, "y": 3 }, { "x": 2, "y": 2 }, { "x": 10, "y": 13 }, { "x": 13, "y": 10 }], "halfCovers": [{ "x": 8, "y": 8 }, { "x": 11, "y": 11 }, { "x": 11, "y": 8 }, { "x": 8, "y": 11 }, { "x": 4, "y": 10 }, { "x": 15, "y": 9 }, { "x": 9, "y": 4 }, { "x": 10, "y": 15 }], "destructibles": [{ "x": 8, "y": 8 }, { "x": 11, "y": 11 }, { "x": 11, "y": 8 }, { "x": 8, "y": 11 }, { "x": 4, "y": 10 }, { "x": 15, "y": 9 }, { "x": 9, "y": 4 }, { "x": 10, "y": 15 }, { "x": 9, "y": 6 }, { "x": 12, "y": 6 }, { "x": 6, "y": 12 }, { "x": 10, "y": 13 }], "terrain": [{ "x": 9, "y": 9, "type": TerrainType.WATER }, { "x": 10, "y": 9, "type": TerrainType.WATER }, { "x": 10, "y": 10, "type": TerrainType.WATER }, { "x": 9, "y": 10, "type": TerrainType.WATER }, { "x": 5, "y": 7, "type": TerrainType.TALL_GRASS }, { "x": 12, "y": 5, "type": TerrainType.TALL_GRASS }, { "x": 14, "y": 12, "type": TerrainType.TALL_GRASS }, { "x": 7, "y": 14, "type": TerrainType.TALL_GRASS }, { "x": 5, "y": 8, "type": TerrainType.TALL_GRASS }, { "x": 11, "y": 5, "type": TerrainType.TALL_GRASS }, { "x": 14, "y": 11, "type": TerrainType.TALL_GRASS }, { "x": 8, "y": 14, "type": TerrainType.TALL_GRASS }, { "x": 7, "y": 9, "type": TerrainType.MUD }, { "x": 10, "y": 7, "type": TerrainType.MUD }, { "x": 12, "y": 10, "type": TerrainType.MUD }, { "x": 9, "y": 12, "type": TerrainType.MUD }, { "x": 3, "y": 12, "type": TerrainType.HIGH_GROUND }, { "x": 7, "y": 3, "type": TerrainType.HIGH_GROUND }, { "x": 16, "y": 7, "type": TerrainType.HIGH_GROUND }, { "x": 12, "y": 16, "type": TerrainType.HIGH_GROUND }] },
 
     aiSpawner: { "x": 1, "y": 18 },
 };
 
+const skirmish: Level = {
+    name: 'Skirmish',
+    data: { "width": 12, "height": 12, "flags": [{ "x": 11, "y": 0 }, { "x": 0, "y": 11 }], "obstacles": [{ "x": 3, "y": 3 }, { "x": 8, "y": 8 }, { "x": 5, "y": 2 }, { "x": 6, "y": 9 }, { "x": 2, "y": 5 }, { "x": 9, "y": 6 }, { "x": 8, "y": 3 }, { "x": 3, "y": 8 }, { "x": 5, "y": 5 }, { "x": 6, "y": 6 }], "halfCovers": [{ "x": 4, "y": 7 }, { "x": 7, "y": 4 }, { "x": 1, "y": 2 }, { "x": 10, "y": 9 }, { "x": 9, "y": 1 }, { "x": 2, "y": 10 }] },
+
+    aiSpawner: { "x": 1, "y": 10 },
+};
+
+const hill: Level = {
+    name: 'Hill',
+    data: { "width": 16, "height": 16, "flags": [{ "x": 15, "y": 0 }, { "x": 0, "y": 15 }], "obstacles": [{ "x": 4, "y": 4 }, { "x": 11, "y": 11 }, { "x": 4, "y": 11 }, { "x": 11, "y": 4 }, { "x": 7, "y": 4 }, { "x": 8, "y": 11 }, { "x": 4, "y": 8 }, { "x": 11, "y": 7 }], "halfCovers": [{ "x": 6, "y": 6 }, { "x": 9, "y": 9 }, { "x": 6, "y": 9 }, { "x": 9, "y": 6 }, { "x": 2, "y": 6 }, { "x": 13, "y": 9 }, { "x": 6, "y": 2 }, { "x": 9, "y": 13 }], "objective": { "type": ObjectiveType.KING_OF_THE_HILL, "hill": [{ "x": 7, "y": 7 }, { "x": 8, "y": 7 }, { "x": 7, "y": 8 }, { "x": 8, "y": 8 }], "turnsToHold": 3 } },
+
+    aiSpawner: { "x": 1, "y": 14 },
+};
+
+const convoy: Level = {
+    name: 'Convoy',
+    data: { "width": 20, "height": 12, "flags": [{ "x": 0, "y": 5 }, { "x": 16, "y": 1 }], "obstacles": [{ "x": 6, "y": 0 }, { "x": 6, "y": 1 }, { "x": 6, "y": 2 }, { "x": 6, "y": 3 }, { "x": 6, "y": 8 }, { "x": 6, "y": 9 }, { "x": 6, "y": 10 }, { "x": 6, "y": 11 }, { "x": 15, "y": 4 }, { "x": 15, "y": 7 }, { "x": 11, "y": 0 }, { "x": 11, "y": 1 }, { "x": 11, "y": 10 }, { "x": 11, "y": 11 }], "halfCovers": [{ "x": 3, "y": 3 }, { "x": 3, "y": 8 }, { "x": 9, "y": 3 }, { "x": 9, "y": 8 }, { "x": 12, "y": 5 }, { "x": 12, "y": 6 }, { "x": 17, "y": 3 }, { "x": 17, "y": 8 }], "objective": { "type": ObjectiveType.ESCORT, "escortTeamIndex": 0, "exit": [{ "x": 19, "y": 4 }, { "x": 19, "y": 5 }, { "x": 19, "y": 6 }, { "x": 19, "y": 7 }] } },
+
+    aiSpawner: { "x": 17, "y": 1 },
+};
+
+const holdout: Level = {
+    name: 'Holdout',
+    data: { "width": 16, "height": 16, "flags": [{ "x": 8, "y": 14 }, { "x": 8, "y": 2 }], "obstacles": [{ "x": 4, "y": 2 }, { "x": 4, "y": 3 }, { "x": 4, "y": 4 }, { "x": 4, "y": 5 }, { "x": 5, "y": 5 }, { "x": 6, "y": 5 }, { "x": 10, "y": 5 }, { "x": 11, "y": 5 }, { "x": 12, "y": 5 }, { "x": 12, "y": 4 }, { "x": 12, "y": 3 }, { "x": 12, "y": 2 }], "halfCovers": [{ "x": 7, "y": 7 }, { "x": 9, "y": 7 }, { "x": 3, "y": 9 }, { "x": 13, "y": 9 }, { "x": 8, "y": 10 }, { "x": 5, "y": 12 }, { "x": 11, "y": 12 }], "objective": { "type": ObjectiveType.DEFEND, "defendingTeamIndex": 1, "turnsToDefend": 10 } },
+
+    aiSpawner: { "x": 9, "y": 1 },
+};
+
 export const LEVELS: Level[] = [
     // TEST
     // blank,
@@ -222,4 +293,12 @@ export const LEVELS: Level[] = [
     raid,
     // 11
     arena,
+    // 12
+    skirmish,
+    // 13
+    hill,
+    // 14
+    convoy,
+    // 15
+    holdout,
 ];
\ No newline at end of file
@@ -0,0 +1,258 @@
+import { Level, getLevelGrid } from 'src/app/level';
+import { Grid, bfs, pathTo } from 'src/app/grid';
+import { Point, pointFromSerialized } from 'src/app/math/point';
+import { Terrain } from 'src/app/game_objects/terrain';
+import { getFieldOfView } from 'src/app/field_of_view';
+import { DEFAULT_GAME_SETTINGS } from 'src/app/game_settings';
+import { CHARACTER_CLASSES } from 'src/app/character_settings';
+
+/** Blocking a tile that adds this many moves between flags makes it a choke. */
+const CHOKE_POINT_DETOUR = 6;
+/** Teams' moves to the enemy flag can differ by this fraction. */
+const MAX_MOVES_ASYMMETRY = .2;
+/** Teams' placement zone sizes can differ by this fraction. */
+const MAX_PLACEMENT_ASYMMETRY = .2;
+/** Fractions of teams' placement zones in enemy sight can differ by this. */
+const MAX_EXPOSURE_DIFFERENCE = .25;
+/** Placement tiles seen from this far, by the farthest seeing class. */
+const SIGHT = Math.max(...CHARACTER_CLASSES.map((settings) => {
+    return settings.maxSight;
+}));
+
+export interface TeamAnalysis {
+    /**
+     * Cheapest path from the team's flag to the closest enemy flag,
+     * excluding the start, or null if it's walled off.
+     */
+    readonly pathToEnemyFlag: Point[] | null;
+    /** Moves along the path, counting terrain. */
+    readonly movesToEnemyFlag: number | null;
+    /** Where the team can place characters at the start. */
+    readonly placementTiles: Point[];
+    /** Placement tiles an enemy placement tile has sight of. */
+    readonly exposedPlacementTiles: Point[];
+}
+
+export interface LevelAnalysis {
+    /** Indexed by team. */
+    readonly teams: TeamAnalysis[];
+    /**
+     * Tiles on the path from the first flag to the others which, if
+     * blocked, wall a flag off or make the path much longer.
+     */
+    readonly chokePoints: Point[];
+    /** What makes the level unfair or unplayable, empty if nothing. */
+    readonly warnings: string[];
+}
+
+/**
+ * How fair the level is to each team, ie whether flags are reachable
+ * and about as far apart for everyone, as obstacles block movement now.
+ * Destructible obstacles aren't assumed destroyed.
+ * @param maxSpawnDistanceFromFlag for teams without spawn zones.
+ */
+export function analyzeLevel(
+    level: Level,
+    maxSpawnDistanceFromFlag =
+        DEFAULT_GAME_SETTINGS.maxSpawnDistanceFromFlag): LevelAnalysis {
+
+    const grid = getLevelGrid(level.data);
+    const blockedTiles = new Set(
+        [...level.data.obstacles, ...(level.data.halfCovers || [])]
+            .map((point) => pointFromSerialized(point).toString()));
+    const sightBlockingTiles = new Set(level.data.obstacles
+        .map((point) => pointFromSerialized(point).toString()));
+    const spawnerTiles = new Set((level.data.spawners || [])
+        .map((point) => pointFromSerialized(point).toString()));
+    const tileToMovementCost: Map<string, number> = new Map();
+    for (const serializedTerrain of level.data.terrain || []) {
+        const terrain = new Terrain(
+            pointFromSerialized(serializedTerrain), serializedTerrain.type);
+        tileToMovementCost.set(
+            terrain.tileCoords.toString(), terrain.getMovementCost());
+    }
+    const flagTiles = level.data.flags.map(pointFromSerialized);
+    const isObstacleFree = (tile: Point): boolean => {
+        return !blockedTiles.has(tile.toString());
+    };
+    const getMovementCost = (tile: Point): number => {
+        return tileToMovementCost.get(tile.toString()) || 1;
+    };
+    const findPath = (
+        startTile: Point,
+        endTile: Point,
+        isOpen: (tile: Point) => boolean = isObstacleFree): Point[] | null => {
+
+        try {
+            return pathTo({
+                grid,
+                startTile,
+                endTile,
+                isAvailable: isOpen,
+                canGoThrough: isOpen,
+                getCost: getMovementCost,
+            });
+        } catch (e) {
+            return null;
+        }
+    };
+    const getMoves = (path: Point[]): number => {
+        return path.reduce((moves, tile) => moves + getMovementCost(tile), 0);
+    };
+
+    const teamPlacementTiles = flagTiles.map((flagTile, teamIndex) => {
+        return getPlacementTiles({
+            level,
+            grid,
+            teamIndex,
+            maxSpawnDistanceFromFlag,
+            isAvailable: (tile: Point) => {
+                return isObstacleFree(tile)
+                    && !spawnerTiles.has(tile.toString())
+                    && !flagTiles.some((flag) => flag.equals(tile));
+            },
+            canGoThrough: isObstacleFree,
+        });
+    });
+    const teams: TeamAnalysis[] = flagTiles.map((flagTile, teamIndex) => {
+        let pathToEnemyFlag: Point[] | null = null;
+        for (const enemyFlagTile of flagTiles) {
+            if (enemyFlagTile === flagTile) {
+                continue;
+            }
+            const path = findPath(flagTile, enemyFlagTile);
+            if (path != null && (pathToEnemyFlag == null
+                || getMoves(path) < getMoves(pathToEnemyFlag))) {
+                pathToEnemyFlag = path;
+            }
+        }
+        const enemyVisibleTiles: Set<string> = new Set();
+        teamPlacementTiles.forEach((enemyPlacementTiles, enemyTeamIndex) => {
+            if (enemyTeamIndex === teamIndex) {
+                return;
+            }
+            for (const enemyTile of enemyPlacementTiles) {
+                const fieldOfView = getFieldOfView({
+                    grid,
+                    origin: enemyTile,
+                    maxDistance: SIGHT,
+                    blocksSight: (tile: Point) => {
+                        return sightBlockingTiles.has(tile.toString());
+                    },
+                });
+                for (const tile of fieldOfView) {
+                    enemyVisibleTiles.add(tile.toString());
+                }
+            }
+        });
+        const placementTiles = teamPlacementTiles[teamIndex];
+        return {
+            pathToEnemyFlag,
+            movesToEnemyFlag:
+                pathToEnemyFlag != null ? getMoves(pathToEnemyFlag) : null,
+            placementTiles,
+            exposedPlacementTiles: placementTiles.filter((tile) => {
+                return enemyVisibleTiles.has(tile.toString());
+            }),
+        };
+    });
+
+    const chokePoints: Map<string, Point> = new Map();
+    flagTiles.slice(1).forEach((flagTile) => {
+        const path = findPath(flagTiles[0], flagTile);
+        if (path == null) {
+            return;
+        }
+        const moves = getMoves(path);
+        for (const pathTile of path.slice(0, -1)) {
+            const detour = findPath(flagTiles[0], flagTile, (tile: Point) => {
+                return isObstacleFree(tile) && !tile.equals(pathTile);
+            });
+            if (detour == null
+                || getMoves(detour) - moves >= CHOKE_POINT_DETOUR) {
+                chokePoints.set(pathTile.toString(), pathTile);
+            }
+        }
+    });
+
+    return {
+        teams,
+        chokePoints: Array.from(chokePoints.values()),
+        warnings: getWarnings(teams),
+    };
+}
+
+/** Like RulesEngine's, before anything is placed. */
+function getPlacementTiles(params: {
+    level: Level;
+    grid: Grid;
+    teamIndex: number;
+    maxSpawnDistanceFromFlag: number;
+    isAvailable: (tile: Point) => boolean;
+    canGoThrough: (tile: Point) => boolean;
+}): Point[] {
+    const { level, teamIndex, isAvailable } = params;
+    const spawnZone = (level.data.spawnZones || [])[teamIndex] || [];
+    if (spawnZone.length) {
+        return spawnZone.map(pointFromSerialized).filter(isAvailable);
+    }
+    return bfs({
+        grid: params.grid,
+        startTile: pointFromSerialized(level.data.flags[teamIndex]),
+        maxDepth: params.maxSpawnDistanceFromFlag,
+        isAvailable,
+        canGoThrough: params.canGoThrough,
+    });
+}
+
+function getWarnings(teams: TeamAnalysis[]): string[] {
+    const warnings: string[] = [];
+    teams.forEach((team, teamIndex) => {
+        if (team.movesToEnemyFlag == null) {
+            warnings.push(
+                `Flag ${teamIndex + 1} can't reach an enemy flag ` +
+                `without destroying obstacles`);
+        }
+        if (!team.placementTiles.length) {
+            warnings.push(`Team ${teamIndex + 1} has nowhere to place`);
+        }
+    });
+    /** Warns if the teams' highest and lowest values differ by too much. */
+    const compare = (
+        getValue: (team: TeamAnalysis) => number | null,
+        getMaxDifference: (highest: number) => number,
+        describe: (highestTeam: number, lowestTeam: number) => string) => {
+
+        const values = teams.map(getValue);
+        if (values.some((value) => value == null)) {
+            return;
+        }
+        const numbers = values as number[];
+        const max = Math.max(...numbers);
+        const min = Math.min(...numbers);
+        if (max - min > getMaxDifference(max)) {
+            warnings.push(describe(
+                numbers.indexOf(max) + 1, numbers.indexOf(min) + 1));
+        }
+    };
+    compare(
+        (team) => team.movesToEnemyFlag,
+        (highest) => MAX_MOVES_ASYMMETRY * highest,
+        (farther, closer) => `Team ${farther} is much farther from ` +
+            `an enemy flag than team ${closer}`);
+    compare(
+        (team) => team.placementTiles.length,
+        (highest) => MAX_PLACEMENT_ASYMMETRY * highest,
+        (larger, smaller) => `Team ${smaller} has much less room to ` +
+            `place than team ${larger}`);
+    compare(
+        (team) => {
+            return team.placementTiles.length
+                ? team.exposedPlacementTiles.length / team.placementTiles.length
+                : 0;
+        },
+        () => MAX_EXPOSURE_DIFFERENCE,
+        (more, less) => `Team ${more} places more in enemy sight ` +
+            `than team ${less}`);
+    return warnings;
+}
@@ -0,0 +1,101 @@
+import { Point } from 'src/app/math/point';
+import { Grid } from 'src/app/grid';
+
+/** How the level creator paints tiles. */
+export enum Brush {
+    TILE = 'tile',
+    /** From where the mouse is pressed to where it's released. */
+    LINE = 'line',
+    /** Outline of the rectangle dragged out. */
+    RECTANGLE = 'rectangle',
+    /** The area around the clicked tile with the same contents. */
+    FILL = 'fill',
+}
+
+/** How placing in a tile also places in the opposing team's half. */
+export enum Symmetry {
+    NONE = 'none',
+    MIRROR_LEFT_RIGHT = 'mirrored left to right',
+    MIRROR_TOP_BOTTOM = 'mirrored top to bottom',
+    ROTATIONAL = 'rotational',
+}
+
+/** Tiles painted by dragging the brush from the start to the end tile. */
+export function getBrushTiles(
+    brush: Brush, startTile: Point, endTile: Point): Point[] {
+
+    switch (brush) {
+        case Brush.LINE:
+            return getLineTiles(startTile, endTile);
+        case Brush.RECTANGLE:
+            return getRectangleOutlineTiles(startTile, endTile);
+        default:
+            return [endTile];
+    }
+}
+
+/** Null if there's no symmetry. */
+export function getMirroredTile(
+    symmetry: Symmetry, tile: Point, grid: Grid): Point | null {
+
+    const mirroredX = grid.tilesWide - 1 - tile.x;
+    const mirroredY = grid.tilesTall - 1 - tile.y;
+    switch (symmetry) {
+        case Symmetry.NONE:
+            return null;
+        case Symmetry.MIRROR_LEFT_RIGHT:
+            return new Point(mirroredX, tile.y);
+        case Symmetry.MIRROR_TOP_BOTTOM:
+            return new Point(tile.x, mirroredY);
+        case Symmetry.ROTATIONAL:
+            return new Point(mirroredX, mirroredY);
+    }
+}
+
+/** Teams are paired off, the first with the second and so on. */
+export function getMirroredTeamIndex(teamIndex: number): number {
+    return teamIndex % 2 === 0 ? teamIndex + 1 : teamIndex - 1;
+}
+
+/** Bresenham's line, so each tile touches the last by a side or corner. */
+function getLineTiles(startTile: Point, endTile: Point): Point[] {
+    const tiles: Point[] = [];
+    const deltaX = Math.abs(endTile.x - startTile.x);
+    const deltaY = -Math.abs(endTile.y - startTile.y);
+    const stepX = startTile.x < endTile.x ? 1 : -1;
+    const stepY = startTile.y < endTile.y ? 1 : -1;
+    let error = deltaX + deltaY;
+    let x = startTile.x;
+    let y = startTile.y;
+    while (true) {
+        tiles.push(new Point(x, y));
+        if (x === endTile.x && y === endTile.y) {
+            return tiles;
+        }
+        const doubleError = 2 * error;
+        if (doubleError >= deltaY) {
+            error += deltaY;
+            x += stepX;
+        }
+        if (doubleError <= deltaX) {
+            error += deltaX;
+            y += stepY;
+        }
+    }
+}
+
+function getRectangleOutlineTiles(cornerA: Point, cornerB: Point): Point[] {
+    const left = Math.min(cornerA.x, cornerB.x);
+    const right = Math.max(cornerA.x, cornerB.x);
+    const top = Math.min(cornerA.y, cornerB.y);
+    const bottom = Math.max(cornerA.y, cornerB.y);
+    const tiles: Point[] = [];
+    for (let x = left; x <= right; x++) {
+        for (let y = top; y <= bottom; y++) {
+            if (x === left || x === right || y === top || y === bottom) {
+                tiles.push(new Point(x, y));
+            }
+        }
+    }
+    return tiles;
+}
@@ -1,80 +1,437 @@
-import { LevelData } from 'src/app/level';
-import { Grid } from 'src/app/grid';
-import { Point } from 'src/app/math/point';
-import { Obstacle } from 'src/app/game_objects/obstacle';
+import { Level, LevelData, LevelSettings, SerializedPoint, getLevelGrid } from 'src/app/level';
+import { validateLevel, downloadLevel } from 'src/app/level_file';
+import { LibraryLevel, addLibraryLevel, updateLibraryLevel } from 'src/app/level_library';
+import { Grid, bfs } from 'src/app/grid';
+import { Camera } from 'src/app/camera';
+import { Brush, Symmetry, getBrushTiles, getMirroredTile, getMirroredTeamIndex } from 'src/app/level_brush';
+import { LevelAnalysis, analyzeLevel } from 'src/app/level_analysis';
+import { ObjectiveSettings, getObjectiveZone } from 'src/app/objectives';
+import { Point, pointFromSerialized } from 'src/app/math/point';
+import { Obstacle, ObstacleType } from 'src/app/game_objects/obstacle';
 import { Flag } from 'src/app/game_objects/flag';
+import { Spawner } from 'src/app/game_objects/spawner';
+import { Terrain, TerrainType, getTerrainColor } from 'src/app/game_objects/terrain';
 import { RENDER_SETTINGS } from 'src/app/render_settings';
 import { CONTROLS, ControlMap, EventType, Key } from 'src/app/controls';
 import { THEME } from 'src/app/theme';
 import { hexStringToColor, colorToString } from 'src/app/color';
+import { GameSettings, MatchType, DEFAULT_GAME_SETTINGS, SQUAD_SIZE_OPTIONS, getMaxSpawnDistanceFromFlag } from 'src/app/game_settings';
+import { createSeed } from 'src/app/math/random';
+import { UiManager } from 'src/app/ui/ui_manager';
+import { Button, ButtonStyle } from 'src/app/ui/button';
+import { ButtonGroup } from 'src/app/ui/button_group';
+
+/** Keys for placing each team's flag, indexed by team. */
+const FLAG_KEYS: Array<{ key: Key; teamName: string }> = [
+    { key: Key.B, teamName: 'Blue' },
+    { key: Key.V, teamName: 'Red' },
+    { key: Key.Y, teamName: 'Yellow' },
+    { key: Key.P, teamName: 'Purple' },
+];
 
 enum PlacementMode {
-    BLUE_FLAG,
-    RED_FLAG,
+    FLAG,
     OBSTACLE,
+    HALF_COVER,
+    TERRAIN,
+    SPAWNER,
+    SPAWN_ZONE,
     ERASE,
 }
 
+/** Turns between spawns that placed spawners can have. */
+const SPAWNER_TURN_OPTIONS = [3, 5, 6, 8, 10];
+const DEFAULT_SPAWNER_TURNS = 6;
+
+/** Options per line in the settings panel. */
+const PANEL_OPTIONS_PER_ROW = 3;
+
+/** Who plays each team in playtests, with its name in the panel. */
+const PLAYTEST_MATCH_TYPES: Array<[string, MatchType]> = [
+    ['PvP', MatchType.PLAYER_VS_PLAYER_LOCAL],
+    ['PvAI', MatchType.PLAYER_VS_AI],
+    ['AIvAI', MatchType.AI_VS_AI],
+];
+
+/** Cycled through by pressing their keys. */
+const BRUSHES = [Brush.TILE, Brush.LINE, Brush.RECTANGLE, Brush.FILL];
+const SYMMETRIES = [
+    Symmetry.NONE,
+    Symmetry.MIRROR_LEFT_RIGHT,
+    Symmetry.MIRROR_TOP_BOTTOM,
+    Symmetry.ROTATIONAL,
+];
+
+/** Edits kept to undo, the oldest are dropped past this. */
+const MAX_UNDO_STEPS = 100;
+
+/** What's placed on the board, from before or after an edit. */
+interface BoardState {
+    readonly grid: Grid;
+    readonly obstacles: Obstacle[];
+    readonly terrain: Terrain[];
+    readonly flags: Array<Flag | undefined>;
+    readonly spawners: Spawner[];
+    readonly spawnZones: Point[][];
+}
+
+/** Board sizes, in tiles square, cycled through by resizing. */
+const BOARD_SIZES = [Grid.DEFAULT_TILES_WIDE, 30, 12];
+
+/** Cycled through by pressing the terrain key again. */
+const TERRAIN_TYPES = [
+    TerrainType.MUD,
+    TerrainType.WATER,
+    TerrainType.TALL_GRASS,
+    TerrainType.HIGH_GROUND,
+];
+
 export class LevelCreator {
     private readonly canvas: HTMLCanvasElement;
     private readonly context: CanvasRenderingContext2D;
     private readonly onExitGameCallback: () => void;
+    /** Plays the level, calling resume once the match is over. */
+    private readonly onPlaytest:
+        (level: Level, gameSettings: GameSettings) => void;
 
+    /** Set while editing one of the player's levels, saved in place. */
+    private libraryLevel?: LibraryLevel;
+    private grid: Grid;
+    private camera: Camera;
     private placementMode: PlacementMode;
+    /** Team of the flag, spawner or spawn zone tile placed. */
+    private placementTeamIndex: number;
+    /** Of spawners placed from now on. */
+    private spawnerTurns: number;
+    private brush: Brush;
+    /** Where the line or rectangle being dragged out starts. */
+    private strokeStartTile?: Point;
+    private symmetry: Symmetry;
+    private undoStack: BoardState[];
+    private redoStack: BoardState[];
+    private isShowingAnalysis: boolean;
+    /** Of the board as it was, redone once it changes. */
+    private analysis?: {
+        readonly boardState: BoardState;
+        /** Null without two flags. */
+        readonly levelAnalysis: LevelAnalysis | null;
+    };
+    /** Whether placed obstacles and half covers can be destroyed. */
+    private isPlacingDestructibles: boolean;
+    /** Type of the terrain placed in TERRAIN mode. */
+    private terrainType: TerrainType;
     private obstacles: Obstacle[];
-    private blueFlag?: Flag;
-    private redFlag?: Flag;
+    /** Under obstacles and flags, at most one per tile. */
+    private terrain: Terrain[];
+    /** Indexed by team, unset until placed. */
+    private flags: Array<Flag | undefined>;
+    private spawners: Spawner[];
+    /** Indexed by team, at most one team per tile. */
+    private spawnZones: Point[][];
+    /** Kept from the loaded level, objectives are set in its file. */
+    private objective?: ObjectiveSettings;
+    private levelName: string;
+    /** Saved with the level, for the free play menu to start with. */
+    private levelSettings: LevelSettings;
+    private playtestMatchType: MatchType;
     private controlMap: ControlMap;
+    /** Buttons of the settings panel, to the right of the board. */
+    private uiManager: UiManager;
+    /** Drawn above each row of settings buttons. */
+    private panelLabels: Array<{ text: string; top: number }>;
+    /** Result of the last save or export, ie what's wrong with the level. */
+    private statusLines: string[];
 
     constructor(
         canvas: HTMLCanvasElement,
         context: CanvasRenderingContext2D,
-        onExitGameCallback: () => void) {
+        params: {
+            onExitGameCallback: () => void;
+            onPlaytest: (level: Level, gameSettings: GameSettings) => void;
+            /** To edit, otherwise the level starts blank. */
+            libraryLevel?: LibraryLevel;
+            /** To start from without saving it yet, ie a random map. */
+            level?: Level;
+        }) {
 
         this.canvas = canvas;
         this.context = context;
-        this.onExitGameCallback = onExitGameCallback;
+        this.onExitGameCallback = params.onExitGameCallback;
+        this.onPlaytest = params.onPlaytest;
+        this.uiManager = new UiManager(context);
         this.resetGame();
+        if (params.libraryLevel != null) {
+            this.libraryLevel = params.libraryLevel;
+            this.loadLevel(params.libraryLevel.level);
+        } else if (params.level != null) {
+            this.loadLevel(params.level);
+        }
     }
 
     update(elapsedMs: number): void {
         this.controlMap.check();
+        const isStrokeBrush = this.isStrokeBrush();
+        this.camera.update(elapsedMs, /* canDragPan= */ !isStrokeBrush);
+        this.uiManager.onMouseMove(CONTROLS.getMouseCanvasCoords());
+        if (isStrokeBrush) {
+            this.updateStroke();
+        } else {
+            this.strokeStartTile = undefined;
+        }
         if (!CONTROLS.hasClick()) {
             return;
         }
         const clickCoords = CONTROLS.handleClick();
-        const mouseTileCoords = Grid.getTileFromCanvasCoords(clickCoords);
-        if (!this.isTileOccupied(mouseTileCoords)) {
+        if (clickCoords.x >= Grid.GAME_WIDTH) {
+            this.uiManager.onClick(clickCoords);
+            return;
+        }
+        const mouseTileCoords = this.camera.getTileAtCanvasCoords(clickCoords);
+        if (!this.grid.inbounds(mouseTileCoords)) {
+            return;
+        }
+        const tiles = this.getBrush() === Brush.FILL
+            ? this.getFillRegion(mouseTileCoords)
+            : [mouseTileCoords];
+        this.edit(() => {
+            for (const tile of tiles) {
+                this.placeWithSymmetry(tile);
+            }
+        });
+    }
+
+    /**
+     * Paints the line or rectangle dragged out once the mouse is released.
+     * Releasing in the tile it was pressed in is left to the click.
+     */
+    private updateStroke(): void {
+        const mouseCanvasCoords = CONTROLS.getMouseCanvasCoords();
+        if (CONTROLS.isMouseDown()) {
+            if (this.strokeStartTile == null
+                && mouseCanvasCoords.x < Grid.GAME_WIDTH) {
+                this.strokeStartTile =
+                    this.camera.getTileAtCanvasCoords(mouseCanvasCoords);
+            }
+            return;
+        }
+        const startTile = this.strokeStartTile;
+        if (startTile == null) {
+            return;
+        }
+        this.strokeStartTile = undefined;
+        const endTile = this.camera.getTileAtCanvasCoords(mouseCanvasCoords);
+        if (startTile.equals(endTile)) {
+            return;
+        }
+        this.edit(() => {
+            for (const tile of getBrushTiles(this.brush, startTile, endTile)) {
+                this.placeWithSymmetry(tile);
+            }
+        });
+    }
+
+    /** Flags and spawners are placed a tile at a time. */
+    private getBrush(): Brush {
+        return this.placementMode === PlacementMode.FLAG
+            || this.placementMode === PlacementMode.SPAWNER
+            ? Brush.TILE
+            : this.brush;
+    }
+
+    private isStrokeBrush(): boolean {
+        const brush = this.getBrush();
+        return brush === Brush.LINE || brush === Brush.RECTANGLE;
+    }
+
+    /** Tiles painted if the mouse was clicked or released now. */
+    private getHoveredTiles(): Point[] {
+        const mouseTileCoords =
+            this.camera.getTileAtCanvasCoords(CONTROLS.getMouseCanvasCoords());
+        const tiles = this.strokeStartTile != null
+            ? getBrushTiles(this.brush, this.strokeStartTile, mouseTileCoords)
+            : [mouseTileCoords];
+        const mirroredTiles: Point[] = [];
+        for (const tile of tiles) {
+            const mirroredTile =
+                getMirroredTile(this.symmetry, tile, this.grid);
+            if (mirroredTile != null) {
+                mirroredTiles.push(mirroredTile);
+            }
+        }
+        return [...tiles, ...mirroredTiles]
+            .filter((tile) => this.grid.inbounds(tile));
+    }
+
+    /** Connected tiles with the same contents as the start, ie a room. */
+    private getFillRegion(startTile: Point): Point[] {
+        const contents = this.getTileContents(startTile);
+        const isSameContents = (tile: Point): boolean => {
+            return this.getTileContents(tile) === contents;
+        };
+        return bfs({
+            grid: this.grid,
+            startTile,
+            maxDepth: Infinity,
+            isAvailable: isSameContents,
+            canGoThrough: isSameContents,
+        });
+    }
+
+    /** Describes what's in the tile, to compare it with others. */
+    private getTileContents(tileCoords: Point): string {
+        const obstacle = this.obstacles
+            .find((obstacle) => obstacle.tileCoords.equals(tileCoords));
+        const terrain = this.getTerrainInTile(tileCoords);
+        let objectContents = '';
+        if (obstacle != null) {
+            objectContents = `${obstacle.type} ${obstacle.isDestructible()}`;
+        } else if (this.isTileOccupied(tileCoords)) {
+            // Flags and spawners are one of a kind.
+            objectContents = tileCoords.toString();
+        }
+        return [
+            objectContents,
+            this.getSpawnZoneTeamIndex(tileCoords),
+            terrain != null ? terrain.type : '',
+        ].join();
+    }
+
+    /**
+     * Places in the tile, and for the opposing team in the mirrored
+     * tile if there's symmetry.
+     */
+    private placeWithSymmetry(tileCoords: Point): void {
+        this.placeInTile(tileCoords, this.placementTeamIndex);
+        const mirroredTile =
+            getMirroredTile(this.symmetry, tileCoords, this.grid);
+        if (mirroredTile != null && !mirroredTile.equals(tileCoords)) {
+            this.placeInTile(
+                mirroredTile, getMirroredTeamIndex(this.placementTeamIndex));
+        }
+    }
+
+    /** @param teamIndex of the flag, spawner or spawn zone placed. */
+    private placeInTile(tileCoords: Point, teamIndex: number): void {
+        if (!this.grid.inbounds(tileCoords)
+            || teamIndex >= FLAG_KEYS.length) {
+            return;
+        }
+        if (this.placementMode === PlacementMode.TERRAIN) {
+            const terrain = this.getTerrainInTile(tileCoords);
+            if (terrain == null || terrain.type !== this.terrainType) {
+                this.terrain = this.terrain
+                    .filter((terrain) => !terrain.tileCoords.equals(tileCoords))
+                    .concat(new Terrain(tileCoords, this.terrainType));
+            }
+        } else if (!this.isTileOccupied(tileCoords)) {
             switch (this.placementMode) {
-                case PlacementMode.BLUE_FLAG:
-                    this.blueFlag = new Flag({
-                        tileCoords: mouseTileCoords,
-                        teamIndex: 0,
-                    });
-                    break;
-                case PlacementMode.RED_FLAG:
-                    this.redFlag = new Flag({
-                        tileCoords: mouseTileCoords,
-                        teamIndex: 1,
+                case PlacementMode.FLAG:
+                    this.flags[teamIndex] = new Flag({
+                        tileCoords,
+                        teamIndex,
                     });
                     break;
                 case PlacementMode.OBSTACLE:
-                    const obstacle = new Obstacle(mouseTileCoords);
+                    const obstacle = new Obstacle(
+                        tileCoords,
+                        ObstacleType.WALL,
+                        this.isPlacingDestructibles);
                     this.obstacles.push(obstacle);
                     break;
+                case PlacementMode.HALF_COVER:
+                    this.obstacles.push(new Obstacle(
+                        tileCoords,
+                        ObstacleType.HALF_COVER,
+                        this.isPlacingDestructibles));
+                    break;
+                case PlacementMode.SPAWNER:
+                    this.spawners.push(new Spawner({
+                        tileCoords,
+                        teamIndex,
+                        turnsBetweenSpawns: this.spawnerTurns,
+                    }));
+                    break;
+                case PlacementMode.SPAWN_ZONE:
+                    if (this.getSpawnZoneTeamIndex(tileCoords) !== teamIndex) {
+                        this.removeSpawnZoneTile(tileCoords);
+                        this.spawnZones[teamIndex].push(tileCoords);
+                    }
+                    break;
+            }
+            if (this.placementMode !== PlacementMode.SPAWN_ZONE
+                && this.placementMode !== PlacementMode.ERASE) {
+                this.removeSpawnZoneTile(tileCoords);
             }
-        } else if (this.placementMode === PlacementMode.ERASE) {
-            this.removeObjectInTile(mouseTileCoords);
         }
+        if (this.placementMode === PlacementMode.ERASE) {
+            this.removeObjectInTile(tileCoords);
+        }
+    }
+
+    /** Applies the edit so that it can be undone, if it changed anything. */
+    private edit(applyEdit: () => void): void {
+        const boardState = this.getBoardState();
+        applyEdit();
+        if (isSameBoardState(boardState, this.getBoardState())) {
+            return;
+        }
+        this.undoStack.push(boardState);
+        if (this.undoStack.length > MAX_UNDO_STEPS) {
+            this.undoStack.shift();
+        }
+        this.redoStack = [];
+    }
+
+    private readonly undo = (): void => {
+        const boardState = this.undoStack.pop();
+        if (boardState != null) {
+            this.redoStack.push(this.getBoardState());
+            this.setBoardState(boardState);
+        }
+    };
+
+    private readonly redo = (): void => {
+        const boardState = this.redoStack.pop();
+        if (boardState != null) {
+            this.undoStack.push(this.getBoardState());
+            this.setBoardState(boardState);
+        }
+    };
+
+    /** Copies, as edits change the lists in place. */
+    private getBoardState(): BoardState {
+        return {
+            grid: this.grid,
+            obstacles: [...this.obstacles],
+            terrain: [...this.terrain],
+            flags: [...this.flags],
+            spawners: [...this.spawners],
+            spawnZones: this.spawnZones.map((spawnZone) => [...spawnZone]),
+        };
+    }
+
+    private setBoardState(boardState: BoardState): void {
+        if (boardState.grid !== this.grid) {
+            this.grid = boardState.grid;
+            this.camera = new Camera(this.grid);
+        }
+        this.obstacles = [...boardState.obstacles];
+        this.terrain = [...boardState.terrain];
+        this.flags = [...boardState.flags];
+        this.spawners = [...boardState.spawners];
+        this.spawnZones = boardState.spawnZones
+            .map((spawnZone) => [...spawnZone]);
     }
 
     private isTileOccupied(tileCoords: Point): boolean {
-        if (this.redFlag != null
-            && this.redFlag.tileCoords.equals(tileCoords)) {
+        if (this.flags.some((flag) => {
+            return flag != null && flag.tileCoords.equals(tileCoords);
+        })) {
             return true;
         }
-        if (this.blueFlag != null
-            && this.blueFlag.tileCoords.equals(tileCoords)) {
+        if (this.spawners.some((spawner) => {
+            return spawner.tileCoords.equals(tileCoords);
+        })) {
             return true;
         }
         const obstacle = this.obstacles
@@ -82,15 +439,41 @@ export class LevelCreator {
         return obstacle != null;
     }
 
+    private getSpawnZoneTeamIndex(tileCoords: Point): number {
+        return this.spawnZones.findIndex((spawnZone) => {
+            return spawnZone.some((tile) => tile.equals(tileCoords));
+        });
+    }
+
+    private removeSpawnZoneTile(tileCoords: Point): void {
+        this.spawnZones = this.spawnZones.map((spawnZone) => {
+            return spawnZone.filter((tile) => !tile.equals(tileCoords));
+        });
+    }
+
+    private getTerrainInTile(tileCoords: Point): Terrain | undefined {
+        return this.terrain
+            .find((terrain) => terrain.tileCoords.equals(tileCoords));
+    }
+
+    /** Objects are erased before spawn zones and the terrain under them. */
     private removeObjectInTile(tileCoords: Point): void {
-        if (this.redFlag != null
-            && this.redFlag.tileCoords.equals(tileCoords)) {
-            this.redFlag = undefined;
-        }
-        if (this.blueFlag != null
-            && this.blueFlag.tileCoords.equals(tileCoords)) {
-            this.blueFlag = undefined;
+        if (!this.isTileOccupied(tileCoords)) {
+            if (this.getSpawnZoneTeamIndex(tileCoords) !== -1) {
+                this.removeSpawnZoneTile(tileCoords);
+                return;
+            }
+            this.terrain = this.terrain
+                .filter((terrain) => !terrain.tileCoords.equals(tileCoords));
+            return;
         }
+        this.spawners = this.spawners
+            .filter((spawner) => !spawner.tileCoords.equals(tileCoords));
+        this.flags = this.flags.map((flag) => {
+            return flag != null && flag.tileCoords.equals(tileCoords)
+                ? undefined
+                : flag;
+        });
         this.obstacles =
             this.obstacles
                 .filter((obstacle: Obstacle) => !obstacle.tileCoords.equals(tileCoords));
@@ -98,16 +481,42 @@ export class LevelCreator {
 
     render(): void {
         const context = this.context;
-        const width = Grid.GAME_WIDTH;
-        const height = Grid.GAME_HEIGHT;
-        context.fillStyle = THEME.gridBackgroundColor;
+        const width = this.grid.width;
+        const height = this.grid.height;
         context.clearRect(0, 0,
-            width, height);
+            RENDER_SETTINGS.canvasWidth, RENDER_SETTINGS.canvasHeight);
+        context.save();
+        this.camera.applyTransform(context);
+        context.fillStyle = THEME.gridBackgroundColor;
         context.fillRect(0, 0,
             width, height);
+        for (const terrain of this.terrain) {
+            terrain.render(context);
+        }
+        this.spawnZones.forEach((spawnZone, teamIndex) => {
+            const zoneColor =
+                hexStringToColor(THEME.teamColors[teamIndex].flagColor);
+            zoneColor.a = .35;
+            context.fillStyle = colorToString(zoneColor);
+            for (const tile of spawnZone) {
+                const tileCanvasTopLeft = Grid.getCanvasFromTileCoords(tile);
+                context.fillRect(
+                    tileCanvasTopLeft.x, tileCanvasTopLeft.y,
+                    Grid.TILE_SIZE, Grid.TILE_SIZE);
+            }
+        });
+        if (this.objective != null) {
+            context.fillStyle = THEME.objectiveZoneColor;
+            for (const tile of getObjectiveZone(this.objective)) {
+                const tileCanvasTopLeft = Grid.getCanvasFromTileCoords(tile);
+                context.fillRect(
+                    tileCanvasTopLeft.x, tileCanvasTopLeft.y,
+                    Grid.TILE_SIZE, Grid.TILE_SIZE);
+            }
+        }
 
         // Draw grid lines.
-        for (let i = 0; i < Grid.TILES_WIDE; i++) {
+        for (let i = 0; i < this.grid.tilesWide; i++) {
             const startX = i * Grid.TILE_SIZE;
             const endX = startX;
             const startY = 0;
@@ -119,7 +528,7 @@ export class LevelCreator {
             context.lineTo(endX, endY);
             context.stroke();
         }
-        for (let i = 0; i < Grid.TILES_TALL; i++) {
+        for (let i = 0; i < this.grid.tilesTall; i++) {
             const startX = 0;
             const endX = width;
             const startY = i * Grid.TILE_SIZE;
@@ -132,26 +541,31 @@ export class LevelCreator {
             context.stroke();
         }
 
-        const mouseTileCoords =
-            Grid.getTileFromCanvasCoords(CONTROLS.getMouseCanvasCoords());
-        const tileCanvasTopLeft =
-            Grid.getCanvasFromTileCoords(mouseTileCoords);
-        if (Grid.inbounds(mouseTileCoords)
-            && this.placementMode !== PlacementMode.ERASE
-            && !this.isTileOccupied(mouseTileCoords)) {
-            // Indicate hovered tile.
-            const tileCanvasTopLeft =
-                Grid.getCanvasFromTileCoords(mouseTileCoords);
-            let hoverColor = THEME.obstacleColor;
-            if (this.placementMode === PlacementMode.RED_FLAG) {
-                hoverColor = THEME.redFlagColor;
-            } else if (this.placementMode === PlacementMode.BLUE_FLAG) {
-                hoverColor = THEME.blueFlagColor;
+        const hoveredTiles = this.getHoveredTiles();
+        const teamColors = THEME.teamColors[this.placementTeamIndex];
+        let hoverColor = THEME.obstacleColor;
+        if (this.placementMode === PlacementMode.FLAG
+            || this.placementMode === PlacementMode.SPAWN_ZONE) {
+            hoverColor = teamColors.flagColor;
+        } else if (this.placementMode === PlacementMode.SPAWNER) {
+            hoverColor = teamColors.characterReadyColor;
+        } else if (this.placementMode === PlacementMode.HALF_COVER) {
+            hoverColor = THEME.halfCoverColor;
+        } else if (this.placementMode === PlacementMode.TERRAIN) {
+            hoverColor = getTerrainColor(this.terrainType);
+        }
+        const hoverAlpha = .7;
+        const hoverFillColor = hexStringToColor(hoverColor);
+        hoverFillColor.a = hoverAlpha;
+        for (const tile of hoveredTiles) {
+            if (this.placementMode === PlacementMode.ERASE
+                || (this.placementMode !== PlacementMode.TERRAIN
+                    && this.isTileOccupied(tile))) {
+                continue;
             }
-            const hoverAlpha = .7;
-            const fillColor = hexStringToColor(hoverColor);
-            fillColor.a = hoverAlpha;
-            context.fillStyle = colorToString(fillColor);
+            // Indicate hovered tile.
+            const tileCanvasTopLeft = Grid.getCanvasFromTileCoords(tile);
+            context.fillStyle = colorToString(hoverFillColor);
             context.fillRect(
                 tileCanvasTopLeft.x, tileCanvasTopLeft.y,
                 Grid.TILE_SIZE, Grid.TILE_SIZE);
@@ -160,22 +574,64 @@ export class LevelCreator {
         for (const obstacle of this.obstacles) {
             obstacle.render(context);
         }
-        if (this.redFlag != null) {
-            this.redFlag.render(this.context);
+        for (const flag of this.flags) {
+            if (flag != null) {
+                flag.render(this.context);
+            }
         }
-        if (this.blueFlag != null) {
-            this.blueFlag.render(this.context);
+        for (const spawner of this.spawners) {
+            spawner.render(context);
         }
 
-        if (this.placementMode === PlacementMode.ERASE
-            && this.isTileOccupied(mouseTileCoords)) {
-            context.fillStyle = '#000000';
-            context.fillRect(
-                tileCanvasTopLeft.x, tileCanvasTopLeft.y,
-                Grid.TILE_SIZE, Grid.TILE_SIZE);
+        for (const tile of hoveredTiles) {
+            if (this.placementMode === PlacementMode.ERASE
+                && (this.isTileOccupied(tile)
+                    || this.getSpawnZoneTeamIndex(tile) !== -1
+                    || this.getTerrainInTile(tile) != null)) {
+                const tileCanvasTopLeft = Grid.getCanvasFromTileCoords(tile);
+                context.fillStyle = '#000000';
+                context.fillRect(
+                    tileCanvasTopLeft.x, tileCanvasTopLeft.y,
+                    Grid.TILE_SIZE, Grid.TILE_SIZE);
+            }
         }
+        this.renderSymmetryGuide();
+        const levelAnalysis = this.getAnalysis();
+        if (levelAnalysis != null) {
+            this.renderAnalysis(levelAnalysis);
+        }
+        context.restore();
 
         this.renderControls();
+        this.renderStatus(this.getAnalysisLines(levelAnalysis));
+        this.renderSettingsPanel();
+    }
+
+    /** Lines the board is mirrored across, or its center if rotated. */
+    private renderSymmetryGuide(): void {
+        if (this.symmetry === Symmetry.NONE) {
+            return;
+        }
+        const context = this.context;
+        const width = this.grid.width;
+        const height = this.grid.height;
+        context.strokeStyle = THEME.hudTextColor;
+        context.lineWidth = 2;
+        context.setLineDash([Grid.TILE_SIZE / 4, Grid.TILE_SIZE / 4]);
+        context.beginPath();
+        if (this.symmetry === Symmetry.MIRROR_LEFT_RIGHT) {
+            context.moveTo(width / 2, 0);
+            context.lineTo(width / 2, height);
+        } else if (this.symmetry === Symmetry.MIRROR_TOP_BOTTOM) {
+            context.moveTo(0, height / 2);
+            context.lineTo(width, height / 2);
+        } else {
+            context.arc(
+                width / 2, height / 2, Grid.TILE_SIZE / 2, 0, 2 * Math.PI);
+        }
+        context.stroke();
+        context.setLineDash([]);
+        context.lineWidth = 1;
     }
 
     private renderControls(): void {
@@ -198,33 +654,557 @@ export class LevelCreator {
         }
     }
 
+    /**
+     * Bottom up from the bottom left corner, under the analysis if shown.
+     */
+    private renderStatus(analysisLines: string[]): void {
+        const context = this.context;
+        context.fillStyle = THEME.hudTextColor;
+        const fontSize = 18;
+        context.font = `${fontSize}px fantasy`;
+        const lines = [...analysisLines, ...this.statusLines];
+        lines.forEach((line, index) => {
+            context.fillText(
+                line,
+                RENDER_SETTINGS.canvasWidth / 64,
+                RENDER_SETTINGS.canvasHeight
+                - RENDER_SETTINGS.canvasHeight / 32
+                - (lines.length - 1 - index) * (fontSize + 4));
+        });
+    }
+
+    /** Undefined if not shown, null without two flags. */
+    private getAnalysis(): LevelAnalysis | null | undefined {
+        if (!this.isShowingAnalysis) {
+            return undefined;
+        }
+        const boardState = this.getBoardState();
+        if (this.analysis == null
+            || !isSameBoardState(this.analysis.boardState, boardState)) {
+            const placedFlags = this.getPlacedFlags();
+            this.analysis = {
+                boardState,
+                levelAnalysis: placedFlags.length >= 2
+                    ? analyzeLevel(this.buildLevel(placedFlags))
+                    : null,
+            };
+        }
+        return this.analysis.levelAnalysis;
+    }
+
+    /**
+     * Choke points, each team's placement tiles with those in enemy
+     * sight crossed out, and its path to the enemy.
+     */
+    private renderAnalysis(levelAnalysis: LevelAnalysis): void {
+        const context = this.context;
+        context.fillStyle = THEME.chokePointColor;
+        for (const chokePoint of levelAnalysis.chokePoints) {
+            const tileCanvasTopLeft = Grid.getCanvasFromTileCoords(chokePoint);
+            context.fillRect(
+                tileCanvasTopLeft.x, tileCanvasTopLeft.y,
+                Grid.TILE_SIZE, Grid.TILE_SIZE);
+        }
+        const inset = Grid.TILE_SIZE / 8;
+        const size = Grid.TILE_SIZE - 2 * inset;
+        context.lineWidth = 2;
+        levelAnalysis.teams.forEach((team, teamIndex) => {
+            const teamColors = THEME.teamColors[teamIndex];
+            context.strokeStyle = teamColors.flagColor;
+            for (const tile of team.placementTiles) {
+                const topLeft = Grid.getCanvasFromTileCoords(tile)
+                    .add(new Point(inset, inset));
+                context.strokeRect(topLeft.x, topLeft.y, size, size);
+            }
+            context.strokeStyle = THEME.exposedTileColor;
+            for (const tile of team.exposedPlacementTiles) {
+                const topLeft = Grid.getCanvasFromTileCoords(tile)
+                    .add(new Point(inset, inset));
+                context.beginPath();
+                context.moveTo(topLeft.x, topLeft.y);
+                context.lineTo(topLeft.x + size, topLeft.y + size);
+                context.moveTo(topLeft.x + size, topLeft.y);
+                context.lineTo(topLeft.x, topLeft.y + size);
+                context.stroke();
+            }
+            const flag = this.flags[teamIndex];
+            if (team.pathToEnemyFlag == null || flag == null) {
+                return;
+            }
+            context.strokeStyle = teamColors.characterReadyColor;
+            context.beginPath();
+            [flag.tileCoords, ...team.pathToEnemyFlag].forEach((tile, index) => {
+                const tileCenter =
+                    Grid.getCanvasFromTileCoords(tile).add(Grid.HALF_TILE);
+                if (index === 0) {
+                    context.moveTo(tileCenter.x, tileCenter.y);
+                } else {
+                    context.lineTo(tileCenter.x, tileCenter.y);
+                }
+            });
+            context.stroke();
+        });
+        context.lineWidth = 1;
+    }
+
+    private getAnalysisLines(
+        levelAnalysis: LevelAnalysis | null | undefined): string[] {
+
+        if (levelAnalysis === undefined) {
+            return [];
+        }
+        if (levelAnalysis === null) {
+            return ['Place two flags to analyze the level'];
+        }
+        const teamLines = levelAnalysis.teams.map((team, teamIndex) => {
+            const moves = team.movesToEnemyFlag != null
+                ? `${team.movesToEnemyFlag} moves to the enemy`
+                : 'walled off';
+            return `${FLAG_KEYS[teamIndex].teamName}: ${moves}, ` +
+                `${team.exposedPlacementTiles.length} of ` +
+                `${team.placementTiles.length} placement tiles in enemy sight`;
+        });
+        return [
+            ...teamLines,
+            `Choke points: ${levelAnalysis.chokePoints.length}`,
+            ...levelAnalysis.warnings,
+        ];
+    }
+
+    /** The level's name, labels for its settings and what's placed. */
+    private renderSettingsPanel(): void {
+        const context = this.context;
+        const left = Grid.GAME_WIDTH + RENDER_SETTINGS.canvasWidth / 100;
+        context.fillStyle = THEME.hudTextColor;
+        context.font = '22px fantasy';
+        context.fillText(
+            this.levelName, left, RENDER_SETTINGS.canvasHeight * .05);
+        context.font = '18px fantasy';
+        for (const { text, top } of this.panelLabels) {
+            context.fillText(
+                text, left, top * RENDER_SETTINGS.canvasHeight - 6);
+        }
+        const placementLines = [
+            `Placing: ${this.getPlacementDescription()}`,
+            `Brush: ${this.getBrush()}`,
+            `Symmetry: ${this.symmetry}`,
+        ];
+        placementLines.forEach((line, index) => {
+            context.fillText(
+                line,
+                left,
+                RENDER_SETTINGS.canvasHeight * (.87 + index * .04));
+        });
+        this.uiManager.render();
+    }
+
+    private getPlacementDescription(): string {
+        const teamName = FLAG_KEYS[this.placementTeamIndex].teamName;
+        switch (this.placementMode) {
+            case PlacementMode.FLAG:
+                return `${teamName} flag`;
+            case PlacementMode.OBSTACLE:
+                return this.isPlacingDestructibles
+                    ? 'destructible obstacles'
+                    : 'obstacles';
+            case PlacementMode.HALF_COVER:
+                return this.isPlacingDestructibles
+                    ? 'destructible half cover'
+                    : 'half cover';
+            case PlacementMode.TERRAIN:
+                return this.terrainType.toLowerCase().replace('_', ' ');
+            case PlacementMode.SPAWNER:
+                return `${teamName} spawners`;
+            case PlacementMode.SPAWN_ZONE:
+                return `${teamName} spawn zone`;
+            case PlacementMode.ERASE:
+                return 'eraser';
+        }
+    }
+
+    /**
+     * (Re)creates the panel's buttons, for the level's name and settings
+     * and the turns between spawns of placed spawners.
+     */
+    private initSettingsPanel(): void {
+        this.uiManager.removeAll();
+        this.panelLabels = [];
+        const left = Grid.GAME_WIDTH / RENDER_SETTINGS.canvasWidth + .01;
+        const buttonSize = new Point(.065, .045);
+        const gap = .008;
+        const buttonStyle: ButtonStyle = {
+            fontSize: 16,
+            color: '#f7c25e',
+            hoverColor: '#deaf57',
+            selectedColor: '#db9d2a',
+            selectedBorderColor: '#000000',
+            textColor: THEME.buttonTextColor,
+        };
+        const topButtonSize = new Point(
+            (3 * buttonSize.x + gap) / 2, buttonSize.y);
+        this.uiManager.addElement(new Button({
+            dimensions: {
+                topLeft: new Point(left, .07),
+                size: topButtonSize,
+                text: 'Rename',
+            },
+            style: buttonStyle,
+            onClick: () => {
+                const name = window.prompt('Level name', this.levelName);
+                if (name != null && name.trim()) {
+                    this.levelName = name.trim();
+                }
+            },
+        }));
+        this.uiManager.addElement(new Button({
+            dimensions: {
+                topLeft: new Point(left + topButtonSize.x + gap, .07),
+                size: topButtonSize,
+                text: 'Playtest',
+            },
+            style: buttonStyle,
+            onClick: this.playtest,
+        }));
+
+        let top = .2;
+        const addOptions = (
+            label: string,
+            options: string[],
+            selectedIndex: number,
+            onChange: (index: number) => void) => {
+
+            this.panelLabels.push({ text: label, top });
+            this.uiManager.addElement(new ButtonGroup({
+                buttons: options.map((text, index) => {
+                    const column = index % PANEL_OPTIONS_PER_ROW;
+                    const row = Math.floor(index / PANEL_OPTIONS_PER_ROW);
+                    return {
+                        topLeft: new Point(
+                            left + column * (buttonSize.x + gap),
+                            top + row * (buttonSize.y + gap)),
+                        size: buttonSize,
+                        text,
+                    };
+                }),
+                buttonStyle,
+                initialSelectionIndex: Math.max(selectedIndex, 0),
+                onChangeCallback: onChange,
+            }));
+            const numRows = Math.ceil(options.length / PANEL_OPTIONS_PER_ROW);
+            top += numRows * (buttonSize.y + gap) + .05;
+        };
+        const settings = this.levelSettings;
+        addOptions(
+            'Team size',
+            SQUAD_SIZE_OPTIONS.map(([first, other]) => `${first}x${other}`),
+            SQUAD_SIZE_OPTIONS.findIndex((squadSizes) => {
+                return squadSizes[0] === settings.squadSizes[0]
+                    && squadSizes[1] === settings.squadSizes[1];
+            }),
+            (index) => {
+                this.levelSettings = {
+                    ...this.levelSettings,
+                    squadSizes: SQUAD_SIZE_OPTIONS[index],
+                };
+            });
+        addOptions(
+            'Fog of war',
+            ['On', 'Off'],
+            settings.hasFogOfWar ? 0 : 1,
+            (index) => {
+                this.levelSettings = {
+                    ...this.levelSettings,
+                    hasFogOfWar: index === 0,
+                };
+            });
+        addOptions(
+            'Spawners',
+            ['On', 'Off'],
+            settings.hasSpawners ? 0 : 1,
+            (index) => {
+                this.levelSettings = {
+                    ...this.levelSettings,
+                    hasSpawners: index === 0,
+                };
+            });
+        addOptions(
+            'Turns between spawns',
+            SPAWNER_TURN_OPTIONS.map((turns) => `${turns}`),
+            SPAWNER_TURN_OPTIONS.indexOf(this.spawnerTurns),
+            (index) => {
+                this.spawnerTurns = SPAWNER_TURN_OPTIONS[index];
+            });
+        addOptions(
+            'Playtest as',
+            PLAYTEST_MATCH_TYPES.map(([name]) => name),
+            PLAYTEST_MATCH_TYPES.findIndex(([, matchType]) => {
+                return matchType === this.playtestMatchType;
+            }),
+            (index) => {
+                this.playtestMatchType = PLAYTEST_MATCH_TYPES[index][1];
+            });
+    }
+
     destroy(): void {
         if (this.controlMap) {
             this.controlMap.clear();
         }
     }
 
+    /** Takes the controls back after a playtest, with the level as it was. */
+    resume(): void {
+        this.initControls();
+    }
+
+    /** Starts a match on the level as it is now, if it's playable. */
+    private readonly playtest = (): void => {
+        const level = this.getLevel();
+        if (level == null) {
+            return;
+        }
+        const problems = validateLevel(level);
+        if (problems.length) {
+            this.statusLines = problems;
+            return;
+        }
+        const numTeams = level.data.flags.length;
+        const [firstSquadSize, otherSquadSize] = this.levelSettings.squadSizes;
+        const teamIndexToSquadSize = new Map<number, number>();
+        for (let i = 0; i < numTeams; i++) {
+            teamIndexToSquadSize.set(
+                i, i === 0 ? firstSquadSize : otherSquadSize);
+        }
+        this.statusLines = [];
+        this.onPlaytest(level, {
+            ...DEFAULT_GAME_SETTINGS,
+            matchType: this.playtestMatchType,
+            teamIndexToSquadSize,
+            maxSpawnDistanceFromFlag:
+                getMaxSpawnDistanceFromFlag(otherSquadSize),
+            numTeams,
+            hasFogOfWar: this.levelSettings.hasFogOfWar,
+            hasSpawners: this.levelSettings.hasSpawners,
+            seed: createSeed(),
+        });
+    };
+
+    /** Keeps the level in the player's levels, even if unplayable. */
     private readonly saveLevel = (): void => {
-        // TODO - ensure there's a path from flag to flag.
-        if (this.blueFlag == null || this.redFlag == null) {
-            // TODO - toast failure?
-            throw new Error('Need to add both flags!');
-        }
-        const level: LevelData = {
-            redFlag: this.redFlag.tileCoords,
-            blueFlag: this.blueFlag.tileCoords,
-            obstacles: this.obstacles.map((obstacle) => obstacle.tileCoords),
-        };
-        console.log(JSON.stringify(level));
-        // TODO - toast success?
+        const level = this.getLevel();
+        if (level == null) {
+            return;
+        }
+        try {
+            this.libraryLevel = this.libraryLevel != null
+                ? updateLibraryLevel(this.libraryLevel.id, level)
+                : addLibraryLevel(level);
+        } catch (e) {
+            this.statusLines = [e.message];
+            return;
+        }
+        const problems = validateLevel(level);
+        this.statusLines = problems.length
+            ? ['Saved to your levels, but it can\'t be played yet:',
+                ...problems]
+            : ['Saved to your levels'];
+    };
+
+    /** Downloads the level as a file, if it's playable. */
+    private readonly exportLevel = (): void => {
+        const level = this.getLevel();
+        if (level == null) {
+            return;
+        }
+        const problems = validateLevel(level);
+        if (problems.length) {
+            this.statusLines = problems;
+            return;
+        }
+        downloadLevel(level);
+        this.statusLines = ['Exported'];
     };
 
+    /** Null if the flags can't be saved, explained in the status. */
+    private getLevel(): Level | null {
+        const placedFlags = this.getPlacedFlags();
+        if (this.flags.some((flag, teamIndex) => {
+            return flag != null && teamIndex >= placedFlags.length;
+        })) {
+            this.statusLines = [
+                'Place flags in team order, ie yellow before purple'];
+            return null;
+        }
+        return this.buildLevel(placedFlags);
+    }
+
+    /** Flags up to the first team without one. */
+    private getPlacedFlags(): Flag[] {
+        const placedFlags: Flag[] = [];
+        for (const flag of this.flags) {
+            if (flag == null) {
+                break;
+            }
+            placedFlags.push(flag);
+        }
+        return placedFlags;
+    }
+
+    private buildLevel(placedFlags: Flag[]): Level {
+        const data: LevelData = {
+            width: this.grid.tilesWide,
+            height: this.grid.tilesTall,
+            flags: placedFlags.map((flag) => flag.tileCoords),
+            obstacles: this.getObstacleTiles(ObstacleType.WALL),
+            halfCovers: this.getObstacleTiles(ObstacleType.HALF_COVER),
+            destructibles: this.obstacles
+                .filter((obstacle) => obstacle.isDestructible())
+                .map((obstacle) => obstacle.tileCoords),
+            terrain: this.terrain.map((terrain) => {
+                return {
+                    x: terrain.tileCoords.x,
+                    y: terrain.tileCoords.y,
+                    type: terrain.type,
+                };
+            }),
+            spawners: this.spawners.map((spawner) => {
+                return {
+                    x: spawner.tileCoords.x,
+                    y: spawner.tileCoords.y,
+                    teamIndex: spawner.teamIndex,
+                    turnsBetweenSpawns: spawner.turnsBetweenSpawns,
+                };
+            }),
+            spawnZones: this.spawnZones,
+            objective: this.objective,
+        };
+        return {
+            name: this.levelName,
+            author: this.libraryLevel != null
+                ? this.libraryLevel.level.author
+                : undefined,
+            data,
+            aiSpawner: this.getAiSpawnerTile(),
+            settings: this.levelSettings,
+        };
+    }
+
+    /** Replaces what's placed with the level's contents. */
+    private loadLevel(level: Level): void {
+        this.grid = getLevelGrid(level.data);
+        this.camera = new Camera(this.grid);
+        const destructibleTiles = (level.data.destructibles || [])
+            .map(pointFromSerialized);
+        const isDestructible = (tile: Point): boolean => {
+            return destructibleTiles.some((destructible) => {
+                return destructible.equals(tile);
+            });
+        };
+        const toObstacles = (
+            points: SerializedPoint[], type: ObstacleType): Obstacle[] => {
+            return points.map(pointFromSerialized).map((tile) => {
+                return new Obstacle(tile, type, isDestructible(tile));
+            });
+        };
+        this.obstacles = [
+            ...toObstacles(level.data.obstacles, ObstacleType.WALL),
+            ...toObstacles(
+                level.data.halfCovers || [], ObstacleType.HALF_COVER),
+        ];
+        this.terrain = (level.data.terrain || []).map((terrain) => {
+            return new Terrain(pointFromSerialized(terrain), terrain.type);
+        });
+        this.flags = level.data.flags.map((flag, teamIndex) => {
+            return new Flag({
+                tileCoords: pointFromSerialized(flag),
+                teamIndex,
+            });
+        });
+        this.spawners = (level.data.spawners || []).map((spawner) => {
+            return new Spawner({
+                tileCoords: pointFromSerialized(spawner),
+                teamIndex: spawner.teamIndex,
+                turnsBetweenSpawns: spawner.turnsBetweenSpawns,
+            });
+        });
+        this.spawnZones = FLAG_KEYS.map((_, teamIndex) => {
+            return ((level.data.spawnZones || [])[teamIndex] || [])
+                .map(pointFromSerialized);
+        });
+        this.objective = level.data.objective;
+        this.levelName = level.name;
+        this.undoStack = [];
+        this.redoStack = [];
+        if (level.settings != null) {
+            this.levelSettings = level.settings;
+        }
+        this.initSettingsPanel();
+    }
+
+    /** Closest open tile to the second team's flag, like other spawners. */
+    private getAiSpawnerTile(): Point {
+        const flag = this.flags[1];
+        if (flag == null) {
+            return new Point(0, 0);
+        }
+        const openTiles = bfs({
+            grid: this.grid,
+            startTile: flag.tileCoords,
+            maxDepth: Infinity,
+            isAvailable: (tile: Point) => !this.isTileOccupied(tile),
+            canGoThrough: (tile: Point) => {
+                return !this.obstacles.some((obstacle) => {
+                    return obstacle.tileCoords.equals(tile);
+                });
+            },
+        });
+        return openTiles.length ? openTiles[0] : flag.tileCoords;
+    }
+
+    private getObstacleTiles(type: ObstacleType): Point[] {
+        return this.obstacles
+            .filter((obstacle) => obstacle.type === type)
+            .map((obstacle) => obstacle.tileCoords);
+    }
+
     private resetGame = (): void => {
         this.destroy();
+        this.grid = new Grid();
+        this.camera = new Camera(this.grid);
         this.placementMode = PlacementMode.OBSTACLE;
         this.obstacles = [];
-        this.redFlag = undefined;
-        this.blueFlag = undefined;
+        this.flags = [];
+        this.spawners = [];
+        this.spawnZones = FLAG_KEYS.map(() => []);
+        this.objective = undefined;
+        this.placementTeamIndex = 0;
+        this.spawnerTurns = DEFAULT_SPAWNER_TURNS;
+        this.brush = Brush.TILE;
+        this.strokeStartTile = undefined;
+        this.symmetry = Symmetry.NONE;
+        this.undoStack = [];
+        this.redoStack = [];
+        this.isShowingAnalysis = false;
+        this.analysis = undefined;
+        this.levelName = 'Custom level';
+        this.levelSettings = {
+            squadSizes: [
+                DEFAULT_GAME_SETTINGS.teamIndexToSquadSize.get(0)!,
+                DEFAULT_GAME_SETTINGS.teamIndexToSquadSize.get(1)!,
+            ],
+            hasFogOfWar: DEFAULT_GAME_SETTINGS.hasFogOfWar,
+            hasSpawners: DEFAULT_GAME_SETTINGS.hasSpawners,
+        };
+        this.playtestMatchType = MatchType.PLAYER_VS_AI;
+        this.initSettingsPanel();
+        this.isPlacingDestructibles = false;
+        this.terrainType = TERRAIN_TYPES[0];
+        this.terrain = [];
+        this.libraryLevel = undefined;
+        this.statusLines = [];
+        this.initControls();
+    }
+
+    private initControls(): void {
         this.controlMap = new ControlMap();
         this.controlMap.add({
             key: Key.Q,
@@ -234,16 +1214,65 @@ export class LevelCreator {
         });
         this.controlMap.add({
             key: Key.R,
-            name: 'Reset',
+            name: 'Reset (starts a new level)',
             func: this.resetGame,
             eventType: EventType.KeyPress,
         });
         this.controlMap.add({
             key: Key.S,
-            name: 'Save',
+            name: 'Save to My Levels',
             func: this.saveLevel,
             eventType: EventType.KeyPress,
         });
+        this.controlMap.add({
+            key: Key.G,
+            name: 'Playtest',
+            func: this.playtest,
+            eventType: EventType.KeyPress,
+        });
+        this.controlMap.add({
+            key: Key.X,
+            name: 'Export File',
+            func: this.exportLevel,
+            eventType: EventType.KeyPress,
+        });
+        this.controlMap.add({
+            key: Key.U,
+            name: 'Undo',
+            func: this.undo,
+            eventType: EventType.KeyPress,
+        });
+        this.controlMap.add({
+            key: Key.I,
+            name: 'Redo',
+            func: this.redo,
+            eventType: EventType.KeyPress,
+        });
+        this.controlMap.add({
+            key: Key.A,
+            name: 'Toggle Analysis',
+            func: () => {
+                this.isShowingAnalysis = !this.isShowingAnalysis;
+            },
+            eventType: EventType.KeyPress,
+        });
+        this.controlMap.add({
+            key: Key.F,
+            name: 'Change Brush (tile, line, rectangle, fill)',
+            func: () => {
+                this.brush = getNext(BRUSHES, this.brush);
+                this.strokeStartTile = undefined;
+            },
+            eventType: EventType.KeyPress,
+        });
+        this.controlMap.add({
+            key: Key.M,
+            name: 'Change Symmetry',
+            func: () => {
+                this.symmetry = getNext(SYMMETRIES, this.symmetry);
+            },
+            eventType: EventType.KeyPress,
+        });
         this.controlMap.add({
             key: Key.O,
             name: 'Place Obstacles',
@@ -251,15 +1280,61 @@ export class LevelCreator {
             eventType: EventType.KeyPress,
         });
         this.controlMap.add({
-            key: Key.B,
-            name: 'Place Blue Flag',
-            func: () => { this.setPlacementMode(PlacementMode.BLUE_FLAG) },
+            key: Key.H,
+            name: 'Place Half Cover',
+            func: () => { this.setPlacementMode(PlacementMode.HALF_COVER) },
+            eventType: EventType.KeyPress,
+        });
+        this.controlMap.add({
+            key: Key.T,
+            name: 'Place Terrain (again to change type)',
+            func: () => {
+                if (this.placementMode === PlacementMode.TERRAIN) {
+                    const typeIndex = TERRAIN_TYPES.indexOf(this.terrainType);
+                    this.terrainType =
+                        TERRAIN_TYPES[(typeIndex + 1) % TERRAIN_TYPES.length];
+                }
+                this.setPlacementMode(PlacementMode.TERRAIN);
+            },
+            eventType: EventType.KeyPress,
+        });
+        this.controlMap.add({
+            key: Key.D,
+            name: 'Toggle Destructible',
+            func: () => {
+                this.isPlacingDestructibles = !this.isPlacingDestructibles;
+            },
+            eventType: EventType.KeyPress,
+        });
+        FLAG_KEYS.forEach(({ key, teamName }, teamIndex) => {
+            this.controlMap.add({
+                key,
+                name: `Place ${teamName} Flag`,
+                func: () => {
+                    this.placementTeamIndex = teamIndex;
+                    this.setPlacementMode(PlacementMode.FLAG);
+                },
+                eventType: EventType.KeyPress,
+            });
+        });
+        this.controlMap.add({
+            key: Key.N,
+            name: 'Place Spawners (again to change team)',
+            func: () => { this.setTeamPlacementMode(PlacementMode.SPAWNER) },
+            eventType: EventType.KeyPress,
+        });
+        this.controlMap.add({
+            key: Key.Z,
+            name: 'Place Spawn Zone (again to change team)',
+            func: () => {
+                this.setTeamPlacementMode(PlacementMode.SPAWN_ZONE);
+            },
             eventType: EventType.KeyPress,
         });
         this.controlMap.add({
-            key: Key.V,
-            name: 'Place Red Flag',
-            func: () => { this.setPlacementMode(PlacementMode.RED_FLAG) },
+            key: Key.W,
+            name: 'Resize Board',
+            func: this.resizeBoard,
             eventType: EventType.KeyPress,
         });
         this.controlMap.add({
@@ -270,7 +1345,60 @@ export class LevelCreator {
         });
     }
 
+    /** Cycles through board sizes, dropping what no longer fits. */
+    private readonly resizeBoard = (): void => {
+        this.edit(() => {
+            const size = getNext(BOARD_SIZES, this.grid.tilesWide);
+            this.grid = new Grid(size, size);
+            this.camera = new Camera(this.grid);
+            this.obstacles = this.obstacles
+                .filter((obstacle) => this.grid.inbounds(obstacle.tileCoords));
+            this.terrain = this.terrain
+                .filter((terrain) => this.grid.inbounds(terrain.tileCoords));
+            this.flags = this.flags.map((flag) => {
+                return flag != null && this.grid.inbounds(flag.tileCoords)
+                    ? flag
+                    : undefined;
+            });
+            this.spawners = this.spawners
+                .filter((spawner) => this.grid.inbounds(spawner.tileCoords));
+            this.spawnZones = this.spawnZones.map((spawnZone) => {
+                return spawnZone.filter((tile) => this.grid.inbounds(tile));
+            });
+        });
+    };
+
     private setPlacementMode(mode: PlacementMode): void {
         this.placementMode = mode;
     }
+
+    /** Switches to the mode, or to the next team if already in it. */
+    private setTeamPlacementMode(mode: PlacementMode): void {
+        if (this.placementMode === mode) {
+            this.placementTeamIndex =
+                (this.placementTeamIndex + 1) % FLAG_KEYS.length;
+        }
+        this.setPlacementMode(mode);
+    }
+}
+
+function isSameBoardState(a: BoardState, b: BoardState): boolean {
+    const isSameList = <T>(listA: T[], listB: T[]): boolean => {
+        return listA.length === listB.length
+            && listA.every((element, index) => element === listB[index]);
+    };
+    return a.grid === b.grid
+        && isSameList(a.obstacles, b.obstacles)
+        && isSameList(a.terrain, b.terrain)
+        && isSameList(a.flags, b.flags)
+        && isSameList(a.spawners, b.spawners)
+        && a.spawnZones.length === b.spawnZones.length
+        && a.spawnZones.every((spawnZone, teamIndex) => {
+            return isSameList(spawnZone, b.spawnZones[teamIndex]);
+        });
+}
+
+/** The option after the current one, wrapping around. */
+function getNext<T>(options: T[], current: T): T {
+    return options[(options.indexOf(current) + 1) % options.length];
 }
@@ -0,0 +1,420 @@
+import { Level, LevelData, LevelSettings, SerializedPoint, getLevelGrid } from 'src/app/level';
+import { TerrainType } from 'src/app/game_objects/terrain';
+import { MAX_NUM_TEAMS } from 'src/app/game_settings';
+import { Point, pointFromSerialized } from 'src/app/math/point';
+import { bfs } from 'src/app/grid';
+import { ObjectiveType, getObjectiveTeamIndex, getObjectiveZone } from 'src/app/objectives';
+
+/** Bump when the file format changes. */
+const LEVEL_FILE_VERSION = 1;
+
+/** In tiles, for either side of the board. */
+export const MIN_LEVEL_SIZE = 6;
+export const MAX_LEVEL_SIZE = 40;
+
+/** A level as stored in a .json file. */
+export interface SerializedLevel {
+    readonly version: number;
+    readonly name: string;
+    readonly author?: string;
+    readonly data: LevelData;
+    readonly aiSpawner: SerializedPoint;
+    readonly settings?: LevelSettings;
+}
+
+export function serializeLevel(level: Level): SerializedLevel {
+    return {
+        version: LEVEL_FILE_VERSION,
+        name: level.name,
+        author: level.author,
+        data: level.data,
+        aiSpawner: level.aiSpawner,
+        settings: level.settings,
+    };
+}
+
+/**
+ * Throws an error listing every problem, one per line, if the
+ * level is malformed. It may still be unplayable, see validateLevel.
+ */
+export function deserializeLevel(serialized: unknown): Level {
+    const formatProblems = getFormatProblems(serialized);
+    if (formatProblems.length) {
+        throw new Error(formatProblems.join('\n'));
+    }
+    const level = serialized as SerializedLevel;
+    return {
+        name: level.name,
+        author: level.author,
+        data: level.data,
+        aiSpawner: level.aiSpawner,
+        settings: level.settings,
+    };
+}
+
+/** Problems that would make the level unplayable, empty if none. */
+export function validateLevel(level: Level): string[] {
+    const problems: string[] = [];
+    const { data } = level;
+    const grid = getLevelGrid(data);
+    for (const size of [grid.tilesWide, grid.tilesTall]) {
+        if (size < MIN_LEVEL_SIZE || size > MAX_LEVEL_SIZE) {
+            problems.push(
+                `Boards are ${MIN_LEVEL_SIZE} to ${MAX_LEVEL_SIZE} ` +
+                `tiles on each side, not ${size}`);
+        }
+    }
+    if (data.flags.length < 2 || data.flags.length > MAX_NUM_TEAMS) {
+        problems.push(
+            `Levels need 2 to ${MAX_NUM_TEAMS} flags, ` +
+            `not ${data.flags.length}`);
+    }
+
+    const obstacleTiles = [...data.obstacles, ...(data.halfCovers || [])]
+        .map(pointFromSerialized);
+    const isObstacle = (tile: Point): boolean => {
+        return obstacleTiles.some((obstacle) => obstacle.equals(tile));
+    };
+    const checkInbounds = (point: SerializedPoint, name: string): boolean => {
+        if (grid.inbounds(pointFromSerialized(point))) {
+            return true;
+        }
+        problems.push(`${name} at ${point.x}, ${point.y} is out of bounds`);
+        return false;
+    };
+    data.obstacles.forEach((point) => checkInbounds(point, 'Obstacle'));
+    (data.halfCovers || [])
+        .forEach((point) => checkInbounds(point, 'Half cover'));
+    (data.terrain || []).forEach((point) => checkInbounds(point, 'Terrain'));
+    for (const point of data.destructibles || []) {
+        if (!isObstacle(pointFromSerialized(point))) {
+            problems.push(
+                `Destructible at ${point.x}, ${point.y} isn't an obstacle`);
+        }
+    }
+    if (checkInbounds(level.aiSpawner, 'AI spawner')
+        && isObstacle(pointFromSerialized(level.aiSpawner))) {
+        problems.push('AI spawner is on an obstacle');
+    }
+
+    const flagTiles = data.flags.map(pointFromSerialized);
+    const isFlag = (tile: Point): boolean => {
+        return flagTiles.some((flagTile) => flagTile.equals(tile));
+    };
+    flagTiles.forEach((flagTile, teamIndex) => {
+        const name = `Flag ${teamIndex + 1}`;
+        if (!checkInbounds(flagTile, name)) {
+            return;
+        }
+        if (isObstacle(flagTile)) {
+            problems.push(`${name} is on an obstacle`);
+        }
+        if (flagTiles.findIndex((tile) => tile.equals(flagTile))
+            !== teamIndex) {
+            problems.push(`${name} is on another flag`);
+        }
+    });
+
+    (data.spawners || []).forEach((spawner, spawnerIndex) => {
+        const name = `Spawner ${spawnerIndex + 1}`;
+        if (spawner.teamIndex >= data.flags.length) {
+            problems.push(`${name} is for a team without a flag`);
+        }
+        if (spawner.turnsBetweenSpawns < 1) {
+            problems.push(`${name} needs at least 1 turn between spawns`);
+        }
+        const tile = pointFromSerialized(spawner);
+        if (!checkInbounds(tile, name)) {
+            return;
+        }
+        if (isObstacle(tile) || isFlag(tile)) {
+            problems.push(`${name} is on an obstacle or flag`);
+        }
+        if ((data.spawners || []).findIndex((other) => {
+            return tile.equals(pointFromSerialized(other));
+        }) !== spawnerIndex) {
+            problems.push(`${name} is on another spawner`);
+        }
+    });
+    (data.spawnZones || []).forEach((spawnZone, teamIndex) => {
+        const name = `Team ${teamIndex + 1} spawn zone`;
+        if (spawnZone.length && teamIndex >= data.flags.length) {
+            problems.push(`${name} is for a team without a flag`);
+        }
+        for (const point of spawnZone) {
+            const tile = pointFromSerialized(point);
+            if (checkInbounds(tile, name)
+                && (isObstacle(tile) || isFlag(tile))) {
+                problems.push(`${name} at ${tile.x}, ${tile.y} ` +
+                    'is on an obstacle or flag');
+            }
+        }
+    });
+    if (data.objective != null) {
+        const objectiveTeamIndex = getObjectiveTeamIndex(data.objective);
+        if (objectiveTeamIndex != null
+            && objectiveTeamIndex >= data.flags.length) {
+            problems.push('Objective is for a team without a flag');
+        }
+        for (const tile of getObjectiveZone(data.objective)) {
+            if (checkInbounds(tile, 'Objective tile')
+                && (isObstacle(tile) || isFlag(tile))) {
+                problems.push(`Objective tile at ${tile.x}, ${tile.y} ` +
+                    'is on an obstacle or flag');
+            }
+        }
+    }
+    if (problems.length || flagTiles.length < 2) {
+        return problems;
+    }
+
+    // Destructible obstacles can be cleared, so they don't wall flags in.
+    const destructibleTiles =
+        (data.destructibles || []).map(pointFromSerialized);
+    const canGoThrough = (tile: Point): boolean => {
+        return !isObstacle(tile)
+            || destructibleTiles.some((destructible) => {
+                return destructible.equals(tile);
+            });
+    };
+    const reachableTiles = bfs({
+        grid,
+        startTile: flagTiles[0],
+        maxDepth: Infinity,
+        isAvailable: canGoThrough,
+        canGoThrough,
+    });
+    flagTiles.forEach((flagTile, teamIndex) => {
+        if (teamIndex > 0
+            && !reachableTiles.some((tile) => tile.equals(flagTile))) {
+            problems.push(
+                `Flag ${teamIndex + 1} is walled off from flag 1`);
+        }
+    });
+    return problems;
+}
+
+/** Saves the level as a .json file through the browser. */
+export function downloadLevel(level: Level): void {
+    const blob = new Blob(
+        [JSON.stringify(serializeLevel(level), null, 2)],
+        { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${level.name.replace(/[^a-z0-9]+/gi, '_')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+/**
+ * Asks the player for a .json level file, which must be playable.
+ * Nothing is called if they cancel.
+ */
+export function pickLevelFile(callbacks: {
+    onLoad: (level: Level) => void;
+    /** One problem per line. */
+    onError: (message: string) => void;
+}): void {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.json,application/json';
+    input.onchange = () => {
+        const file = input.files != null ? input.files[0] : null;
+        if (file == null) {
+            return;
+        }
+        const reader = new FileReader();
+        reader.onload = () => {
+            let level: Level;
+            try {
+                level = deserializeLevel(JSON.parse(reader.result as string));
+            } catch (e) {
+                callbacks.onError(
+                    e instanceof SyntaxError ? 'Not a JSON file' : e.message);
+                return;
+            }
+            const problems = validateLevel(level);
+            if (problems.length) {
+                callbacks.onError(problems.join('\n'));
+                return;
+            }
+            callbacks.onLoad(level);
+        };
+        reader.onerror = () => {
+            callbacks.onError(`Couldn't read ${file.name}`);
+        };
+        reader.readAsText(file);
+    };
+    input.click();
+}
+
+/** Checks types, so validateLevel can assume a well formed level. */
+function getFormatProblems(serialized: unknown): string[] {
+    if (!isObject(serialized)) {
+        return ['Not a level file'];
+    }
+    if (serialized.version !== LEVEL_FILE_VERSION) {
+        return [`Unsupported level file version: ${serialized.version}`];
+    }
+    const problems: string[] = [];
+    if (typeof serialized.name !== 'string' || !serialized.name.trim()) {
+        problems.push('Level needs a name');
+    }
+    if (serialized.author != null && typeof serialized.author !== 'string') {
+        problems.push('Author must be text');
+    }
+    if (!isPoint(serialized.aiSpawner)) {
+        problems.push('Level needs an AI spawner tile');
+    }
+    const data = serialized.data;
+    if (!isObject(data)) {
+        problems.push('Level needs data');
+        return problems;
+    }
+    for (const key of ['width', 'height']) {
+        if (data[key] != null && !isInteger(data[key])) {
+            problems.push(`Level ${key} must be a whole number of tiles`);
+        }
+    }
+    const pointListKeys: Array<[string, boolean]> = [
+        ['flags', true],
+        ['obstacles', true],
+        ['halfCovers', false],
+        ['destructibles', false],
+        ['terrain', false],
+    ];
+    for (const [key, isRequired] of pointListKeys) {
+        const points = data[key];
+        if (points == null && !isRequired) {
+            continue;
+        }
+        if (!Array.isArray(points) || !points.every(isPoint)) {
+            problems.push(`Level ${key} must be a list of tiles`);
+        }
+    }
+    const terrainTypes = Object.keys(TerrainType);
+    if (Array.isArray(data.terrain)
+        && data.terrain.some((terrain: unknown) => {
+            return !isObject(terrain)
+                || typeof terrain.type !== 'string'
+                || terrainTypes.indexOf(terrain.type) === -1;
+        })) {
+        problems.push(
+            `Terrain types must be one of ${terrainTypes.join(', ')}`);
+    }
+    if (data.spawners != null
+        && (!Array.isArray(data.spawners)
+            || !data.spawners.every((spawner: unknown) => {
+                return isObject(spawner)
+                    && isPoint(spawner)
+                    && isInteger(spawner.teamIndex)
+                    && spawner.teamIndex >= 0
+                    && isInteger(spawner.turnsBetweenSpawns);
+            }))) {
+        problems.push(
+            'Level spawners must be a list of tiles with a team and turns');
+    }
+    if (data.spawnZones != null
+        && (!Array.isArray(data.spawnZones)
+            || !data.spawnZones.every((spawnZone: unknown) => {
+                return Array.isArray(spawnZone) && spawnZone.every(isPoint);
+            }))) {
+        problems.push('Level spawn zones must be a list of tiles per team');
+    }
+    if (data.objective != null) {
+        problems.push(...getObjectiveFormatProblems(data.objective));
+    }
+    if (serialized.settings != null) {
+        problems.push(...getSettingsFormatProblems(serialized.settings));
+    }
+    return problems;
+}
+
+/** Checks an objective's types, from a level or game settings. */
+export function getObjectiveFormatProblems(objective: unknown): string[] {
+    if (!isObject(objective)) {
+        return ['Level objective must be an object'];
+    }
+    const isPositiveInteger = (value: unknown): boolean => {
+        return isInteger(value) && value > 0;
+    };
+    const isTileList = (value: unknown): boolean => {
+        return Array.isArray(value) && value.length > 0 && value.every(isPoint);
+    };
+    const problems: string[] = [];
+    switch (objective.type) {
+        case ObjectiveType.CAPTURE_THE_FLAG:
+            if (!isPositiveInteger(objective.capturesToWin)) {
+                problems.push('Objective capturesToWin must be at least 1');
+            }
+            break;
+        case ObjectiveType.KING_OF_THE_HILL:
+            if (!isTileList(objective.hill)) {
+                problems.push('Objective hill must be a list of tiles');
+            }
+            if (!isPositiveInteger(objective.turnsToHold)) {
+                problems.push('Objective turnsToHold must be at least 1');
+            }
+            break;
+        case ObjectiveType.ESCORT:
+            if (!isInteger(objective.escortTeamIndex)
+                || objective.escortTeamIndex < 0) {
+                problems.push('Objective escortTeamIndex must be a team');
+            }
+            if (!isTileList(objective.exit)) {
+                problems.push('Objective exit must be a list of tiles');
+            }
+            break;
+        case ObjectiveType.DEFEND:
+            if (!isInteger(objective.defendingTeamIndex)
+                || objective.defendingTeamIndex < 0) {
+                problems.push('Objective defendingTeamIndex must be a team');
+            }
+            if (!isPositiveInteger(objective.turnsToDefend)) {
+                problems.push('Objective turnsToDefend must be at least 1');
+            }
+            break;
+        default:
+            problems.push(
+                `Objective types must be one of ` +
+                `${Object.keys(ObjectiveType).join(', ')}`);
+    }
+    return problems;
+}
+
+function getSettingsFormatProblems(settings: unknown): string[] {
+    if (!isObject(settings)) {
+        return ['Level settings must be an object'];
+    }
+    const problems: string[] = [];
+    const squadSizes = settings.squadSizes;
+    if (!Array.isArray(squadSizes)
+        || squadSizes.length !== 2
+        || !squadSizes.every((squadSize: unknown) => {
+            return isInteger(squadSize) && squadSize > 0;
+        })) {
+        problems.push('Level squad sizes must be two whole numbers');
+    }
+    for (const key of ['hasFogOfWar', 'hasSpawners']) {
+        if (typeof settings[key] !== 'boolean') {
+            problems.push(`Level setting ${key} must be true or false`);
+        }
+    }
+    return problems;
+}
+
+/** Fields of parsed JSON, not yet checked. */
+type UnknownFields = { readonly [key: string]: unknown };
+
+function isObject(value: unknown): value is UnknownFields {
+    return value != null && typeof value === 'object';
+}
+
+function isPoint(value: unknown): value is SerializedPoint {
+    return isObject(value) && isInteger(value.x) && isInteger(value.y);
+}
+
+export function isInteger(value: unknown): value is number {
+    return typeof value === 'number' && Math.floor(value) === value;
+}
@@ -0,0 +1,324 @@
+import { Level, LevelData } from 'src/app/level';
+import { validateLevel } from 'src/app/level_file';
+import { Symmetry, getMirroredTile, getMirroredTeamIndex } from 'src/app/level_brush';
+import { Grid, bfs, pathTo } from 'src/app/grid';
+import { Point } from 'src/app/math/point';
+import { Random, randomElement } from 'src/app/math/random';
+
+/** How walls are laid out. */
+export enum MapStyle {
+    /** Scattered walls and half covers to take cover behind. */
+    OPEN = 'open',
+    /** Maze-like halls, opened up until they're as dense as asked. */
+    CORRIDORS = 'corridors',
+}
+
+export interface LevelGeneratorParams {
+    /** The same seed and parameters always make the same level. */
+    readonly seed: number;
+    /** In tiles. */
+    readonly width: number;
+    readonly height: number;
+    /** Fraction of the board covered by walls and half covers. */
+    readonly wallDensity: number;
+    readonly symmetry: Symmetry;
+    readonly style: MapStyle;
+    /** Number of flags placed. */
+    readonly numTeams: number;
+}
+
+export const DEFAULT_LEVEL_GENERATOR_PARAMS: LevelGeneratorParams = {
+    seed: 0,
+    width: Grid.DEFAULT_TILES_WIDE,
+    height: Grid.DEFAULT_TILES_TALL,
+    wallDensity: .2,
+    symmetry: Symmetry.ROTATIONAL,
+    style: MapStyle.OPEN,
+    numTeams: 2,
+};
+
+/** Sides of square random maps, in tiles. */
+const RANDOM_MAP_SIZES = [16, 20, 24];
+
+/** Walls within this many moves of a flag are cleared to place on. */
+const FLAG_CLEARING_RADIUS = 2;
+/** Of open style wall clusters, the rest are walls. */
+const HALF_COVER_CHANCE = .35;
+const MIN_CLUSTER_LENGTH = 2;
+const MAX_CLUSTER_LENGTH = 5;
+/** Corridor style halls, each this wide with a wall between them. */
+const CORRIDOR_WIDTH = 2;
+/**
+ * Tiles walled off between flags cost this much to path through, so
+ * the carved path knocks down as few walls as it can.
+ */
+const WALL_CARVING_COST = 8;
+
+/**
+ * Makes a level from the seed, mirrored so each team's half is the
+ * same, with a path between every flag and room to place around them.
+ */
+export function generateLevel(params: LevelGeneratorParams): Level {
+    const { width, height, symmetry, numTeams } = params;
+    const grid = new Grid(width, height);
+    const random = new Random(params.seed, 'level');
+    // Flags are always mirrored so teams start out even.
+    const flagTiles = getFlagTiles(
+        grid,
+        symmetry === Symmetry.NONE ? Symmetry.ROTATIONAL : symmetry,
+        numTeams,
+        random);
+
+    const walls = params.style === MapStyle.CORRIDORS
+        ? getCorridorWalls(grid, params.wallDensity, random)
+        : getOpenWalls(grid, params.wallDensity, random);
+    const wallTiles: Map<string, Point> = new Map();
+    const halfCoverTiles: Map<string, Point> = new Map();
+    for (const [type, tile] of walls) {
+        const mirroredTile = getMirroredTile(symmetry, tile, grid);
+        // The first half's walls are copied over the second's.
+        if (mirroredTile != null
+            && grid.getTileIndex(mirroredTile) < grid.getTileIndex(tile)) {
+            continue;
+        }
+        for (const wallTile of [tile, mirroredTile]) {
+            if (wallTile == null) {
+                continue;
+            }
+            // Later clusters replace what's under them.
+            wallTiles.delete(wallTile.toString());
+            halfCoverTiles.delete(wallTile.toString());
+            (type === 'wall' ? wallTiles : halfCoverTiles)
+                .set(wallTile.toString(), wallTile);
+        }
+    }
+    const clear = (tile: Point): void => {
+        const mirroredTile = getMirroredTile(symmetry, tile, grid);
+        for (const clearedTile of [tile, mirroredTile]) {
+            if (clearedTile != null) {
+                wallTiles.delete(clearedTile.toString());
+                halfCoverTiles.delete(clearedTile.toString());
+            }
+        }
+    };
+    const isWall = (tile: Point): boolean => {
+        return wallTiles.has(tile.toString())
+            || halfCoverTiles.has(tile.toString());
+    };
+
+    for (const flagTile of flagTiles) {
+        bfs({
+            grid,
+            startTile: flagTile,
+            maxDepth: FLAG_CLEARING_RADIUS,
+            isAvailable: () => true,
+            canGoThrough: () => true,
+        }).forEach(clear);
+        clear(flagTile);
+    }
+    for (const flagTile of flagTiles.slice(1)) {
+        pathTo({
+            grid,
+            startTile: flagTiles[0],
+            endTile: flagTile,
+            isAvailable: () => true,
+            canGoThrough: () => true,
+            getCost: (tile: Point) => isWall(tile) ? WALL_CARVING_COST : 1,
+        }).forEach(clear);
+    }
+
+    const data: LevelData = {
+        width,
+        height,
+        flags: flagTiles,
+        obstacles: Array.from(wallTiles.values()),
+        halfCovers: Array.from(halfCoverTiles.values()),
+    };
+    const level: Level = {
+        name: 'Random map',
+        data,
+        aiSpawner: getAiSpawnerTile(grid, flagTiles, isWall),
+    };
+    const problems = validateLevel(level);
+    if (problems.length) {
+        throw new Error(
+            `Generated an unplayable level: ${problems.join(', ')}`);
+    }
+    return level;
+}
+
+/** For a surprise map, with the size, style and so on picked by the seed. */
+export function getRandomLevelGeneratorParams(
+    seed: number, numTeams: number): LevelGeneratorParams {
+
+    const random = new Random(seed, 'params');
+    const size = randomElement(RANDOM_MAP_SIZES, random);
+    const style = randomElement([MapStyle.OPEN, MapStyle.CORRIDORS], random);
+    // Corridors need more walls to still look like halls.
+    const wallDensity = style === MapStyle.CORRIDORS
+        ? .3 + random.next() * .1
+        : .1 + random.next() * .15;
+    const symmetry = randomElement([
+        Symmetry.MIRROR_LEFT_RIGHT,
+        Symmetry.MIRROR_TOP_BOTTOM,
+        Symmetry.ROTATIONAL,
+    ], random);
+    return {
+        seed,
+        width: size,
+        height: size,
+        wallDensity,
+        symmetry,
+        style,
+        numTeams,
+    };
+}
+
+/**
+ * Across from each other for two teams, in the corners for more,
+ * indexed by team and paired off by the symmetry.
+ */
+function getFlagTiles(
+    grid: Grid,
+    symmetry: Symmetry,
+    numTeams: number,
+    random: Random): Point[] {
+
+    const getOffset = () => 1 + Math.floor(random.next() * 2);
+    const getNearMiddle = (size: number) => {
+        return Math.floor(size / 3 + random.next() * size / 3);
+    };
+    const right = grid.tilesWide - 1;
+    const bottom = grid.tilesTall - 1;
+    const firstFlagTiles: Point[] = [];
+    if (numTeams <= 2) {
+        firstFlagTiles.push(symmetry === Symmetry.MIRROR_TOP_BOTTOM
+            ? new Point(getNearMiddle(grid.tilesWide), getOffset())
+            : new Point(getOffset(), getNearMiddle(grid.tilesTall)));
+    } else {
+        firstFlagTiles.push(new Point(getOffset(), getOffset()));
+        firstFlagTiles.push(symmetry === Symmetry.MIRROR_LEFT_RIGHT
+            ? new Point(getOffset(), bottom - getOffset())
+            : new Point(right - getOffset(), getOffset()));
+    }
+    const flagTiles: Point[] = [];
+    for (let teamIndex = 0; teamIndex < numTeams; teamIndex++) {
+        const mirroredTeamIndex = getMirroredTeamIndex(teamIndex);
+        flagTiles.push(teamIndex < mirroredTeamIndex
+            ? firstFlagTiles[teamIndex / 2]
+            : getMirroredTile(
+                symmetry, firstFlagTiles[mirroredTeamIndex / 2], grid)!);
+    }
+    return flagTiles;
+}
+
+type WallTile = ['wall' | 'halfCover', Point];
+
+/** Short lines of walls or half covers scattered over the board. */
+function getOpenWalls(
+    grid: Grid, wallDensity: number, random: Random): WallTile[] {
+
+    const walls: WallTile[] = [];
+    const directions = [new Point(1, 0), new Point(0, 1)];
+    const numWallTiles = Math.floor(grid.tilesWide * grid.tilesTall
+        * wallDensity);
+    while (walls.length < numWallTiles) {
+        const type = random.next() < HALF_COVER_CHANCE ? 'halfCover' : 'wall';
+        const direction = randomElement(directions, random);
+        const length = MIN_CLUSTER_LENGTH + Math.floor(
+            random.next() * (MAX_CLUSTER_LENGTH - MIN_CLUSTER_LENGTH + 1));
+        let tile = new Point(
+            Math.floor(random.next() * grid.tilesWide),
+            Math.floor(random.next() * grid.tilesTall));
+        for (let i = 0; i < length && grid.inbounds(tile); i++) {
+            walls.push([type, tile]);
+            tile = tile.add(direction);
+        }
+    }
+    return walls;
+}
+
+/**
+ * A maze of halls with walls between them, with walls knocked out at
+ * random until only the asked for fraction of the board is walled.
+ */
+function getCorridorWalls(
+    grid: Grid, wallDensity: number, random: Random): WallTile[] {
+
+    const step = CORRIDOR_WIDTH + 1;
+    const isHall = (tile: Point): boolean => {
+        return tile.x % step < CORRIDOR_WIDTH && tile.y % step < CORRIDOR_WIDTH;
+    };
+    const walls: Map<string, Point> = new Map();
+    for (const tile of grid.getTiles()) {
+        if (isHall(tile)) {
+            continue;
+        }
+        walls.set(tile.toString(), tile);
+    }
+    // Randomized depth first search over halls, opening the walls
+    // between them as it goes so every hall is connected.
+    const openWallBetween = (hall: Point, otherHall: Point): void => {
+        const isSideBySide = hall.y === otherHall.y;
+        const topLeftHall = isSideBySide
+            ? (hall.x < otherHall.x ? hall : otherHall)
+            : (hall.y < otherHall.y ? hall : otherHall);
+        for (let i = 0; i < CORRIDOR_WIDTH; i++) {
+            const tile = isSideBySide
+                ? new Point(topLeftHall.x + CORRIDOR_WIDTH, topLeftHall.y + i)
+                : new Point(topLeftHall.x + i, topLeftHall.y + CORRIDOR_WIDTH);
+            walls.delete(tile.toString());
+        }
+    };
+    const visitedHalls: Set<string> = new Set();
+    const stack = [new Point(0, 0)];
+    visitedHalls.add(stack[0].toString());
+    while (stack.length) {
+        const hall = stack[stack.length - 1];
+        const nextHalls = [
+            new Point(hall.x + step, hall.y),
+            new Point(hall.x - step, hall.y),
+            new Point(hall.x, hall.y + step),
+            new Point(hall.x, hall.y - step),
+        ].filter((nextHall) => {
+            return grid.inbounds(nextHall)
+                && !visitedHalls.has(nextHall.toString());
+        });
+        if (!nextHalls.length) {
+            stack.pop();
+            continue;
+        }
+        const nextHall = randomElement(nextHalls, random);
+        openWallBetween(hall, nextHall);
+        visitedHalls.add(nextHall.toString());
+        stack.push(nextHall);
+    }
+
+    const wallTiles = Array.from(walls.values());
+    const numWallTiles = Math.floor(grid.tilesWide * grid.tilesTall
+        * wallDensity);
+    while (wallTiles.length > numWallTiles) {
+        const index = Math.floor(random.next() * wallTiles.length);
+        wallTiles.splice(index, 1);
+    }
+    return wallTiles.map((tile): WallTile => ['wall', tile]);
+}
+
+/** Open tile closest to the second flag, for the AI's default spawner. */
+function getAiSpawnerTile(
+    grid: Grid,
+    flagTiles: Point[],
+    isWall: (tile: Point) => boolean): Point {
+
+    const openTiles = bfs({
+        grid,
+        startTile: flagTiles[1],
+        maxDepth: Infinity,
+        isAvailable: (tile: Point) => {
+            return !isWall(tile)
+                && !flagTiles.some((flagTile) => flagTile.equals(tile));
+        },
+        canGoThrough: (tile: Point) => !isWall(tile),
+    });
+    return openTiles.length ? openTiles[0] : flagTiles[1];
+}
@@ -0,0 +1,187 @@
+import { Level } from 'src/app/level';
+import { SerializedLevel, serializeLevel, deserializeLevel } from 'src/app/level_file';
+import { createSeed } from 'src/app/math/random';
+
+/** Bump when the serialized format changes. */
+const LIBRARY_VERSION = 1;
+
+const libraryStorageKey = 'SnagTheFlag_MyLevels' as const;
+
+/**
+ * A level the player made or imported, kept in the browser. It may
+ * not be playable yet, ie while it's still being made.
+ */
+export interface LibraryLevel {
+    /** Stays the same through edits and renames. */
+    readonly id: string;
+    readonly level: Level;
+    readonly createdMs: number;
+}
+
+interface SerializedLibraryLevel {
+    readonly id: string;
+    readonly level: SerializedLevel;
+    readonly createdMs: number;
+}
+
+interface SerializedLibrary {
+    readonly version: number;
+    /** Unknown, as levels from other builds may not be readable. */
+    readonly levels: unknown[];
+}
+
+/** The stored library, as far as it can be read. */
+interface StoredLibrary {
+    readonly libraryLevels: LibraryLevel[];
+    /**
+     * Stored levels that can't be read, ie made by a newer build, kept
+     * as they are to be written back unchanged.
+     */
+    readonly unreadableLevels: unknown[];
+}
+
+/** Oldest first. Levels that can't be read anymore are skipped. */
+export function loadLibraryLevels(): LibraryLevel[] {
+    try {
+        return loadLibrary().libraryLevels;
+    } catch (e) {
+        return [];
+    }
+}
+
+/**
+ * Throws if there's a stored library that can't be read at all, ie
+ * from another version, so that it's never written over.
+ */
+function loadLibrary(): StoredLibrary {
+    const storedValue = window.localStorage.getItem(libraryStorageKey);
+    if (storedValue == null) {
+        return { libraryLevels: [], unreadableLevels: [] };
+    }
+    let serialized: SerializedLibrary;
+    try {
+        serialized = JSON.parse(storedValue);
+    } catch (e) {
+        throw new Error(`Your levels can't be read: ${e.message}`);
+    }
+    if (serialized == null || typeof serialized !== 'object') {
+        throw new Error(`Your levels can't be read`);
+    }
+    if (serialized.version !== LIBRARY_VERSION
+        || !Array.isArray(serialized.levels)) {
+        throw new Error(
+            `Your levels are from another version of the game`);
+    }
+    const libraryLevels: LibraryLevel[] = [];
+    const unreadableLevels: unknown[] = [];
+    for (const storedLevel of serialized.levels) {
+        try {
+            const serializedLevel = storedLevel as SerializedLibraryLevel;
+            libraryLevels.push({
+                id: serializedLevel.id,
+                level: deserializeLevel(serializedLevel.level),
+                createdMs: serializedLevel.createdMs,
+            });
+        } catch (e) {
+            unreadableLevels.push(storedLevel);
+        }
+    }
+    return { libraryLevels, unreadableLevels };
+}
+
+/** Adds the level to the library. */
+export function addLibraryLevel(level: Level): LibraryLevel {
+    const libraryLevel: LibraryLevel = {
+        id: `${Date.now().toString(36)}-${createSeed().toString(36)}`,
+        level,
+        createdMs: Date.now(),
+    };
+    const { libraryLevels, unreadableLevels } = loadLibrary();
+    saveLibrary({
+        libraryLevels: [...libraryLevels, libraryLevel],
+        unreadableLevels,
+    });
+    return libraryLevel;
+}
+
+/** Replaces the library level's level, ie after it's edited. */
+export function updateLibraryLevel(
+    id: string, level: Level): LibraryLevel {
+
+    const { libraryLevels, unreadableLevels } = loadLibrary();
+    const index = libraryLevels
+        .findIndex((libraryLevel) => libraryLevel.id === id);
+    if (index === -1) {
+        throw new Error(`No library level with id: ${id}`);
+    }
+    const updatedLibraryLevel = { ...libraryLevels[index], level };
+    libraryLevels[index] = updatedLibraryLevel;
+    saveLibrary({ libraryLevels, unreadableLevels });
+    return updatedLibraryLevel;
+}
+
+export function renameLibraryLevel(id: string, name: string): LibraryLevel {
+    const libraryLevel = loadLibraryLevels()
+        .find((libraryLevel) => libraryLevel.id === id);
+    if (libraryLevel == null) {
+        throw new Error(`No library level with id: ${id}`);
+    }
+    return updateLibraryLevel(id, { ...libraryLevel.level, name });
+}
+
+/** @param author empty to clear it. */
+export function setLibraryLevelAuthor(
+    id: string, author: string): LibraryLevel {
+
+    const libraryLevel = loadLibraryLevels()
+        .find((libraryLevel) => libraryLevel.id === id);
+    if (libraryLevel == null) {
+        throw new Error(`No library level with id: ${id}`);
+    }
+    return updateLibraryLevel(id, {
+        ...libraryLevel.level,
+        author: author || undefined,
+    });
+}
+
+/** Adds a copy of the level, named as such, to the library. */
+export function duplicateLibraryLevel(id: string): LibraryLevel {
+    const libraryLevel = loadLibraryLevels()
+        .find((libraryLevel) => libraryLevel.id === id);
+    if (libraryLevel == null) {
+        throw new Error(`No library level with id: ${id}`);
+    }
+    return addLibraryLevel({
+        ...libraryLevel.level,
+        name: `${libraryLevel.level.name} copy`,
+    });
+}
+
+export function deleteLibraryLevel(id: string): void {
+    const { libraryLevels, unreadableLevels } = loadLibrary();
+    saveLibrary({
+        libraryLevels: libraryLevels
+            .filter((libraryLevel) => libraryLevel.id !== id),
+        unreadableLevels,
+    });
+}
+
+/** Unreadable levels are written back ahead of the others. */
+function saveLibrary(
+    { libraryLevels, unreadableLevels }: StoredLibrary): void {
+
+    const serializedLevels: SerializedLibraryLevel[] =
+        libraryLevels.map((libraryLevel) => {
+            return {
+                id: libraryLevel.id,
+                level: serializeLevel(libraryLevel.level),
+                createdMs: libraryLevel.createdMs,
+            };
+        });
+    const serialized: SerializedLibrary = {
+        version: LIBRARY_VERSION,
+        levels: [...unreadableLevels, ...serializedLevels],
+    };
+    window.localStorage.setItem(
+        libraryStorageKey, JSON.stringify(serialized));
+}
@@ -0,0 +1,50 @@
+import { Level, getLevelGrid } from 'src/app/level';
+import { Point } from 'src/app/math/point';
+import { THEME } from 'src/app/theme';
+import { getTerrainColor } from 'src/app/game_objects/terrain';
+
+/**
+ * Draws a small map of the level, a square of color per tile,
+ * fit to and centered in the given canvas square.
+ */
+export function renderLevelThumbnail(
+    context: CanvasRenderingContext2D,
+    level: Level,
+    topLeftCanvas: Point,
+    sizeCanvas: number): void {
+
+    const grid = getLevelGrid(level.data);
+    const tileSize =
+        sizeCanvas / Math.max(grid.tilesWide, grid.tilesTall);
+    const boardTopLeft = topLeftCanvas.add(new Point(
+        (sizeCanvas - grid.tilesWide * tileSize) / 2,
+        (sizeCanvas - grid.tilesTall * tileSize) / 2));
+    const fillTile = (tile: { x: number; y: number }, color: string) => {
+        context.fillStyle = color;
+        context.fillRect(
+            boardTopLeft.x + tile.x * tileSize,
+            boardTopLeft.y + tile.y * tileSize,
+            tileSize,
+            tileSize);
+    };
+
+    context.fillStyle = THEME.gridBackgroundColor;
+    context.fillRect(
+        boardTopLeft.x, boardTopLeft.y,
+        grid.tilesWide * tileSize, grid.tilesTall * tileSize);
+    for (const terrain of level.data.terrain || []) {
+        fillTile(terrain, getTerrainColor(terrain.type));
+    }
+    for (const obstacle of level.data.obstacles) {
+        fillTile(obstacle, THEME.obstacleColor);
+    }
+    for (const halfCover of level.data.halfCovers || []) {
+        fillTile(halfCover, THEME.halfCoverColor);
+    }
+    level.data.flags.forEach((flag, teamIndex) => {
+        const teamColors = THEME.teamColors[teamIndex];
+        if (teamColors != null) {
+            fillTile(flag, teamColors.flagColor);
+        }
+    });
+}
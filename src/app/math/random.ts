@@ -1,13 +1,58 @@
+/**
+ * Seedable pseudo-random number generator (mulberry32).
+ * Gameplay randomness must go through one of these instead of
+ * Math.random so a seed plus the actions taken reproduce a match.
+ */
+export class Random {
+    private state: number;
+
+    /**
+     * @param stream separates independent sequences from one seed,
+     * ie so cosmetic randomness doesn't shift the AI's rolls.
+     */
+    constructor(seed: number, stream: string = '') {
+        let state = seed >>> 0;
+        for (let i = 0; i < stream.length; i++) {
+            state = Math.imul(state ^ stream.charCodeAt(i), 0x5bd1e995);
+            state ^= state >>> 15;
+        }
+        this.state = state >>> 0;
+    }
+
+    /** @return a number in range [0, 1). */
+    next(): number {
+        this.state = (this.state + 0x6d2b79f5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
 
-export function randomElement<T>(xs: T[]): T {
-    const index = Math.floor(Math.random() * xs.length);
+    /** Used to save a sequence partway through and continue it later. */
+    getState(): number {
+        return this.state;
+    }
+
+    setState(state: number): void {
+        this.state = state >>> 0;
+    }
+}
+
+/** Picks a seed for a new match. */
+export function createSeed(): number {
+    return Math.floor(Math.random() * 4294967296);
+}
+
+export function randomElement<T>(xs: T[], random: Random): T {
+    const index = Math.floor(random.next() * xs.length);
     return xs[index];
 }
 
-/** 
- * @param probability expected to be in range [0, 1). 
+/**
+ * @param probability expected to be in range [0, 1).
  * @return whether the event represented by the probability occurred.
  */
-export function simulateProbability(probability: number): boolean {
-    return Math.random() <= probability;
-}
\ No newline at end of file
+export function simulateProbability(
+    probability: number, random: Random): boolean {
+    return random.next() <= probability;
+}
@@ -7,6 +7,7 @@ import { GameModeManager } from 'src/app/game_mode_manager';
 import { THEME } from 'src/app/theme';
 import { LEVELS } from 'src/app/level';
 import { GameSettings, MatchType, DEFAULT_GAME_SETTINGS } from 'src/app/game_settings';
+import { createSeed } from 'src/app/math/random';
 import { TextBox, TextBoxStyle } from 'src/app/ui/text_box';
 import { CAMPAIGN_LEVELS } from 'src/app/campaign_level';
 
@@ -133,7 +134,9 @@ export class CampaignMenu implements GameModeManager {
                                 DEFAULT_GAME_SETTINGS.maxSpawnDistanceFromFlag,
                             hasFogOfWar: true,
                             hasSpawners: true,
+                            friendlyFire: false,
                             aiDifficulty: campaignLevel.aiDifficulty,
+                            seed: createSeed(),
                         };
                         this.onSelectLevel(
                             campaignLevelIndex,
@@ -5,12 +5,28 @@ import { RENDER_SETTINGS } from 'src/app/render_settings';
 import { CONTROLS } from 'src/app/controls';
 import { GameModeManager } from 'src/app/game_mode_manager';
 import { THEME } from 'src/app/theme';
-import { LEVELS } from 'src/app/level';
+import { Level, LEVELS } from 'src/app/level';
+import { pickLevelFile, validateLevel } from 'src/app/level_file';
+import { LibraryLevel, loadLibraryLevels, addLibraryLevel, renameLibraryLevel, setLibraryLevelAuthor, duplicateLibraryLevel, deleteLibraryLevel } from 'src/app/level_library';
+import { renderLevelThumbnail } from 'src/app/level_thumbnail';
+import { describeObjective, getObjectiveTeamIndex } from 'src/app/objectives';
+import { LevelGeneratorParams, generateLevel, getRandomLevelGeneratorParams } from 'src/app/level_generator';
 import { ButtonGroup } from 'src/app/ui/button_group';
-import { GameSettings, MatchType, DEFAULT_GAME_SETTINGS, AiDifficulty } from 'src/app/game_settings';
+import { GameSettings, MatchType, DEFAULT_GAME_SETTINGS, AiDifficulty, MAX_NUM_TEAMS, ControllerType, TeamController, SQUAD_SIZE_OPTIONS, getMaxSpawnDistanceFromFlag } from 'src/app/game_settings';
+import { createSeed } from 'src/app/math/random';
 import { TextBox, TextBoxStyle, TextBoxDimensions } from 'src/app/ui/text_box';
 import { Element } from '../ui/element';
 
+/** Co-op puts this many human teams against at least one AI team. */
+const CO_OP_NUM_HUMAN_TEAMS = 2;
+
+/**
+ * Two columns of level buttons, with actions for the player's
+ * levels and the import button under them.
+ */
+const LEVELS_PER_COLUMN = 4;
+const LEVELS_PER_PAGE = 2 * LEVELS_PER_COLUMN;
+
 interface ButtonMetadata {
     text: string;
     callback: () => void;
@@ -20,35 +36,73 @@ export class FreePlayMenu implements GameModeManager {
     private readonly canvas: HTMLCanvasElement;
     private readonly context: CanvasRenderingContext2D;
     private readonly onSelectLevel:
-        (levelIndex: number, gameSettings: GameSettings) => void;
+        (level: Level, gameSettings: GameSettings) => void;
     private readonly onBack: () => void;
+    private readonly onJoinOnline: () => void;
+    private readonly onEditLevel: (libraryLevel: LibraryLevel) => void;
+    private readonly onEditRandomLevel: (level: Level) => void;
     private readonly uiManager: UiManager;
-    private selectedLevelIndex: number;
+    private readonly levelMenuLeft: number;
+    /** Only has the levels with a flag for each of the selected teams. */
+    private levelButtonGroup?: ButtonGroup;
+    /** Previous and next page buttons, if there's more than one page. */
+    private levelPageButtons: Button[];
+    /** Shown while one of the player's levels is selected. */
+    private libraryActionButtons: Button[];
+    /** Listed after the built in levels. */
+    private libraryLevels: LibraryLevel[];
+    /** Listed between the built in and the player's levels. */
+    private randomLevel?: Level;
+    private randomLevelParams: LevelGeneratorParams;
+    private selectedLevel: Level;
+    /** Shown under the title, ie why a level couldn't be imported. */
+    private statusText: string;
+    private selectedNumTeams: number;
     private selectedMatchType: MatchType;
+    /** Humans allied against the AI, a variant of player vs AI. */
+    private isCoOp: boolean;
     private selectedTeamSizeMap: Map<number, number>;
     private selectedAiDifficulty: AiDifficulty;
     private isFogOfWarOn: boolean;
     private hasSpawners: boolean;
+    private isFriendlyFireOn: boolean;
+    /** Switched to levels' default settings when they're picked. */
+    private teamSizeButtonGroup: ButtonGroup;
+    private fogOfWarButtonGroup: ButtonGroup;
+    private spawnersButtonGroup: ButtonGroup;
 
     constructor(
         canvas: HTMLCanvasElement,
         context: CanvasRenderingContext2D,
         callbacks: {
             readonly onSelectLevel:
-            (levelIndex: number, gameSettings: GameSettings) => void;
+            (level: Level, gameSettings: GameSettings) => void;
             onBack: () => void;
+            onJoinOnline: () => void;
+            onEditLevel: (libraryLevel: LibraryLevel) => void;
+            /** Opens the level creator on a random map, not yet saved. */
+            onEditRandomLevel: (level: Level) => void;
         }) {
 
         this.canvas = canvas;
         this.context = context;
         this.onSelectLevel = callbacks.onSelectLevel;
         this.onBack = callbacks.onBack;
+        this.onJoinOnline = callbacks.onJoinOnline;
+        this.onEditLevel = callbacks.onEditLevel;
+        this.onEditRandomLevel = callbacks.onEditRandomLevel;
 
         this.uiManager = new UiManager(context);
+        this.levelPageButtons = [];
+        this.libraryActionButtons = [];
+        this.libraryLevels = loadLibraryLevels();
+        this.randomLevelParams = getRandomLevelGeneratorParams(
+            createSeed(), DEFAULT_GAME_SETTINGS.numTeams);
+        this.statusText = '';
         const settingsLeftMargin = .04;
-        const levelMenuLeft = .5 + settingsLeftMargin;
+        this.levelMenuLeft = .5 + settingsLeftMargin;
         this.initSettingsElements(settingsLeftMargin);
-        this.initLevelElements(levelMenuLeft);
+        this.initLevelElements();
         this.initButtons(.1);
     }
 
@@ -67,7 +121,9 @@ export class FreePlayMenu implements GameModeManager {
         this.context.fillRect(
             0, 0, RENDER_SETTINGS.canvasWidth, RENDER_SETTINGS.canvasHeight);
         this.renderTitleText();
+        this.renderStatusText();
         this.uiManager.render();
+        this.renderSelectedLevelPreview();
     }
 
     destroy(): void {
@@ -110,32 +166,119 @@ export class FreePlayMenu implements GameModeManager {
                 textColor: THEME.buttonTextColor,
             },
             onClick: () => {
-                const maxSpawnDistanceFromFlag =
-                    this.selectedTeamSizeMap.get(1)! > 16
-                        ? 16
-                        : DEFAULT_GAME_SETTINGS.maxSpawnDistanceFromFlag;
-                const settings: GameSettings = {
-                    matchType: this.selectedMatchType,
-                    teamIndexToSquadSize: this.selectedTeamSizeMap,
-                    maxSpawnDistanceFromFlag,
-                    numTeams: DEFAULT_GAME_SETTINGS.numTeams,
-                    hasFogOfWar: this.isFogOfWarOn,
-                    aiDifficulty: this.selectedAiDifficulty,
-                    hasSpawners: this.hasSpawners,
+                const problem = this.getSelectedLevelProblem();
+                if (problem != null) {
+                    this.statusText = problem;
+                    return;
                 }
-                this.onSelectLevel(this.selectedLevelIndex, settings);
+                this.onSelectLevel(
+                    this.selectedLevel,
+                    this.getSelectedSettings(
+                        this.selectedMatchType, this.isCoOp));
             }
         });
         this.uiManager.addElement(startButton);
+
+        // Online buttons.
+        const onlineButtonStyle: ButtonStyle = {
+            fontSize: 22,
+            color: '#7fb7e0',
+            hoverColor: '#99cbef',
+            textColor: THEME.buttonTextColor,
+        };
+        const hostButtonLeft = startButtonLeft + buttonSize.x + .04;
+        const hostButton = new Button({
+            dimensions: {
+                size: buttonSize,
+                text: 'Host online',
+                topLeft: new Point(hostButtonLeft, topMargin),
+            },
+            style: onlineButtonStyle,
+            onClick: () => {
+                // The relay server only knows the built in levels.
+                if (LEVELS.indexOf(this.selectedLevel) === -1) {
+                    this.statusText = `Your levels can't be played online`;
+                    return;
+                }
+                this.onSelectLevel(
+                    this.selectedLevel,
+                    this.getSelectedSettings(
+                        MatchType.PLAYER_VS_PLAYER_ONLINE,
+                        /* isCoOp= */ false));
+            }
+        });
+        this.uiManager.addElement(hostButton);
+        const joinButton = new Button({
+            dimensions: {
+                size: buttonSize,
+                text: 'Join online',
+                topLeft: new Point(
+                    hostButtonLeft + buttonSize.x + .04, topMargin),
+            },
+            style: onlineButtonStyle,
+            onClick: this.onJoinOnline,
+        });
+        this.uiManager.addElement(joinButton);
+    }
+
+    private getSelectedSettings(
+        matchType: MatchType, isCoOp: boolean): GameSettings {
+
+        const maxSpawnDistanceFromFlag =
+            getMaxSpawnDistanceFromFlag(this.selectedTeamSizeMap.get(1)!);
+        const numTeams = this.getNumTeams(isCoOp);
+        const teamIndexToSquadSize = new Map<number, number>();
+        for (let i = 0; i < numTeams; i++) {
+            // Extra free-for-all teams are sized like the second team,
+            // in co-op the humans are sized like the first.
+            const isFirstSide = isCoOp ? i < CO_OP_NUM_HUMAN_TEAMS : i === 0;
+            teamIndexToSquadSize.set(
+                i, this.selectedTeamSizeMap.get(isFirstSide ? 0 : 1)!);
+        }
+        const settings: GameSettings = {
+            matchType,
+            teamIndexToSquadSize,
+            maxSpawnDistanceFromFlag,
+            numTeams,
+            hasFogOfWar: this.isFogOfWarOn,
+            aiDifficulty: this.selectedAiDifficulty,
+            hasSpawners: this.hasSpawners,
+            friendlyFire: this.isFriendlyFireOn,
+            seed: createSeed(),
+        };
+        if (isCoOp) {
+            const teamControllers: TeamController[] = [];
+            const teamAlliances: number[] = [];
+            for (let i = 0; i < numTeams; i++) {
+                const isHuman = i < CO_OP_NUM_HUMAN_TEAMS;
+                teamControllers.push(isHuman
+                    ? { type: ControllerType.HUMAN }
+                    : {
+                        type: ControllerType.AI,
+                        aiDifficulty: this.selectedAiDifficulty,
+                    });
+                teamAlliances.push(isHuman ? 0 : 1);
+            }
+            settings.teamControllers = teamControllers;
+            settings.teamAlliances = teamAlliances;
+        }
+        return settings;
+    }
+
+    /** Co-op always has an AI team on top of the human ones. */
+    private getNumTeams(isCoOp: boolean): number {
+        return isCoOp
+            ? Math.max(this.selectedNumTeams, CO_OP_NUM_HUMAN_TEAMS + 1)
+            : this.selectedNumTeams;
     }
 
     private initSettingsElements(leftMargin: number): void {
         const headerTopMargin = .18;
-        const buttonOffsetX = .04;
-        const buttonGroupOffsetY = .04;
-        const buttonSize = new Point(.09, .06);
+        const buttonOffsetX = .01;
+        const buttonGroupOffsetY = .015;
+        const buttonSize = new Point(.075, .06);
         const headerSize = new Point(.18, .08);
-        const rowLength = 3;
+        const rowLength = 4;
         const rowOffset = buttonGroupOffsetY / 2;
         const settingsTopMargin =
             headerTopMargin + buttonGroupOffsetY / 2 + headerSize.y;
@@ -194,7 +337,7 @@ export class FreePlayMenu implements GameModeManager {
                 const column = index % rowLength;
                 const row = Math.floor(index / rowLength);
                 let topLeftX = buttonLeftMargin + column * (buttonOffsetX +
-                    buttonSize.y);
+                    buttonSize.x);
                 let topLeftY = params.topY + row * (rowOffset + buttonSize.y)
                 dimensions.push({
                     topLeft: new Point(topLeftX, topLeftY),
@@ -213,13 +356,10 @@ export class FreePlayMenu implements GameModeManager {
         };
 
         // Team size type buttons.
-        const teamSizeIndexToTeamSizeMap: Array<Map<number, number>> = [
-            new Map([[0, 2], [1, 2]]),
-            new Map([[0, 4], [1, 4]]),
-            new Map([[0, 8], [1, 8]]),
-            new Map([[0, 12], [1, 12]]),
-            new Map([[0, 8], [1, 24]]),
-        ];
+        const teamSizeIndexToTeamSizeMap: Array<Map<number, number>> =
+            SQUAD_SIZE_OPTIONS.map(([firstSquadSize, otherSquadSize]) => {
+                return new Map([[0, firstSquadSize], [1, otherSquadSize]]);
+            });
         const teamSizeIndexToString: string[] = teamSizeIndexToTeamSizeMap
             .map((map) => {
                 return `${map.get(0)!}x${map.get(1)!}`;
@@ -235,6 +375,9 @@ export class FreePlayMenu implements GameModeManager {
         const fogOfWarTopY = aiDifficultyTopY + buttonSize.y
             + buttonGroupOffsetY;
         const spawnersTopY = fogOfWarTopY + buttonSize.y + buttonGroupOffsetY;
+        const numTeamsTopY = spawnersTopY + buttonSize.y + buttonGroupOffsetY;
+        const friendlyFireTopY =
+            numTeamsTopY + buttonSize.y + buttonGroupOffsetY;
         const teamSizeElements = createSettingRowElements({
             topY: teamSizeTopY,
             rows: 2,
@@ -245,6 +388,7 @@ export class FreePlayMenu implements GameModeManager {
         });
         this.uiManager.addElement(teamSizeElements[0]);
         this.uiManager.addElement(teamSizeElements[1]);
+        this.teamSizeButtonGroup = teamSizeElements[1] as ButtonGroup;
 
         // AI difficulty buttons.
         const difficulties: AiDifficulty[] = [
@@ -275,16 +419,24 @@ export class FreePlayMenu implements GameModeManager {
         const matchTypes: MatchType[] = [
             MatchType.PLAYER_VS_PLAYER_LOCAL,
             MatchType.PLAYER_VS_AI,
+            MatchType.PLAYER_VS_AI,
             MatchType.AI_VS_AI,
         ];
         const matchTypeStrings = [
             'PvP',
             'PvAI',
+            'Co-op',
             'AIvAI',
         ];
+        const coOpMatchTypeIndex = 2;
         const onChangeCallback = (index: number) => {
             const previousMatchType = this.selectedMatchType;
+            const wasCoOp = this.isCoOp;
             this.selectedMatchType = matchTypes[index];
+            this.isCoOp = index === coOpMatchTypeIndex;
+            if (this.isCoOp !== wasCoOp && this.levelButtonGroup != null) {
+                this.initLevelButtons();
+            }
             if (this.selectedMatchType === MatchType.PLAYER_VS_PLAYER_LOCAL &&
                 previousMatchType !== MatchType.PLAYER_VS_PLAYER_LOCAL) {
                 this.uiManager.removeElement(aiDifficultyElements[0]);
@@ -329,6 +481,7 @@ export class FreePlayMenu implements GameModeManager {
         });
         this.uiManager.addElement(fogOfWarElements[0]);
         this.uiManager.addElement(fogOfWarElements[1]);
+        this.fogOfWarButtonGroup = fogOfWarElements[1] as ButtonGroup;
 
         // Spawners.
         const spawnersOptions: boolean[] = [
@@ -352,34 +505,67 @@ export class FreePlayMenu implements GameModeManager {
         });
         this.uiManager.addElement(spawnerElements[0]);
         this.uiManager.addElement(spawnerElements[1]);
+        this.spawnersButtonGroup = spawnerElements[1] as ButtonGroup;
+
+        // Number of teams, more than two is a free-for-all.
+        const numTeamsOptions: number[] = [];
+        for (let numTeams = DEFAULT_GAME_SETTINGS.numTeams;
+            numTeams <= MAX_NUM_TEAMS; numTeams++) {
+            numTeamsOptions.push(numTeams);
+        }
+        const onNumTeamsChangeCallback = (index: number) => {
+            this.selectedNumTeams = numTeamsOptions[index];
+            if (this.levelButtonGroup != null) {
+                this.initLevelButtons();
+            }
+        };
+        const numTeamsElements = createSettingRowElements({
+            topY: numTeamsTopY,
+            rows: 1,
+            headerText: 'Teams',
+            buttonTexts: numTeamsOptions.map((numTeams) => `${numTeams}`),
+            initialButtonIndex: 0,
+            onButtonChangeCallback: onNumTeamsChangeCallback,
+        });
+        this.uiManager.addElement(numTeamsElements[0]);
+        this.uiManager.addElement(numTeamsElements[1]);
+
+        // Friendly fire.
+        const friendlyFireOptions: boolean[] = [
+            true,
+            false,
+        ];
+        const friendlyFireOptionStrings = [
+            'On',
+            'Off',
+        ];
+        const onFriendlyFireChangeCallback = (index: number) => {
+            this.isFriendlyFireOn = friendlyFireOptions[index];
+        };
+        const friendlyFireElements = createSettingRowElements({
+            topY: friendlyFireTopY,
+            rows: 1,
+            headerText: 'Friendly fire',
+            buttonTexts: friendlyFireOptionStrings,
+            initialButtonIndex: 1,
+            onButtonChangeCallback: onFriendlyFireChangeCallback,
+        });
+        this.uiManager.addElement(friendlyFireElements[0]);
+        this.uiManager.addElement(friendlyFireElements[1]);
     }
 
-    private initLevelElements(leftMargin: number): void {
+    private initLevelElements(): void {
         const fontSize = 22;
         const headerTopMargin = .18;
-        const buttonOffsetY = .02;
         const levelElementSize = new Point(.18, .08);
-        const buttonTopMargin =
-            headerTopMargin + buttonOffsetY + levelElementSize.y;
-
         const headerStyle: TextBoxStyle = {
             color: '#dddddd',
             fontSize,
             textColor: '#000000',
         };
-        const buttonStyle: ButtonStyle = {
-            fontSize,
-            color: '#f7c25e',
-            hoverColor: '#deaf57',
-            selectedColor: '#db9d2a',
-            selectedBorderColor: '#000000',
-            textColor: THEME.buttonTextColor,
-        };
 
-        // Level buttons.
-        const levelButtonsLeftMargin = leftMargin;
         const levelHeaderLeftMargin =
-            levelButtonsLeftMargin + levelElementSize.x / 2 + .04 / 2;
+            this.levelMenuLeft + levelElementSize.x / 2 + .04 / 2;
         const levelHeader = new TextBox({
             dimensions: {
                 size: levelElementSize,
@@ -390,37 +576,463 @@ export class FreePlayMenu implements GameModeManager {
         });
         this.uiManager.addElement(levelHeader);
 
-        const levelDimensions: ButtonDimensions[] = [];
-        const columnSize = 6;
-        for (let buttonIndex = 0; buttonIndex < LEVELS.length; buttonIndex++) {
-            let row = buttonIndex % columnSize;
-            let column = Math.floor(buttonIndex / columnSize);
-            let leftMargin = levelButtonsLeftMargin;
-            if (column === 1) {
-                leftMargin = leftMargin + levelElementSize.x + .04;
-            }
-            const topLeftY = buttonTopMargin + row * buttonOffsetY
-                + row * levelElementSize.y;
-            const level = LEVELS[buttonIndex];
+        const importButton = new Button({
+            dimensions: {
+                size: levelElementSize,
+                text: 'Import level',
+                topLeft: new Point(
+                    this.levelMenuLeft,
+                    this.getLevelButtonTop(LEVELS_PER_COLUMN + 1)),
+            },
+            style: {
+                fontSize,
+                color: '#d9c8a3',
+                hoverColor: '#e6dbc3',
+                textColor: THEME.buttonTextColor,
+            },
+            onClick: () => { this.importLevel(); },
+        });
+        this.uiManager.addElement(importButton);
+        this.initLevelButtons();
+    }
 
+    private importLevel(): void {
+        pickLevelFile({
+            onLoad: (level: Level) => {
+                if (this.tryChangingLibrary(() => addLibraryLevel(level))) {
+                    this.statusText = `Imported ${level.name} to your levels`;
+                }
+            },
+            onError: (message: string) => {
+                const problems = message.split('\n');
+                this.statusText = problems.length > 1
+                    ? `${problems[0]} (and ${problems.length - 1} more)`
+                    : problems[0];
+            },
+        });
+    }
+
+    /**
+     * Built in levels with a flag for each selected team, a random map,
+     * then all the player's levels, so that unfinished ones can still
+     * be edited.
+     */
+    private getListedLevels(): Level[] {
+        return LEVELS
+            .filter((level) => {
+                return level.data.flags.length
+                    >= this.getNumTeams(this.isCoOp);
+            })
+            .concat([this.getRandomLevel()])
+            .concat(this.libraryLevels
+                .map((libraryLevel) => libraryLevel.level));
+    }
+
+    /**
+     * Made again from the same seed, with a flag for each selected team,
+     * if the number of teams changed.
+     */
+    private getRandomLevel(): Level {
+        const numTeams = this.getNumTeams(this.isCoOp);
+        if (this.randomLevel == null
+            || this.randomLevelParams.numTeams !== numTeams) {
+            this.setRandomLevel(getRandomLevelGeneratorParams(
+                this.randomLevelParams.seed, numTeams));
+        }
+        return this.randomLevel!;
+    }
+
+    /** Replaces the random level, keeping it selected if it was. */
+    private setRandomLevel(params: LevelGeneratorParams): void {
+        const wasSelected = this.randomLevel != null
+            && this.randomLevel === this.selectedLevel;
+        this.randomLevelParams = params;
+        this.randomLevel = generateLevel(params);
+        if (wasSelected) {
+            this.selectedLevel = this.randomLevel;
+        }
+    }
+
+    private getSelectedLibraryLevel(): LibraryLevel | undefined {
+        return this.libraryLevels.find((libraryLevel) => {
+            return libraryLevel.level === this.selectedLevel;
+        });
+    }
+
+    /** Why the selected level can't be started, if it can't. */
+    private getSelectedLevelProblem(): string | null {
+        if (this.getSelectedLibraryLevel() == null) {
+            return null;
+        }
+        const problems = validateLevel(this.selectedLevel);
+        if (problems.length) {
+            return problems[0];
+        }
+        const numFlags = this.selectedLevel.data.flags.length;
+        const numTeams = this.getNumTeams(this.isCoOp);
+        if (numFlags < numTeams) {
+            return `${this.selectedLevel.name} has flags ` +
+                `for ${numFlags} teams`;
+        }
+        const objective = this.selectedLevel.data.objective;
+        const objectiveTeamIndex =
+            objective != null ? getObjectiveTeamIndex(objective) : null;
+        if (objectiveTeamIndex != null && objectiveTeamIndex >= numTeams) {
+            return `${this.selectedLevel.name}'s objective needs ` +
+                `${objectiveTeamIndex + 1} teams`;
+        }
+        return null;
+    }
+
+    /** Switches to the level's default settings, if it has them. */
+    private applyLevelSettings(level: Level): void {
+        const levelSettings = level.settings;
+        if (levelSettings == null) {
+            return;
+        }
+        const [firstSquadSize, otherSquadSize] = levelSettings.squadSizes;
+        const teamSizeIndex = SQUAD_SIZE_OPTIONS.findIndex((squadSizes) => {
+            return squadSizes[0] === firstSquadSize
+                && squadSizes[1] === otherSquadSize;
+        });
+        const selections: Array<[ButtonGroup, number]> = [
+            [this.fogOfWarButtonGroup, levelSettings.hasFogOfWar ? 0 : 1],
+            [this.spawnersButtonGroup, levelSettings.hasSpawners ? 0 : 1],
+        ];
+        if (teamSizeIndex !== -1) {
+            selections.push([this.teamSizeButtonGroup, teamSizeIndex]);
+        }
+        for (const [buttonGroup, index] of selections) {
+            buttonGroup.select(index);
+            buttonGroup.onChangeCallback(index);
+        }
+    }
+
+    /**
+     * Reloads the player's levels after the change, or shows why they
+     * couldn't be changed.
+     * @param change returns the library level to select, ie a new one.
+     */
+    private tryChangingLibrary(
+        change: () => LibraryLevel | undefined): boolean {
+
+        let selected: LibraryLevel | undefined;
+        try {
+            selected = change();
+        } catch (e) {
+            this.statusText = e.message;
+            return false;
+        }
+        this.reloadLibraryLevels(selected);
+        return true;
+    }
+
+    /** @param selected library level to select, ie a new one. */
+    private reloadLibraryLevels(selected?: LibraryLevel): void {
+        this.libraryLevels = loadLibraryLevels();
+        const selectedLibraryLevel = selected != null
+            ? this.libraryLevels.find((libraryLevel) => {
+                return libraryLevel.id === selected.id;
+            })
+            : undefined;
+        this.selectedLevel = selectedLibraryLevel != null
+            ? selectedLibraryLevel.level
+            : LEVELS[0];
+        this.initLevelButtons();
+    }
+
+    /**
+     * Recreates the actions for the selected level, if it's the player's
+     * or the random map.
+     */
+    private initLibraryActionButtons(): void {
+        for (const actionButton of this.libraryActionButtons) {
+            this.uiManager.removeElement(actionButton);
+        }
+        this.libraryActionButtons = [];
+        const actions = this.getSelectedLevelActions();
+        const buttonSize = new Point(.075, .08);
+        actions.forEach(({ text, callback }, index) => {
+            this.libraryActionButtons.push(new Button({
+                dimensions: {
+                    size: buttonSize,
+                    text,
+                    topLeft: new Point(
+                        this.levelMenuLeft + index * (buttonSize.x + .01),
+                        this.getLevelButtonTop(LEVELS_PER_COLUMN)),
+                },
+                style: {
+                    fontSize: 18,
+                    color: '#d9c8a3',
+                    hoverColor: '#e6dbc3',
+                    textColor: THEME.buttonTextColor,
+                },
+                onClick: callback,
+            }));
+        });
+        for (const actionButton of this.libraryActionButtons) {
+            this.uiManager.addElement(actionButton);
+        }
+    }
+
+    private getSelectedLevelActions(): ButtonMetadata[] {
+        if (this.randomLevel != null
+            && this.selectedLevel === this.randomLevel) {
+            const randomLevel = this.randomLevel;
+            return [
+                {
+                    text: 'New map',
+                    callback: () => {
+                        this.setRandomLevel(getRandomLevelGeneratorParams(
+                            createSeed(), this.randomLevelParams.numTeams));
+                        this.initLevelButtons();
+                    },
+                },
+                {
+                    text: 'Edit',
+                    callback: () => { this.onEditRandomLevel(randomLevel); },
+                },
+            ];
+        }
+        const libraryLevel = this.getSelectedLibraryLevel();
+        if (libraryLevel == null) {
+            return [];
+        }
+        const { id, level } = libraryLevel;
+        return [
+            {
+                text: 'Rename',
+                callback: () => {
+                    const name = window.prompt('Level name', level.name);
+                    if (name == null || !name.trim()) {
+                        return;
+                    }
+                    this.tryChangingLibrary(() => {
+                        return renameLibraryLevel(id, name.trim());
+                    });
+                },
+            },
+            {
+                text: 'Author',
+                callback: () => {
+                    const author =
+                        window.prompt('Level author', level.author || '');
+                    if (author == null) {
+                        return;
+                    }
+                    this.tryChangingLibrary(() => {
+                        return setLibraryLevelAuthor(id, author.trim());
+                    });
+                },
+            },
+            {
+                text: 'Copy',
+                callback: () => {
+                    this.tryChangingLibrary(() => duplicateLibraryLevel(id));
+                },
+            },
+            {
+                text: 'Delete',
+                callback: () => {
+                    if (window.confirm(`Delete ${level.name}?`)) {
+                        this.tryChangingLibrary(() => {
+                            deleteLibraryLevel(id);
+                            return undefined;
+                        });
+                    }
+                },
+            },
+            {
+                text: 'Edit',
+                callback: () => { this.onEditLevel(libraryLevel); },
+            },
+        ];
+    }
+
+    /**
+     * (Re)creates the level buttons for the selected number of teams,
+     * on the page of the selected level if it's still playable.
+     */
+    private initLevelButtons(): void {
+        const levelIndex =
+            Math.max(this.getListedLevels().indexOf(this.selectedLevel), 0);
+        this.showLevelPage(
+            Math.floor(levelIndex / LEVELS_PER_PAGE),
+            levelIndex % LEVELS_PER_PAGE);
+    }
+
+    /** @param selectedIndex of the level selected on the page. */
+    private showLevelPage(page: number, selectedIndex = 0): void {
+        if (this.levelButtonGroup != null) {
+            this.uiManager.removeElement(this.levelButtonGroup);
+        }
+        for (const pageButton of this.levelPageButtons) {
+            this.uiManager.removeElement(pageButton);
+        }
+        this.levelPageButtons = [];
+        const fontSize = 22;
+        const headerTopMargin = .18;
+        const levelElementSize = new Point(.18, .08);
+        const buttonStyle: ButtonStyle = {
+            fontSize,
+            color: '#f7c25e',
+            hoverColor: '#deaf57',
+            selectedColor: '#db9d2a',
+            selectedBorderColor: '#000000',
+            textColor: THEME.buttonTextColor,
+        };
+
+        const listedLevels = this.getListedLevels();
+        const levels = listedLevels.slice(
+            page * LEVELS_PER_PAGE, (page + 1) * LEVELS_PER_PAGE);
+        const levelDimensions: ButtonDimensions[] = [];
+        for (let buttonIndex = 0; buttonIndex < levels.length;
+            buttonIndex++) {
+            const row = buttonIndex % LEVELS_PER_COLUMN;
+            const column = Math.floor(buttonIndex / LEVELS_PER_COLUMN);
+            const leftMargin =
+                this.levelMenuLeft + column * (levelElementSize.x + .04);
             levelDimensions.push({
-                topLeft: new Point(leftMargin, topLeftY),
+                topLeft: new Point(leftMargin, this.getLevelButtonTop(row)),
                 size: levelElementSize,
-                text: level.name,
+                text: levels[buttonIndex].name,
             });
         }
 
-        const initialLevelSelectionIndex = 0;
         const onLevelChangeCallback = (index: number) => {
-            this.selectedLevelIndex = index;
+            if (levels[index] !== this.selectedLevel) {
+                this.applyLevelSettings(levels[index]);
+            }
+            this.selectedLevel = levels[index];
+            this.initLibraryActionButtons();
         };
-        onLevelChangeCallback(initialLevelSelectionIndex);
-        this.uiManager.addElement(new ButtonGroup({
+        onLevelChangeCallback(selectedIndex);
+        this.levelButtonGroup = new ButtonGroup({
             buttons: levelDimensions,
             buttonStyle,
-            initialSelectionIndex: initialLevelSelectionIndex,
+            initialSelectionIndex: selectedIndex,
             onChangeCallback: onLevelChangeCallback,
-        }));
+        });
+        this.uiManager.addElement(this.levelButtonGroup);
+
+        // Page buttons on either side of the header.
+        const numPages = Math.ceil(listedLevels.length / LEVELS_PER_PAGE);
+        const pageButtonSize = new Point(.06, levelElementSize.y);
+        const levelHeaderLeftMargin =
+            this.levelMenuLeft + levelElementSize.x / 2 + .04 / 2;
+        const pageButtonStyle: ButtonStyle = {
+            fontSize,
+            color: '#d9c8a3',
+            hoverColor: '#e6dbc3',
+            textColor: THEME.buttonTextColor,
+        };
+        if (page > 0) {
+            this.levelPageButtons.push(new Button({
+                dimensions: {
+                    size: pageButtonSize,
+                    text: '<',
+                    topLeft: new Point(
+                        levelHeaderLeftMargin - .02 - pageButtonSize.x,
+                        headerTopMargin),
+                },
+                style: pageButtonStyle,
+                onClick: () => { this.showLevelPage(page - 1); },
+            }));
+        }
+        if (page < numPages - 1) {
+            this.levelPageButtons.push(new Button({
+                dimensions: {
+                    size: pageButtonSize,
+                    text: '>',
+                    topLeft: new Point(
+                        levelHeaderLeftMargin + levelElementSize.x + .02,
+                        headerTopMargin),
+                },
+                style: pageButtonStyle,
+                onClick: () => { this.showLevelPage(page + 1); },
+            }));
+        }
+        for (const pageButton of this.levelPageButtons) {
+            this.uiManager.addElement(pageButton);
+        }
+    }
+
+    private getLevelButtonTop(row: number): number {
+        const headerTopMargin = .18;
+        const buttonOffsetY = .02;
+        const levelElementHeight = .08;
+        return headerTopMargin + levelElementHeight + buttonOffsetY
+            + row * (levelElementHeight + buttonOffsetY);
+    }
+
+    /** Thumbnail and details of the selected level, by the import button. */
+    private renderSelectedLevelPreview(): void {
+        const levelElementSize = new Point(.18, .08);
+        const topLeftCanvas = new Point(
+            (this.levelMenuLeft + levelElementSize.x + .04)
+            * RENDER_SETTINGS.canvasWidth,
+            this.getLevelButtonTop(LEVELS_PER_COLUMN + 1)
+            * RENDER_SETTINGS.canvasHeight);
+        const thumbnailSize =
+            levelElementSize.y * RENDER_SETTINGS.canvasHeight;
+        renderLevelThumbnail(
+            this.context, this.selectedLevel, topLeftCanvas, thumbnailSize);
+
+        const textLines = this.getSelectedLevelDetails();
+        const fontSize = 14;
+        this.context.fillStyle = THEME.buttonTextColor;
+        this.context.font = `${fontSize}px fantasy`;
+        textLines.forEach((line, index) => {
+            this.context.fillText(
+                line,
+                topLeftCanvas.x + thumbnailSize + 8,
+                topLeftCanvas.y + (index + 1) * (fontSize + 4));
+        });
+    }
+
+    /**
+     * Who made the selected level and when, or how it was generated,
+     * and its objective if it's not capture the flag.
+     */
+    private getSelectedLevelDetails(): string[] {
+        const objective = this.selectedLevel.data.objective;
+        return [
+            ...this.getSelectedLevelOrigin(),
+            ...(objective != null ? [describeObjective(objective)] : []),
+        ];
+    }
+
+    private getSelectedLevelOrigin(): string[] {
+        if (this.selectedLevel === this.randomLevel) {
+            const params = this.randomLevelParams;
+            return [
+                `Seed ${params.seed}`,
+                `${params.width}x${params.height} ${params.style}`,
+                params.symmetry,
+            ];
+        }
+        const libraryLevel = this.getSelectedLibraryLevel();
+        if (libraryLevel == null) {
+            return [];
+        }
+        const textLines = [
+            new Date(libraryLevel.createdMs).toLocaleDateString(),
+        ];
+        if (libraryLevel.level.author) {
+            textLines.unshift(`by ${libraryLevel.level.author}`);
+        }
+        return textLines;
+    }
+
+    private renderStatusText(): void {
+        this.context.fillStyle = THEME.buttonTextColor;
+        const fontSize = 22;
+        this.context.font = `${fontSize}px fantasy`;
+        const textWidth = this.context.measureText(this.statusText).width;
+        this.context.fillText(
+            this.statusText,
+            RENDER_SETTINGS.canvasWidth / 2 - textWidth / 2,
+            RENDER_SETTINGS.canvasHeight * .16);
     }
 
     private renderTitleText(): void {
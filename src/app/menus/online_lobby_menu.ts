@@ -0,0 +1,237 @@
+import { UiManager } from 'src/app/ui/ui_manager';
+import { Button, ButtonStyle } from 'src/app/ui/button';
+import { Point } from 'src/app/math/point';
+import { RENDER_SETTINGS } from 'src/app/render_settings';
+import { CONTROLS, ControlMap, EventType, Key } from 'src/app/controls';
+import { GameModeManager } from 'src/app/game_mode_manager';
+import { THEME } from 'src/app/theme';
+import { GameSettings } from 'src/app/game_settings';
+import { serializeGameSettings, deserializeGameSettings, deserializeAction } from 'src/app/replay';
+import { ClientMessageType, ServerMessage, ServerMessageType, LOBBY_CODE_LENGTH, LOBBY_CODE_LETTERS } from 'src/app/online/protocol';
+import { RelayConnection, OnlineMatch, getRelayServerUrl } from 'src/app/online/relay_connection';
+
+/**
+ * Hosts a lobby for an online match, or joins one by its code.
+ * Hands the connection over to the match once every team has a player.
+ */
+export class OnlineLobbyMenu implements GameModeManager {
+    private readonly canvas: HTMLCanvasElement;
+    private readonly context: CanvasRenderingContext2D;
+    /** Set when hosting, joining players get these from the host. */
+    private readonly hostedMatch?: {
+        levelIndex: number;
+        settings: GameSettings;
+    };
+    private readonly onMatchStarted: (match: OnlineMatch) => void;
+    private readonly onBack: () => void;
+    private readonly uiManager: UiManager;
+    private readonly controlMap: ControlMap;
+    private readonly connection: RelayConnection;
+
+    private enteredCode: string;
+    private statusText: string;
+    private hasMatchStarted: boolean;
+
+    constructor(
+        canvas: HTMLCanvasElement,
+        context: CanvasRenderingContext2D,
+        params: {
+            hostedMatch?: { levelIndex: number; settings: GameSettings };
+            onMatchStarted: (match: OnlineMatch) => void;
+            onBack: () => void;
+        }) {
+
+        this.canvas = canvas;
+        this.context = context;
+        this.hostedMatch = params.hostedMatch;
+        this.onMatchStarted = params.onMatchStarted;
+        this.onBack = params.onBack;
+        this.uiManager = new UiManager(context);
+        this.controlMap = new ControlMap();
+        this.enteredCode = '';
+        this.hasMatchStarted = false;
+        this.statusText = 'Connecting to relay server...';
+        this.initButtons();
+        if (this.hostedMatch == null) {
+            this.initCodeControls();
+        }
+        this.connection = new RelayConnection(getRelayServerUrl(), {
+            onMessage: (message: ServerMessage) => {
+                this.onServerMessage(message);
+            },
+            onConnectionChange: (isConnected: boolean) => {
+                this.onConnectionChange(isConnected);
+            },
+        });
+    }
+
+    update(elapsedTime: number): void {
+        this.controlMap.check();
+        this.uiManager.onMouseMove(CONTROLS.getMouseCanvasCoords());
+        if (CONTROLS.hasClick()) {
+            const clickCanvasCoords = CONTROLS.handleClick();
+            this.uiManager.onClick(clickCanvasCoords);
+        }
+    }
+
+    render(): void {
+        this.context.fillStyle = THEME.uiBackgroundColor;
+        this.context.clearRect(
+            0, 0, RENDER_SETTINGS.canvasWidth, RENDER_SETTINGS.canvasHeight);
+        this.context.fillRect(
+            0, 0, RENDER_SETTINGS.canvasWidth, RENDER_SETTINGS.canvasHeight);
+        this.renderText(
+            this.hostedMatch ? 'Host online' : 'Join online', 72, 1 / 6);
+        if (this.hostedMatch == null) {
+            const placeholders = new Array(
+                LOBBY_CODE_LENGTH - this.enteredCode.length + 1).join('_');
+            this.renderText(
+                `Code: ${this.enteredCode}${placeholders}`, 48, .4);
+        }
+        this.renderText(this.statusText, 28, .55);
+        this.uiManager.render();
+    }
+
+    destroy(): void {
+        this.controlMap.clear();
+        // The match owns the connection once it starts.
+        if (!this.hasMatchStarted) {
+            this.connection.close();
+        }
+    }
+
+    private onConnectionChange(isConnected: boolean): void {
+        if (!isConnected) {
+            this.statusText =
+                `Can't reach the relay server at ${getRelayServerUrl()}`;
+            return;
+        }
+        if (this.hostedMatch != null) {
+            if (this.connection.getLobbyCode() == null) {
+                this.connection.send({
+                    type: ClientMessageType.CREATE_LOBBY,
+                    levelIndex: this.hostedMatch.levelIndex,
+                    settings: serializeGameSettings(this.hostedMatch.settings),
+                });
+            }
+        } else {
+            this.statusText = 'Type the code of the lobby to join';
+        }
+    }
+
+    private onServerMessage(message: ServerMessage): void {
+        switch (message.type) {
+            case ServerMessageType.LOBBY_CREATED:
+                this.statusText =
+                    `Lobby code: ${message.code} - waiting for players...`;
+                break;
+            case ServerMessageType.MATCH_STARTED:
+                this.hasMatchStarted = true;
+                this.onMatchStarted({
+                    connection: this.connection,
+                    teamIndex: message.teamIndex,
+                    levelIndex: message.levelIndex,
+                    settings: deserializeGameSettings(message.settings),
+                    actions: message.actions.map(deserializeAction),
+                });
+                break;
+            case ServerMessageType.ERROR:
+                this.statusText = message.message;
+                break;
+            default:
+                // Only relevant once the match has started.
+                break;
+        }
+    }
+
+    private tryJoining(): void {
+        if (this.enteredCode.length !== LOBBY_CODE_LENGTH) {
+            this.statusText =
+                `Lobby codes are ${LOBBY_CODE_LENGTH} letters long`;
+            return;
+        }
+        if (!this.connection.send({
+            type: ClientMessageType.JOIN_LOBBY,
+            code: this.enteredCode,
+        })) {
+            return;
+        }
+        this.statusText = `Joining ${this.enteredCode}...`;
+    }
+
+    private initCodeControls(): void {
+        for (const letter of LOBBY_CODE_LETTERS.split('')) {
+            this.controlMap.add({
+                key: Key[letter as keyof typeof Key],
+                name: `Type ${letter}`,
+                func: () => {
+                    if (this.enteredCode.length < LOBBY_CODE_LENGTH) {
+                        this.enteredCode += letter;
+                    }
+                },
+                eventType: EventType.KeyPress,
+            });
+        }
+        this.controlMap.add({
+            key: Key.BACKSPACE,
+            name: 'Delete letter',
+            func: () => {
+                this.enteredCode = this.enteredCode.slice(0, -1);
+            },
+            eventType: EventType.KeyPress,
+        });
+        this.controlMap.add({
+            key: Key.ENTER,
+            name: 'Join',
+            func: () => { this.tryJoining(); },
+            eventType: EventType.KeyPress,
+        });
+    }
+
+    private initButtons(): void {
+        const topMargin = .9;
+        const leftMargin = .1;
+        const buttonSize = new Point(.18, .08);
+        const buttonStyle: ButtonStyle = {
+            fontSize: 22,
+            color: '#d9c8a3',
+            hoverColor: '#e6dbc3',
+            textColor: THEME.buttonTextColor,
+        };
+        this.uiManager.addElement(new Button({
+            dimensions: {
+                size: buttonSize,
+                topLeft: new Point(leftMargin, topMargin),
+                text: 'Back',
+            },
+            style: buttonStyle,
+            onClick: this.onBack,
+        }));
+        if (this.hostedMatch != null) {
+            return;
+        }
+        this.uiManager.addElement(new Button({
+            dimensions: {
+                size: buttonSize,
+                topLeft: new Point(leftMargin + buttonSize.x + .04, topMargin),
+                text: 'Join',
+            },
+            style: {
+                ...buttonStyle,
+                color: '#66d15a',
+                hoverColor: '#7aed6d',
+            },
+            onClick: () => { this.tryJoining(); },
+        }));
+    }
+
+    private renderText(text: string, fontSize: number, y: number): void {
+        this.context.fillStyle = THEME.buttonTextColor;
+        this.context.font = `${fontSize}px fantasy`;
+        const textWidth = this.context.measureText(text).width;
+        this.context.fillText(
+            text,
+            RENDER_SETTINGS.canvasWidth / 2 - textWidth / 2,
+            RENDER_SETTINGS.canvasHeight * y - fontSize / 2);
+    }
+}
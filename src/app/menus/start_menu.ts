@@ -5,6 +5,8 @@ import { RENDER_SETTINGS } from 'src/app/render_settings';
 import { CONTROLS } from 'src/app/controls';
 import { GameModeManager } from 'src/app/game_mode_manager';
 import { THEME } from 'src/app/theme';
+import { Replay, loadLastReplay } from 'src/app/replay';
+import { SavedMatch, loadSavedMatch } from 'src/app/saved_match';
 
 interface ButtonMetadata {
     text: string;
@@ -17,6 +19,8 @@ export class StartMenu implements GameModeManager {
     private readonly onFreePlay: () => void;
     private readonly onCampaign: () => void;
     private readonly onCreateLevel: () => void;
+    private readonly onWatchReplay: (replay: Replay) => void;
+    private readonly onContinue: (savedMatch: SavedMatch) => void;
     private readonly uiManager: UiManager;
 
     constructor(
@@ -26,6 +30,8 @@ export class StartMenu implements GameModeManager {
             onFreePlay: () => void;
             onCampaign: () => void;
             onCreateLevel: () => void;
+            onWatchReplay: (replay: Replay) => void;
+            onContinue: (savedMatch: SavedMatch) => void;
         }) {
 
         this.canvas = canvas;
@@ -33,6 +39,8 @@ export class StartMenu implements GameModeManager {
         this.onFreePlay = callbacks.onFreePlay;
         this.onCampaign = callbacks.onCampaign;
         this.onCreateLevel = callbacks.onCreateLevel;
+        this.onWatchReplay = callbacks.onWatchReplay;
+        this.onContinue = callbacks.onContinue;
 
         this.uiManager = new UiManager(context);
         this.initMenu();
@@ -62,17 +70,32 @@ export class StartMenu implements GameModeManager {
 
     private initMenu(): void {
         const topMargin = .3;
-        const buttonOffsetY = .08;
         const buttonSize = new Point(.26, .1);
         const leftMargin = .5 - buttonSize.x / 2;
         const buttonColor = '#f7c25e';
         const buttonHoverColor = '#fcd281';
         const fontSize = 24;
-        const buttonMetadatas: ButtonMetadata[] = [
+        const buttonMetadatas: ButtonMetadata[] = [];
+        const savedMatch = loadSavedMatch();
+        if (savedMatch != null) {
+            buttonMetadatas.push({
+                text: 'Continue',
+                callback: () => { this.onContinue(savedMatch); },
+            });
+        }
+        buttonMetadatas.push(
             { text: 'Campaign mode', callback: this.onCampaign },
             { text: 'Free play', callback: this.onFreePlay },
-            { text: 'Create Level', callback: this.onCreateLevel },
-        ];
+            { text: 'Create Level', callback: this.onCreateLevel });
+        const lastReplay = loadLastReplay();
+        if (lastReplay != null) {
+            buttonMetadatas.push({
+                text: 'Watch last match',
+                callback: () => { this.onWatchReplay(lastReplay); },
+            });
+        }
+        // Tighten spacing to fit the optional buttons.
+        const buttonOffsetY = buttonMetadatas.length > 3 ? .04 : .08;
         for (let buttonIndex = 0;
             buttonIndex < buttonMetadatas.length;
             buttonIndex++) {
@@ -0,0 +1,478 @@
+import { Point, pointFromSerialized } from 'src/app/math/point';
+import { SerializedPoint } from 'src/app/level';
+import { Flag } from 'src/app/game_objects/flag';
+import { Character } from 'src/app/game_objects/character';
+import { GameState } from 'src/app/game_state';
+import { VictoryType } from 'src/app/game_events';
+
+/** How a match is won, besides eliminating every other team. */
+export enum ObjectiveType {
+    /** Bring enemy flags back to your own. */
+    CAPTURE_THE_FLAG = 'CAPTURE_THE_FLAG',
+    /** Be the only team in a zone at the end of your turns. */
+    KING_OF_THE_HILL = 'KING_OF_THE_HILL',
+    /** Get a team's first character to an exit alive. */
+    ESCORT = 'ESCORT',
+    /** Keep a team's flag from being captured for a number of turns. */
+    DEFEND = 'DEFEND',
+}
+
+/** Plain data, so it can be saved with levels and match settings. */
+export type ObjectiveSettings = {
+    readonly type: ObjectiveType.CAPTURE_THE_FLAG;
+    /** Captured flags go back to their start until a team has this many. */
+    readonly capturesToWin: number;
+} | {
+    readonly type: ObjectiveType.KING_OF_THE_HILL;
+    readonly hill: SerializedPoint[];
+    /** Turns in a row the team has to end holding the hill. */
+    readonly turnsToHold: number;
+} | {
+    readonly type: ObjectiveType.ESCORT;
+    /** Whose first placed character is the VIP. */
+    readonly escortTeamIndex: number;
+    /** Tiles the VIP escapes from. */
+    readonly exit: SerializedPoint[];
+} | {
+    readonly type: ObjectiveType.DEFEND;
+    /** The only team whose flag can be taken. */
+    readonly defendingTeamIndex: number;
+    /** Of the defenders' own turns. */
+    readonly turnsToDefend: number;
+};
+
+/** A single capture wins, like matches before objectives. */
+export const DEFAULT_OBJECTIVE_SETTINGS: ObjectiveSettings = {
+    type: ObjectiveType.CAPTURE_THE_FLAG,
+    capturesToWin: 1,
+};
+
+export interface ObjectiveResult {
+    readonly winningTeamIndex: number;
+    readonly victoryType: VictoryType;
+}
+
+/**
+ * Rules for winning a match, asked by the RulesEngine as it plays out.
+ * Progress is kept here rather than in the GameState's objects.
+ */
+export interface Objective {
+    readonly settings: ObjectiveSettings;
+    /** Whether enemies can take the flag at all. */
+    canTakeFlag(flag: Flag): boolean;
+    /** The team brought an enemy flag back to its own. */
+    onFlagCaptured(teamIndex: number): void;
+    /** After each of the team's combat turns. */
+    onTurnEnded(gameState: GameState, teamIndex: number): void;
+    /** Null until a team has won by the objective. */
+    getResult(gameState: GameState): ObjectiveResult | null;
+    /** Where the team should head, or null for the closest enemy flag. */
+    getTargetTile(
+        gameState: GameState, teamIndex: number, fromTile: Point): Point | null;
+    /** Highlighted on the board, ie the hill. */
+    getZoneTiles(): Point[];
+    /** The character whose survival decides the match, if any. */
+    getVip(gameState: GameState): Character | undefined;
+    /** Shown in the HUD, empty for a plain capture the flag match. */
+    getStatus(gameState: GameState): string[];
+    /** Counters like captures per team, to save and restore. */
+    getProgress(): number[];
+    setProgress(progress: number[]): void;
+}
+
+/** Throws if the objective is for a team that isn't in the match. */
+export function createObjective(
+    settings: ObjectiveSettings = DEFAULT_OBJECTIVE_SETTINGS,
+    numTeams: number): Objective {
+
+    const teamIndex = getObjectiveTeamIndex(settings);
+    if (teamIndex != null && teamIndex >= numTeams) {
+        throw new Error(
+            `Objective is for team ${teamIndex + 1}, ` +
+            `but the match only has ${numTeams} teams`);
+    }
+    switch (settings.type) {
+        case ObjectiveType.CAPTURE_THE_FLAG:
+            return new CaptureTheFlag(settings, numTeams);
+        case ObjectiveType.KING_OF_THE_HILL:
+            return new KingOfTheHill(settings, numTeams);
+        case ObjectiveType.ESCORT:
+            return new Escort(settings);
+        case ObjectiveType.DEFEND:
+            return new Defend(settings);
+    }
+}
+
+/** The team the objective is set up around, if any. */
+export function getObjectiveTeamIndex(
+    settings: ObjectiveSettings): number | null {
+
+    switch (settings.type) {
+        case ObjectiveType.ESCORT:
+            return settings.escortTeamIndex;
+        case ObjectiveType.DEFEND:
+            return settings.defendingTeamIndex;
+        default:
+            return null;
+    }
+}
+
+/** Tiles on the board the objective is about, ie the hill or exit. */
+export function getObjectiveZone(settings: ObjectiveSettings): Point[] {
+    switch (settings.type) {
+        case ObjectiveType.KING_OF_THE_HILL:
+            return settings.hill.map(pointFromSerialized);
+        case ObjectiveType.ESCORT:
+            return settings.exit.map(pointFromSerialized);
+        default:
+            return [];
+    }
+}
+
+/** Short description for menus, ie 'Hold the hill for 3 turns'. */
+export function describeObjective(settings: ObjectiveSettings): string {
+    switch (settings.type) {
+        case ObjectiveType.CAPTURE_THE_FLAG:
+            return settings.capturesToWin === 1
+                ? 'Capture a flag'
+                : `Capture ${settings.capturesToWin} flags`;
+        case ObjectiveType.KING_OF_THE_HILL:
+            return `Hold the hill for ${settings.turnsToHold} turns`;
+        case ObjectiveType.ESCORT:
+            return `Escort team ${settings.escortTeamIndex + 1}'s VIP out`;
+        case ObjectiveType.DEFEND:
+            return `Team ${settings.defendingTeamIndex + 1} defends for ` +
+                `${settings.turnsToDefend} turns`;
+    }
+}
+
+class CaptureTheFlag implements Objective {
+    readonly settings:
+        Extract<ObjectiveSettings, { type: ObjectiveType.CAPTURE_THE_FLAG }>;
+    /** Indexed by team. */
+    private captures: number[];
+
+    constructor(settings: CaptureTheFlag['settings'], numTeams: number) {
+        this.settings = settings;
+        this.captures = new Array(numTeams).fill(0);
+    }
+
+    canTakeFlag(flag: Flag): boolean {
+        return true;
+    }
+
+    onFlagCaptured(teamIndex: number): void {
+        this.captures[teamIndex]++;
+    }
+
+    onTurnEnded(gameState: GameState, teamIndex: number): void {
+    }
+
+    getResult(gameState: GameState): ObjectiveResult | null {
+        const winningTeamIndex = this.captures.findIndex((captures) => {
+            return captures >= this.settings.capturesToWin;
+        });
+        return winningTeamIndex !== -1
+            ? { winningTeamIndex, victoryType: VictoryType.FLAG_CAPTURED }
+            : null;
+    }
+
+    getTargetTile(): Point | null {
+        return null;
+    }
+
+    getZoneTiles(): Point[] {
+        return [];
+    }
+
+    getVip(): Character | undefined {
+        return undefined;
+    }
+
+    getStatus(gameState: GameState): string[] {
+        if (this.settings.capturesToWin === 1) {
+            return [];
+        }
+        return [
+            `Capture ${this.settings.capturesToWin} flags`,
+            ...gameState.getRemainingTeamIndices().map((teamIndex) => {
+                return `${gameState.getTeamName(teamIndex)}: ` +
+                    `${this.captures[teamIndex]}/` +
+                    `${this.settings.capturesToWin}`;
+            }),
+        ];
+    }
+
+    getProgress(): number[] {
+        return [...this.captures];
+    }
+
+    setProgress(progress: number[]): void {
+        this.captures = [...progress];
+    }
+}
+
+class KingOfTheHill implements Objective {
+    readonly settings:
+        Extract<ObjectiveSettings, { type: ObjectiveType.KING_OF_THE_HILL }>;
+    private readonly hill: Point[];
+    /** Turns in a row each team has ended holding the hill. */
+    private turnsHeld: number[];
+
+    constructor(settings: KingOfTheHill['settings'], numTeams: number) {
+        this.settings = settings;
+        this.hill = getObjectiveZone(settings);
+        this.turnsHeld = new Array(numTeams).fill(0);
+    }
+
+    /** Flags only mark where teams start. */
+    canTakeFlag(flag: Flag): boolean {
+        return false;
+    }
+
+    onFlagCaptured(teamIndex: number): void {
+    }
+
+    /** Held if the team has a character in the hill and no enemy does. */
+    onTurnEnded(gameState: GameState, teamIndex: number): void {
+        const teamIndicesInHill = gameState.getAliveCharacters()
+            .filter((character) => {
+                return this.hill.some((tile) => {
+                    return tile.equals(character.tileCoords);
+                });
+            })
+            .map((character) => character.teamIndex);
+        const isHeld = teamIndicesInHill.length > 0
+            && teamIndicesInHill.every((teamIndexInHill) => {
+                return gameState.areAllies(teamIndexInHill, teamIndex);
+            });
+        this.turnsHeld[teamIndex] = isHeld
+            ? this.turnsHeld[teamIndex] + 1
+            : 0;
+    }
+
+    getResult(gameState: GameState): ObjectiveResult | null {
+        const winningTeamIndex = this.turnsHeld.findIndex((turnsHeld) => {
+            return turnsHeld >= this.settings.turnsToHold;
+        });
+        return winningTeamIndex !== -1
+            ? { winningTeamIndex, victoryType: VictoryType.HILL_HELD }
+            : null;
+    }
+
+    getTargetTile(
+        gameState: GameState, teamIndex: number, fromTile: Point): Point {
+        return getClosestTile(this.hill, fromTile);
+    }
+
+    getZoneTiles(): Point[] {
+        return this.hill;
+    }
+
+    getVip(): Character | undefined {
+        return undefined;
+    }
+
+    getStatus(gameState: GameState): string[] {
+        return [
+            `Hold the hill for ${this.settings.turnsToHold} turns`,
+            ...gameState.getRemainingTeamIndices().map((teamIndex) => {
+                return `${gameState.getTeamName(teamIndex)}: ` +
+                    `${this.turnsHeld[teamIndex]}/` +
+                    `${this.settings.turnsToHold}`;
+            }),
+        ];
+    }
+
+    getProgress(): number[] {
+        return [...this.turnsHeld];
+    }
+
+    setProgress(progress: number[]): void {
+        this.turnsHeld = [...progress];
+    }
+}
+
+class Escort implements Objective {
+    readonly settings:
+        Extract<ObjectiveSettings, { type: ObjectiveType.ESCORT }>;
+    private readonly exit: Point[];
+
+    constructor(settings: Escort['settings']) {
+        this.settings = settings;
+        this.exit = getObjectiveZone(settings);
+    }
+
+    canTakeFlag(flag: Flag): boolean {
+        return false;
+    }
+
+    onFlagCaptured(teamIndex: number): void {
+    }
+
+    onTurnEnded(gameState: GameState, teamIndex: number): void {
+    }
+
+    /** Decided as soon as the VIP reaches the exit or goes down. */
+    getResult(gameState: GameState): ObjectiveResult | null {
+        const vip = this.getVip(gameState);
+        if (vip == null) {
+            return null;
+        }
+        const escortTeamIndex = this.settings.escortTeamIndex;
+        if (!vip.isAlive()) {
+            const winningTeamIndex = gameState.getRemainingTeamIndices()
+                .find((teamIndex) => {
+                    return !gameState.areAllies(teamIndex, escortTeamIndex);
+                });
+            return winningTeamIndex != null
+                ? { winningTeamIndex, victoryType: VictoryType.VIP_KILLED }
+                : null;
+        }
+        return this.exit.some((tile) => tile.equals(vip.tileCoords))
+            ? {
+                winningTeamIndex: escortTeamIndex,
+                victoryType: VictoryType.VIP_ESCAPED,
+            }
+            : null;
+    }
+
+    /** Escorts head for the exit and everyone else for the VIP. */
+    getTargetTile(
+        gameState: GameState,
+        teamIndex: number,
+        fromTile: Point): Point | null {
+
+        if (gameState.areAllies(teamIndex, this.settings.escortTeamIndex)) {
+            return getClosestTile(this.exit, fromTile);
+        }
+        const vip = this.getVip(gameState);
+        return vip != null ? vip.tileCoords : null;
+    }
+
+    getZoneTiles(): Point[] {
+        return this.exit;
+    }
+
+    /** Unset until the escorts place their first character. */
+    getVip(gameState: GameState): Character | undefined {
+        return gameState.characters.find((character) => {
+            return character.teamIndex === this.settings.escortTeamIndex
+                && character.index === 0;
+        });
+    }
+
+    getStatus(gameState: GameState): string[] {
+        const teamName = gameState.getTeamName(this.settings.escortTeamIndex);
+        return [
+            `${teamName}: get the VIP to the exit`,
+            `Others: stop the VIP`,
+        ];
+    }
+
+    getProgress(): number[] {
+        return [];
+    }
+
+    setProgress(progress: number[]): void {
+    }
+}
+
+class Defend implements Objective {
+    readonly settings:
+        Extract<ObjectiveSettings, { type: ObjectiveType.DEFEND }>;
+    private turnsDefended: number;
+    /** -1 until an attacker captures the flag. */
+    private capturingTeamIndex: number;
+
+    constructor(settings: Defend['settings']) {
+        this.settings = settings;
+        this.turnsDefended = 0;
+        this.capturingTeamIndex = -1;
+    }
+
+    canTakeFlag(flag: Flag): boolean {
+        return flag.teamIndex === this.settings.defendingTeamIndex;
+    }
+
+    onFlagCaptured(teamIndex: number): void {
+        this.capturingTeamIndex = teamIndex;
+    }
+
+    onTurnEnded(gameState: GameState, teamIndex: number): void {
+        if (teamIndex === this.settings.defendingTeamIndex) {
+            this.turnsDefended++;
+        }
+    }
+
+    /**
+     * Attackers win by capturing the flag, like any other match,
+     * or by knocking the defenders out when there are other teams left.
+     */
+    getResult(gameState: GameState): ObjectiveResult | null {
+        if (this.capturingTeamIndex !== -1) {
+            return {
+                winningTeamIndex: this.capturingTeamIndex,
+                victoryType: VictoryType.FLAG_CAPTURED,
+            };
+        }
+        const defendingTeamIndex = this.settings.defendingTeamIndex;
+        if (gameState.isTeamEliminated(defendingTeamIndex)) {
+            const winningTeamIndex = gameState.getRemainingTeamIndices()[0];
+            return winningTeamIndex != null
+                ? { winningTeamIndex, victoryType: VictoryType.ELIMINATION }
+                : null;
+        }
+        return this.turnsDefended >= this.settings.turnsToDefend
+            ? {
+                winningTeamIndex: defendingTeamIndex,
+                victoryType: VictoryType.DEFENDED,
+            }
+            : null;
+    }
+
+    /** Defenders stay by their flag, attackers go for it. */
+    getTargetTile(gameState: GameState, teamIndex: number): Point | null {
+        return teamIndex === this.settings.defendingTeamIndex
+            ? gameState.getFlagForTeamIndex(teamIndex).tileCoords
+            : null;
+    }
+
+    getZoneTiles(): Point[] {
+        return [];
+    }
+
+    getVip(): Character | undefined {
+        return undefined;
+    }
+
+    getStatus(gameState: GameState): string[] {
+        const teamName =
+            gameState.getTeamName(this.settings.defendingTeamIndex);
+        return [
+            `${teamName}: defend the flag`,
+            `Others: capture it`,
+            `Turns left: ` +
+            `${this.settings.turnsToDefend - this.turnsDefended}`,
+        ];
+    }
+
+    getProgress(): number[] {
+        return [this.turnsDefended, this.capturingTeamIndex];
+    }
+
+    setProgress(progress: number[]): void {
+        [this.turnsDefended, this.capturingTeamIndex] = progress;
+    }
+}
+
+function getClosestTile(tiles: Point[], fromTile: Point): Point {
+    let closestTile = tiles[0];
+    for (const tile of tiles) {
+        if (tile.manhattanDistanceTo(fromTile)
+            < closestTile.manhattanDistanceTo(fromTile)) {
+            closestTile = tile;
+        }
+    }
+    return closestTile;
+}
@@ -0,0 +1,154 @@
+import { SerializedAction, SerializedGameSettings } from 'src/app/replay';
+import { SerializedGameState } from 'src/app/saved_match';
+import { isInteger } from 'src/app/level_file';
+
+/** Messages shared by online clients and the relay server. */
+
+export const RELAY_SERVER_PORT = 8081;
+
+export const LOBBY_CODE_LENGTH = 4;
+
+/** Skips letters that are easy to confuse, ie I and O. */
+export const LOBBY_CODE_LETTERS = 'ABCDEFGHJKLMNPQRSTUVWXYZ';
+
+export enum ClientMessageType {
+    CREATE_LOBBY = 'CREATE_LOBBY',
+    JOIN_LOBBY = 'JOIN_LOBBY',
+    /** Sent after reconnecting to take a player's seat back. */
+    REJOIN_LOBBY = 'REJOIN_LOBBY',
+    LEAVE_LOBBY = 'LEAVE_LOBBY',
+    ACTION = 'ACTION',
+    STATE_HASH = 'STATE_HASH',
+}
+
+export type ClientMessage = {
+    readonly type: ClientMessageType.CREATE_LOBBY;
+    readonly levelIndex: number;
+    readonly settings: SerializedGameSettings;
+} | {
+    readonly type: ClientMessageType.JOIN_LOBBY;
+    readonly code: string;
+} | {
+    readonly type: ClientMessageType.REJOIN_LOBBY;
+    readonly code: string;
+    readonly playerToken: string;
+} | {
+    readonly type: ClientMessageType.LEAVE_LOBBY;
+} | {
+    readonly type: ClientMessageType.ACTION;
+    /** Number of actions the sender applied before this one. */
+    readonly actionIndex: number;
+    readonly action: SerializedAction;
+} | {
+    readonly type: ClientMessageType.STATE_HASH;
+    /** Number of actions applied to reach the hashed state. */
+    readonly actionCount: number;
+    readonly hash: string;
+};
+
+export enum ServerMessageType {
+    /** Also sent to players joining a lobby that isn't full yet. */
+    LOBBY_CREATED = 'LOBBY_CREATED',
+    /**
+     * Sent to every player once the lobby is full, and again
+     * on rejoining. Contains every action taken so far.
+     */
+    MATCH_STARTED = 'MATCH_STARTED',
+    ACTION = 'ACTION',
+    /** The sender's action wasn't applied, it should resync. */
+    ACTION_REJECTED = 'ACTION_REJECTED',
+    /** The sender's state hash didn't match, it should resync. */
+    DESYNC = 'DESYNC',
+    OPPONENT_DISCONNECTED = 'OPPONENT_DISCONNECTED',
+    OPPONENT_RECONNECTED = 'OPPONENT_RECONNECTED',
+    OPPONENT_LEFT = 'OPPONENT_LEFT',
+    ERROR = 'ERROR',
+}
+
+export type ServerMessage = {
+    readonly type: ServerMessageType.LOBBY_CREATED;
+    readonly code: string;
+    readonly playerToken: string;
+} | {
+    readonly type: ServerMessageType.MATCH_STARTED;
+    readonly code: string;
+    readonly playerToken: string;
+    readonly teamIndex: number;
+    readonly levelIndex: number;
+    readonly settings: SerializedGameSettings;
+    readonly actions: SerializedAction[];
+} | {
+    readonly type: ServerMessageType.ACTION;
+    readonly actionIndex: number;
+    readonly action: SerializedAction;
+} | {
+    readonly type: ServerMessageType.ACTION_REJECTED;
+    readonly reason: string;
+    readonly actions: SerializedAction[];
+} | {
+    readonly type: ServerMessageType.DESYNC;
+    readonly actions: SerializedAction[];
+} | {
+    readonly type:
+    ServerMessageType.OPPONENT_DISCONNECTED
+    | ServerMessageType.OPPONENT_RECONNECTED
+    | ServerMessageType.OPPONENT_LEFT;
+} | {
+    readonly type: ServerMessageType.ERROR;
+    readonly message: string;
+};
+
+/**
+ * Whether a parsed message has the fields its type needs. Settings
+ * and actions are only checked to be objects, the server checks
+ * their contents when it uses them.
+ */
+export function isClientMessage(value: unknown): value is ClientMessage {
+    if (value == null || typeof value !== 'object') {
+        return false;
+    }
+    const message = value as { readonly [key: string]: unknown };
+    const isObject = (field: unknown): boolean => {
+        return field != null && typeof field === 'object';
+    };
+    switch (message.type) {
+        case ClientMessageType.CREATE_LOBBY:
+            return isInteger(message.levelIndex) && isObject(message.settings);
+        case ClientMessageType.JOIN_LOBBY:
+            return typeof message.code === 'string';
+        case ClientMessageType.REJOIN_LOBBY:
+            return typeof message.code === 'string'
+                && typeof message.playerToken === 'string';
+        case ClientMessageType.LEAVE_LOBBY:
+            return true;
+        case ClientMessageType.ACTION:
+            return isInteger(message.actionIndex) && isObject(message.action);
+        case ClientMessageType.STATE_HASH:
+            return isInteger(message.actionCount)
+                && typeof message.hash === 'string';
+        default:
+            return false;
+    }
+}
+
+export function throwBadClientMessage(message: never): never {
+    throw new Error(`Unknown client message: ${JSON.stringify(message)}`);
+}
+
+export function throwBadServerMessage(message: never): never {
+    throw new Error(`Unknown server message: ${JSON.stringify(message)}`);
+}
+
+/**
+ * Hashes a game state (FNV-1a over its JSON) so clients and
+ * the server can cheaply check they're still in sync.
+ */
+export function hashGameState(state: SerializedGameState): string {
+    const json = JSON.stringify(state);
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < json.length; i++) {
+        hash ^= json.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16);
+}
@@ -0,0 +1,146 @@
+import { GameSettings } from 'src/app/game_settings';
+import { Action } from 'src/app/actions';
+import { ClientMessage, ClientMessageType, ServerMessage, ServerMessageType, RELAY_SERVER_PORT } from 'src/app/online/protocol';
+
+const MIN_RECONNECT_DELAY_MS = 500;
+const MAX_RECONNECT_DELAY_MS = 8000;
+
+export interface RelayListener {
+    onMessage(message: ServerMessage): void;
+    onConnectionChange(isConnected: boolean): void;
+}
+
+/** A started online match, as handed from the lobby to the game. */
+export interface OnlineMatch {
+    readonly connection: RelayConnection;
+    /** Team played by this client. */
+    readonly teamIndex: number;
+    readonly levelIndex: number;
+    readonly settings: GameSettings;
+    /** Taken before this client joined, ie when rejoining. */
+    readonly actions: Action[];
+}
+
+/** Relay server on the host serving the page, unless overridden. */
+export function getRelayServerUrl(): string {
+    const serverParam =
+        new URLSearchParams(window.location.search).get('relay');
+    if (serverParam != null) {
+        return serverParam;
+    }
+    const hostname = window.location.hostname || 'localhost';
+    return `ws://${hostname}:${RELAY_SERVER_PORT}`;
+}
+
+/**
+ * WebSocket connection to the relay server. Once in a lobby,
+ * dropped connections are retried and the seat is reclaimed.
+ */
+export class RelayConnection {
+    private readonly url: string;
+    private listener: RelayListener;
+    private socket: WebSocket;
+    private isOpen: boolean;
+    private isClosed: boolean;
+    private reconnectAttempts: number;
+    private lobbyCode?: string;
+    private playerToken?: string;
+
+    constructor(url: string, listener: RelayListener) {
+        this.url = url;
+        this.listener = listener;
+        this.isOpen = false;
+        this.isClosed = false;
+        this.reconnectAttempts = 0;
+        this.connect();
+    }
+
+    /** Routes messages elsewhere, ie from the lobby to the game. */
+    setListener(listener: RelayListener): void {
+        this.listener = listener;
+    }
+
+    isConnected(): boolean {
+        return this.isOpen;
+    }
+
+    getLobbyCode(): string | undefined {
+        return this.lobbyCode;
+    }
+
+    /** @return false if the message couldn't be sent. */
+    send(message: ClientMessage): boolean {
+        if (!this.isOpen) {
+            return false;
+        }
+        this.socket.send(JSON.stringify(message));
+        return true;
+    }
+
+    /** Leaves the lobby, if any, and stops reconnecting. */
+    close(): void {
+        if (this.isClosed) {
+            return;
+        }
+        this.send({ type: ClientMessageType.LEAVE_LOBBY });
+        this.isClosed = true;
+        this.socket.close();
+    }
+
+    /**
+     * Reclaims this client's seat, the server replies with
+     * the whole match so far (ie after missing messages).
+     */
+    rejoin(): void {
+        if (this.lobbyCode == null || this.playerToken == null) {
+            return;
+        }
+        this.send({
+            type: ClientMessageType.REJOIN_LOBBY,
+            code: this.lobbyCode,
+            playerToken: this.playerToken,
+        });
+    }
+
+    private connect(): void {
+        this.socket = new WebSocket(this.url);
+        this.socket.onopen = () => {
+            this.isOpen = true;
+            this.reconnectAttempts = 0;
+            this.rejoin();
+            this.listener.onConnectionChange(true);
+        };
+        this.socket.onmessage = (event: MessageEvent) => {
+            const message = JSON.parse(event.data) as ServerMessage;
+            if (message.type === ServerMessageType.LOBBY_CREATED
+                || message.type === ServerMessageType.MATCH_STARTED) {
+                this.lobbyCode = message.code;
+                this.playerToken = message.playerToken;
+            }
+            this.listener.onMessage(message);
+        };
+        this.socket.onclose = () => {
+            this.isOpen = false;
+            if (this.isClosed) {
+                return;
+            }
+            this.listener.onConnectionChange(false);
+            // Only worth retrying if there's a seat to reclaim.
+            if (this.lobbyCode != null) {
+                this.scheduleReconnect();
+            }
+        };
+    }
+
+    private scheduleReconnect(): void {
+        const delayMs = Math.min(
+            MIN_RECONNECT_DELAY_MS * Math.pow(2, this.reconnectAttempts),
+            MAX_RECONNECT_DELAY_MS);
+        this.reconnectAttempts += 1;
+        window.setTimeout(() => {
+            if (!this.isClosed) {
+                this.connect();
+            }
+        }, delayMs);
+    }
+}
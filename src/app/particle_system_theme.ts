@@ -68,4 +68,23 @@ export function getHealParticleSystemParams(startPositionCanvas: Point):
         minRadius: .07 * Grid.TILE_SIZE,
         maxRadius: .12 * Grid.TILE_SIZE,
     }
-};
\ No newline at end of file
+};
+
+/** Chunks knocked off of a damaged or destroyed obstacle. */
+export function getDebrisParticleSystemParams(
+    startPositionCanvas: Point, isDestroyed: boolean):
+    ParticleSystemParams {
+    return {
+        startPositionCanvas,
+        particleCount: isDestroyed ? 40 : 12,
+        colorA: '#4c6e47',
+        colorB: '#2e2a24',
+        shape: ParticleShape.SQUARE,
+        minParticleSpeed: .001 * Grid.TILE_SIZE,
+        maxParticleSpeed: (isDestroyed ? .003 : .002) * Grid.TILE_SIZE,
+        minLifetimeMs: 300,
+        maxLifetimeMs: 600,
+        minRadius: .03 * Grid.TILE_SIZE,
+        maxRadius: .07 * Grid.TILE_SIZE,
+    };
+};
@@ -0,0 +1,181 @@
+import { Action, ActionType, throwBadAction } from 'src/app/actions';
+import { GameSettings } from 'src/app/game_settings';
+import { pointFromSerialized } from 'src/app/math/point';
+import { CHARACTER_CLASSES, ClassType } from 'src/app/character_settings';
+import { SelectedCharacterState } from 'src/app/game_state';
+import { Level } from 'src/app/level';
+import { SerializedLevel, serializeLevel, deserializeLevel } from 'src/app/level_file';
+
+/** Bump when the serialized format changes. */
+const REPLAY_VERSION = 2;
+
+const lastReplayStorageKey = 'SnagTheFlag_LastReplay' as const;
+
+export interface RecordedAction {
+    readonly action: Action;
+    /** Game time since the start of the match. */
+    readonly timestampMs: number;
+}
+
+/**
+ * Everything needed to reproduce a match. The seed for
+ * all randomness is included in the settings.
+ */
+export interface Replay {
+    /** Included whole, as it may not be built in. */
+    readonly level: Level;
+    readonly settings: GameSettings;
+    readonly actions: RecordedAction[];
+}
+
+export type SerializedAction = {
+    readonly type: ActionType.SELECT_CHARACTER_CLASS;
+    readonly classType: ClassType;
+} | {
+    readonly type: ActionType.SELECT_TILE;
+    readonly tile: { x: number; y: number };
+} | {
+    readonly type: ActionType.SELECT_CHARACTER;
+    readonly characterIndex: number;
+} | {
+    readonly type: ActionType.SELECT_CHARACTER_STATE;
+    readonly state: SelectedCharacterState;
+} | {
+    readonly type: ActionType.AIM;
+    readonly aimAngleClockwiseRadians: number;
+} | {
+    readonly type: ActionType.HEAL;
+    readonly healAmount: number;
+} | {
+    readonly type: ActionType.SHOOT | ActionType.OVERWATCH
+    | ActionType.END_CHARACTER_TURN;
+};
+
+export type SerializedGameSettings =
+    Omit<GameSettings, 'teamIndexToSquadSize'> & {
+        teamIndexToSquadSize: Array<[number, number]>;
+    };
+
+export interface SerializedReplay {
+    readonly version: number;
+    readonly level: SerializedLevel;
+    readonly settings: SerializedGameSettings;
+    readonly actions: Array<{
+        readonly action: SerializedAction;
+        readonly timestampMs: number;
+    }>;
+}
+
+export function serializeReplay(replay: Replay): SerializedReplay {
+    const serialized: SerializedReplay = {
+        version: REPLAY_VERSION,
+        level: serializeLevel(replay.level),
+        settings: serializeGameSettings(replay.settings),
+        actions: replay.actions.map((recordedAction) => {
+            return {
+                action: serializeAction(recordedAction.action),
+                timestampMs: recordedAction.timestampMs,
+            };
+        }),
+    };
+    return serialized;
+}
+
+export function deserializeReplay(serialized: SerializedReplay): Replay {
+    if (serialized.version !== REPLAY_VERSION) {
+        throw new Error(
+            `Unsupported replay version: ${serialized.version}`);
+    }
+    return {
+        level: deserializeLevel(serialized.level),
+        settings: deserializeGameSettings(serialized.settings),
+        actions: serialized.actions.map((recordedAction) => {
+            return {
+                action: deserializeAction(recordedAction.action),
+                timestampMs: recordedAction.timestampMs,
+            };
+        }),
+    };
+}
+
+export function saveLastReplay(replay: Replay): void {
+    window.localStorage.setItem(
+        lastReplayStorageKey, JSON.stringify(serializeReplay(replay)));
+}
+
+/** Returns null if no match was recorded or it can't be read anymore. */
+export function loadLastReplay(): Replay | null {
+    const storedValue = window.localStorage.getItem(lastReplayStorageKey);
+    if (storedValue == null) {
+        return null;
+    }
+    try {
+        return deserializeReplay(JSON.parse(storedValue));
+    } catch (e) {
+        return null;
+    }
+}
+
+export function serializeGameSettings(
+    settings: GameSettings): SerializedGameSettings {
+    return {
+        ...settings,
+        teamIndexToSquadSize: [...settings.teamIndexToSquadSize.entries()],
+    };
+}
+
+export function deserializeGameSettings(
+    serialized: SerializedGameSettings): GameSettings {
+    return {
+        ...serialized,
+        teamIndexToSquadSize: new Map(serialized.teamIndexToSquadSize),
+    };
+}
+
+export function serializeAction(action: Action): SerializedAction {
+    switch (action.type) {
+        case ActionType.SELECT_CHARACTER_CLASS:
+            return {
+                type: action.type,
+                classType: action.class.type,
+            };
+        case ActionType.SELECT_TILE:
+            return {
+                type: action.type,
+                tile: { x: action.tile.x, y: action.tile.y },
+            };
+        case ActionType.SELECT_CHARACTER:
+        case ActionType.SELECT_CHARACTER_STATE:
+        case ActionType.AIM:
+        case ActionType.HEAL:
+        case ActionType.SHOOT:
+        case ActionType.OVERWATCH:
+        case ActionType.END_CHARACTER_TURN:
+            return action;
+        default:
+            return throwBadAction(action);
+    }
+}
+
+export function deserializeAction(action: SerializedAction): Action {
+    switch (action.type) {
+        case ActionType.SELECT_CHARACTER_CLASS:
+            const characterClass = CHARACTER_CLASSES
+                .find((settings) => settings.type === action.classType);
+            if (characterClass == null) {
+                throw new Error(
+                    `Unknown character class in replay: ${action.classType}`);
+            }
+            return {
+                type: action.type,
+                class: characterClass,
+            };
+        case ActionType.SELECT_TILE:
+            return {
+                type: action.type,
+                tile: pointFromSerialized(action.tile),
+            };
+        default:
+            return action;
+    }
+}
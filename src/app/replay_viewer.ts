@@ -0,0 +1,221 @@
+import { GameModeManager } from 'src/app/game_mode_manager';
+import { GameManager } from 'src/app/game_manager';
+import { Replay } from 'src/app/replay';
+import { ControlMap, ControlParams, EventType, Key, CONTROLS } from 'src/app/controls';
+import { ButtonPanel } from 'src/app/button_panel';
+import { Camera } from 'src/app/camera';
+
+const PLAY_PAUSE_KEY = Key.P;
+const STEP_FORWARD_KEY = Key.RIGHT_ARROW;
+const STEP_BACK_KEY = Key.LEFT_ARROW;
+const FASTER_KEY = Key.UP_ARROW;
+const SLOWER_KEY = Key.DOWN_ARROW;
+const QUIT_KEY = Key.Q;
+
+const SPEEDS = [.5, 1, 2, 4, 8];
+const DEFAULT_SPEED_INDEX = 1;
+
+/**
+ * Caps how long playback waits between actions,
+ * ie while a player was thinking about their move.
+ */
+const MAX_MS_BETWEEN_ACTIONS = 1500;
+
+/** Plays back a recorded match. */
+export class ReplayViewer implements GameModeManager {
+
+    private readonly canvas: HTMLCanvasElement;
+    private readonly context: CanvasRenderingContext2D;
+    private readonly replay: Replay;
+    private readonly onExit: () => void;
+    private readonly controlMap: ControlMap;
+    private readonly buttonPanel: ButtonPanel;
+
+    private gameManager: GameManager;
+    /** Index of the next action in the replay to apply. */
+    private nextActionIndex: number;
+    /** Replay time, in the same units as action timestamps. */
+    private replayTimeMs: number;
+    private isPaused: boolean;
+    private speedIndex: number;
+
+    constructor(
+        canvas: HTMLCanvasElement,
+        context: CanvasRenderingContext2D,
+        params: {
+            replay: Replay;
+            onExit: () => void;
+        }) {
+
+        this.canvas = canvas;
+        this.context = context;
+        this.replay = params.replay;
+        this.onExit = params.onExit;
+        this.controlMap = new ControlMap();
+        this.buttonPanel = new ButtonPanel(context);
+        this.isPaused = false;
+        this.speedIndex = DEFAULT_SPEED_INDEX;
+        this.nextActionIndex = 0;
+        this.initControls();
+        this.seek(0);
+    }
+
+    update(elapsedMs: number): void {
+        this.controlMap.check();
+        this.buttonPanel.mouseMove(CONTROLS.getMouseCanvasCoords());
+        if (CONTROLS.hasClick()) {
+            this.buttonPanel.tryClick(CONTROLS.handleClick());
+        }
+        if (this.isPaused) {
+            return;
+        }
+        const scaledElapsedMs = elapsedMs * SPEEDS[this.speedIndex];
+        this.gameManager.update(scaledElapsedMs);
+        if (this.isAtEnd() || !this.gameManager.isIdle()) {
+            return;
+        }
+        this.replayTimeMs += scaledElapsedMs;
+        const nextTimestampMs =
+            this.replay.actions[this.nextActionIndex].timestampMs;
+        this.replayTimeMs = Math.max(
+            this.replayTimeMs, nextTimestampMs - MAX_MS_BETWEEN_ACTIONS);
+        if (this.replayTimeMs >= nextTimestampMs) {
+            this.applyNextAction();
+        }
+    }
+
+    render(): void {
+        this.gameManager.render();
+        this.buttonPanel.render(this.context);
+    }
+
+    destroy(): void {
+        this.controlMap.clear();
+        this.buttonPanel.clear();
+        this.gameManager.destroy();
+    }
+
+    private applyNextAction(): void {
+        const recordedAction = this.replay.actions[this.nextActionIndex];
+        this.gameManager.onAction(recordedAction.action);
+        this.replayTimeMs =
+            Math.max(this.replayTimeMs, recordedAction.timestampMs);
+        this.nextActionIndex += 1;
+        this.updatePanel();
+    }
+
+    private isAtEnd(): boolean {
+        return this.nextActionIndex >= this.replay.actions.length;
+    }
+
+    /**
+     * Replays the match from the start up to (but excluding) the
+     * action at `actionIndex`, skipping animations.
+     * Works because matches are deterministic given their seed.
+     */
+    private seek(actionIndex: number): void {
+        let camera: Camera | undefined;
+        if (this.gameManager) {
+            camera = this.gameManager.getCamera();
+            this.gameManager.destroy();
+        }
+        this.gameManager = new GameManager(this.canvas, this.context, {
+            gameSettings: this.replay.settings,
+            level: this.replay.level,
+            onExitGameCallback: () => { },
+            isSpectator: true,
+            camera,
+        });
+        this.nextActionIndex = 0;
+        this.replayTimeMs = 0;
+        while (this.nextActionIndex < actionIndex) {
+            this.applyNextAction();
+            this.gameManager.skipAnimations();
+        }
+        this.updatePanel();
+    }
+
+    private stepForward(): void {
+        this.isPaused = true;
+        this.gameManager.skipAnimations();
+        if (!this.isAtEnd()) {
+            this.applyNextAction();
+        }
+    }
+
+    private stepBack(): void {
+        this.isPaused = true;
+        this.seek(Math.max(this.nextActionIndex - 1, 0));
+    }
+
+    private changeSpeed(delta: number): void {
+        this.speedIndex = Math.min(
+            Math.max(this.speedIndex + delta, 0), SPEEDS.length - 1);
+        this.updatePanel();
+    }
+
+    private togglePause(): void {
+        this.isPaused = !this.isPaused;
+        this.updatePanel();
+    }
+
+    private initControls(): void {
+        const buttonInfos: ControlParams[] = [
+            {
+                key: PLAY_PAUSE_KEY,
+                name: 'Play/Pause',
+                func: () => { this.togglePause(); },
+                eventType: EventType.KeyPress,
+            },
+            {
+                key: STEP_FORWARD_KEY,
+                name: 'Step forward',
+                func: () => { this.stepForward(); },
+                eventType: EventType.KeyPress,
+            },
+            {
+                key: STEP_BACK_KEY,
+                name: 'Step back',
+                func: () => { this.stepBack(); },
+                eventType: EventType.KeyPress,
+            },
+            {
+                key: FASTER_KEY,
+                name: 'Faster',
+                func: () => { this.changeSpeed(1); },
+                eventType: EventType.KeyPress,
+            },
+            {
+                key: SLOWER_KEY,
+                name: 'Slower',
+                func: () => { this.changeSpeed(-1); },
+                eventType: EventType.KeyPress,
+            },
+        ];
+        const quitButtonInfo: ControlParams = {
+            key: QUIT_KEY,
+            name: 'Quit',
+            func: this.onExit,
+            eventType: EventType.KeyPress,
+        };
+        for (const buttonInfo of [...buttonInfos, quitButtonInfo]) {
+            this.controlMap.add(buttonInfo);
+        }
+        this.buttonPanel.configurePanel({
+            headerTextLines: ['Replay'],
+            buttonInfos,
+            isButtonGroup: false,
+        });
+        this.buttonPanel.setBottomButtons([quitButtonInfo]);
+        this.updatePanel();
+    }
+
+    private updatePanel(): void {
+        const status = this.isPaused ? 'Paused' : 'Playing';
+        this.buttonPanel.setDescription([
+            `${status} at ${SPEEDS[this.speedIndex]}x speed`,
+            `Action ${this.nextActionIndex} of ` +
+            `${this.replay.actions.length}`,
+        ]);
+    }
+}
@@ -0,0 +1,1178 @@
+import { Point, pointFromSerialized, containsPoint } from 'src/app/math/point';
+import { Grid, bfs, pathTo } from 'src/app/grid';
+import { Level, getLevelGrid } from 'src/app/level';
+import { GameSettings, AiDifficulty, ControllerType, getTeamController } from 'src/app/game_settings';
+import { Ray } from 'src/app/math/collision_detection';
+import { ShotInfo, ProjectileDetailsType, SplashDamage } from 'src/app/shot_info';
+import { Action, ActionType, throwBadAction } from 'src/app/actions';
+import { CharacterSettings, CHARACTER_CLASSES, CharacterAbilityType } from 'src/app/character_settings';
+import { Flag } from 'src/app/game_objects/flag';
+import { Obstacle, ObstacleType } from 'src/app/game_objects/obstacle';
+import { Character, GameDelegate } from 'src/app/game_objects/character';
+import { Spawner } from 'src/app/game_objects/spawner';
+import { Terrain } from 'src/app/game_objects/terrain';
+import { GamePhase, SelectedCharacterState, GameState } from 'src/app/game_state';
+import { getRayForShot, getProjectileTargetsPath } from 'src/app/target_finder';
+import { Target } from 'src/app/math/target';
+import { GameEvent, GameEventType, VictoryType, ShotMissedEvent } from 'src/app/game_events';
+import { LOGGER, LogType } from 'src/app/logger';
+import { Random, simulateProbability } from 'src/app/math/random';
+import { getHitChanceForTarget } from 'src/app/cover';
+import { Visibility } from 'src/app/visibility';
+import { SerializedGameState, serializeGameState, restoreGameState, getCharacterClass } from 'src/app/saved_match';
+import { Objective, createObjective } from 'src/app/objectives';
+
+const ALLOW_ELIMINATION_VICTORY_WITH_SPAWNERS = false;
+
+/**
+ * Applies the rules of the game to a GameState.
+ * Has no dependencies on rendering or the DOM, so matches can be
+ * run headlessly (ie for tests or AI simulations).
+ * Projectiles are resolved immediately; anything animating the game
+ * should use the returned events to present what happened.
+ */
+export class RulesEngine {
+
+    readonly gameState: GameState;
+    private readonly level: Level;
+    private readonly gameDelegate: GameDelegate;
+    /** Rolls whether shots at characters in cover hit. */
+    private readonly random: Random;
+
+    private selectedCharacterSettings: CharacterSettings;
+    private isGameOver: boolean;
+    private winningTeamIndex: number;
+
+    /** Events produced by the action currently being applied. */
+    private events: GameEvent[];
+
+    constructor(params: {
+        settings: GameSettings;
+        level: Level;
+        /**
+         * Defaults to computing aim paths with what the aiming
+         * team can see, so they don't stop on hidden enemies.
+         */
+        gameDelegate?: GameDelegate;
+    }) {
+        this.level = params.level;
+        this.gameState = new GameState(params.settings);
+        this.gameDelegate = params.gameDelegate || {
+            getCurrentAimPath: (aimParams) => {
+                return getProjectileTargetsPath({
+                    grid: this.gameState.grid,
+                    ray: aimParams.ray,
+                    startingTileCoords: aimParams.startingTileCoords,
+                    numRicochets: aimParams.numRicochets,
+                    characters: new Visibility(
+                        this.gameState, aimParams.fromTeamIndex)
+                        .getTargetableCharacters(),
+                    obstacles: this.gameState.obstacles,
+                });
+            },
+            getHitChance: (aimPath) => {
+                return this.getHitChance(aimPath);
+            },
+        };
+        this.random = new Random(params.settings.seed, 'cover');
+        this.isGameOver = false;
+        this.winningTeamIndex = -1;
+        this.selectedCharacterSettings = CHARACTER_CLASSES[0];
+        this.events = [];
+        this.loadLevel();
+    }
+
+    /** Starts the first character placement turn. */
+    start(): GameEvent[] {
+        this.events = [];
+        // 0th team goes first...
+        this.gameState.currentTeamIndex = -1;
+        this.nextTurn();
+        return this.flushEvents();
+    }
+
+    /** Continues a saved match instead of starting a new one. */
+    resume(state: SerializedGameState): GameEvent[] {
+        this.events = [];
+        restoreGameState(this.gameState, state, this.gameDelegate);
+        this.random.setState(state.randomState);
+        this.selectedCharacterSettings =
+            getCharacterClass(state.characterClassType);
+        for (const character of this.gameState.characters) {
+            this.events.push({
+                type: GameEventType.CHARACTER_PLACED,
+                character,
+            });
+        }
+        this.events.push({
+            type: GameEventType.TURN_STARTED,
+            teamIndex: this.gameState.currentTeamIndex,
+            gamePhase: this.gameState.gamePhase,
+        });
+        if (this.gameState.gamePhase === GamePhase.CHARACTER_PLACEMENT) {
+            this.gameState.selectableTiles =
+                this.getAvailableTilesForCharacterPlacement();
+        } else {
+            this.gameState.selectedCharacter = this.gameState.getActiveSquad()
+                .find((character) => {
+                    return character.index === state.selectedCharacterIndex;
+                });
+            this.setSelectedCharacterState(state.selectedCharacterState!);
+        }
+        return this.flushEvents();
+    }
+
+    getSerializedState(): SerializedGameState {
+        return serializeGameState(
+            this.gameState,
+            this.selectedCharacterSettings,
+            this.random.getState());
+    }
+
+    getIsGameOver(): boolean {
+        return this.isGameOver;
+    }
+
+    /** -1 until the game is over. */
+    getWinningTeamIndex(): number {
+        return this.winningTeamIndex;
+    }
+
+    applyAction(action: Action): GameEvent[] {
+        if (this.isGameOver) {
+            throw new Error(`Game is over, can't apply ${action.type}`);
+        }
+        LOGGER.log(LogType.ACTIONS, JSON.stringify(action));
+        this.events = [];
+        const activeSquad = this.gameState.getActiveSquad();
+        switch (action.type) {
+            case ActionType.SHOOT:
+                if (this.gameState.selectedCharacter == null) {
+                    throw new Error(
+                        `Selected character is null on FIRE action`);
+                }
+                const shotInfos = this.gameState.selectedCharacter.shoot();
+                for (const shotInfo of shotInfos) {
+                    this.fireShot(shotInfo);
+                }
+                this.onProjectilesResolved();
+                break;
+            case ActionType.OVERWATCH:
+                if (this.gameState.selectedCharacter == null
+                    || this.gameState.selectedCharacterState
+                    !== SelectedCharacterState.OVERWATCH) {
+                    throw new Error(
+                        `No character aiming overwatch on OVERWATCH action`);
+                }
+                const overwatcher = this.gameState.selectedCharacter;
+                overwatcher.setOverwatch();
+                this.events.push({
+                    type: GameEventType.OVERWATCH_SET,
+                    character: overwatcher,
+                });
+                this.onCharacterTurnOver();
+                break;
+            case ActionType.HEAL:
+                if (this.gameState.selectedCharacter == null) {
+                    throw new Error(
+                        `Selected character is null on HEAL action`);
+                }
+                const healedCharacter = this.gameState.selectedCharacter;
+                healedCharacter.regenHealth(action.healAmount);
+                healedCharacter.useAbility(CharacterAbilityType.HEAL);
+                this.events.push({
+                    type: GameEventType.CHARACTER_HEALED,
+                    character: healedCharacter,
+                    healAmount: action.healAmount,
+                    health: healedCharacter.health,
+                });
+                this.checkCharacterTurnOver();
+                break;
+            case ActionType.END_CHARACTER_TURN:
+                if (this.gameState.selectedCharacter == null) {
+                    throw new Error(
+                        `Selected character is null on ` +
+                        `END_CHARACTER_TURN action`);
+                }
+                this.gameState.selectedCharacter.setTurnOver();
+                this.onCharacterTurnOver();
+                break;
+            case ActionType.AIM:
+                if (this.gameState.selectedCharacter == null) {
+                    throw new Error(
+                        `No selected character when trying to aim`);
+                }
+                this.gameState.selectedCharacter
+                    .setAim(action.aimAngleClockwiseRadians);
+                break;
+            case ActionType.SELECT_TILE:
+                if (!this.gameState.selectableTiles
+                    .find((tile) => tile.equals(action.tile))) {
+                    throw new Error(
+                        `Invalid tile selection: ${action.tile.toString()}`);
+                }
+                if (this.gameState.gamePhase === GamePhase.COMBAT) {
+                    if (this.gameState.selectedCharacter == null) {
+                        throw new Error(
+                            `Selected character is null on ` +
+                            `SELECT_TILE action in combat phase`);
+                    }
+                    this.gameState.selectableTiles = [];
+                    if (this.gameState.selectedCharacterState
+                        === SelectedCharacterState.MOVING) {
+                        this.handleCharacterMovement(action.tile);
+                    } else if (this.gameState.selectedCharacterState
+                        === SelectedCharacterState.THROWING_GRENADE) {
+                        const splashDamage = this.gameState.selectedCharacter
+                            .getGrenadeAbility().splashDamage;
+                        this.gameState.selectedCharacter
+                            .useAbility(CharacterAbilityType.THROW_GRENADE);
+                        this.throwGrenade({
+                            splashDamage,
+                            tile: action.tile,
+                        });
+                        this.onProjectilesResolved();
+                    }
+                } else {
+                    const squadIndex = activeSquad.length;
+                    const placedCharacter = new Character({
+                        startCoords: action.tile,
+                        teamIndex: this.gameState.currentTeamIndex,
+                        index: squadIndex,
+                        settings: this.selectedCharacterSettings,
+                        gameDelegate: this.gameDelegate,
+                    });
+                    this.gameState.characters.push(placedCharacter);
+                    this.events.push({
+                        type: GameEventType.CHARACTER_PLACED,
+                        character: placedCharacter,
+                    });
+                    const teamMaxSquadSize =
+                        this.gameState.settings.teamIndexToSquadSize
+                            .get(this.gameState.currentTeamIndex)!;
+                    if (activeSquad.length + 1 === teamMaxSquadSize) {
+                        // Placed all characters, end turn.
+                        this.nextTurn();
+                    } else {
+                        // Recomputed in case the spawn zone filled up.
+                        this.gameState.selectableTiles =
+                            this.getAvailableTilesForCharacterPlacement();
+                    }
+                }
+                break;
+            case ActionType.SELECT_CHARACTER:
+                const character = activeSquad
+                    .find((character) => {
+                        return character.index === action.characterIndex;
+                    });
+                if (character == null) {
+                    throw new Error(
+                        `Can't find character in SELECT_CHARACTER action. ` +
+                        `cur team index: ${this.gameState.currentTeamIndex}; ` +
+                        ` charIndex: ${action.characterIndex}`);
+                }
+                if (character.isTurnOver() || !character.isAlive()) {
+                    throw new Error(
+                        `Selected character is dead or turn is over.`);
+                }
+                this.gameState.selectedCharacter!.cancelAiming();
+                this.setSelectedCharacter(action.characterIndex);
+                break;
+            case ActionType.SELECT_CHARACTER_STATE:
+                this.setSelectedCharacterState(action.state);
+                break;
+            case ActionType.SELECT_CHARACTER_CLASS:
+                this.selectedCharacterSettings = action.class;
+                break;
+            default:
+                throwBadAction(action);
+        }
+        return this.flushEvents();
+    }
+
+    private flushEvents(): GameEvent[] {
+        const events = this.events;
+        this.events = [];
+        return events;
+    }
+
+    private checkGameOver(): void {
+        const canBeEliminated = (teamIndex: number): boolean => {
+            return ALLOW_ELIMINATION_VICTORY_WITH_SPAWNERS
+                || !this.gameState.spawners
+                    .some((spawner) => spawner.teamIndex === teamIndex);
+        };
+        const aliveCharacters = this.gameState.getAliveCharacters();
+        for (const teamIndex of this.gameState.getRemainingTeamIndices()) {
+            const hasAliveCharacters = aliveCharacters
+                .some((character) => character.teamIndex === teamIndex);
+            if (!hasAliveCharacters && canBeEliminated(teamIndex)) {
+                this.gameState.eliminatedTeamIndices.push(teamIndex);
+                this.events.push({
+                    type: GameEventType.TEAM_ELIMINATED,
+                    teamIndex,
+                });
+            }
+        }
+        const remainingTeamIndices = this.gameState.getRemainingTeamIndices();
+        if (remainingTeamIndices.length > 0
+            && remainingTeamIndices.every((teamIndex) => {
+                return this.gameState
+                    .areAllies(teamIndex, remainingTeamIndices[0]);
+            })) {
+            this.setGameOver(
+                remainingTeamIndices[0], VictoryType.ELIMINATION);
+        } else if (remainingTeamIndices.length === 0) {
+            // Everyone went down at once, the attacker gets the win.
+            this.setGameOver(
+                this.gameState.currentTeamIndex, VictoryType.ELIMINATION);
+        } else {
+            this.checkObjective();
+        }
+    }
+
+    private checkObjective(): void {
+        const result = this.gameState.objective.getResult(this.gameState);
+        if (result != null) {
+            this.setGameOver(result.winningTeamIndex, result.victoryType);
+        }
+    }
+
+    /**
+     * Lets the objective react to what happened, reporting any
+     * progress it made and ending the game if a team has won.
+     */
+    private updateObjective(update: (objective: Objective) => void): void {
+        const objective = this.gameState.objective;
+        const progress = objective.getProgress().join();
+        update(objective);
+        if (objective.getProgress().join() !== progress) {
+            this.events.push({
+                type: GameEventType.OBJECTIVE_PROGRESSED,
+                status: objective.getStatus(this.gameState),
+            });
+        }
+        this.checkObjective();
+    }
+
+    private checkCharacterTurnOver(): void {
+        if (this.gameState.selectedCharacter!.isTurnOver()) {
+            this.onCharacterTurnOver();
+        } else {
+            this.setSelectedCharacterState(
+                SelectedCharacterState.AWAITING);
+        }
+    }
+
+    /**
+     * Checks if there's another squad
+     * member still active, or advances turn if not.
+     */
+    private onCharacterTurnOver(): void {
+        const squad = this.gameState.getActiveSquad();
+        const activeSquadMember = squad.find(
+            (character: Character) => {
+                return !character.isTurnOver() && character.isAlive();
+            });
+        if (activeSquadMember) {
+            this.setSelectedCharacter(activeSquadMember.index);
+        } else {
+            this.nextTurn();
+        }
+    }
+
+    private nextTurn(): void {
+        if (this.gameState.gamePhase === GamePhase.CHARACTER_PLACEMENT) {
+            const nextTeamIndex = this.gameState.currentTeamIndex + 1;
+            if (nextTeamIndex < this.gameState.settings.numTeams) {
+                this.gameState.currentTeamIndex += 1;
+                this.initCharacterPlacementTurn();
+            } else {
+                this.gameState.gamePhase = GamePhase.COMBAT;
+                this.advanceToNextCombatTurn();
+            }
+        } else {
+            const teamIndex = this.gameState.currentTeamIndex;
+            this.updateObjective((objective) => {
+                objective.onTurnEnded(this.gameState, teamIndex);
+            });
+            if (this.isGameOver) {
+                return;
+            }
+            this.advanceToNextCombatTurn();
+        }
+    }
+
+    private initCharacterPlacementTurn(): void {
+        this.gameState.selectableTiles =
+            this.getAvailableTilesForCharacterPlacement();
+        this.events.push({
+            type: GameEventType.TURN_STARTED,
+            teamIndex: this.gameState.currentTeamIndex,
+            gamePhase: GamePhase.CHARACTER_PLACEMENT,
+        });
+    }
+
+    private advanceToNextCombatTurn(): void {
+        const currentTeamIndex = this.gameState.currentTeamIndex;
+        // Spawn at end of turns.
+        for (const spawner of this.gameState.spawners) {
+            if (spawner.teamIndex === currentTeamIndex) {
+                spawner.advanceTurn();
+                const allTeamCharacters = this.gameState.characters
+                    .filter((character) =>
+                        character.teamIndex === currentTeamIndex);
+                const newCharacterIndex = allTeamCharacters.length;
+                if (spawner.checkAndHandleRespawn()) {
+                    const character = new Character({
+                        startCoords: spawner.tileCoords,
+                        teamIndex: currentTeamIndex,
+                        index: newCharacterIndex,
+                        settings: this.selectedCharacterSettings,
+                        gameDelegate: this.gameDelegate,
+                    });
+                    this.gameState.characters.push(character);
+                    this.events.push({
+                        type: GameEventType.CHARACTER_SPAWNED,
+                        character,
+                    });
+                }
+            }
+        }
+
+        do {
+            this.gameState.currentTeamIndex =
+                (this.gameState.currentTeamIndex + 1)
+                % this.gameState.settings.numTeams;
+        } while (this.gameState.isTeamEliminated(
+            this.gameState.currentTeamIndex));
+        const squad = this.gameState.getActiveSquad();
+        if (squad.length === 0) {
+            this.advanceToNextCombatTurn();
+            return;
+        }
+        for (const character of squad) {
+            character.resetTurnState();
+        }
+        this.events.push({
+            type: GameEventType.TURN_STARTED,
+            teamIndex: this.gameState.currentTeamIndex,
+            gamePhase: GamePhase.COMBAT,
+        });
+        this.setSelectedCharacter(
+            this.gameState.getFirstCharacterIndex());
+    }
+
+    private handleCharacterMovement(selectedTile: Point): void {
+        const character = this.gameState.selectedCharacter!;
+        const fromTile = character.tileCoords;
+        const manhattandDistanceAway =
+            fromTile.manhattanDistanceTo(selectedTile);
+        if (manhattandDistanceAway > character.settings.maxMovesPerTurn) {
+            throw new Error(
+                `Invalid character movement location (too far): ` +
+                `start: ${fromTile.toString()}, ` +
+                `end: ${selectedTile.toString()}`);
+        }
+        // The route that made the tile selectable, so overwatch only
+        // reacts to tiles the character actually crosses.
+        const { canGoThrough } = this.getCharacterMovementRules();
+        const path = pathTo({
+            grid: this.gameState.grid,
+            startTile: fromTile,
+            endTile: selectedTile,
+            isAvailable: canGoThrough,
+            canGoThrough: (tile: Point) => {
+                return tile.equals(fromTile) || canGoThrough(tile);
+            },
+            getCost: (tile: Point) => this.gameState.getMovementCost(tile),
+        });
+        // Hidden enemies looked like open tiles, so the character stops
+        // short of the first one in its way, where it can see them.
+        const blockedIndex = path.findIndex((tile) => {
+            return this.isTileOccupiedByOtherCharacter(character, tile)
+                && !this.gameState.isSquadMemberAtTile(tile);
+        });
+        if (blockedIndex !== -1) {
+            path.splice(blockedIndex);
+        }
+        while (path.length
+            && this.gameState.isSquadMemberAtTile(path[path.length - 1])) {
+            path.pop();
+        }
+        const toTile = path.length ? path[path.length - 1] : fromTile;
+        const enemyFlags = this.gameState.getEnemyFlags();
+        const activeTeamFlag = this.gameState.getActiveTeamFlag();
+        const carriedFlag = enemyFlags
+            .find((flag) => flag.tileCoords.equals(fromTile));
+
+        // Walk the path, stopping for any overwatch fire along the way.
+        let legFromTile = fromTile;
+        let legPath: Point[] = [];
+        let hasTriggeredOverwatch = false;
+        for (const tile of path) {
+            legPath.push(tile);
+            if (this.isTileOccupiedByOtherCharacter(character, tile)) {
+                // Passing through a squad member.
+                continue;
+            }
+            const overwatchers =
+                this.gameState.getOverwatchersReactingTo(character, tile);
+            if (overwatchers.length === 0) {
+                continue;
+            }
+            this.events.push({
+                type: GameEventType.CHARACTER_MOVED,
+                character,
+                fromTile: legFromTile,
+                path: legPath,
+                carriedFlag,
+            });
+            character.tileCoords = tile;
+            if (carriedFlag != null) {
+                carriedFlag.tileCoords = tile;
+            }
+            for (const overwatcher of overwatchers) {
+                if (character.isAlive()) {
+                    this.fireOverwatch(overwatcher, character);
+                }
+            }
+            hasTriggeredOverwatch = true;
+            legFromTile = tile;
+            legPath = [];
+            if (!character.isAlive()) {
+                break;
+            }
+        }
+        const stopTile = character.isAlive() ? toTile : legFromTile;
+        character.tileCoords = fromTile;
+        character.moveTo(stopTile);
+        if (carriedFlag != null) {
+            carriedFlag.tileCoords = stopTile;
+        }
+        if (legPath.length > 0) {
+            this.events.push({
+                type: GameEventType.CHARACTER_MOVED,
+                character,
+                fromTile: legFromTile,
+                path: legPath,
+                carriedFlag,
+            });
+        }
+        if (!character.isAlive()) {
+            character.setTurnOver();
+            this.onProjectilesResolved();
+            return;
+        }
+        const takenFlag = carriedFlag == null
+            ? enemyFlags.find((flag) => flag.tileCoords.equals(toTile))
+            : undefined;
+        if (takenFlag != null) {
+            this.events.push({
+                type: GameEventType.FLAG_TAKEN,
+                flag: takenFlag,
+                character,
+            });
+        }
+        if (!activeTeamFlag.isAtStart()
+            && activeTeamFlag.tileCoords.equals(toTile)) {
+            activeTeamFlag.returnToStart();
+            this.events.push({
+                type: GameEventType.FLAG_RETURNED,
+                flag: activeTeamFlag,
+                character,
+            });
+        }
+        const capturedFlag = activeTeamFlag.isAtStart()
+            ? enemyFlags.find((flag) => {
+                return flag.tileCoords.equals(activeTeamFlag.tileCoords);
+            })
+            : undefined;
+        if (capturedFlag != null) {
+            this.updateObjective((objective) => {
+                objective.onFlagCaptured(this.gameState.currentTeamIndex);
+            });
+            if (this.isGameOver) {
+                return;
+            }
+            capturedFlag.returnToStart();
+            this.events.push({
+                type: GameEventType.FLAG_CAPTURED,
+                flag: capturedFlag,
+                character,
+            });
+        }
+        // Ie the VIP reached the exit.
+        this.checkObjective();
+        if (this.isGameOver) {
+            return;
+        }
+        if (hasTriggeredOverwatch) {
+            // Reaction fire may have hit others, ie with splash damage.
+            this.onProjectilesResolved();
+        } else {
+            this.checkCharacterTurnOver();
+        }
+    }
+
+    private isTileOccupiedByOtherCharacter(
+        character: Character, tile: Point): boolean {
+        return this.gameState.getAliveCharacters().some((other) => {
+            return other !== character && other.tileCoords.equals(tile);
+        });
+    }
+
+    /** Reaction shot at an enemy that walked into the overwatch cone. */
+    private fireOverwatch(overwatcher: Character, target: Character): void {
+        this.events.push({
+            type: GameEventType.OVERWATCH_TRIGGERED,
+            character: overwatcher,
+            target,
+        });
+        const fromCanvas = Grid.getCanvasFromTileCoords(
+            overwatcher.tileCoords).add(Grid.HALF_TILE);
+        const targetCanvas = Grid.getCanvasFromTileCoords(
+            target.tileCoords).add(Grid.HALF_TILE);
+        const aimAngle = targetCanvas.subtract(fromCanvas)
+            .normalize().getPointRotationRadians();
+        for (const shotInfo of overwatcher.takeOverwatchShot(aimAngle)) {
+            this.fireShot(shotInfo);
+        }
+    }
+
+    private setGameOver(
+        winningTeamIndex: number, victoryType: VictoryType): void {
+        this.isGameOver = true;
+        this.winningTeamIndex = winningTeamIndex;
+        this.gameState.selectableTiles = [];
+        const winningTeamIndices: number[] = [];
+        for (let i = 0; i < this.gameState.settings.numTeams; i++) {
+            if (this.gameState.areAllies(i, winningTeamIndex)) {
+                winningTeamIndices.push(i);
+            }
+        }
+        this.events.push({
+            type: GameEventType.GAME_OVER,
+            winningTeamIndex,
+            winningTeamIndices,
+            victoryType,
+        });
+    }
+
+    private fireShot(shotInfo: ShotInfo): void {
+        const ray = getRayForShot(shotInfo);
+        const numRicochets =
+            shotInfo.projectileDetails.type === ProjectileDetailsType.BULLET
+                ? shotInfo.projectileDetails.numRicochets
+                : 0;
+        const targetableCharacters =
+            this.gameState.getTargetableCharacters(shotInfo.fromTeamIndex);
+        const misses: ShotMissedEvent[] = [];
+        const getTargets = () => {
+            return getProjectileTargetsPath({
+                grid: this.gameState.grid,
+                ray,
+                startingTileCoords: shotInfo.fromTileCoords,
+                numRicochets,
+                characters: targetableCharacters.filter((character) => {
+                    return !misses.some((miss) => miss.character === character);
+                }),
+                obstacles: this.gameState.obstacles,
+            });
+        };
+        let targets = getTargets();
+        let targetCharacter = this.getTargetCharacter(targets);
+        // Missed shots fly past the character, maybe into someone else.
+        while (targetCharacter != null) {
+            const hitChance = this.getHitChance(targets);
+            if (hitChance >= 1
+                || simulateProbability(hitChance, this.random)) {
+                break;
+            }
+            misses.push({
+                type: GameEventType.SHOT_MISSED,
+                character: targetCharacter,
+                hitChance,
+            });
+            targets = getTargets();
+            targetCharacter = this.getTargetCharacter(targets);
+        }
+        LOGGER.log(
+            LogType.TARGET_FINDING,
+            `Targets: ${JSON.stringify(targets)}`);
+        this.resolveProjectile({
+            fromTeamIndex: shotInfo.fromTeamIndex,
+            projectileDetails: shotInfo.projectileDetails,
+            targets,
+            misses,
+        });
+    }
+
+    /** Character a path of projectile targets stops on, if any. */
+    private getTargetCharacter(targets: Target[]): Character | undefined {
+        const finalTarget = targets[targets.length - 1];
+        if (finalTarget.isTargetGridBorder) {
+            return undefined;
+        }
+        return this.gameState.getAliveCharacters().find((character) => {
+            return character.tileCoords.equals(finalTarget.tile);
+        });
+    }
+
+    private getHitChance(targets: Target[]): number {
+        if (this.getTargetCharacter(targets) == null) {
+            return 1;
+        }
+        return getHitChanceForTarget(
+            targets[targets.length - 1], this.gameState.obstacles);
+    }
+
+    private throwGrenade(details: {
+        tile: Point;
+        splashDamage: SplashDamage
+    }): void {
+        const fromTile = this.gameState.selectedCharacter!.tileCoords;
+        const fromCanvasCoords =
+            Grid.getCanvasFromTileCoords(fromTile).add(Grid.HALF_TILE);
+        const targetTile = details.tile;
+        const targetCanvasCoords =
+            Grid.getCanvasFromTileCoords(targetTile).add(Grid.HALF_TILE);
+        const direction =
+            targetCanvasCoords.subtract(fromCanvasCoords).normalize();
+        const ray = new Ray(fromCanvasCoords, direction);
+        const target: Target = {
+            canvasCoords: targetCanvasCoords,
+            ray,
+            tile: targetTile,
+            maxDistance: targetCanvasCoords.distanceTo(fromCanvasCoords),
+        };
+        this.resolveProjectile({
+            fromTeamIndex: this.gameState.selectedCharacter!.teamIndex,
+            projectileDetails: details.splashDamage,
+            targets: [target],
+        });
+    }
+
+    /**
+     * Applies the damage of a projectile reaching its final target.
+     * Projectiles are resolved in the order they're fired, so later
+     * projectiles won't stop on characters killed by earlier ones.
+     */
+    private resolveProjectile(params: {
+        fromTeamIndex: number;
+        projectileDetails: ShotInfo['projectileDetails'];
+        targets: Target[];
+        /** Characters in cover the projectile passed on its way. */
+        misses?: ShotMissedEvent[];
+    }): void {
+        const { projectileDetails, targets } = params;
+        const finalTarget = targets[targets.length - 1];
+        const impacts: GameEvent[] = [...(params.misses || [])];
+        if (projectileDetails.type === ProjectileDetailsType.SPLASH) {
+            const hitTiles = bfs({
+                grid: this.gameState.grid,
+                startTile: finalTarget.tile,
+                maxDepth: projectileDetails.damageManhattanDistanceRadius,
+                isAvailable: (tile: Point) => {
+                    return true;
+                },
+                canGoThrough: (tile: Point) => {
+                    return true;
+                },
+            });
+            const hittableCharacters =
+                this.gameState.getTargetableCharacters(params.fromTeamIndex);
+            for (const hitTile of hitTiles) {
+                const targetCharacter = hittableCharacters
+                    .find((character) => character.tileCoords.equals(hitTile));
+                if (targetCharacter) {
+                    const manhattanDistance = targetCharacter.tileCoords
+                        .manhattanDistanceTo(finalTarget.tile);
+                    const damageReduction =
+                        Math.pow(
+                            projectileDetails.tilesAwayDamageReduction,
+                            manhattanDistance);
+                    const damage = projectileDetails.damage * damageReduction;
+                    this.dealDamage(targetCharacter, damage, impacts);
+                }
+                const obstacle = this.getObstacleAtTile(hitTile);
+                if (obstacle != null && obstacle.isDestructible()) {
+                    const damageReduction =
+                        Math.pow(
+                            projectileDetails.tilesAwayDamageReduction,
+                            hitTile.manhattanDistanceTo(finalTarget.tile));
+                    this.dealObstacleDamage(
+                        obstacle,
+                        projectileDetails.damage * damageReduction,
+                        impacts);
+                }
+            }
+        } else {
+            const targetCharacter = this.gameState.getAliveCharacters()
+                .find((character) => {
+                    return character.tileCoords.equals(finalTarget.tile);
+                });
+            if (targetCharacter
+                // Avoid edge case ;) where bullet hits wall and
+                // not actually the character at the tile specified
+                && !finalTarget.isTargetGridBorder) {
+
+                // Target finding only stops on targetable characters.
+                this.dealDamage(
+                    targetCharacter, projectileDetails.damage, impacts);
+            }
+            const obstacle = this.getObstacleAtTile(finalTarget.tile);
+            if (obstacle != null
+                && obstacle.isDestructible()
+                && projectileDetails.obstacleDamage != null
+                && !finalTarget.isTargetGridBorder) {
+                this.dealObstacleDamage(
+                    obstacle, projectileDetails.obstacleDamage, impacts);
+            }
+        }
+        this.events.push({
+            type: GameEventType.PROJECTILE_FIRED,
+            fromTeamIndex: params.fromTeamIndex,
+            projectileDetails,
+            targets,
+            impacts,
+        });
+    }
+
+    private dealDamage(
+        character: Character, damage: number, impacts: GameEvent[]): void {
+        character.health -= damage;
+        impacts.push({
+            type: GameEventType.DAMAGE_DEALT,
+            character,
+            damage,
+            health: character.health,
+        });
+        if (!character.isAlive()) {
+            impacts.push({
+                type: GameEventType.CHARACTER_KILLED,
+                character,
+            });
+        }
+    }
+
+    private getObstacleAtTile(tile: Point): Obstacle | undefined {
+        return this.gameState.obstacles
+            .find((obstacle) => obstacle.tileCoords.equals(tile));
+    }
+
+    /** Destroyed obstacles are removed, freeing up their tile. */
+    private dealObstacleDamage(
+        obstacle: Obstacle, damage: number, impacts: GameEvent[]): void {
+        obstacle.health! -= damage;
+        impacts.push({
+            type: GameEventType.OBSTACLE_DAMAGED,
+            obstacle,
+            damage,
+            health: obstacle.health!,
+        });
+        if (obstacle.isDestroyed()) {
+            this.gameState.obstacles = this.gameState.obstacles
+                .filter((other) => other !== obstacle);
+            impacts.push({
+                type: GameEventType.OBSTACLE_DESTROYED,
+                obstacle,
+            });
+        }
+    }
+
+    private onProjectilesResolved(): void {
+        this.checkGameOver();
+        if (this.isGameOver) {
+            return;
+        }
+        if (this.gameState.isTeamEliminated(
+            this.gameState.currentTeamIndex)) {
+            // Took themselves out, eg with their own grenade.
+            this.nextTurn();
+        } else {
+            this.checkCharacterTurnOver();
+        }
+    }
+
+    /**
+     * Open tiles in the team's spawn zone, or near its flag if the level
+     * doesn't give it one or it's full.
+     */
+    private getAvailableTilesForCharacterPlacement(): Point[] {
+        const flagCoords =
+            this.gameState.getActiveTeamFlag().tileCoords;
+        const spawnZone = (this.level.data.spawnZones || [])[
+            this.gameState.currentTeamIndex] || [];
+        const openZoneTiles = spawnZone
+            .map(pointFromSerialized)
+            .filter((tile) => !this.gameState.isTileOccupied(tile));
+        if (openZoneTiles.length) {
+            return openZoneTiles;
+        }
+        const maxDistFromFlag =
+            this.gameState.settings.maxSpawnDistanceFromFlag;
+        const availableTiles = bfs({
+            grid: this.gameState.grid,
+            startTile: flagCoords,
+            maxDepth: maxDistFromFlag,
+            isAvailable: (tile: Point): boolean => {
+                return !this.gameState.isTileOccupied(tile)
+                    && !tile.equals(flagCoords);
+            },
+            canGoThrough: (tile: Point): boolean => {
+                // Can go through other players, just not obstacles.
+                return !this.gameState.tileHasObstacle(tile);
+            },
+        });
+        return availableTiles;
+    }
+
+    private getAvailableTilesForCharacterMovement(): Point[] {
+        if (this.gameState.selectedCharacter == null) {
+            throw new Error(
+                `No character selected in `
+                + `getAvailableTilesForCharacterMovement`);
+        }
+        const { isAvailable, canGoThrough } =
+            this.getCharacterMovementRules();
+        const availableTiles = bfs({
+            grid: this.gameState.grid,
+            startTile: this.gameState.selectedCharacter.tileCoords,
+            maxDepth: this.gameState.selectedCharacter.settings.maxMovesPerTurn,
+            isAvailable,
+            canGoThrough,
+            getCost: (tile: Point) => this.gameState.getMovementCost(tile),
+        });
+        return availableTiles;
+    }
+
+    /**
+     * Where the selected character can stop, and what it can cross,
+     * as far as its team can tell. See handleCharacterMovement for
+     * running into hidden enemies.
+     */
+    private getCharacterMovementRules(): {
+        isAvailable: (tile: Point) => boolean;
+        canGoThrough: (tile: Point) => boolean;
+    } {
+        const ownFlag = this.gameState.getActiveTeamFlag();
+        const ownFlagCoords = ownFlag.tileCoords;
+        const currentCoords = this.gameState.selectedCharacter!.tileCoords;
+        const visibility =
+            new Visibility(this.gameState, this.gameState.currentTeamIndex);
+        const isAvailable = (tile: Point): boolean => {
+            if (!visibility.isTileOccupied(tile)) {
+                if (this.gameState.getEnemyFlags().some((flag) => {
+                    return flag.tileCoords.equals(currentCoords);
+                })) {
+                    return true;
+                }
+                if (ownFlag.isAtStart() && tile.equals(ownFlagCoords)) {
+                    return false;
+                }
+                return true;
+            }
+            return false;
+        };
+        const canGoThrough = (tile: Point): boolean => {
+            // Characters can go through tiles occupied by squad members.
+            // but they can't stop there.
+            return isAvailable(tile)
+                || this.gameState.isSquadMemberAtTile(tile);
+        };
+        return { isAvailable, canGoThrough };
+    }
+
+    private getAvailableTilesForThrowingGrenade(): Point[] {
+        if (this.gameState.selectedCharacter == null) {
+            throw new Error(
+                `No character selected in ` +
+                `getAvailableTilesForThrowingGrenade`);
+        }
+        const currentCoords = this.gameState.selectedCharacter.tileCoords;
+        const maxDist = this.gameState.selectedCharacter.
+            getGrenadeAbility().maxManhattanDistance;
+        const isAvailable = (tile: Point): boolean => {
+            return !this.gameState.tileHasObstacle(tile)
+                && !tile.equals(currentCoords)
+                && !this.gameState.isSquadMemberAtTile(tile);
+        };
+        const canGoThrough = (tile: Point): boolean => {
+            // Grenades can go over any tile.
+            return this.gameState.grid.inbounds(tile);
+        };
+        const availableTiles = bfs({
+            grid: this.gameState.grid,
+            startTile: currentCoords,
+            maxDepth: maxDist,
+            isAvailable,
+            canGoThrough,
+        });
+        return availableTiles;
+    }
+
+    private setSelectedCharacter(index: number): void {
+        const character = this.gameState.getActiveSquad()
+            .find((character) => character.index === index)!;
+        if (character.isTurnOver()) {
+            throw new Error(`Unit ${index + 1}'s turn is over.`);
+        }
+        this.gameState.selectedCharacter = character;
+        this.setSelectedCharacterState(
+            SelectedCharacterState.AWAITING);
+    }
+
+    private setSelectedCharacterState(state: SelectedCharacterState) {
+        if (this.gameState.selectedCharacter == null) {
+            throw new Error(
+                `There needs to be a selected character ` +
+                `before calling setSelectedCharacterState`);
+        }
+        this.gameState.selectedCharacterState = state;
+
+        switch (state) {
+            case SelectedCharacterState.AWAITING:
+                this.gameState.selectableTiles = [];
+                this.gameState.selectedCharacter.cancelAiming();
+                break;
+            case SelectedCharacterState.MOVING:
+                this.gameState.selectableTiles =
+                    this.getAvailableTilesForCharacterMovement();
+                break;
+            case SelectedCharacterState.AIMING:
+                this.gameState.selectedCharacter.startAiming();
+                break;
+            case SelectedCharacterState.THROWING_GRENADE:
+                this.gameState.selectableTiles =
+                    this.getAvailableTilesForThrowingGrenade();
+                break;
+            case SelectedCharacterState.OVERWATCH:
+                this.gameState.selectedCharacter.startAimingOverwatch();
+                break;
+            default:
+                throw new Error(`Unknown selected character state`);
+        }
+        this.events.push({
+            type: GameEventType.CHARACTER_STATE_CHANGED,
+            character: this.gameState.selectedCharacter,
+            state,
+        });
+    }
+
+    private loadLevel(): void {
+        const level = this.level;
+        const numTeams = this.gameState.settings.numTeams;
+        this.gameState.grid = getLevelGrid(level.data);
+        this.gameState.objective = createObjective(
+            this.gameState.settings.objective || level.data.objective,
+            numTeams);
+        if (level.data.flags.length < numTeams) {
+            throw new Error(
+                `Level ${level.name} only has flags for ` +
+                `${level.data.flags.length} teams, not ${numTeams}`);
+        }
+        this.gameState.flags = level.data.flags.slice(0, numTeams)
+            .map((serializedPt, teamIndex) => {
+                return new Flag({
+                    tileCoords: pointFromSerialized(serializedPt),
+                    teamIndex,
+                });
+            });
+        const halfCovers = level.data.halfCovers || [];
+        const destructibles = (level.data.destructibles || [])
+            .map((serializedPt) => pointFromSerialized(serializedPt));
+        const createObstacle =
+            (serializedPt: { x: number; y: number }, type: ObstacleType) => {
+                const tileCoords = pointFromSerialized(serializedPt);
+                return new Obstacle(
+                    tileCoords,
+                    type,
+                    containsPoint(tileCoords, destructibles));
+            };
+        this.gameState.obstacles =
+            level.data.obstacles.map((serializedPt) => {
+                return createObstacle(serializedPt, ObstacleType.WALL);
+            }).concat(halfCovers.map((serializedPt) => {
+                return createObstacle(serializedPt, ObstacleType.HALF_COVER);
+            }));
+        this.gameState.terrain = (level.data.terrain || [])
+            .map((serializedTerrain) => {
+                return new Terrain(
+                    pointFromSerialized(serializedTerrain),
+                    serializedTerrain.type);
+            });
+        this.gameState.spawners = [];
+        const levelSpawners = (level.data.spawners || [])
+            .filter((spawner) => {
+                return spawner.teamIndex < this.gameState.settings.numTeams;
+            });
+        if (this.gameState.settings.hasSpawners && levelSpawners.length) {
+            for (const spawner of levelSpawners) {
+                this.gameState.spawners.push(new Spawner({
+                    tileCoords: pointFromSerialized(spawner),
+                    teamIndex: spawner.teamIndex,
+                    turnsBetweenSpawns: spawner.turnsBetweenSpawns,
+                }));
+            }
+        } else if (this.gameState.settings.hasSpawners) {
+            const aiDifficultyToSpawnDelays = new Map([
+                [AiDifficulty.WEAK, 8],
+                [AiDifficulty.MEDIUM, 6],
+                [AiDifficulty.STRONG, 5],
+            ]);
+            const settings = this.gameState.settings;
+            const teamIndex = this.getSpawnerTeamIndex();
+            const controller = getTeamController(settings, teamIndex);
+            const aiDifficulty = controller.type === ControllerType.AI
+                ? controller.aiDifficulty
+                : settings.aiDifficulty;
+            const params = {
+                tileCoords: this.getSpawnerTile(teamIndex),
+                teamIndex,
+                turnsBetweenSpawns:
+                    aiDifficultyToSpawnDelays.get(aiDifficulty)!,
+            };
+            this.gameState.spawners.push(new Spawner(params));
+        }
+    }
+
+    /** The first AI team gets the spawner, or the second team if none. */
+    private getSpawnerTeamIndex(): number {
+        const settings = this.gameState.settings;
+        for (let i = 0; i < settings.numTeams; i++) {
+            if (getTeamController(settings, i).type === ControllerType.AI) {
+                return i;
+            }
+        }
+        return 1;
+    }
+
+    /**
+     * Levels place the spawner for the second team,
+     * other teams get the closest open tile to their flag.
+     */
+    private getSpawnerTile(teamIndex: number): Point {
+        if (teamIndex === 1) {
+            return pointFromSerialized(this.level.aiSpawner);
+        }
+        const flagCoords = this.gameState.flags[teamIndex].tileCoords;
+        const isObstacleFree = (tile: Point): boolean => {
+            return !this.gameState.tileHasObstacle(tile);
+        };
+        const spawnerTile = bfs({
+            grid: this.gameState.grid,
+            startTile: flagCoords,
+            maxDepth: this.gameState.settings.maxSpawnDistanceFromFlag,
+            isAvailable: (tile: Point) => {
+                return isObstacleFree(tile) && !this.gameState.flags
+                    .some((flag) => flag.tileCoords.equals(tile));
+            },
+            canGoThrough: isObstacleFree,
+        })[0];
+        if (spawnerTile == null) {
+            throw new Error(`No room for a spawner near ${flagCoords.toString()}`);
+        }
+        return spawnerTile;
+    }
+}
@@ -0,0 +1,287 @@
+import { Replay, SerializedReplay, serializeReplay, deserializeReplay } from 'src/app/replay';
+import { GameState, GamePhase, SelectedCharacterState } from 'src/app/game_state';
+import { Character, GameDelegate } from 'src/app/game_objects/character';
+import { CHARACTER_CLASSES, CharacterAbilityType, CharacterAbilityState, CharacterSettings, ClassType } from 'src/app/character_settings';
+import { pointFromSerialized } from 'src/app/math/point';
+import { Obstacle, ObstacleType } from 'src/app/game_objects/obstacle';
+import { Ghost } from 'src/app/last_known_positions';
+
+/** Bump when the serialized format changes, old saves are discarded. */
+const SAVED_MATCH_VERSION = 7;
+
+const savedMatchStorageKey = 'SnagTheFlag_SavedMatch' as const;
+
+interface SerializedCharacter {
+    readonly teamIndex: number;
+    readonly index: number;
+    readonly classType: ClassType;
+    readonly health: number;
+    readonly tile: { x: number; y: number };
+    readonly hasMoved: boolean;
+    readonly hasShot: boolean;
+    readonly isFinishedWithTurn: boolean;
+    readonly aimAngleRadiansClockwise: number;
+    readonly overwatchAngleRadiansClockwise?: number;
+    readonly extraAbilities: CharacterAbilityType[];
+    readonly abilityStates:
+    Array<[CharacterAbilityType, CharacterAbilityState]>;
+}
+
+interface SerializedObstacle {
+    readonly tile: { x: number; y: number };
+    readonly type: ObstacleType;
+    /** Unset for obstacles that can't be destroyed. */
+    readonly health?: number;
+}
+
+/** A Ghost, with its character as its team and index. */
+interface SerializedGhost {
+    readonly teamIndex: number;
+    readonly index: number;
+    readonly tile: { x: number; y: number };
+}
+
+/** Snapshot of a GameState that can be stored as JSON. */
+export interface SerializedGameState {
+    readonly gamePhase: GamePhase;
+    readonly currentTeamIndex: number;
+    /** Class of the next character placed. */
+    readonly characterClassType: ClassType;
+    /** Includes dead characters, as squad indices count them. */
+    readonly characters: SerializedCharacter[];
+    /** Destructible obstacles may have been damaged or destroyed. */
+    readonly obstacles: SerializedObstacle[];
+    /** Current tile of each team's flag, ordered like GameState.flags. */
+    readonly flagTiles: Array<{ x: number; y: number }>;
+    /** Ordered like GameState.spawners. */
+    readonly spawnerTurnsSinceLastSpawn: number[];
+    readonly eliminatedTeamIndices: number[];
+    /** Captures, turns holding the hill and so on. */
+    readonly objectiveProgress: number[];
+    readonly selectedCharacterIndex?: number;
+    readonly selectedCharacterState?: SelectedCharacterState;
+    /** Where the RulesEngine's dice left off, so resumed rolls match. */
+    readonly randomState: number;
+    /**
+     * Where each AI's dice left off, by team. Only set in saved matches,
+     * by GameManager, as AIs aren't part of the rules.
+     */
+    readonly aiRandomStates?: Array<[number, number]>;
+    /** Where each team last saw enemies, by team. Also set by GameManager. */
+    readonly teamGhosts?: Array<[number, SerializedGhost[]]>;
+}
+
+/** An unfinished match that can be continued later. */
+export interface SavedMatch {
+    /** Everything played so far, so the replay stays complete. */
+    readonly replay: Replay;
+    readonly gameTimeMs: number;
+    readonly state: SerializedGameState;
+    /** Set if the match is a campaign level. */
+    readonly campaignLevelIndex?: number;
+}
+
+interface SerializedSavedMatch {
+    readonly version: number;
+    readonly replay: SerializedReplay;
+    readonly gameTimeMs: number;
+    readonly state: SerializedGameState;
+    readonly campaignLevelIndex?: number;
+}
+
+export function saveMatch(savedMatch: SavedMatch): void {
+    const serialized: SerializedSavedMatch = {
+        version: SAVED_MATCH_VERSION,
+        replay: serializeReplay(savedMatch.replay),
+        gameTimeMs: savedMatch.gameTimeMs,
+        state: savedMatch.state,
+        campaignLevelIndex: savedMatch.campaignLevelIndex,
+    };
+    window.localStorage.setItem(
+        savedMatchStorageKey, JSON.stringify(serialized));
+}
+
+/**
+ * Returns null if there's no saved match. Saves from
+ * other versions can't be continued and are discarded.
+ */
+export function loadSavedMatch(): SavedMatch | null {
+    const storedValue = window.localStorage.getItem(savedMatchStorageKey);
+    if (storedValue == null) {
+        return null;
+    }
+    try {
+        const serialized = JSON.parse(storedValue) as SerializedSavedMatch;
+        if (serialized.version !== SAVED_MATCH_VERSION) {
+            throw new Error(
+                `Unsupported saved match version: ${serialized.version}`);
+        }
+        return {
+            replay: deserializeReplay(serialized.replay),
+            gameTimeMs: serialized.gameTimeMs,
+            state: serialized.state,
+            campaignLevelIndex: serialized.campaignLevelIndex,
+        };
+    } catch (e) {
+        clearSavedMatch();
+        return null;
+    }
+}
+
+export function clearSavedMatch(): void {
+    window.localStorage.removeItem(savedMatchStorageKey);
+}
+
+export function serializeGameState(
+    gameState: GameState,
+    characterSettings: CharacterSettings,
+    randomState: number): SerializedGameState {
+
+    const selectedCharacter = gameState.selectedCharacter;
+    return {
+        gamePhase: gameState.gamePhase,
+        currentTeamIndex: gameState.currentTeamIndex,
+        characterClassType: characterSettings.type,
+        characters: gameState.characters.map(serializeCharacter),
+        obstacles: gameState.obstacles.map(serializeObstacle),
+        flagTiles: gameState.flags.map((flag) => {
+            return { x: flag.tileCoords.x, y: flag.tileCoords.y };
+        }),
+        spawnerTurnsSinceLastSpawn: gameState.spawners
+            .map((spawner) => spawner.turnsSinceLastSpawn),
+        eliminatedTeamIndices: [...gameState.eliminatedTeamIndices],
+        objectiveProgress: gameState.objective.getProgress(),
+        selectedCharacterIndex:
+            selectedCharacter ? selectedCharacter.index : undefined,
+        selectedCharacterState: gameState.selectedCharacterState,
+        randomState,
+    };
+}
+
+/**
+ * Applies a snapshot on top of a GameState with its level loaded.
+ * Selection and selectable tiles are left for the caller to restore.
+ */
+export function restoreGameState(
+    gameState: GameState,
+    serialized: SerializedGameState,
+    gameDelegate: GameDelegate): void {
+
+    gameState.gamePhase = serialized.gamePhase;
+    gameState.currentTeamIndex = serialized.currentTeamIndex;
+    for (let i = 0; i < gameState.flags.length; i++) {
+        gameState.flags[i].tileCoords =
+            pointFromSerialized(serialized.flagTiles[i]);
+    }
+    for (let i = 0; i < gameState.spawners.length; i++) {
+        gameState.spawners[i].turnsSinceLastSpawn =
+            serialized.spawnerTurnsSinceLastSpawn[i];
+    }
+    gameState.eliminatedTeamIndices = [...serialized.eliminatedTeamIndices];
+    gameState.objective.setProgress(serialized.objectiveProgress);
+    gameState.obstacles = serialized.obstacles.map(deserializeObstacle);
+    gameState.characters = serialized.characters
+        .map((character) => deserializeCharacter(character, gameDelegate));
+}
+
+export function serializeGhosts(ghosts: Ghost[]): SerializedGhost[] {
+    return ghosts.map(({ character, tile }) => {
+        return {
+            teamIndex: character.teamIndex,
+            index: character.index,
+            tile: { x: tile.x, y: tile.y },
+        };
+    });
+}
+
+/** Ghosts of characters no longer in the GameState are dropped. */
+export function deserializeGhosts(
+    serialized: SerializedGhost[], gameState: GameState): Ghost[] {
+
+    const ghosts: Ghost[] = [];
+    for (const { teamIndex, index, tile } of serialized) {
+        const character = gameState.characters.find((character) => {
+            return character.teamIndex === teamIndex
+                && character.index === index;
+        });
+        if (character != null) {
+            ghosts.push({ character, tile: pointFromSerialized(tile) });
+        }
+    }
+    return ghosts;
+}
+
+export function getCharacterClass(classType: ClassType): CharacterSettings {
+    const characterClass = CHARACTER_CLASSES
+        .find((settings) => settings.type === classType);
+    if (characterClass == null) {
+        throw new Error(`Unknown character class: ${classType}`);
+    }
+    return characterClass;
+}
+
+function serializeCharacter(character: Character): SerializedCharacter {
+    return {
+        teamIndex: character.teamIndex,
+        index: character.index,
+        classType: character.settings.type,
+        health: character.health,
+        tile: { x: character.tileCoords.x, y: character.tileCoords.y },
+        hasMoved: character.hasMoved,
+        hasShot: character.hasShot,
+        isFinishedWithTurn: character.isFinishedWithTurn,
+        aimAngleRadiansClockwise: character.getAim(),
+        overwatchAngleRadiansClockwise:
+            character.overwatchAngleRadiansClockwise,
+        extraAbilities: character.extraAbilities
+            .map((ability) => ability.abilityType),
+        abilityStates:
+            [...character.characterAbilityTypeToAbilityState.entries()],
+    };
+}
+
+function deserializeCharacter(
+    serialized: SerializedCharacter,
+    gameDelegate: GameDelegate): Character {
+
+    const settings = getCharacterClass(serialized.classType);
+    const character = new Character({
+        startCoords: pointFromSerialized(serialized.tile),
+        teamIndex: serialized.teamIndex,
+        index: serialized.index,
+        settings,
+        gameDelegate,
+    });
+    character.health = serialized.health;
+    character.hasMoved = serialized.hasMoved;
+    character.hasShot = serialized.hasShot;
+    character.isFinishedWithTurn = serialized.isFinishedWithTurn;
+    character.setAim(serialized.aimAngleRadiansClockwise);
+    character.overwatchAngleRadiansClockwise =
+        serialized.overwatchAngleRadiansClockwise;
+    character.extraAbilities = [...settings.extraActions]
+        .filter((ability) => {
+            return serialized.extraAbilities
+                .indexOf(ability.abilityType) !== -1;
+        });
+    character.characterAbilityTypeToAbilityState =
+        new Map(serialized.abilityStates);
+    return character;
+}
+
+function serializeObstacle(obstacle: Obstacle): SerializedObstacle {
+    return {
+        tile: { x: obstacle.tileCoords.x, y: obstacle.tileCoords.y },
+        type: obstacle.type,
+        health: obstacle.health,
+    };
+}
+
+function deserializeObstacle(serialized: SerializedObstacle): Obstacle {
+    const obstacle = new Obstacle(
+        pointFromSerialized(serialized.tile),
+        serialized.type,
+        serialized.health != null);
+    obstacle.health = serialized.health;
+    return obstacle;
+}
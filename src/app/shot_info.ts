@@ -33,6 +33,8 @@ interface BaseProjectileDetails {
 export interface Bullet extends BaseProjectileDetails {
     readonly type: ProjectileDetailsType.BULLET;
     readonly damage: number;
+    /** Unset if the bullet can't wear down destructible obstacles. */
+    readonly obstacleDamage?: number;
 }
 
 export interface SplashDamage extends BaseProjectileDetails {
@@ -71,10 +73,29 @@ export interface Gun {
 }
 
 export interface ShotInfo {
-    // TODO friendly fire?
     readonly fromTeamIndex: number;
     readonly fromCanvasCoords: Point;
     readonly fromTileCoords: Point;
     readonly aimAngleRadiansClockwise: number;
     readonly projectileDetails: ProjectileDetails;
-}
\ No newline at end of file
+}
+
+/**
+ * Aim of each projectile the gun fires, the straight shot first and
+ * then alternating sides of it for sprays.
+ */
+export function getSprayAimAngles(
+    gun: Gun, aimAngleRadiansClockwise: number): number[] {
+
+    const aimAngles = [aimAngleRadiansClockwise];
+    if (gun.spray) {
+        const spray = gun.spray;
+        while (aimAngles.length < spray.projectiles) {
+            const offsetDirection = aimAngles.length % 2 === 0 ? 1 : -1;
+            aimAngles.push(
+                aimAngleRadiansClockwise
+                + spray.offsetAngleRadians * offsetDirection);
+        }
+    }
+    return aimAngles;
+}
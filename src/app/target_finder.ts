@@ -24,30 +24,34 @@ export function getRayForShot2(
             Math.sin(aimAngleRadiansClockwise)));
 }
 
+/**
+ * Projectiles stop on any of the given characters,
+ * so only pass in the ones that shots can hit.
+ */
 export function getProjectileTargetsPath(params: {
+    grid: Grid;
     ray: Ray;
     startingTileCoords: Point;
-    fromTeamIndex: number;
     numRicochets: number;
     characters: Character[];
     obstacles: Obstacle[];
 }): Target[] {
-    const { ray,
-        fromTeamIndex,
+    const { grid,
+        ray,
         startingTileCoords,
         numRicochets,
-        characters,
         obstacles } = params;
+    // Shooters can't hit themselves on a ricochet.
+    const characters = params.characters.filter((character) => {
+        return !character.tileCoords.equals(startingTileCoords);
+    });
     const targets: Target[] = [];
     let pathsLeft = numRicochets + 1;
     let currentTileCoords = startingTileCoords;
     let currentRay = ray;
     let hasHitCharacter = false;
-    const isTargetEnemyCharacter = (target: Target) => {
+    const isTargetCharacter = (target: Target) => {
         return characters
-            .filter((character) => {
-                return character.teamIndex !== params.fromTeamIndex;
-            })
             .find((character) => {
                 return character.tileCoords.equals(target.tile);
             }) != null;
@@ -55,14 +59,14 @@ export function getProjectileTargetsPath(params: {
 
     while (pathsLeft > 0 && !hasHitCharacter) {
         const target = getProjectileTarget({
+            grid,
             ray: currentRay,
             startTile: currentTileCoords,
-            fromTeamIndex,
             obstacles,
             characters,
         });
         targets.push(target);
-        hasHitCharacter = isTargetEnemyCharacter(target);
+        hasHitCharacter = isTargetCharacter(target);
         pathsLeft -= 1;
         const newDirection = currentRay.direction
             .reflect(target.normal!);
@@ -79,32 +83,37 @@ export function getProjectileTargetsPath(params: {
     return targets;
 }
 
+/**
+ * Stops on any of the given characters.
+ * Projectiles pass over half cover.
+ */
 export function getProjectileTarget(params: {
+    grid: Grid;
     ray: Ray;
     startTile: Point;
     obstacles: Obstacle[];
     characters: Character[];
-    fromTeamIndex: number;
 }): Target {
-    const { ray, fromTeamIndex, startTile } = params;
-    const gridBorderTarget: Target = getGridBorderTarget(ray);
+    const { grid, ray, startTile } = params;
+    const gridBorderTarget: Target = getGridBorderTarget(grid, ray);
     const tileTarget = getTileTarget({
+        grid,
         startTile,
         ray,
-        obstacles: params.obstacles,
+        obstacles: params.obstacles
+            .filter((obstacle) => obstacle.blocksProjectiles()),
         characters: params.characters,
         maxDistance: ray.startPt.distanceTo(gridBorderTarget.canvasCoords),
-        fromTeamIndex,
     });
     const target = tileTarget != null ? tileTarget : gridBorderTarget;
     return target;
 }
 
-function getGridBorderTarget(ray: Ray): Target {
+function getGridBorderTarget(grid: Grid, ray: Ray): Target {
     // Find which game border the ray intersects.
     const topLeftCanvas = new Point(0, 0);
-    const topRightCanvas = topLeftCanvas.add(new Point(Grid.GAME_WIDTH, 0));
-    const bottomLeftCanvas = topLeftCanvas.add(new Point(0, Grid.GAME_HEIGHT));
+    const topRightCanvas = topLeftCanvas.add(new Point(grid.width, 0));
+    const bottomLeftCanvas = topLeftCanvas.add(new Point(0, grid.height));
     const bottomRightCanvas = topRightCanvas.add(bottomLeftCanvas);
     const leftBorderSegment =
         new LineSegment(topLeftCanvas, bottomLeftCanvas, new Point(1, 0));
@@ -197,12 +206,12 @@ export function mapTilePathToTargetsPath(
 /** Assumes only alive characters are passed in. */
 function getTileTarget(
     params: {
+        grid: Grid;
         startTile: Point;
         ray: Ray;
         obstacles: Obstacle[];
         characters: Character[];
         maxDistance: number;
-        fromTeamIndex: number;
     }): Target | null {
 
     const stepSize = 3 * Grid.TILE_SIZE / 4;
@@ -223,7 +232,7 @@ function getTileTarget(
             params.ray.pointAtDistance(curDistance));
         const tilesToCheck =
             [curTile]
-                .concat(Grid.getAdjacentTiles(curTile))
+                .concat(params.grid.getAdjacentTiles(curTile))
                 .filter((tile: Point) => !checkedTilesStringSet.has(tile.toString()));
 
         for (const tile of tilesToCheck) {
@@ -260,10 +269,6 @@ function getTileTarget(
                     throw new Error(
                         `Tile is occupied but no obstacle or character...`);
                 }
-                if (character.teamIndex === params.fromTeamIndex) {
-                    // TODO - allow friendly fire?
-                    continue;
-                }
                 // Approximate with bounding box for now.
                 for (const edge of character.getEdges()) {
                     const collisionResult =
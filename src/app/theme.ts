@@ -1,3 +1,11 @@
+export interface TeamColors {
+    readonly flagColor: string;
+    /** Color for squad members when they can move/take action. */
+    readonly characterReadyColor: string;
+    /** Color for squad members when their turn is done. */
+    readonly characterDoneColor: string;
+}
+
 /** All values expected to be CSS color strings. */
 export interface Theme {
     /* Gameplay/level creation colors. */
@@ -9,28 +17,37 @@ export interface Theme {
 
     readonly isUsingTextures: boolean;
     readonly obstacleColor: string;
+    readonly halfCoverColor: string;
+    /** Outline and cracks of obstacles that can be destroyed. */
+    readonly destructibleObstacleColor: string;
+    readonly mudColor: string;
+    readonly waterColor: string;
+    readonly tallGrassColor: string;
+    readonly highGroundColor: string;
+    /** Grass blades and ridges drawn over terrain. */
+    readonly terrainDetailColor: string;
     readonly flagPoleColor: string;
-    readonly redFlagColor: string;
-    readonly blueFlagColor: string;
-
-    /** Color for red squad members when they can move/take action. */
-    readonly redCharacterReadyColor: string;
-    /** Color for blue squad members when they can move/take action. */
-    readonly blueCharacterReadyColor: string;
-    /** Color for red squad members when their turn is done. */
-    readonly redCharacterDoneColor: string;
-    /** Color for blue squad members when their turn is done. */
-    readonly blueCharacterDoneColor: string;
+    /** Indexed by team index. */
+    readonly teamColors: TeamColors[];
 
     readonly selectedCharacterOutlineColor: string;
     readonly availableForMovementColor: string;
     readonly emptyCellHoverColor: string;
 
     readonly aimIndicatorColor: string;
+    readonly overwatchConeColor: string;
     readonly projectileTrailColor: string;
     readonly remainingHealthBarColor: string;
     readonly lostHealthBarColor: string;
 
+    /** Objective tiles, ie the hill, and the character to escort. */
+    readonly objectiveZoneColor: string;
+    readonly vipOutlineColor: string;
+
+    /** Level creator's analysis overlay. */
+    readonly chokePointColor: string;
+    readonly exposedTileColor: string;
+
     /** Button panel colors (in-game sidebar) */
     readonly buttonPanelBgColor: string;
     readonly buttonPanelButtonColor: string;
@@ -55,24 +72,57 @@ export const THEME: Theme = {
 
     isUsingTextures: false,
     obstacleColor: '#4c6e47',
+    halfCoverColor: '#7f9c72',
+    destructibleObstacleColor: '#2e2a24',
+    mudColor: '#8a6f4d',
+    waterColor: '#5b8fb0',
+    tallGrassColor: '#8fb36a',
+    highGroundColor: '#b5ab96',
+    terrainDetailColor: '#3f4f30',
     flagPoleColor: '#7a5f3e',
-    redFlagColor: '#e34055',
-    blueFlagColor: '#3d7cd4',
-
-    redCharacterReadyColor: '#e34055',
-    blueCharacterReadyColor: '#3d7cd4',
-    redCharacterDoneColor: '#b05662',
-    blueCharacterDoneColor: '#547199',
+    teamColors: [
+        // Blue.
+        {
+            flagColor: '#3d7cd4',
+            characterReadyColor: '#3d7cd4',
+            characterDoneColor: '#547199',
+        },
+        // Red.
+        {
+            flagColor: '#e34055',
+            characterReadyColor: '#e34055',
+            characterDoneColor: '#b05662',
+        },
+        // Yellow.
+        {
+            flagColor: '#f2d13a',
+            characterReadyColor: '#f2d13a',
+            characterDoneColor: '#b8a660',
+        },
+        // Purple.
+        {
+            flagColor: '#9b4fd1',
+            characterReadyColor: '#9b4fd1',
+            characterDoneColor: '#7f6796',
+        },
+    ],
 
     selectedCharacterOutlineColor: '#000000',
     availableForMovementColor: '#b8b6a589',
     emptyCellHoverColor: '#d9d7bfa9',
 
     aimIndicatorColor: '#d90228bb',
+    overwatchConeColor: '#d9022833',
     projectileTrailColor: '#e8e1d8',
     remainingHealthBarColor: '#00FF00',
     lostHealthBarColor: '#FF0000',
 
+    objectiveZoneColor: '#f7c25e66',
+    vipOutlineColor: '#f7c25e',
+
+    chokePointColor: '#ff8c00aa',
+    exposedTileColor: '#d90228',
+
     buttonPanelBgColor: '#474747',
     buttonPanelButtonColor: '#427cad',
     buttonPanelButtonHoverColor: '#6392ba',
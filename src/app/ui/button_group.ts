@@ -54,6 +54,7 @@ export class ButtonGroup implements Element {
             button.setIsSelected(false);
         }
         this.buttons[index].setIsSelected(true);
+        this.currentlySelectedIndex = index;
     }
 
     readonly render = (context: CanvasRenderingContext2D) => {
@@ -0,0 +1,134 @@
+import { Point } from 'src/app/math/point';
+import { Grid } from 'src/app/grid';
+import { Character } from 'src/app/game_objects/character';
+import { GameState } from 'src/app/game_state';
+import { GameEvent, GameEventType, throwBadEvent } from 'src/app/game_events';
+import { Flag } from 'src/app/game_objects/flag';
+
+/**
+ * What a team is allowed to know of the game state. Anything shown to
+ * a player, or decided by an AI, should be queried through this so that
+ * hidden enemies can't be inferred, eg from the aim preview stopping on
+ * them. Everything is visible when fog of war is off.
+ */
+export class Visibility {
+    readonly teamIndex: number;
+    private readonly gameState: GameState;
+
+    constructor(gameState: GameState, teamIndex: number) {
+        this.gameState = gameState;
+        this.teamIndex = teamIndex;
+    }
+
+    isTileVisible(tile: Point): boolean {
+        if (!this.gameState.isFogOfWarOn()) {
+            return true;
+        }
+        return this.gameState.isTileVisibleByTeamIndex(tile, this.teamIndex);
+    }
+
+    /** @param tile defaults to the character's tile, set while animating. */
+    isCharacterVisible(
+        character: Character,
+        tile: Point = character.tileCoords): boolean {
+
+        if (!this.gameState.isFogOfWarOn()) {
+            return true;
+        }
+        return this.gameState.isCharacterVisibleByTeamIndex(
+            character, this.teamIndex, tile);
+    }
+
+    /** Where the character is drawn, partway along any move. */
+    isAnimatingCharacterVisible(character: Character): boolean {
+        return this.isCharacterVisible(
+            character,
+            Grid.getTileFromCanvasCoords(
+                character.animationState.currentCenterCanvas));
+    }
+
+    /**
+     * Whether the team can be told of the event, ie in the HUD or with
+     * particles. Events about characters are only shown while they can
+     * be seen.
+     */
+    isEventVisible(event: GameEvent): boolean {
+        switch (event.type) {
+            case GameEventType.CHARACTER_PLACED:
+            case GameEventType.CHARACTER_SPAWNED:
+            case GameEventType.CHARACTER_STATE_CHANGED:
+            case GameEventType.CHARACTER_HEALED:
+            case GameEventType.OVERWATCH_SET:
+            case GameEventType.SHOT_MISSED:
+            case GameEventType.DAMAGE_DEALT:
+            case GameEventType.CHARACTER_KILLED:
+            case GameEventType.FLAG_TAKEN:
+            case GameEventType.FLAG_RETURNED:
+                return this.isAnimatingCharacterVisible(event.character);
+            case GameEventType.CHARACTER_MOVED:
+                const character = event.character;
+                return [event.fromTile, ...event.path].some((tile) => {
+                    return this.isCharacterVisible(character, tile);
+                });
+            case GameEventType.OVERWATCH_TRIGGERED:
+                return this.isAnimatingCharacterVisible(event.character)
+                    || this.isAnimatingCharacterVisible(event.target);
+            case GameEventType.PROJECTILE_FIRED:
+                // Projectiles are only drawn over visible tiles.
+                return event.fromTeamIndex === this.teamIndex
+                    || event.targets.some((target) => {
+                        return this.isTileVisible(Grid.getTileFromCanvasCoords(
+                            target.canvasCoords));
+                    });
+            case GameEventType.OBSTACLE_DAMAGED:
+            case GameEventType.OBSTACLE_DESTROYED:
+                return this.isTileVisible(event.obstacle.tileCoords);
+            case GameEventType.TURN_STARTED:
+            case GameEventType.OBJECTIVE_PROGRESSED:
+            case GameEventType.TEAM_ELIMINATED:
+            case GameEventType.GAME_OVER:
+                return true;
+            case GameEventType.FLAG_CAPTURED:
+                // Captures count towards the objective, which all teams
+                // are shown.
+                return true;
+            default:
+                return throwBadEvent(event);
+        }
+    }
+
+    /**
+     * Whether the flag can be drawn where it's shown. Not while a hidden
+     * enemy is on it or carrying it, as it'd give them away.
+     */
+    isFlagVisible(flag: Flag): boolean {
+        const carrier = this.gameState.getAliveCharacters()
+            .find((character) => character.tileCoords.equals(flag.tileCoords));
+        return carrier == null || this.isAnimatingCharacterVisible(carrier);
+    }
+
+    /**
+     * Like GameState.isTileOccupied, except hidden enemies' tiles look
+     * open, or they'd show up as gaps in the tiles to move to.
+     */
+    isTileOccupied(tile: Point): boolean {
+        return this.gameState.tileHasObstacle(tile)
+            || this.gameState.spawners
+                .some((spawner) => spawner.tileCoords.equals(tile))
+            || this.gameState.getAliveCharacters().some((character) => {
+                return character.tileCoords.equals(tile)
+                    && this.isCharacterVisible(character);
+            });
+    }
+
+    getVisibleTiles(): Point[] {
+        return this.gameState.grid.getTiles()
+            .filter((tile) => this.isTileVisible(tile));
+    }
+
+    /** Characters the team's shots could hit, as far as it can tell. */
+    getTargetableCharacters(): Character[] {
+        return this.gameState.getTargetableCharacters(this.teamIndex)
+            .filter((character) => this.isCharacterVisible(character));
+    }
+}
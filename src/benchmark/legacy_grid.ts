@@ -0,0 +1,148 @@
+import { Point } from 'src/app/math/point';
+import { Grid } from 'src/app/grid';
+
+/**
+ * bfs and pathTo as they were before being indexed by tile, kept to
+ * benchmark and check the current versions against.
+ */
+
+interface QueuedTile {
+    depth: number;
+    coords: Point;
+}
+
+/**
+ * Queues tiles in order of depth, after any queued at the
+ * same depth, so equal costs are explored breadth first.
+ */
+function enqueueByDepth<T extends { depth: number }>(
+    queue: T[], queuedTile: T): void {
+    let index = queue.length;
+    while (index > 0 && queue[index - 1].depth > queuedTile.depth) {
+        index--;
+    }
+    queue.splice(index, 0, queuedTile);
+}
+
+/**
+ * Tiles reachable from the start within `maxDepth`. With `getCost`,
+ * depth is the total cost of the tiles moved into instead of steps.
+ */
+export function legacyBfs(params: {
+    grid: Grid;
+    startTile: Point;
+    maxDepth: number;
+    isAvailable: (tile: Point) => boolean;
+    canGoThrough: (tile: Point) => boolean;
+    /** Cost of moving into the tile, 1 if unset. */
+    getCost?: (tile: Point) => number;
+}): Point[] {
+
+    const { startTile, maxDepth, isAvailable, canGoThrough } = params;
+    const getCost = params.getCost || (() => 1);
+    const availableTiles: Map<string, Point> = new Map();
+    const expandedTiles: Set<string> = new Set();
+    const queue: QueuedTile[] = [];
+    for (const tile of params.grid.getAdjacentTiles(startTile)) {
+        enqueueByDepth(queue, { depth: getCost(tile), coords: tile });
+    }
+    enqueueByDepth(queue, { depth: 1, coords: startTile });
+    while (queue.length) {
+        const queuedTile = queue.shift()!;
+        const tileString = queuedTile.coords.toString();
+        if (queuedTile.depth > maxDepth
+            || expandedTiles.has(tileString)
+            || !canGoThrough(queuedTile.coords)) {
+            continue;
+        }
+        // Shallowest depth is dequeued first.
+        expandedTiles.add(tileString);
+        if (isAvailable(queuedTile.coords)) {
+            availableTiles.set(tileString, queuedTile.coords);
+        }
+        for (const adjacentTile of params.grid.getAdjacentTiles(queuedTile.coords)) {
+            if (expandedTiles.has(adjacentTile.toString())) continue;
+            enqueueByDepth(queue, {
+                depth: queuedTile.depth + getCost(adjacentTile),
+                coords: adjacentTile,
+            });
+        }
+    }
+
+    return [...availableTiles.values()];
+}
+
+interface PathedTile {
+    parent: Point;
+    coords: Point;
+    /** Total cost of the path to the tile. */
+    depth: number;
+}
+
+/**
+ * Cheapest path from the start to the end tile, excluding the start.
+ * Every tile costs 1 to move into unless `getCost` is given.
+ */
+export function legacyPathTo(params: {
+    grid: Grid;
+    startTile: Point;
+    endTile: Point;
+    isAvailable: (tile: Point) => boolean;
+    canGoThrough: (tile: Point) => boolean;
+    /** Cost of moving into the tile, 1 if unset. */
+    getCost?: (tile: Point) => number;
+}): Point[] {
+
+    const { startTile, endTile, isAvailable, canGoThrough } = params;
+    const getCost = params.getCost || (() => 1);
+    const pathedTiles: Map<string, PathedTile> = new Map();
+    const tileToQueuedDepth: Map<string, number> = new Map();
+    const queue: PathedTile[] = [{
+        parent: startTile,
+        coords: startTile,
+        depth: 0,
+    }];
+    let hasFoundEnd = false;
+    while (queue.length > 0) {
+        const queuedTile = queue.shift()!;
+        const tileString = queuedTile.coords.toString();
+        if (pathedTiles.has(tileString) || !canGoThrough(queuedTile.coords)) {
+            continue;
+        }
+        pathedTiles.set(tileString, queuedTile);
+        if (queuedTile.coords.equals(endTile)) {
+            hasFoundEnd = true;
+            break;
+        }
+        for (const adjacentTile of params.grid.getAdjacentTiles(queuedTile.coords)) {
+            const adjacentTileString = adjacentTile.toString();
+            if (pathedTiles.has(adjacentTileString)
+                || !isAvailable(adjacentTile)) {
+                continue;
+            }
+            const depth = queuedTile.depth + getCost(adjacentTile);
+            const queuedDepth = tileToQueuedDepth.get(adjacentTileString);
+            if (queuedDepth != null && queuedDepth <= depth) {
+                continue;
+            }
+            tileToQueuedDepth.set(adjacentTileString, depth);
+            enqueueByDepth(queue, {
+                parent: queuedTile.coords,
+                coords: adjacentTile,
+                depth,
+            });
+        }
+    }
+    if (!hasFoundEnd) {
+        throw new Error(
+            `No path from ${startTile.toString()} to ${endTile.toString()}`);
+    }
+
+    const path: Point[] = [];
+    let current = pathedTiles.get(endTile.toString())!;
+    while (!current.coords.equals(startTile)) {
+        path.push(current.coords);
+        current = pathedTiles.get(current.parent.toString())!;
+    }
+    return path.reverse();
+}
@@ -0,0 +1,141 @@
+/// <reference types="node" />
+import { Point } from 'src/app/math/point';
+import { Grid, bfs, pathTo } from 'src/app/grid';
+import { LEVELS, Level, getLevelGrid } from 'src/app/level';
+import { Terrain } from 'src/app/game_objects/terrain';
+import { legacyBfs, legacyPathTo } from 'src/benchmark/legacy_grid';
+
+/** Moves of the most mobile character class. */
+const MAX_MOVES = 6;
+/** Paths searched per level, between evenly spread open tiles. */
+const NUM_PATHS = 200;
+
+interface SearchParams {
+    grid: Grid;
+    isAvailable: (tile: Point) => boolean;
+    canGoThrough: (tile: Point) => boolean;
+    getCost: (tile: Point) => number;
+}
+
+/** Movement on the level, like GameState.getPath and bfs for moving. */
+function getSearchParams(level: Level): SearchParams {
+    const blockedTiles = new Set(
+        level.data.obstacles.concat(level.data.halfCovers || [])
+            .map((tile) => new Point(tile.x, tile.y).toString()));
+    const tileToCost: Map<string, number> = new Map();
+    for (const serializedTerrain of level.data.terrain || []) {
+        const tile = new Point(serializedTerrain.x, serializedTerrain.y);
+        tileToCost.set(
+            tile.toString(),
+            new Terrain(tile, serializedTerrain.type).getMovementCost());
+    }
+    const isObstacleFree = (tile: Point): boolean => {
+        return !blockedTiles.has(tile.toString());
+    };
+    return {
+        grid: getLevelGrid(level.data),
+        isAvailable: isObstacleFree,
+        canGoThrough: isObstacleFree,
+        getCost: (tile: Point) => tileToCost.get(tile.toString()) || 1,
+    };
+}
+
+function getOpenTiles(searchParams: SearchParams): Point[] {
+    return searchParams.grid.getTiles()
+        .filter((tile) => searchParams.isAvailable(tile));
+}
+
+/** Null if the end is walled off. */
+function tryPathTo(search: () => Point[]): Point[] | null {
+    try {
+        return search();
+    } catch (e) {
+        return null;
+    }
+}
+
+/** -1 for no path. */
+function getPathCost(
+    path: Point[] | null, searchParams: SearchParams): number {
+    if (path == null) {
+        return -1;
+    }
+    return path.reduce((cost, tile) => cost + searchParams.getCost(tile), 0);
+}
+
+/** Milliseconds to run the search once from every start. */
+function time<T>(starts: T[], search: (start: T) => void): number {
+    const startMs = Date.now();
+    for (const start of starts) {
+        search(start);
+    }
+    return Date.now() - startMs;
+}
+
+function toSortedStrings(tiles: Point[]): string {
+    return tiles.map((tile) => tile.toString()).sort().join();
+}
+
+/** Compares the indexed searches to the legacy ones on every level. */
+function runBenchmark(): void {
+    let totalLegacyMs = 0;
+    let totalMs = 0;
+    for (const level of LEVELS) {
+        const searchParams = getSearchParams(level);
+        const openTiles = getOpenTiles(searchParams);
+        const pathEnds: Array<[Point, Point]> = [];
+        for (let i = 0; i < NUM_PATHS; i++) {
+            pathEnds.push([
+                openTiles[i % openTiles.length],
+                openTiles[(i * 7919) % openTiles.length],
+            ]);
+        }
+        const searchFrom = (startTile: Point) => {
+            return { ...searchParams, startTile, maxDepth: MAX_MOVES };
+        };
+        const searchBetween = ([startTile, endTile]: [Point, Point]) => {
+            return { ...searchParams, startTile, endTile };
+        };
+
+        for (const startTile of openTiles) {
+            if (toSortedStrings(bfs(searchFrom(startTile)))
+                !== toSortedStrings(legacyBfs(searchFrom(startTile)))) {
+                throw new Error(
+                    `${level.name}: bfs differs from ${startTile.toString()}`);
+            }
+        }
+        for (const ends of pathEnds) {
+            const cost = getPathCost(
+                tryPathTo(() => pathTo(searchBetween(ends))), searchParams);
+            const legacyCost = getPathCost(
+                tryPathTo(() => legacyPathTo(searchBetween(ends))),
+                searchParams);
+            if (cost !== legacyCost) {
+                throw new Error(
+                    `${level.name}: path costs differ between ` +
+                    `${ends[0].toString()} and ${ends[1].toString()}`);
+            }
+        }
+
+        const legacyMs =
+            time(openTiles, (start) => legacyBfs(searchFrom(start)))
+            + time(pathEnds, (ends) => {
+                tryPathTo(() => legacyPathTo(searchBetween(ends)));
+            });
+        const ms =
+            time(openTiles, (start) => bfs(searchFrom(start)))
+            + time(pathEnds, (ends) => {
+                tryPathTo(() => pathTo(searchBetween(ends)));
+            });
+        totalLegacyMs += legacyMs;
+        totalMs += ms;
+        console.log(
+            `${level.name}: ${legacyMs}ms -> ${ms}ms ` +
+            `(${openTiles.length} bfs, ${pathEnds.length} paths)`);
+    }
+    console.log(
+        `All levels: ${totalLegacyMs}ms -> ${totalMs}ms ` +
+        `(${(totalLegacyMs / Math.max(totalMs, 1)).toFixed(1)}x)`);
+}
+
+runBenchmark();
@@ -3,11 +3,18 @@ import { CONTROLS } from 'src/app/controls';
 import { GameModeManager } from 'src/app/game_mode_manager';
 import { GameManager } from 'src/app/game_manager';
 import { LevelCreator } from 'src/app/level_creator';
-import { GameSettings } from 'src/app/game_settings';
+import { GameSettings, MatchType } from 'src/app/game_settings';
 import { CAMPAIGN_LEVELS, tryUnlockingAndSavingProgress } from 'src/app/campaign_level';
 import { FreePlayMenu } from 'src/app/menus/free_play_menu';
 import { CampaignMenu } from 'src/app/menus/campaign_menu';
 import { StartMenu } from 'src/app/menus/start_menu';
+import { ReplayViewer } from 'src/app/replay_viewer';
+import { Replay } from 'src/app/replay';
+import { SavedMatch } from 'src/app/saved_match';
+import { OnlineLobbyMenu } from 'src/app/menus/online_lobby_menu';
+import { OnlineMatch } from 'src/app/online/relay_connection';
+import { Level, LEVELS } from 'src/app/level';
+import { LibraryLevel } from 'src/app/level_library';
 import * as styles from 'src/assets/css/styles.css';
 
 enum GameState {
@@ -16,6 +23,8 @@ enum GameState {
   CAMPAIGN_MENU,
   GAME,
   LEVEL_CREATOR,
+  REPLAY,
+  ONLINE_LOBBY,
 }
 
 export class Main {
@@ -72,13 +81,24 @@ export class Main {
           this.tearDownCurrentGameState();
           this.initLevelCreator();
         },
+        onWatchReplay: (replay: Replay) => {
+          this.tearDownCurrentGameState();
+          this.initReplayViewer(replay);
+        },
+        onContinue: (savedMatch: SavedMatch) => {
+          this.tearDownCurrentGameState();
+          this.continueSavedMatch(savedMatch);
+        },
       });
   }
 
   private initGame(
-    levelIndex: number,
+    level: Level,
     gameSettings: GameSettings,
-    onExitGameCallback: (winningTeamIndex: number) => void): void {
+    onExitGameCallback: (winningTeamIndex: number) => void,
+    campaignLevelIndex?: number,
+    savedMatch?: SavedMatch,
+    online?: OnlineMatch): void {
 
     this.gameState = GameState.GAME;
     this.gameStateManager = new GameManager(
@@ -86,16 +106,47 @@ export class Main {
       this.context,
       {
         gameSettings,
-        levelIndex,
+        level,
         onExitGameCallback,
+        campaignLevelIndex,
+        savedMatch,
+        online,
       });
   }
 
+  private continueSavedMatch(savedMatch: SavedMatch): void {
+    const { level, settings } = savedMatch.replay;
+    const campaignLevelIndex = savedMatch.campaignLevelIndex;
+    if (campaignLevelIndex != null) {
+      this.initGame(
+        level,
+        settings,
+        this.getOnExitCampaignLevel(campaignLevelIndex),
+        campaignLevelIndex,
+        savedMatch);
+    } else {
+      this.initGame(
+        level, settings, this.onExitFreePlayLevel, undefined, savedMatch);
+    }
+  }
+
   private initFreePlayMenu(): void {
     this.gameState = GameState.FREE_PLAY_MENU;
     this.gameStateManager = new FreePlayMenu(this.canvas, this.context, {
       onSelectLevel: this.onSelectFreePlayLevel,
       onBack: this.onBack,
+      onJoinOnline: () => {
+        this.tearDownCurrentGameState();
+        this.initOnlineLobby();
+      },
+      onEditLevel: (libraryLevel: LibraryLevel) => {
+        this.tearDownCurrentGameState();
+        this.initLevelCreator(libraryLevel);
+      },
+      onEditRandomLevel: (level: Level) => {
+        this.tearDownCurrentGameState();
+        this.initLevelCreator(/* libraryLevel= */ undefined, level);
+      },
     });
   }
 
@@ -107,14 +158,83 @@ export class Main {
     });
   }
 
-  private initLevelCreator(): void {
+  /**
+   * Levels being edited go back to free play, where they're listed.
+   * @param level to start from if it isn't in the library, ie a random map.
+   */
+  private initLevelCreator(libraryLevel?: LibraryLevel, level?: Level): void {
     this.gameState = GameState.LEVEL_CREATOR;
-    this.gameStateManager = new LevelCreator(
+    const levelCreator = new LevelCreator(
       this.canvas,
       this.context,
-      () => {
-        this.tearDownCurrentGameState();
-        this.initStartMenu();
+      {
+        onExitGameCallback: () => {
+          this.tearDownCurrentGameState();
+          if (libraryLevel != null || level != null) {
+            this.initFreePlayMenu();
+          } else {
+            this.initStartMenu();
+          }
+        },
+        // The level creator is kept as it was to go back to after.
+        onPlaytest: (playtestLevel: Level, gameSettings: GameSettings) => {
+          this.tearDownCurrentGameState();
+          this.gameState = GameState.GAME;
+          this.gameStateManager = new GameManager(
+            this.canvas,
+            this.context,
+            {
+              gameSettings,
+              level: playtestLevel,
+              onExitGameCallback: () => {
+                this.tearDownCurrentGameState();
+                this.gameState = GameState.LEVEL_CREATOR;
+                levelCreator.resume();
+                this.gameStateManager = levelCreator;
+              },
+              isPlaytest: true,
+            });
+        },
+        libraryLevel,
+        level,
+      });
+    this.gameStateManager = levelCreator;
+  }
+
+  private initReplayViewer(replay: Replay): void {
+    this.gameState = GameState.REPLAY;
+    this.gameStateManager = new ReplayViewer(
+      this.canvas,
+      this.context,
+      {
+        replay,
+        onExit: this.onBack,
+      });
+  }
+
+  /** Hosts a lobby if the match is given, otherwise joins one. */
+  private initOnlineLobby(
+    hostedMatch?: { levelIndex: number; settings: GameSettings }): void {
+    this.gameState = GameState.ONLINE_LOBBY;
+    this.gameStateManager = new OnlineLobbyMenu(
+      this.canvas,
+      this.context,
+      {
+        hostedMatch,
+        onMatchStarted: (online: OnlineMatch) => {
+          this.tearDownCurrentGameState();
+          this.initGame(
+            LEVELS[online.levelIndex],
+            online.settings,
+            this.onExitFreePlayLevel,
+            undefined,
+            undefined,
+            online);
+        },
+        onBack: () => {
+          this.tearDownCurrentGameState();
+          this.initFreePlayMenu();
+        },
       });
   }
 
@@ -122,27 +242,47 @@ export class Main {
     this.gameStateManager.destroy();
   }
 
+  /** Online matches can only be on built in levels. */
   private readonly onSelectFreePlayLevel =
-    (levelIndex: number, gameSettings: GameSettings) => {
-      this.initGame(levelIndex, gameSettings, (winningTeamIndex: number) => {
+    (level: Level, gameSettings: GameSettings) => {
+      if (gameSettings.matchType === MatchType.PLAYER_VS_PLAYER_ONLINE) {
         this.tearDownCurrentGameState();
-        this.initFreePlayMenu();
-      });
+        this.initOnlineLobby({
+          levelIndex: LEVELS.indexOf(level),
+          settings: gameSettings,
+        });
+        return;
+      }
+      this.initGame(level, gameSettings, this.onExitFreePlayLevel);
     };
 
+  private readonly onExitFreePlayLevel = (winningTeamIndex: number) => {
+    this.tearDownCurrentGameState();
+    this.initFreePlayMenu();
+  };
+
   private readonly onSelectCampaignLevel =
     (campaignLevelIndex: number,
       levelIndex: number,
       gameSettings: GameSettings) => {
-      this.initGame(levelIndex, gameSettings, (winningTeamIndex: number) => {
-        if (winningTeamIndex === 0) {
-          tryUnlockingAndSavingProgress(campaignLevelIndex + 1)
-        }
-        this.tearDownCurrentGameState();
-        this.initCampaignMenu();
-      });
+      this.initGame(
+        LEVELS[levelIndex],
+        gameSettings,
+        this.getOnExitCampaignLevel(campaignLevelIndex),
+        campaignLevelIndex);
     };
 
+  private getOnExitCampaignLevel(
+    campaignLevelIndex: number): (winningTeamIndex: number) => void {
+    return (winningTeamIndex: number) => {
+      if (winningTeamIndex === 0) {
+        tryUnlockingAndSavingProgress(campaignLevelIndex + 1)
+      }
+      this.tearDownCurrentGameState();
+      this.initCampaignMenu();
+    };
+  }
+
   private readonly onBack = () => {
     this.tearDownCurrentGameState();
     this.initStartMenu();
@@ -0,0 +1,7 @@
+/// <reference types="node" />
+import { RelayServer } from 'src/server/relay_server';
+import { RELAY_SERVER_PORT } from 'src/app/online/protocol';
+
+const port = Number(process.env.PORT) || RELAY_SERVER_PORT;
+new RelayServer({ port });
+console.log(`Relay server listening on port ${port}`);
@@ -0,0 +1,468 @@
+/// <reference types="node" />
+import * as WebSocket from 'ws';
+import { randomBytes } from 'crypto';
+import { LEVELS, Level } from 'src/app/level';
+import { GameSettings } from 'src/app/game_settings';
+import { RulesEngine } from 'src/app/rules_engine';
+import { SerializedAction, SerializedGameSettings, serializeGameSettings, deserializeGameSettings, deserializeAction } from 'src/app/replay';
+import { ClientMessage, ClientMessageType, ServerMessage, ServerMessageType, hashGameState, isClientMessage, throwBadClientMessage, LOBBY_CODE_LENGTH, LOBBY_CODE_LETTERS } from 'src/app/online/protocol';
+import { getObjectiveFormatProblems, isInteger, validateLevel } from 'src/app/level_file';
+import { ObjectiveSettings, getObjectiveTeamIndex } from 'src/app/objectives';
+
+/** How long a lobby is kept once nobody is connected to it. */
+const ABANDONED_LOBBY_TIMEOUT_MS = 5 * 60 * 1000;
+
+const HOST_TEAM_INDEX = 0;
+
+/** Biggest squad free play offers. */
+const MAX_SQUAD_SIZE = 24;
+
+interface Player {
+    readonly token: string;
+    readonly teamIndex: number;
+    /** Unset while disconnected. */
+    socket?: WebSocket;
+}
+
+interface Lobby {
+    readonly code: string;
+    readonly levelIndex: number;
+    readonly settings: GameSettings;
+    readonly players: Player[];
+    /** Runs the match too, so it's the authority on whose turn it is. */
+    rulesEngine?: RulesEngine;
+    actions: SerializedAction[];
+    /** Hash of the state after each number of actions, from 0. */
+    stateHashes: string[];
+    abandonedTimeout?: NodeJS.Timeout;
+}
+
+/**
+ * Pairs up online clients by lobby code and relays their actions.
+ * Each lobby replays the actions with its own RulesEngine, so
+ * out of turn or invalid actions are rejected and clients whose
+ * state hashes differ can be resynced.
+ */
+export class RelayServer {
+    private readonly server: WebSocket.Server;
+    private readonly codeToLobby = new Map<string, Lobby>();
+    private readonly socketToLobby = new Map<WebSocket, Lobby>();
+
+    constructor(params: { port: number }) {
+        this.server = new WebSocket.Server({ port: params.port });
+        this.server.on('connection', (socket: WebSocket) => {
+            socket.on('message', (data: WebSocket.Data) => {
+                this.onMessage(socket, data);
+            });
+            socket.on('close', () => {
+                this.onDisconnect(socket);
+            });
+        });
+    }
+
+    close(): void {
+        for (const lobby of this.codeToLobby.values()) {
+            this.removeLobby(lobby);
+        }
+        this.server.close();
+    }
+
+    private onMessage(socket: WebSocket, data: WebSocket.Data): void {
+        let message: unknown;
+        try {
+            message = JSON.parse(data.toString());
+        } catch (e) {
+            this.sendError(socket, 'Malformed message');
+            return;
+        }
+        if (!isClientMessage(message)) {
+            this.sendError(socket, 'Malformed message');
+            return;
+        }
+        // One bad message shouldn't take every other lobby down with it.
+        try {
+            this.handleMessage(socket, message);
+        } catch (e) {
+            this.sendError(socket, `Couldn't handle message: ${e.message}`);
+        }
+    }
+
+    private handleMessage(socket: WebSocket, message: ClientMessage): void {
+        switch (message.type) {
+            case ClientMessageType.CREATE_LOBBY:
+                this.createLobby(socket, message.levelIndex, message.settings);
+                break;
+            case ClientMessageType.JOIN_LOBBY:
+                this.joinLobby(socket, message.code.toUpperCase());
+                break;
+            case ClientMessageType.REJOIN_LOBBY:
+                this.rejoinLobby(socket, message.code, message.playerToken);
+                break;
+            case ClientMessageType.LEAVE_LOBBY:
+                this.leaveLobby(socket);
+                break;
+            case ClientMessageType.ACTION:
+                this.onAction(socket, message.actionIndex, message.action);
+                break;
+            case ClientMessageType.STATE_HASH:
+                this.onStateHash(socket, message.actionCount, message.hash);
+                break;
+            default:
+                throwBadClientMessage(message);
+        }
+    }
+
+    private createLobby(
+        socket: WebSocket,
+        levelIndex: number,
+        serializedSettings: SerializedGameSettings): void {
+
+        const level = LEVELS[levelIndex];
+        if (level == null) {
+            this.sendError(socket, `Unknown level: ${levelIndex}`);
+            return;
+        }
+        const settingsProblem = getSettingsProblem(level, serializedSettings);
+        if (settingsProblem != null) {
+            this.sendError(socket, `Invalid settings: ${settingsProblem}`);
+            return;
+        }
+        const settings = deserializeGameSettings(serializedSettings);
+        let code = createLobbyCode();
+        while (this.codeToLobby.has(code)) {
+            code = createLobbyCode();
+        }
+        const host: Player = {
+            token: createPlayerToken(),
+            teamIndex: HOST_TEAM_INDEX,
+            socket,
+        };
+        const lobby: Lobby = {
+            code,
+            levelIndex,
+            settings,
+            players: [host],
+            actions: [],
+            stateHashes: [],
+        };
+        this.codeToLobby.set(code, lobby);
+        this.socketToLobby.set(socket, lobby);
+        send(socket, {
+            type: ServerMessageType.LOBBY_CREATED,
+            code,
+            playerToken: host.token,
+        });
+    }
+
+    private joinLobby(socket: WebSocket, code: string): void {
+        const lobby = this.codeToLobby.get(code);
+        if (lobby == null) {
+            this.sendError(socket, `No lobby with code ${code}`);
+            return;
+        }
+        if (lobby.players.length >= lobby.settings.numTeams) {
+            this.sendError(socket, `Lobby ${code} is full`);
+            return;
+        }
+        // Players take the teams in the order they join.
+        const player: Player = {
+            token: createPlayerToken(),
+            teamIndex: lobby.players.length,
+            socket,
+        };
+        lobby.players.push(player);
+        this.socketToLobby.set(socket, lobby);
+        if (lobby.players.length < lobby.settings.numTeams) {
+            send(socket, {
+                type: ServerMessageType.LOBBY_CREATED,
+                code,
+                playerToken: player.token,
+            });
+            return;
+        }
+        const rulesEngine = new RulesEngine({
+            settings: lobby.settings,
+            level: LEVELS[lobby.levelIndex],
+        });
+        rulesEngine.start();
+        lobby.rulesEngine = rulesEngine;
+        lobby.stateHashes =
+            [hashGameState(rulesEngine.getSerializedState())];
+        for (const player of lobby.players) {
+            this.sendMatchStarted(lobby, player);
+        }
+    }
+
+    private rejoinLobby(
+        socket: WebSocket, code: string, playerToken: string): void {
+        const lobby = this.codeToLobby.get(code);
+        const player = lobby && lobby.players
+            .find((player) => player.token === playerToken);
+        if (lobby == null || player == null) {
+            this.sendError(socket, `Can't rejoin lobby ${code}`);
+            return;
+        }
+        // Also used by connected clients to fetch the whole match again.
+        const isReconnecting = player.socket !== socket;
+        if (player.socket != null && isReconnecting) {
+            this.socketToLobby.delete(player.socket);
+            player.socket.close();
+        }
+        player.socket = socket;
+        this.socketToLobby.set(socket, lobby);
+        if (lobby.abandonedTimeout != null) {
+            clearTimeout(lobby.abandonedTimeout);
+            lobby.abandonedTimeout = undefined;
+        }
+        if (lobby.rulesEngine == null) {
+            // Still waiting for players.
+            send(socket, {
+                type: ServerMessageType.LOBBY_CREATED,
+                code,
+                playerToken,
+            });
+            return;
+        }
+        this.sendMatchStarted(lobby, player);
+        if (isReconnecting) {
+            this.sendToOpponent(lobby, player,
+                { type: ServerMessageType.OPPONENT_RECONNECTED });
+        }
+    }
+
+    private leaveLobby(socket: WebSocket): void {
+        const lobby = this.socketToLobby.get(socket);
+        if (lobby == null) {
+            return;
+        }
+        const player = getPlayer(lobby, socket);
+        this.sendToOpponent(
+            lobby, player, { type: ServerMessageType.OPPONENT_LEFT });
+        this.removeLobby(lobby);
+    }
+
+    private onDisconnect(socket: WebSocket): void {
+        const lobby = this.socketToLobby.get(socket);
+        if (lobby == null) {
+            return;
+        }
+        this.socketToLobby.delete(socket);
+        const player = getPlayer(lobby, socket);
+        player.socket = undefined;
+        this.sendToOpponent(
+            lobby, player, { type: ServerMessageType.OPPONENT_DISCONNECTED });
+        if (lobby.players.every((player) => player.socket == null)) {
+            lobby.abandonedTimeout = setTimeout(() => {
+                this.removeLobby(lobby);
+            }, ABANDONED_LOBBY_TIMEOUT_MS);
+        }
+    }
+
+    private onAction(
+        socket: WebSocket,
+        actionIndex: number,
+        action: SerializedAction): void {
+
+        const lobby = this.socketToLobby.get(socket);
+        if (lobby == null || lobby.rulesEngine == null) {
+            this.sendError(socket, 'Not in a match');
+            return;
+        }
+        const rulesEngine = lobby.rulesEngine;
+        const player = getPlayer(lobby, socket);
+        if (actionIndex !== lobby.actions.length) {
+            this.rejectAction(lobby, player, 'Action is out of date');
+            return;
+        }
+        if (rulesEngine.gameState.currentTeamIndex !== player.teamIndex) {
+            this.rejectAction(lobby, player, `Not your team's turn`);
+            return;
+        }
+        try {
+            rulesEngine.applyAction(deserializeAction(action));
+        } catch (e) {
+            // The engine may have been left partway through the action.
+            this.rebuildRulesEngine(lobby);
+            this.rejectAction(lobby, player, `Invalid action: ${e.message}`);
+            return;
+        }
+        lobby.actions.push(action);
+        lobby.stateHashes.push(
+            hashGameState(rulesEngine.getSerializedState()));
+        this.sendToOpponent(lobby, player, {
+            type: ServerMessageType.ACTION,
+            actionIndex,
+            action,
+        });
+    }
+
+    private onStateHash(
+        socket: WebSocket, actionCount: number, hash: string): void {
+        const lobby = this.socketToLobby.get(socket);
+        if (lobby == null || actionCount >= lobby.stateHashes.length) {
+            // Client is ahead, its action will be rejected instead.
+            return;
+        }
+        if (lobby.stateHashes[actionCount] !== hash) {
+            send(socket, {
+                type: ServerMessageType.DESYNC,
+                actions: lobby.actions,
+            });
+        }
+    }
+
+    private rejectAction(lobby: Lobby, player: Player, reason: string): void {
+        if (player.socket == null) {
+            return;
+        }
+        send(player.socket, {
+            type: ServerMessageType.ACTION_REJECTED,
+            reason,
+            actions: lobby.actions,
+        });
+    }
+
+    private rebuildRulesEngine(lobby: Lobby): void {
+        const rulesEngine = new RulesEngine({
+            settings: lobby.settings,
+            level: LEVELS[lobby.levelIndex],
+        });
+        rulesEngine.start();
+        for (const action of lobby.actions) {
+            rulesEngine.applyAction(deserializeAction(action));
+        }
+        lobby.rulesEngine = rulesEngine;
+    }
+
+    private sendMatchStarted(lobby: Lobby, player: Player): void {
+        if (player.socket == null) {
+            return;
+        }
+        send(player.socket, {
+            type: ServerMessageType.MATCH_STARTED,
+            code: lobby.code,
+            playerToken: player.token,
+            teamIndex: player.teamIndex,
+            levelIndex: lobby.levelIndex,
+            settings: serializeGameSettings(lobby.settings),
+            actions: lobby.actions,
+        });
+    }
+
+    private sendToOpponent(
+        lobby: Lobby, player: Player, message: ServerMessage): void {
+        for (const other of lobby.players) {
+            if (other !== player && other.socket != null) {
+                send(other.socket, message);
+            }
+        }
+    }
+
+    private sendError(socket: WebSocket, message: string): void {
+        send(socket, { type: ServerMessageType.ERROR, message });
+    }
+
+    private removeLobby(lobby: Lobby): void {
+        if (lobby.abandonedTimeout != null) {
+            clearTimeout(lobby.abandonedTimeout);
+        }
+        for (const player of lobby.players) {
+            if (player.socket != null) {
+                this.socketToLobby.delete(player.socket);
+            }
+        }
+        this.codeToLobby.delete(lobby.code);
+    }
+}
+
+function send(socket: WebSocket, message: ServerMessage): void {
+    if (socket.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify(message));
+    }
+}
+
+function getPlayer(lobby: Lobby, socket: WebSocket): Player {
+    const player = lobby.players.find((player) => player.socket === socket);
+    if (player == null) {
+        throw new Error(`Socket isn't in lobby ${lobby.code}`);
+    }
+    return player;
+}
+
+/**
+ * Why the level can't be played with the client's settings, or null
+ * if it can. Checked up front, as RulesEngine throws on them only
+ * once the lobby is full.
+ */
+function getSettingsProblem(
+    level: Level, serialized: SerializedGameSettings): string | null {
+
+    const settings = serialized as { readonly [key: string]: unknown };
+    const numFlags = level.data.flags.length;
+    const numTeams = settings.numTeams;
+    if (!isInteger(numTeams) || numTeams < 2 || numTeams > numFlags) {
+        return `${level.name} is for 2 to ${numFlags} teams`;
+    }
+    const squadSizes = settings.teamIndexToSquadSize;
+    if (!Array.isArray(squadSizes) || !squadSizes.every(isSquadSize)) {
+        return 'Squad sizes must be pairs of team and size';
+    }
+    for (let teamIndex = 0; teamIndex < numTeams; teamIndex++) {
+        const squadSize = squadSizes
+            .find(([squadTeamIndex]) => squadTeamIndex === teamIndex);
+        if (squadSize == null
+            || squadSize[1] < 1
+            || squadSize[1] > MAX_SQUAD_SIZE) {
+            return `Each team needs a squad size of 1 to ${MAX_SQUAD_SIZE}`;
+        }
+    }
+    // Only set for local matches, online each team has its own player.
+    if (settings.teamControllers != null || settings.teamAlliances != null) {
+        return 'Online matches can\'t have team controllers or alliances';
+    }
+    for (const key of ['hasFogOfWar', 'hasSpawners', 'friendlyFire']) {
+        if (typeof settings[key] !== 'boolean') {
+            return `${key} must be true or false`;
+        }
+    }
+    if (!isInteger(settings.seed)) {
+        return 'Seed must be an integer';
+    }
+    if (settings.objective == null) {
+        return null;
+    }
+    const formatProblems = getObjectiveFormatProblems(settings.objective);
+    if (formatProblems.length) {
+        return formatProblems.join(', ');
+    }
+    const objective = settings.objective as ObjectiveSettings;
+    const objectiveTeamIndex = getObjectiveTeamIndex(objective);
+    if (objectiveTeamIndex != null && objectiveTeamIndex >= numTeams) {
+        return 'Objective is for a team not in the match';
+    }
+    // Same as a level's own objective, ie its tiles are open.
+    const levelProblems = validateLevel({
+        ...level,
+        data: { ...level.data, objective },
+    });
+    return levelProblems.length ? levelProblems.join(', ') : null;
+}
+
+function isSquadSize(value: unknown): value is [number, number] {
+    return Array.isArray(value)
+        && value.length === 2
+        && value.every((part: unknown) => isInteger(part));
+}
+
+function createLobbyCode(): string {
+    let code = '';
+    for (let i = 0; i < LOBBY_CODE_LENGTH; i++) {
+        code += LOBBY_CODE_LETTERS.charAt(
+            Math.floor(Math.random() * LOBBY_CODE_LETTERS.length));
+    }
+    return code;
+}
+
+function createPlayerToken(): string {
+    return randomBytes(16).toString('hex');
+}
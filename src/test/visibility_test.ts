@@ -0,0 +1,270 @@
+/// <reference types="node" />
+import * as assert from 'assert';
+import { Level } from 'src/app/level';
+import { DEFAULT_GAME_SETTINGS } from 'src/app/game_settings';
+import { RulesEngine } from 'src/app/rules_engine';
+import { ActionType } from 'src/app/actions';
+import { SelectedCharacterState } from 'src/app/game_state';
+import { GameEvent, GameEventType } from 'src/app/game_events';
+import { Visibility } from 'src/app/visibility';
+import { Character } from 'src/app/game_objects/character';
+import { TerrainType } from 'src/app/game_objects/terrain';
+import { SCOUT_CHARACTER_SETTINGS } from 'src/app/character_settings';
+import { Point } from 'src/app/math/point';
+import { Grid } from 'src/app/grid';
+
+/**
+ * Checks that nothing a team is shown, or can act on, gives away
+ * enemies hidden from it by fog of war.
+ */
+
+/**
+ * Open board with a patch of tall grass between the teams, and more
+ * around the first team's flag.
+ */
+const LEVEL: Level = {
+    name: 'Visibility test',
+    data: {
+        width: 12,
+        height: 7,
+        flags: [{ x: 6, y: 0 }, { x: 11, y: 3 }],
+        obstacles: [],
+        terrain: [
+            { x: 6, y: 3, type: TerrainType.TALL_GRASS },
+            { x: 6, y: 0, type: TerrainType.TALL_GRASS },
+        ],
+    },
+    aiSpawner: { x: 11, y: 0 },
+};
+/** Where the first team's scout is placed, in sight of the grass. */
+const SEEKER_TILE = new Point(2, 3);
+/** Where the second team's scout is placed, in the grass. */
+const HIDDEN_TILE = new Point(6, 3);
+
+/** Both scouts placed, on the first team's turn. */
+function startMatch(hasFogOfWar: boolean): RulesEngine {
+    const rulesEngine = new RulesEngine({
+        settings: {
+            ...DEFAULT_GAME_SETTINGS,
+            teamIndexToSquadSize: new Map([[0, 1], [1, 1]]),
+            hasFogOfWar,
+        },
+        level: LEVEL,
+    });
+    rulesEngine.start();
+    for (const tile of [SEEKER_TILE, HIDDEN_TILE]) {
+        rulesEngine.applyAction({
+            type: ActionType.SELECT_CHARACTER_CLASS,
+            class: SCOUT_CHARACTER_SETTINGS,
+        });
+        rulesEngine.applyAction({ type: ActionType.SELECT_TILE, tile });
+    }
+    return rulesEngine;
+}
+
+function getCharacters(rulesEngine: RulesEngine): {
+    seeker: Character;
+    hidden: Character;
+} {
+    const [seeker, hidden] = rulesEngine.gameState.characters;
+    assert.ok(seeker.tileCoords.equals(SEEKER_TILE));
+    assert.ok(hidden.tileCoords.equals(HIDDEN_TILE));
+    return { seeker, hidden };
+}
+
+function selectState(
+    rulesEngine: RulesEngine, state: SelectedCharacterState): void {
+
+    rulesEngine.applyAction({
+        type: ActionType.SELECT_CHARACTER_STATE,
+        state,
+    });
+}
+
+/** Puts characters where GameManager would be done animating them. */
+function finishAnimations(rulesEngine: RulesEngine): void {
+    for (const character of rulesEngine.gameState.characters) {
+        character.animationState.currentCenterCanvas =
+            Grid.getCanvasFromTileCoords(character.tileCoords)
+                .add(Grid.HALF_TILE);
+    }
+}
+
+function findEvent(events: GameEvent[], type: GameEventType): GameEvent {
+    const event = events.find((event) => event.type === type);
+    assert.ok(event != null, `No ${type} event`);
+    return event!;
+}
+
+function includesTile(tiles: Point[], tile: Point): boolean {
+    return tiles.some((other) => other.equals(tile));
+}
+
+function testTargetableCharacters(): void {
+    for (const hasFogOfWar of [true, false]) {
+        const rulesEngine = startMatch(hasFogOfWar);
+        const { hidden } = getCharacters(rulesEngine);
+        const targetableCharacters =
+            new Visibility(rulesEngine.gameState, 0)
+                .getTargetableCharacters();
+        assert.strictEqual(
+            targetableCharacters.indexOf(hidden) !== -1, !hasFogOfWar);
+    }
+}
+
+function testAimPath(): void {
+    for (const hasFogOfWar of [true, false]) {
+        const rulesEngine = startMatch(hasFogOfWar);
+        const { seeker } = getCharacters(rulesEngine);
+        selectState(rulesEngine, SelectedCharacterState.AIMING);
+        rulesEngine.applyAction({
+            type: ActionType.AIM,
+            aimAngleClockwiseRadians: 0,
+        });
+        // GameManager has the aim path recalculated on each update.
+        seeker.update(0);
+        const aimTiles = seeker.getAimPath().map((target) => {
+            return Grid.getTileFromCanvasCoords(target.canvasCoords);
+        });
+        // Shots go on past the grass unless they hit what's in it.
+        const firstTile = aimTiles[0];
+        if (hasFogOfWar) {
+            assert.ok(firstTile.x > HIDDEN_TILE.x, firstTile.toString());
+        } else {
+            assert.ok(firstTile.equals(HIDDEN_TILE), firstTile.toString());
+            assert.strictEqual(aimTiles.length, 1);
+        }
+    }
+}
+
+function testMovementTiles(): void {
+    const rulesEngine = startMatch(/* hasFogOfWar= */ true);
+    selectState(rulesEngine, SelectedCharacterState.MOVING);
+    assert.ok(includesTile(
+        rulesEngine.gameState.selectableTiles, HIDDEN_TILE));
+
+    const withoutFog = startMatch(/* hasFogOfWar= */ false);
+    selectState(withoutFog, SelectedCharacterState.MOVING);
+    assert.ok(!includesTile(
+        withoutFog.gameState.selectableTiles, HIDDEN_TILE));
+}
+
+function testRunningIntoHiddenEnemy(): void {
+    const rulesEngine = startMatch(/* hasFogOfWar= */ true);
+    const { seeker, hidden } = getCharacters(rulesEngine);
+    selectState(rulesEngine, SelectedCharacterState.MOVING);
+    rulesEngine.applyAction({
+        type: ActionType.SELECT_TILE,
+        tile: new Point(7, 3),
+    });
+    assert.ok(seeker.tileCoords.equals(new Point(5, 3)));
+    assert.ok(hidden.tileCoords.equals(HIDDEN_TILE));
+    assert.ok(new Visibility(rulesEngine.gameState, 0)
+        .isCharacterVisible(hidden));
+}
+
+function testGrenadeTiles(): void {
+    const selectableTiles = [true, false].map((hasFogOfWar) => {
+        const rulesEngine = startMatch(hasFogOfWar);
+        selectState(rulesEngine, SelectedCharacterState.THROWING_GRENADE);
+        return rulesEngine.gameState.selectableTiles
+            .map((tile) => tile.toString())
+            .sort();
+    });
+    assert.deepStrictEqual(selectableTiles[0], selectableTiles[1]);
+}
+
+function testRenderedCharacters(): void {
+    const rulesEngine = startMatch(/* hasFogOfWar= */ true);
+    const { seeker, hidden } = getCharacters(rulesEngine);
+    const seekerVisibility = new Visibility(rulesEngine.gameState, 0);
+    const hiddenVisibility = new Visibility(rulesEngine.gameState, 1);
+    assert.ok(seekerVisibility.isAnimatingCharacterVisible(seeker));
+    assert.ok(!seekerVisibility.isAnimatingCharacterVisible(hidden));
+    assert.ok(hiddenVisibility.isAnimatingCharacterVisible(hidden));
+}
+
+function testOverwatchEvents(): void {
+    const rulesEngine = startMatch(/* hasFogOfWar= */ true);
+    rulesEngine.applyAction({ type: ActionType.END_CHARACTER_TURN });
+    selectState(rulesEngine, SelectedCharacterState.OVERWATCH);
+    rulesEngine.applyAction({
+        type: ActionType.AIM,
+        aimAngleClockwiseRadians: Math.PI,
+    });
+    const overwatchSet = findEvent(
+        rulesEngine.applyAction({ type: ActionType.OVERWATCH }),
+        GameEventType.OVERWATCH_SET);
+    const seekerVisibility = new Visibility(rulesEngine.gameState, 0);
+    const hiddenVisibility = new Visibility(rulesEngine.gameState, 1);
+    assert.ok(!seekerVisibility.isEventVisible(overwatchSet));
+    assert.ok(hiddenVisibility.isEventVisible(overwatchSet));
+
+    // Being shot at from the grass is still news to the target.
+    selectState(rulesEngine, SelectedCharacterState.MOVING);
+    const overwatchTriggered = findEvent(
+        rulesEngine.applyAction({
+            type: ActionType.SELECT_TILE,
+            tile: new Point(3, 3),
+        }),
+        GameEventType.OVERWATCH_TRIGGERED);
+    assert.ok(seekerVisibility.isEventVisible(overwatchTriggered));
+}
+
+function testFlagAndHealEvents(): void {
+    const rulesEngine = startMatch(/* hasFogOfWar= */ true);
+    rulesEngine.applyAction({ type: ActionType.END_CHARACTER_TURN });
+    const events = rulesEngine.applyAction({
+        type: ActionType.HEAL,
+        healAmount: 1,
+    });
+    const characterHealed =
+        findEvent(events, GameEventType.CHARACTER_HEALED);
+    selectState(rulesEngine, SelectedCharacterState.MOVING);
+    const enemyFlag = rulesEngine.gameState.flags[0];
+    const flagTaken = findEvent(
+        rulesEngine.applyAction({
+            type: ActionType.SELECT_TILE,
+            tile: enemyFlag.tileCoords,
+        }),
+        GameEventType.FLAG_TAKEN);
+    finishAnimations(rulesEngine);
+
+    const seekerVisibility = new Visibility(rulesEngine.gameState, 0);
+    const hiddenVisibility = new Visibility(rulesEngine.gameState, 1);
+    for (const event of [characterHealed, flagTaken]) {
+        assert.ok(!seekerVisibility.isEventVisible(event), event.type);
+        assert.ok(hiddenVisibility.isEventVisible(event), event.type);
+    }
+    // Drawn in the grass, the flag would show where its carrier is.
+    assert.ok(!seekerVisibility.isFlagVisible(enemyFlag));
+    assert.ok(hiddenVisibility.isFlagVisible(enemyFlag));
+    assert.ok(seekerVisibility
+        .isFlagVisible(rulesEngine.gameState.flags[1]));
+}
+
+const TESTS: Array<[string, () => void]> = [
+    ['targetable characters', testTargetableCharacters],
+    ['aim path', testAimPath],
+    ['movement tiles', testMovementTiles],
+    ['running into a hidden enemy', testRunningIntoHiddenEnemy],
+    ['grenade tiles', testGrenadeTiles],
+    ['rendered characters', testRenderedCharacters],
+    ['overwatch events', testOverwatchEvents],
+    ['flag and heal events', testFlagAndHealEvents],
+];
+
+let numFailed = 0;
+for (const [name, test] of TESTS) {
+    try {
+        test();
+        console.log(`Passed: ${name}`);
+    } catch (e) {
+        numFailed++;
+        console.log(`Failed: ${name}\n${e.stack}`);
+    }
+}
+console.log(`${TESTS.length - numFailed} of ${TESTS.length} passed`);
+if (numFailed) {
+    process.exitCode = 1;
+}
@@ -0,0 +1,37 @@
+const path = require('path');
+const common = require('./webpack.common.js');
+
+/** Bundles the level analysis report to run with Node. */
+module.exports = {
+    mode: 'production',
+    target: 'node',
+    entry: {
+        analyze_levels: './src/analysis/analyze_levels.ts',
+    },
+    output: {
+        filename: '[name].js',
+        path: path.resolve(__dirname, 'dist-analysis'),
+    },
+    // Readable stack traces if analyzing a level fails.
+    optimization: {
+        minimize: false,
+    },
+    module: {
+        rules: [
+            {
+                test: /\.tsx?$/,
+                use: 'ts-loader',
+                exclude: /node_modules/,
+            },
+            // Levels pull in textures, which the report never draws.
+            {
+                test: /\.(png|svg|jpg|gif)$/,
+                loader: 'file-loader',
+                options: {
+                    emitFile: false,
+                },
+            },
+        ],
+    },
+    resolve: common.resolve,
+};
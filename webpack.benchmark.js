@@ -0,0 +1,37 @@
+const path = require('path');
+const common = require('./webpack.common.js');
+
+/** Bundles the pathfinding benchmark to run with Node. */
+module.exports = {
+    mode: 'production',
+    target: 'node',
+    entry: {
+        pathfinding_benchmark: './src/benchmark/pathfinding_benchmark.ts',
+    },
+    output: {
+        filename: '[name].js',
+        path: path.resolve(__dirname, 'dist-benchmark'),
+    },
+    // Readable stack traces if a search disagrees with the legacy one.
+    optimization: {
+        minimize: false,
+    },
+    module: {
+        rules: [
+            {
+                test: /\.tsx?$/,
+                use: 'ts-loader',
+                exclude: /node_modules/,
+            },
+            // Levels pull in textures, which the benchmark never draws.
+            {
+                test: /\.(png|svg|jpg|gif)$/,
+                loader: 'file-loader',
+                options: {
+                    emitFile: false,
+                },
+            },
+        ],
+    },
+    resolve: common.resolve,
+};
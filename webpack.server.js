@@ -0,0 +1,37 @@
+const path = require('path');
+const common = require('./webpack.common.js');
+
+/** Bundles the online relay server to run with Node. */
+module.exports = {
+    mode: 'development',
+    target: 'node',
+    entry: {
+        relay_server: './src/server/main.ts',
+    },
+    output: {
+        filename: '[name].js',
+        path: path.resolve(__dirname, 'dist-server'),
+    },
+    module: {
+        rules: [
+            {
+                test: /\.tsx?$/,
+                use: 'ts-loader',
+                exclude: /node_modules/,
+            },
+            // Levels pull in textures, which the server never draws.
+            {
+                test: /\.(png|svg|jpg|gif)$/,
+                loader: 'file-loader',
+                options: {
+                    emitFile: false,
+                },
+            },
+        ],
+    },
+    resolve: common.resolve,
+    // Left to Node to load, along with its optional native addons.
+    externals: {
+        ws: 'commonjs ws',
+    },
+};
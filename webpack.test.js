@@ -0,0 +1,33 @@
+const path = require('path');
+const common = require('./webpack.common.js');
+
+/** Bundles the headless tests to run with Node. */
+module.exports = {
+    mode: 'development',
+    target: 'node',
+    entry: {
+        visibility_test: './src/test/visibility_test.ts',
+    },
+    output: {
+        filename: '[name].js',
+        path: path.resolve(__dirname, 'dist-test'),
+    },
+    module: {
+        rules: [
+            {
+                test: /\.tsx?$/,
+                use: 'ts-loader',
+                exclude: /node_modules/,
+            },
+            // Levels pull in textures, which the tests never draw.
+            {
+                test: /\.(png|svg|jpg|gif)$/,
+                loader: 'file-loader',
+                options: {
+                    emitFile: false,
+                },
+            },
+        ],
+    },
+    resolve: common.resolve,
+};